@@ -34,3 +34,26 @@ export class UnsupportedLanguageError extends FormatError {
     Object.setPrototypeOf(this, new.target.prototype);
   }
 }
+
+/**
+ * Error thrown when a document cannot be parsed
+ */
+export class ParseError extends FormatError {
+  /**
+   * Creates a new ParseError instance
+   * @param message - The parser error message
+   * @param languageId - The language identifier of the document
+   * @param line - The 1-based line where parsing failed
+   * @param column - The 1-based column where parsing failed
+   */
+  constructor(
+    message: string,
+    languageId: string,
+    public readonly line: number,
+    public readonly column: number
+  ) {
+    super(`${message} at line ${line}, column ${column}`, languageId);
+    this.name = "ParseError";
+    Object.setPrototypeOf(this, new.target.prototype);
+  }
+}
@@ -13,6 +13,8 @@ import { JavaScriptFormatter } from "./formatters/javascript-formatter";
 import { JsonFormatter } from "./formatters/json-formatter";
 import { XmlFormatter } from "./formatters/xml-formatter";
 import { HtmlFormatter } from "./formatters/html-formatter";
+import { ComponentFormatter } from "./formatters/component-formatter";
+import { CssFormatter } from "./formatters/css-formatter";
 import { PythonFormatter } from "./formatters/python-formatter";
 import { MarkdownFormatter } from "./formatters/markdown-formatter";
 import { YamlFormatter } from "./formatters/yaml-formatter";
@@ -154,9 +156,23 @@ async function registerFormatters(): Promise<void> {
     (formatService as any).registerFormatter(new JavaScriptFormatter() as any);
     (formatService as any).registerFormatter(new JsonFormatter() as any);
     (formatService as any).registerFormatter(new XmlFormatter() as any);
-    (formatService as any).registerFormatter(new HtmlFormatter() as any);
+    (formatService as any).registerFormatter(
+      new HtmlFormatter((languageId) =>
+        (formatService as any).getFormatter(languageId)
+      ) as any
+    );
+    (formatService as any).registerFormatter(
+      new ComponentFormatter((languageId) =>
+        (formatService as any).getFormatter(languageId)
+      ) as any
+    );
+    (formatService as any).registerFormatter(new CssFormatter() as any);
     (formatService as any).registerFormatter(new PythonFormatter() as any);
-    (formatService as any).registerFormatter(new MarkdownFormatter() as any);
+    (formatService as any).registerFormatter(
+      new MarkdownFormatter((languageId) =>
+        (formatService as any).getFormatter(languageId)
+      ) as any
+    );
     (formatService as any).registerFormatter(new YamlFormatter() as any);
 
     // **Register Universal Formatter with configuration-based discovery**
@@ -238,7 +254,7 @@ async function registerFormatProviders(
 
   try {
     const config = configService.getConfig();
-    const provider = new DocumentFormatProvider(formatService);
+    const provider = new DocumentFormatProvider(formatService, configService);
 
     // **Register for each enabled language**
     for (const languageId of config.enabledLanguages) {
@@ -326,6 +342,14 @@ async function registerCommands(
       }
     );
 
+    // **Explain Configuration Command**
+    const explainConfigCommand = vscode.commands.registerCommand(
+      "formatMaster.explainConfiguration",
+      async () => {
+        await explainConfiguration();
+      }
+    );
+
     // **Export Configuration Command**
     const exportConfigCommand = vscode.commands.registerCommand(
       "formatMaster.exportConfiguration",
@@ -405,6 +429,7 @@ async function registerCommands(
       configWizardCommand,
       previewFormattingCommand,
       validateConfigCommand,
+      explainConfigCommand,
       exportConfigCommand,
       importConfigCommand,
       formatWorkspaceCommand,
@@ -854,6 +879,45 @@ async function validateConfiguration(): Promise<void> {
   }
 }
 
+/**
+ * **Show the settings used for the active document and where each comes from**
+ */
+async function explainConfiguration(): Promise<void> {
+  const { loggingService, configService } = extensionContext;
+  const editor = vscode.window.activeTextEditor;
+
+  if (!editor) {
+    vscode.window.showWarningMessage("No active editor found");
+    return;
+  }
+
+  try {
+    const { languageId, uri } = editor.document;
+    const workspaceFolder =
+      vscode.workspace.getWorkspaceFolder(uri)?.uri.fsPath;
+    const items = configService
+      .explainLanguageConfig(languageId, workspaceFolder)
+      .map(
+        ({ setting, value, source }) =>
+          `${setting}: ${JSON.stringify(value)} (${source})`
+      );
+
+    loggingService.info(
+      `Configuration for ${languageId}:\n${items.join("\n")}`
+    );
+    await vscode.window.showQuickPick(items, {
+      placeHolder: `Settings applied to ${languageId} files`,
+      title: "Format Master Configuration",
+    });
+  } catch (error) {
+    loggingService.error(
+      "Failed to explain configuration",
+      error instanceof Error ? error : new Error(String(error))
+    );
+    vscode.window.showErrorMessage("Failed to explain configuration");
+  }
+}
+
 /**
  * **Export configuration**
  */
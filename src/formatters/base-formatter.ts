@@ -120,6 +120,7 @@ export abstract class BaseFormatter implements IFormatter {
       linesProcessed: text.split("\n").length,
       charactersProcessed: text.length,
       fromCache: false,
+      text,
     };
   }
 
@@ -152,9 +153,11 @@ export abstract class BaseFormatter implements IFormatter {
 
   /**
    * **Validate syntax of the given text**
+   * Options, when given, describe the document being validated
    */
   public abstract validateSyntax(
     content: string,
-    languageId: string
+    languageId: string,
+    options?: FormatOptions
   ): Promise<ValidationResult>;
 }
@@ -0,0 +1,60 @@
+import { HtmlFormatter } from "./html-formatter";
+import {
+  FormatOptions,
+  FormatOptionDescriptor,
+  HtmlSyntaxIssue,
+} from "../types";
+import { HtmlValidator } from "../utils/html-validator";
+import { TemplateFlavor, TemplateSyntax } from "../utils/template-syntax";
+
+/**
+ * **Formatter for Vue and Svelte single-file components**
+ *
+ * Lays out the markup with directive-aware attribute handling and sends
+ * `<script>` and `<style>` blocks to the formatters for their `lang`.
+ */
+export class ComponentFormatter extends HtmlFormatter {
+  public readonly name: string = "component";
+  public readonly supportedLanguages: string[] = ["vue", "svelte"];
+
+  public getSupportedOptions(): FormatOptionDescriptor[] {
+    return [
+      ...super.getSupportedOptions(),
+      {
+        name: "indentScriptAndStyle",
+        type: "boolean",
+        default: false,
+        required: false,
+        description:
+          "Indent the content of top-level <script> and <style> blocks",
+      },
+    ];
+  }
+
+  /**
+   * **Structural problems, with any element allowed to self-close**
+   * Brace expressions may contain ">", so they are blanked out first
+   */
+  protected validateMarkup(content: string): HtmlSyntaxIssue[] {
+    return HtmlValidator.validate(TemplateSyntax.mask(content), {
+      allowSelfClosing: true,
+    });
+  }
+
+  protected getTemplateFlavor(options: FormatOptions): TemplateFlavor {
+    return options.languageId === "svelte" ? "svelte" : "vue";
+  }
+
+  /**
+   * **Leave top-level blocks unindented unless configured otherwise**
+   */
+  protected getEmbeddedIndent(
+    tagIndent: string,
+    unit: string,
+    options: FormatOptions
+  ): string {
+    return tagIndent === "" && !options.customRules?.indentScriptAndStyle
+      ? ""
+      : tagIndent + unit;
+  }
+}
@@ -0,0 +1,553 @@
+import postcss, {
+  AtRule,
+  ChildNode,
+  Container,
+  CssSyntaxError,
+  Declaration,
+  Root,
+  Rule,
+} from "postcss";
+import autoprefixer = require("autoprefixer");
+import { BaseFormatter } from "./base-formatter";
+import {
+  FormatOptions,
+  FormatResult,
+  FormatOptionDescriptor,
+  ValidationResult,
+  ValidationError,
+  DiagnosticLevel,
+  FormatterPriority,
+  ParseError,
+} from "../types";
+import { FormatError } from "../errors/format-error";
+import { StylesheetSyntax } from "../utils/stylesheet-syntax";
+import {
+  CSS_PROPERTY_RANKS,
+  CssPropertyOrder,
+} from "../utils/css-property-order";
+
+/**
+ * **Declaration sorted together with the comments attached to it**
+ * Comments on their own line travel with the declaration below them,
+ * trailing comments with the one before them
+ */
+interface DeclarationGroup {
+  declaration: Declaration;
+  nodes: ChildNode[];
+}
+
+/**
+ * **Functions whose arguments need their units, even when zero**
+ */
+const MATH_FUNCTIONS = new Set(["calc", "min", "max", "clamp"]);
+
+const LENGTH_UNITS =
+  "px|em|rem|ex|ch|vw|vh|vmin|vmax|vi|vb|svh|svw|lvh|lvw|dvh|dvw|cm|mm|q|in|pt|pc";
+const ZERO_LENGTH_PATTERN = new RegExp(
+  `(^|[\\s,(/])[+-]?(?:0+\\.?0*|\\.0+)(?:${LENGTH_UNITS})(?![\\w%.-])`,
+  "gi"
+);
+const HEX_COLOR_PATTERN = /#([0-9a-f]+)(?![\w-])/gi;
+
+/**
+ * **Formatter for CSS, SCSS and Less stylesheets**
+ *
+ * Parses with postcss and prints the tree back with normalized layout.
+ * cssbeautify is not used for layout because it mangles nested rules.
+ */
+export class CssFormatter extends BaseFormatter {
+  public readonly name = "css";
+  public readonly priority = FormatterPriority.NORMAL;
+  public readonly supportedLanguages = ["css", "scss", "less"];
+
+  public async formatText(
+    text: string,
+    options: FormatOptions
+  ): Promise<FormatResult> {
+    const startTime = Date.now();
+    const syntax = new StylesheetSyntax(options.languageId);
+
+    try {
+      let root = this.parse(
+        this.preprocess(text, options),
+        syntax,
+        options.languageId
+      );
+
+      // **Add vendor prefixes before normalizing so they are laid out too**
+      if (options.customRules?.autoprefixer) {
+        const result = await postcss([
+          autoprefixer({
+            overrideBrowserslist:
+              options.customRules.browserslist ?? "defaults",
+            cascade: false,
+          }),
+        ]).process(root, { from: undefined });
+        root = result.root;
+      }
+
+      this.normalizeValues(root, options);
+      const order: CssPropertyOrder =
+        options.customRules?.propertyOrder ?? "none";
+      if (order !== "none") {
+        root.walk((node) => {
+          if (node.type === "rule" || node.type === "atrule") {
+            this.sortDeclarations(node, order);
+          }
+        });
+      }
+
+      const unit = options.insertSpaces
+        ? " ".repeat(options.tabSize || 2)
+        : "\t";
+      this.layout(root, 0, unit);
+      root.raws.after = "";
+
+      const finalText = this.postprocess(
+        syntax.restore(root.toString()),
+        options
+      );
+      const result = this.createSuccessResult(finalText);
+      result.executionTime = Date.now() - startTime;
+      return result;
+    } catch (error) {
+      if (error instanceof ParseError) {
+        return this.createErrorResult(error);
+      }
+      return this.createErrorResult(
+        new FormatError(
+          `CSS formatting failed: ${error instanceof Error ? error.message : "Unknown error"}`,
+          options.languageId,
+          error instanceof Error ? error : undefined
+        )
+      );
+    }
+  }
+
+  public async format(
+    text: string,
+    options: FormatOptions
+  ): Promise<FormatResult> {
+    return this.formatText(text, options);
+  }
+
+  public getSupportedOptions(): FormatOptionDescriptor[] {
+    return [
+      {
+        name: "propertyOrder",
+        type: "string",
+        default: "none",
+        required: false,
+        description: "Order to sort declarations into within each rule",
+        options: ["none", "alphabetical", "concentric", "smacss"],
+      },
+      {
+        name: "normalizeColors",
+        type: "boolean",
+        default: true,
+        required: false,
+        description:
+          "Lowercase hex colors and use the short form when possible",
+      },
+      {
+        name: "stripZeroUnits",
+        type: "boolean",
+        default: true,
+        required: false,
+        description: "Remove units from zero lengths, e.g. 0px becomes 0",
+      },
+      {
+        name: "autoprefixer",
+        type: "boolean",
+        default: false,
+        required: false,
+        description: "Add vendor prefixes with autoprefixer",
+      },
+      {
+        name: "browserslist",
+        type: "string",
+        default: "defaults",
+        required: false,
+        description: "Browserslist query the autoprefixer pass targets",
+      },
+    ];
+  }
+
+  public getVersion(): string {
+    return "1.0.0";
+  }
+
+  public async validateSyntax(
+    content: string,
+    languageId: string
+  ): Promise<ValidationResult> {
+    const errors: ValidationError[] = [];
+    try {
+      this.parse(content, new StylesheetSyntax(languageId), languageId);
+    } catch (error) {
+      errors.push({
+        code: "CSS_SYNTAX_ERROR",
+        message: error instanceof Error ? error.message : "Invalid CSS syntax",
+        line: error instanceof ParseError ? error.line : 0,
+        column: error instanceof ParseError ? error.column : 0,
+        severity: DiagnosticLevel.ERROR,
+        source: this.name,
+      });
+    }
+
+    return {
+      isValid: errors.length === 0,
+      errors,
+      warnings: [],
+      suggestions: [],
+      executionTime: 0,
+    };
+  }
+
+  /**
+   * **Parse a stylesheet with its preprocessor syntax protected**
+   * Errors are reported against the original text
+   */
+  private parse(
+    text: string,
+    syntax: StylesheetSyntax,
+    languageId: string
+  ): Root {
+    const protectedText = syntax.protect(text);
+    try {
+      return postcss.parse(protectedText);
+    } catch (error) {
+      if (!(error instanceof CssSyntaxError) || error.line === undefined) {
+        throw error;
+      }
+      const lines = protectedText.split("\n").slice(0, error.line - 1);
+      const offset = syntax.getOriginalOffset(
+        lines.reduce((total, line) => total + line.length + 1, 0) +
+          (error.column ?? 1) -
+          1
+      );
+      const before = text.slice(0, offset).split("\n");
+      throw new ParseError(
+        error.reason,
+        languageId,
+        before.length,
+        before[before.length - 1].length + 1
+      );
+    }
+  }
+
+  /**
+   * **Normalize colors, zero lengths and spacing in declaration values**
+   */
+  private normalizeValues(root: Root, options: FormatOptions): void {
+    const normalizeColors = options.customRules?.normalizeColors !== false;
+    const stripZeroUnits = options.customRules?.stripZeroUnits !== false;
+
+    root.walkDecls((declaration) => {
+      // **Custom properties keep their value exactly as written**
+      if (declaration.prop.startsWith("--")) {
+        return;
+      }
+      const isVariable = declaration.prop.startsWith("$");
+      const singleLine = !declaration.value.includes("\n");
+
+      const value = this.transformValue(declaration.value, (chunk, inMath) => {
+        let result = singleLine ? chunk.replace(/\s+/g, " ") : chunk;
+        if (normalizeColors) {
+          result = result.replace(HEX_COLOR_PATTERN, (match, digits) =>
+            CssFormatter.normalizeHexColor(match, digits)
+          );
+        }
+        if (stripZeroUnits && !inMath && !isVariable) {
+          result = result.replace(
+            ZERO_LENGTH_PATTERN,
+            (match, boundary: string) => `${boundary}0`
+          );
+        }
+        return result;
+      });
+      if (value !== declaration.value) {
+        declaration.value = value;
+      }
+    });
+
+    // **Less variables are parsed as at-rules named after the variable**
+    if (normalizeColors) {
+      root.walkAtRules((atRule) => {
+        if (atRule.name.endsWith(":")) {
+          atRule.params = this.transformValue(atRule.params, (chunk) =>
+            chunk.replace(HEX_COLOR_PATTERN, (match, digits) =>
+              CssFormatter.normalizeHexColor(match, digits)
+            )
+          );
+        }
+      });
+    }
+  }
+
+  /**
+   * **Apply a transform to the parts of a value outside strings and URLs**
+   * The transform is told whether the part is inside a math function
+   */
+  private transformValue(
+    value: string,
+    transform: (chunk: string, inMath: boolean) => string
+  ): string {
+    const functions: string[] = [];
+    let output = "";
+    let chunk = "";
+    const flush = () => {
+      output += transform(
+        chunk,
+        functions.some((name) => MATH_FUNCTIONS.has(name))
+      );
+      chunk = "";
+    };
+
+    for (let index = 0; index < value.length; index++) {
+      const char = value[index];
+      if (char === '"' || char === "'") {
+        flush();
+        let end = index + 1;
+        while (end < value.length && value[end] !== char) {
+          end += value[end] === "\\" ? 2 : 1;
+        }
+        output += value.slice(index, end + 1);
+        index = end;
+      } else if (char === "(") {
+        const name = /[\w-]*$/.exec(chunk)![0].toLowerCase();
+        if (name === "url") {
+          flush();
+          const close = value.indexOf(")", index);
+          const end = close < 0 ? value.length : close + 1;
+          output += value.slice(index, end);
+          index = end - 1;
+          continue;
+        }
+        chunk += char;
+        flush();
+        functions.push(name.replace(/^-\w+-/, ""));
+      } else if (char === ")") {
+        flush();
+        functions.pop();
+        chunk += char;
+      } else {
+        chunk += char;
+      }
+    }
+    flush();
+    return output;
+  }
+
+  /**
+   * **Sort the declarations of a rule in each run between other statements**
+   * Nested rules, variables and mixin calls stay where they are, since
+   * moving declarations across them can change the cascade
+   */
+  private sortDeclarations(container: Container, order: CssPropertyOrder) {
+    const sorted: ChildNode[] = [];
+    let run: DeclarationGroup[] = [];
+    let pending: ChildNode[] = [];
+    const flushRun = () => {
+      run.sort((a, b) => this.compareProperties(a, b, order));
+      sorted.push(...run.flatMap((group) => group.nodes));
+      run = [];
+    };
+
+    for (const node of container.nodes ?? []) {
+      if (node.type === "comment" && !StylesheetSyntax.isStatement(node.text)) {
+        const previous = run[run.length - 1];
+        if (
+          previous &&
+          pending.length === 0 &&
+          !(node.raws.before ?? "").includes("\n")
+        ) {
+          previous.nodes.push(node);
+        } else {
+          pending.push(node);
+        }
+      } else if (node.type === "decl" && this.isSortable(node)) {
+        run.push({ declaration: node, nodes: [...pending, node] });
+        pending = [];
+      } else {
+        flushRun();
+        sorted.push(...pending, node);
+        pending = [];
+      }
+    }
+    flushRun();
+    sorted.push(...pending);
+
+    if (sorted.some((node, index) => container.nodes![index] !== node)) {
+      container.removeAll();
+      container.append(sorted);
+    }
+  }
+
+  private isSortable(declaration: Declaration): boolean {
+    return (
+      !/^(?:--|\$)/.test(declaration.prop) &&
+      !StylesheetSyntax.isInterpolated(declaration.prop)
+    );
+  }
+
+  /**
+   * **Compare two declarations by property name**
+   * Vendor-prefixed properties sort with their standard property, before it
+   */
+  private compareProperties(
+    a: DeclarationGroup,
+    b: DeclarationGroup,
+    order: CssPropertyOrder
+  ): number {
+    const propA = a.declaration.prop.toLowerCase();
+    const propB = b.declaration.prop.toLowerCase();
+    const nameA = propA.replace(/^-\w+-/, "");
+    const nameB = propB.replace(/^-\w+-/, "");
+
+    if (order === "concentric" || order === "smacss") {
+      const ranks = CSS_PROPERTY_RANKS[order];
+      const rankA = ranks.get(nameA) ?? ranks.size;
+      const rankB = ranks.get(nameB) ?? ranks.size;
+      if (rankA !== rankB) {
+        return rankA - rankB;
+      }
+    }
+    if (nameA !== nameB) {
+      return nameA < nameB ? -1 : 1;
+    }
+    return Number(propB.startsWith("-")) - Number(propA.startsWith("-"));
+  }
+
+  /**
+   * **Set the whitespace of every node so the tree prints formatted**
+   */
+  private layout(container: Container, depth: number, unit: string): void {
+    const indent = unit.repeat(depth);
+    let previous: ChildNode | undefined;
+
+    container.each((node) => {
+      const before = node.raws.before ?? "";
+      if (
+        previous &&
+        node.type === "comment" &&
+        !StylesheetSyntax.isStatement(node.text) &&
+        !before.includes("\n")
+      ) {
+        // **A comment on the same line as a statement stays there**
+        node.raws.before = " ";
+        return;
+      }
+
+      const blankLine =
+        previous !== undefined &&
+        (before.split("\n").length > 2 ||
+          (depth === 0 &&
+            (this.isBlock(previous) ||
+              (this.isBlock(node) && previous.type !== "comment"))));
+      node.raws.before =
+        previous === undefined && depth === 0
+          ? ""
+          : `${blankLine ? "\n\n" : "\n"}${indent}`;
+
+      if (node.type === "decl") {
+        node.raws.between = ": ";
+        if (node.important) {
+          node.raws.important = " !important";
+        }
+        if (node.raws.value) {
+          node.raws.value.raw = node.raws.value.raw.trim();
+        }
+      } else if (node.type === "rule") {
+        node.selector = this.formatSelector(node.selector, indent);
+        this.layoutBlock(node, depth, unit);
+      } else if (node.type === "atrule") {
+        node.params = this.collapseWhitespace(node.params.trim());
+        node.raws.afterName = node.params ? " " : "";
+        if (node.nodes) {
+          this.layoutBlock(node, depth, unit);
+        } else {
+          node.raws.between = "";
+        }
+      }
+      previous = node;
+    });
+  }
+
+  private layoutBlock(node: Rule | AtRule, depth: number, unit: string): void {
+    node.raws.between = " ";
+    node.raws.semicolon = true;
+    node.raws.after = node.nodes?.length ? `\n${unit.repeat(depth)}` : "";
+    this.layout(node, depth + 1, unit);
+  }
+
+  private isBlock(node: ChildNode): boolean {
+    return (node.type === "rule" || node.type === "atrule") && !!node.nodes;
+  }
+
+  /**
+   * **Put each selector of a list on its own line**
+   */
+  private formatSelector(selector: string, indent: string): string {
+    const selectors: string[] = [];
+    let current = "";
+    let depth = 0;
+    let quote = "";
+
+    for (const char of selector) {
+      if (quote) {
+        quote = char === quote ? "" : quote;
+      } else if (char === '"' || char === "'") {
+        quote = char;
+      } else if (char === "(" || char === "[") {
+        depth++;
+      } else if (char === ")" || char === "]") {
+        depth--;
+      } else if (char === "," && depth === 0) {
+        selectors.push(current);
+        current = "";
+        continue;
+      }
+      current += char;
+    }
+    selectors.push(current);
+
+    return selectors
+      .map((part) => this.collapseWhitespace(part.trim()))
+      .join(`,\n${indent}`);
+  }
+
+  /**
+   * **Collapse runs of whitespace outside string literals**
+   */
+  private collapseWhitespace(text: string): string {
+    let output = "";
+    let quote = "";
+
+    for (const char of text) {
+      if (quote) {
+        quote = char === quote ? "" : quote;
+        output += char;
+      } else if (/\s/.test(char)) {
+        output += /\s$/.test(output) ? "" : " ";
+      } else {
+        quote = char === '"' || char === "'" ? char : "";
+        output += char;
+      }
+    }
+    return output;
+  }
+
+  /**
+   * **Lowercase a hex color and shorten it when every channel repeats**
+   */
+  private static normalizeHexColor(match: string, digits: string): string {
+    if (![3, 4, 6, 8].includes(digits.length)) {
+      return match;
+    }
+    const hex = digits.toLowerCase();
+    return hex.length > 4 && /^(?:(.)\1)+$/.test(hex)
+      ? `#${hex.replace(/(.)\1/g, "$1")}`
+      : `#${hex}`;
+  }
+}
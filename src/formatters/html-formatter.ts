@@ -7,16 +7,148 @@ import {
   ValidationResult,
   DiagnosticLevel,
   FormatterPriority,
+  IFormatter,
+  HtmlSyntaxIssue,
 } from "../types";
 import { FormatError } from "../errors/format-error";
+import { HtmlTokenizer } from "../utils/html-tokenizer";
+import { HtmlValidator } from "../utils/html-validator";
+import { TemplateFlavor, TemplateSyntax } from "../utils/template-syntax";
+
+/**
+ * **Looks up the formatter registered for an embedded language**
+ */
+export type EmbeddedFormatterResolver = (
+  languageId: string
+) => IFormatter | undefined;
+
+/**
+ * **How much whitespace between tags is significant to rendering**
+ * Mirrors Prettier's `htmlWhitespaceSensitivity`
+ */
+type HtmlWhitespaceSensitivity = "css" | "strict" | "ignore";
+
+/**
+ * **Script, style or preformatted block lifted out of a document before layout**
+ */
+interface EmbeddedBlock {
+  tag: string;
+  languageId?: string;
+  content: string;
+}
+
+/**
+ * **Element found in a document whose body is lifted out before layout**
+ * `start` and `end` span the whole element, `tag` is the name as written
+ */
+interface EmbeddedElement {
+  start: number;
+  end: number;
+  tag: string;
+  attributes: string;
+  content: string;
+}
+
+const EMBEDDED_TAGS = new Set(["script", "style", "pre", "textarea"]);
+
+/**
+ * **Words after which a `/` starts a regular expression, not a division**
+ */
+const REGEXP_KEYWORD =
+  /(?:^|[^\w$])(?:return|typeof|instanceof|in|of|new|delete|void|throw|case|do|else|yield|await)\s*$/;
+
+const SCRIPT_LANGUAGES: Record<string, string> = {
+  "": "javascript",
+  module: "javascript",
+  "text/javascript": "javascript",
+  "text/ecmascript": "javascript",
+  "application/javascript": "javascript",
+  "application/ecmascript": "javascript",
+  "text/typescript": "typescript",
+  "application/typescript": "typescript",
+  "application/json": "json",
+  "application/ld+json": "json",
+  importmap: "json",
+  speculationrules: "json",
+};
+
+const STYLE_LANGUAGES: Record<string, string> = {
+  "": "css",
+  css: "css",
+  "text/css": "css",
+  scss: "scss",
+  less: "less",
+};
+
+/**
+ * **Elements rendered as blocks by default**
+ * Whitespace next to their tags never shows, so it may be changed freely
+ */
+const BLOCK_ELEMENTS = new Set([
+  "address",
+  "article",
+  "aside",
+  "blockquote",
+  "body",
+  "caption",
+  "col",
+  "colgroup",
+  "dd",
+  "details",
+  "dialog",
+  "div",
+  "dl",
+  "dt",
+  "fieldset",
+  "figcaption",
+  "figure",
+  "footer",
+  "form",
+  "h1",
+  "h2",
+  "h3",
+  "h4",
+  "h5",
+  "h6",
+  "head",
+  "header",
+  "hgroup",
+  "hr",
+  "html",
+  "li",
+  "main",
+  "menu",
+  "nav",
+  "ol",
+  "p",
+  "pre",
+  "section",
+  "summary",
+  "table",
+  "tbody",
+  "td",
+  "tfoot",
+  "th",
+  "thead",
+  "tr",
+  "ul",
+]);
 
 /**
  * **Enhanced formatter for HTML files with intelligent content handling**
  */
 export class HtmlFormatter extends BaseFormatter {
-  public readonly name = "html";
+  public readonly name: string = "html";
   public readonly priority = FormatterPriority.NORMAL;
-  public readonly supportedLanguages = ["html", "htm", "xhtml"];
+  public readonly supportedLanguages: string[] = ["html", "htm", "xhtml"];
+
+  /**
+   * **Create a formatter that hands embedded blocks to other formatters**
+   * Without a resolver, scripts and styles fall back to js-beautify
+   */
+  constructor(private readonly resolveFormatter?: EmbeddedFormatterResolver) {
+    super();
+  }
 
   /**
    * **Format HTML code with enhanced features**
@@ -26,8 +158,12 @@ export class HtmlFormatter extends BaseFormatter {
     options: FormatOptions
   ): Promise<FormatResult> {
     try {
-      const preprocessedText = this.preprocess(text, options);
       const startTime = Date.now();
+      const blocks: EmbeddedBlock[] = [];
+      const flavor = this.getTemplateFlavor(options);
+      const syntax = new TemplateSyntax(flavor);
+      const markup = this.extractEmbeddedBlocks(text, blocks);
+      const preprocessedText = this.preprocess(syntax.protect(markup), options);
 
       // **Configure js-beautify HTML options**
       const beautifyOptions: jsBeautify.HTMLBeautifyOptions = {
@@ -43,14 +179,24 @@ export class HtmlFormatter extends BaseFormatter {
         indent_head_inner_html: true,
         wrap_attributes: "auto",
         wrap_attributes_indent_size: options.tabSize || 2,
+        // **Keep every tag inline so no line break is added between tags**
+        ...(this.getWhitespaceSensitivity(options) === "strict" && {
+          inline: this.collectTagNames(preprocessedText),
+          extra_liners: [],
+        }),
         // **Override with custom rules if provided**
         ...this.getCustomRules(options),
       };
 
       const formattedText = jsBeautify.html(preprocessedText, beautifyOptions);
 
-      // **Apply post-processing**
-      const finalText = this.postprocess(formattedText, options);
+      // **Apply post-processing, then format embedded blocks in place**
+      const processedText = this.postprocess(formattedText, options);
+      const finalText = await this.restoreEmbeddedBlocks(
+        syntax.restore(processedText),
+        blocks,
+        options
+      );
       const executionTime = Date.now() - startTime;
 
       const result = this.createSuccessResult(
@@ -100,6 +246,24 @@ export class HtmlFormatter extends BaseFormatter {
         required: false,
         description: "Maximum line length",
       },
+      {
+        name: "whitespaceSensitivity",
+        type: "string",
+        default: "css",
+        required: false,
+        description:
+          "Treat whitespace between tags as significant following CSS display rules, always, or never",
+        options: ["css", "strict", "ignore"],
+      },
+      {
+        name: "templateSyntax",
+        type: "string",
+        default: "auto",
+        required: false,
+        description:
+          "Template syntax of the markup; Angular is detected from *.component.html file names",
+        options: ["auto", "angular"],
+      },
     ];
   }
 
@@ -111,93 +275,34 @@ export class HtmlFormatter extends BaseFormatter {
     content: string,
     languageId: string
   ): Promise<ValidationResult> {
-    // Basic HTML validation - check for matching tags
-    try {
-      const stack: string[] = [];
-      const tagRegex = /<\/?([a-z0-9]+)[^>]*>/gi;
-      let match;
-
-      while ((match = tagRegex.exec(content)) !== null) {
-        const tag = match[0];
-        const tagName = match[1].toLowerCase();
-
-        if (!tag.includes("/>") && !tag.startsWith("</")) {
-          // Opening tag
-          stack.push(tagName);
-        } else if (tag.startsWith("</")) {
-          // Closing tag
-          if (stack.length === 0 || stack.pop() !== tagName) {
-            return {
-              isValid: false,
-              errors: [
-                {
-                  code: "MISMATCHED_TAGS",
-                  message: `Mismatched HTML tags: found closing tag </${tagName}> without matching opening tag`,
-                  line: this.getLineNumber(content, match.index),
-                  column: 0,
-                  severity: DiagnosticLevel.ERROR,
-                  source: this.name,
-                },
-              ],
-              warnings: [],
-              suggestions: [],
-              executionTime: 0,
-            };
-          }
-        }
-      }
-
-      if (stack.length > 0) {
-        return {
-          isValid: false,
-          errors: [
-            {
-              code: "UNCLOSED_TAGS",
-              message: `Unclosed HTML tags: ${stack.join(", ")}`,
-              line: 0,
-              column: 0,
-              severity: DiagnosticLevel.ERROR,
-              source: this.name,
-            },
-          ],
-          warnings: [],
-          suggestions: [],
-          executionTime: 0,
-        };
-      }
-
+    // **Build the element tree as an HTML5 parser would and report repairs**
+    const diagnostics = this.validateMarkup(content).map((issue) => {
+      const before = content.slice(0, issue.offset).split("\n");
       return {
-        isValid: true,
-        errors: [],
-        warnings: [],
-        suggestions: [],
-        executionTime: 0,
+        code: issue.code,
+        message: issue.message,
+        line: before.length,
+        column: before[before.length - 1].length + 1,
+        severity:
+          issue.severity === "error"
+            ? DiagnosticLevel.ERROR
+            : DiagnosticLevel.WARNING,
+        source: this.name,
       };
-    } catch (error) {
-      return {
-        isValid: false,
-        errors: [
-          {
-            code: "VALIDATION_ERROR",
-            message:
-              error instanceof Error
-                ? error.message
-                : "Unknown validation error",
-            line: 0,
-            column: 0,
-            severity: DiagnosticLevel.ERROR,
-            source: this.name,
-          },
-        ],
-        warnings: [],
-        suggestions: [],
-        executionTime: 0,
-      };
-    }
-  }
-
-  private getLineNumber(content: string, index: number): number {
-    return content.substring(0, index).split("\n").length;
+    });
+    const errors = diagnostics.filter(
+      (diagnostic) => diagnostic.severity === DiagnosticLevel.ERROR
+    );
+
+    return {
+      isValid: errors.length === 0,
+      errors,
+      warnings: diagnostics.filter(
+        (diagnostic) => diagnostic.severity !== DiagnosticLevel.ERROR
+      ),
+      suggestions: [],
+      executionTime: 0,
+    };
   }
 
   /**
@@ -248,13 +353,11 @@ export class HtmlFormatter extends BaseFormatter {
   protected preprocess(text: string, options: FormatOptions): string {
     let processedText = super.preprocess(text, options);
 
-    // **Preserve script and style content**
-    processedText = this.preserveEmbeddedContent(processedText);
-
-    // **Normalize whitespace around tags**
-    processedText = processedText.replace(/>\s+</g, "><");
-
-    return processedText;
+    // **Drop whitespace between tags where it cannot affect rendering**
+    return this.collapseWhitespace(
+      processedText,
+      this.getWhitespaceSensitivity(options)
+    );
   }
 
   /**
@@ -262,9 +365,9 @@ export class HtmlFormatter extends BaseFormatter {
    */
   protected postprocess(text: string, options: FormatOptions): string {
     let processedText = super.postprocess(text, options);
-
-    // **Restore preserved content**
-    processedText = this.restoreEmbeddedContent(processedText);
+    if (this.getWhitespaceSensitivity(options) === "strict") {
+      return processedText;
+    }
 
     // **Ensure proper spacing around block elements**
     const blockElements = [
@@ -291,10 +394,7 @@ export class HtmlFormatter extends BaseFormatter {
     ];
 
     for (const element of blockElements) {
-      const regex = new RegExp(
-        `</${element}>(?!\\s*</(${blockElements.join("|")}|body|html)>)`,
-        "gi"
-      );
+      const regex = new RegExp(`</${element}>(?!\\s*(?:</[^>]+>|$))`, "gi");
       processedText = processedText.replace(regex, `</${element}>\n`);
     }
 
@@ -302,52 +402,422 @@ export class HtmlFormatter extends BaseFormatter {
   }
 
   /**
-   * **Preserve embedded script and style content during formatting**
+   * **Structural problems in the markup**
    */
-  private preserveEmbeddedContent(html: string): string {
-    const preservedContent: string[] = [];
-    let index = 0;
-
-    // **Preserve script tags**
-    html = html.replace(/<script[^>]*>[\s\S]*?<\/script>/gi, (match) => {
-      const placeholder = `__PRESERVED_SCRIPT_${index}__`;
-      preservedContent[index] = match;
-      index++;
-      return placeholder;
-    });
+  protected validateMarkup(content: string): HtmlSyntaxIssue[] {
+    return HtmlValidator.validate(content);
+  }
+
+  /**
+   * **Template syntax the document is written in, if any**
+   */
+  protected getTemplateFlavor(
+    options: FormatOptions
+  ): TemplateFlavor | undefined {
+    const isAngular =
+      options.customRules?.templateSyntax === "angular" ||
+      /\.component\.html$/i.test(options.fileName ?? "");
+    return isAngular ? "angular" : undefined;
+  }
+
+  /**
+   * **Indentation for the body of an embedded block**
+   */
+  protected getEmbeddedIndent(
+    tagIndent: string,
+    unit: string,
+    options: FormatOptions
+  ): string {
+    return tagIndent + unit;
+  }
+
+  /**
+   * **Configured whitespace sensitivity, defaulting to CSS display rules**
+   */
+  private getWhitespaceSensitivity(
+    options: FormatOptions
+  ): HtmlWhitespaceSensitivity {
+    const sensitivity = options.customRules?.whitespaceSensitivity;
+    return sensitivity === "strict" || sensitivity === "ignore"
+      ? sensitivity
+      : "css";
+  }
+
+  /**
+   * **Remove whitespace-only text between tags that is insignificant**
+   * In `css` mode only whitespace touching a block-level tag goes, in
+   * `strict` mode nothing does and in `ignore` mode all of it does
+   */
+  private collapseWhitespace(
+    html: string,
+    sensitivity: HtmlWhitespaceSensitivity
+  ): string {
+    if (sensitivity === "strict") {
+      return html;
+    }
+
+    const tokens = HtmlTokenizer.tokenize(html);
+    const isBoundary = (index: number): boolean => {
+      const token = tokens[index];
+      if (!token || token.type === "text") {
+        return false;
+      }
+      return (
+        sensitivity === "ignore" ||
+        token.type === "doctype" ||
+        (token.type !== "comment" && BLOCK_ELEMENTS.has(token.name!))
+      );
+    };
+
+    return tokens
+      .map((token, index) => {
+        const raw = html.slice(token.start, token.end);
+        const droppable =
+          token.type === "text" &&
+          !raw.trim() &&
+          tokens[index - 1]?.type !== "text" &&
+          tokens[index + 1]?.type !== "text" &&
+          index > 0 &&
+          index < tokens.length - 1 &&
+          (isBoundary(index - 1) || isBoundary(index + 1));
+        return droppable ? "" : raw;
+      })
+      .join("");
+  }
+
+  /**
+   * **Names of every element used in a document**
+   */
+  private collectTagNames(html: string): string[] {
+    const names = new Set<string>();
+    for (const token of HtmlTokenizer.tokenize(html)) {
+      if (token.type === "startTag") {
+        names.add(token.name!);
+      }
+    }
+    return [...names];
+  }
+
+  /**
+   * **Empty script, style and preformatted blocks, collecting their bodies**
+   * Preformatted bodies are put back verbatim
+   */
+  private extractEmbeddedBlocks(html: string, blocks: EmbeddedBlock[]): string {
+    let output = "";
+    let offset = 0;
+
+    for (const element of this.findEmbeddedElements(html)) {
+      const tag = element.tag.toLowerCase();
+      blocks.push({
+        tag,
+        languageId: this.getEmbeddedLanguage(tag, element.attributes),
+        content: element.content,
+      });
+      output +=
+        html.slice(offset, element.start) +
+        `<${element.tag}${element.attributes}></${element.tag}>`;
+      offset = element.end;
+    }
+
+    return output + html.slice(offset);
+  }
+
+  /**
+   * **Find script, style and preformatted elements outside comments**
+   * Elements that are never closed are left out
+   */
+  private findEmbeddedElements(html: string): EmbeddedElement[] {
+    const tokens = HtmlTokenizer.tokenize(html);
+    const elements: EmbeddedElement[] = [];
+
+    for (let index = 0; index < tokens.length; index++) {
+      const open = tokens[index];
+      if (
+        open.type !== "startTag" ||
+        open.selfClosing ||
+        !EMBEDDED_TAGS.has(open.name!)
+      ) {
+        continue;
+      }
+
+      let depth = 0;
+      let close = index + 1;
+      for (; close < tokens.length; close++) {
+        const token = tokens[close];
+        if (token.name !== open.name || token.type === "comment") {
+          continue;
+        }
+        if (token.type === "startTag" && !token.selfClosing) {
+          depth++;
+        } else if (token.type === "endTag" && depth-- === 0) {
+          break;
+        }
+      }
+      if (close === tokens.length) {
+        continue;
+      }
+
+      const startTag = html.slice(open.start, open.end);
+      const tag = startTag.slice(1, 1 + open.name!.length);
+      elements.push({
+        start: open.start,
+        end: tokens[close].end,
+        tag,
+        attributes: startTag.slice(1 + tag.length, -1),
+        content: html.slice(open.end, tokens[close].start),
+      });
+      index = close;
+    }
+
+    return elements;
+  }
 
-    // **Preserve style tags**
-    html = html.replace(/<style[^>]*>[\s\S]*?<\/style>/gi, (match) => {
-      const placeholder = `__PRESERVED_STYLE_${index}__`;
-      preservedContent[index] = match;
-      index++;
-      return placeholder;
+  /**
+   * **Put formatted block bodies back into the emptied tags**
+   */
+  private async restoreEmbeddedBlocks(
+    html: string,
+    blocks: EmbeddedBlock[],
+    options: FormatOptions
+  ): Promise<string> {
+    const unit =
+      options.insertSpaces === false ? "\t" : " ".repeat(options.tabSize || 2);
+    const bodies = await Promise.all(
+      blocks.map((block) => this.formatEmbeddedBlock(block, options))
+    );
+    const elements = this.findEmbeddedElements(html).filter(
+      (element) => !element.content.trim()
+    );
+    let output = "";
+    let offset = 0;
+
+    elements.forEach((element, index) => {
+      const block = blocks[index];
+      const body = bodies[index];
+      const { tag, attributes } = element;
+      output += html.slice(offset, element.start);
+      offset = element.end;
+
+      if (!block) {
+        output += html.slice(element.start, element.end);
+      } else if (body === undefined) {
+        output += `<${tag}${attributes}>${block.content}</${tag}>`;
+      } else if (!body.trim()) {
+        output += `<${tag}${attributes}></${tag}>`;
+      } else {
+        const lineStart = html.lastIndexOf("\n", element.start - 1) + 1;
+        const indent = /^[ \t]*/.exec(html.slice(lineStart, element.start))![0];
+        const bodyIndent = this.getEmbeddedIndent(indent, unit, options);
+        const code = body.replace(/\s+$/, "");
+        const literalLines = this.findLiteralLines(code);
+        const lines = code
+          .split("\n")
+          .map((line, number) =>
+            literalLines.has(number)
+              ? line
+              : line.trim()
+                ? bodyIndent + line
+                : ""
+          );
+        output += `<${tag}${attributes}>\n${lines.join("\n")}\n${indent}</${tag}>`;
+      }
     });
 
-    // **Store in a way that can be retrieved later**
-    (this as any)._preservedContent = preservedContent;
+    return output + html.slice(offset);
+  }
+
+  /**
+   * **Format the body of an embedded block without indentation**
+   * Returns undefined when the block has to stay exactly as written
+   */
+  private async formatEmbeddedBlock(
+    block: EmbeddedBlock,
+    options: FormatOptions
+  ): Promise<string | undefined> {
+    if (!block.languageId) {
+      return undefined;
+    }
+    const content = this.dedent(block.content);
+    if (!content.trim()) {
+      return "";
+    }
+
+    const formatter = this.resolveFormatter?.(block.languageId);
+    if (formatter) {
+      try {
+        const result = await formatter.formatText(content, {
+          ...options,
+          languageId: block.languageId,
+          customRules: undefined,
+        });
+        return result.success && result.text !== undefined
+          ? result.text
+          : undefined;
+      } catch {
+        return undefined;
+      }
+    }
+
+    const beautifyOptions = {
+      indent_size: options.tabSize || 2,
+      indent_char: options.insertSpaces === false ? "\t" : " ",
+    };
+    switch (block.languageId) {
+      case "javascript":
+        return jsBeautify.js(content, beautifyOptions);
+      case "css":
+      case "scss":
+      case "less":
+        return jsBeautify.css(content, beautifyOptions);
+      default:
+        return content;
+    }
+  }
+
+  /**
+   * **Which language an embedded block is written in**
+   * Unknown script types such as client-side templates are left alone
+   */
+  private getEmbeddedLanguage(
+    tag: string,
+    attributes: string
+  ): string | undefined {
+    const lang = this.getAttribute(attributes, "lang")?.toLowerCase();
+    const type =
+      this.getAttribute(attributes, "type")?.trim().toLowerCase() ?? "";
+
+    if (tag === "style") {
+      return STYLE_LANGUAGES[lang ?? type];
+    }
+    if (tag !== "script") {
+      return undefined;
+    }
+    if (lang === "ts" || lang === "typescript") {
+      return "typescript";
+    }
+    return SCRIPT_LANGUAGES[type];
+  }
 
-    return html;
+  private getAttribute(attributes: string, name: string): string | undefined {
+    const pattern = new RegExp(
+      `(?:^|\\s)${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)'|([^\\s"'>]+))`,
+      "i"
+    );
+    const match = pattern.exec(attributes);
+    return match ? (match[1] ?? match[2] ?? match[3]) : undefined;
   }
 
   /**
-   * **Restore preserved embedded content after formatting**
+   * **Strip the indentation shared by every non-blank line**
    */
-  private restoreEmbeddedContent(html: string): string {
-    const preservedContent = (this as any)._preservedContent || [];
+  private dedent(text: string): string {
+    const code = text.replace(/^\s*\n/, "").replace(/\s+$/, "");
+    const literalLines = this.findLiteralLines(code);
+    const lines = code.split("\n");
+    const indents = lines
+      .filter((line, number) => line.trim() && !literalLines.has(number))
+      .map((line) => /^[ \t]*/.exec(line)![0].length);
+    const shared = indents.length ? Math.min(...indents) : 0;
+    return lines
+      .map((line, number) =>
+        literalLines.has(number) ? line : line.slice(shared)
+      )
+      .join("\n");
+  }
+
+  /**
+   * **Lines of script or style code that start inside a string literal**
+   * Their leading whitespace is part of the string, so it never changes
+   */
+  private findLiteralLines(code: string): Set<number> {
+    const lines = new Set<number>();
+    // **Open brace count of each template substitution being scanned**
+    const substitutions: number[] = [];
+    let quote = "";
+    let line = 0;
+    let previous = "";
+
+    for (let index = 0; index < code.length; index++) {
+      const char = code[index];
+      if (char === "\n") {
+        line++;
+        if (quote) {
+          lines.add(line);
+        }
+        continue;
+      }
+
+      if (quote) {
+        if (char === "\\") {
+          if (code[index + 1] === "\n") {
+            lines.add(++line);
+          }
+          index++;
+        } else if (char === quote) {
+          quote = "";
+          previous = char;
+        } else if (quote === "`" && code.startsWith("${", index)) {
+          substitutions.push(0);
+          quote = "";
+          index++;
+        }
+        continue;
+      }
 
-    for (let i = 0; i < preservedContent.length; i++) {
-      const scriptPlaceholder = `__PRESERVED_SCRIPT_${i}__`;
-      const stylePlaceholder = `__PRESERVED_STYLE_${i}__`;
+      if (code.startsWith("//", index)) {
+        const end = code.indexOf("\n", index);
+        index = (end === -1 ? code.length : end) - 1;
+      } else if (code.startsWith("/*", index)) {
+        const end = code.indexOf("*/", index + 2);
+        const comment = code.slice(index, end === -1 ? code.length : end);
+        line += comment.split("\n").length - 1;
+        index = end === -1 ? code.length : end + 1;
+      } else if (char === '"' || char === "'" || char === "`") {
+        quote = char;
+      } else if (
+        char === "/" &&
+        (/^$|[(,=:[!&|?{};+\-*%<>~^]/.test(previous) ||
+          REGEXP_KEYWORD.test(code.slice(Math.max(0, index - 12), index)))
+      ) {
+        index = this.skipRegExp(code, index);
+        previous = "/";
+      } else if (char === "{" && substitutions.length) {
+        substitutions[substitutions.length - 1]++;
+      } else if (char === "}" && substitutions.length) {
+        if (substitutions[substitutions.length - 1]-- === 0) {
+          substitutions.pop();
+          quote = "`";
+        }
+      }
 
-      html = html.replace(scriptPlaceholder, preservedContent[i]);
-      html = html.replace(stylePlaceholder, preservedContent[i]);
+      if (!/\s/.test(char) && !quote) {
+        previous = char;
+      }
     }
 
-    // **Clean up**
-    delete (this as any)._preservedContent;
+    return lines;
+  }
 
-    return html;
+  /**
+   * **Index of the `/` closing the regular expression opened at `start`**
+   */
+  private skipRegExp(code: string, start: number): number {
+    let inClass = false;
+    for (let index = start + 1; index < code.length; index++) {
+      const char = code[index];
+      if (char === "\\") {
+        index++;
+      } else if (char === "\n") {
+        return index - 1;
+      } else if (char === "[") {
+        inClass = true;
+      } else if (char === "]") {
+        inClass = false;
+      } else if (char === "/" && !inClass) {
+        return index;
+      }
+    }
+    return code.length;
   }
 
   /**
@@ -6,15 +6,143 @@ import {
   ValidationResult,
   DiagnosticLevel,
   ValidationError,
+  ParseError,
+  JsonArray,
+  JsonComment,
+  JsonDocument,
+  JsonElement,
+  JsonLiteral,
+  JsonMember,
+  JsonObject,
+  JsonParserOptions,
+  JsonValueNode,
 } from "../types";
+import { JsonParser } from "../utils/json-parser";
+
+type TrailingCommaStyle = "preserve" | "none" | "all";
+
+/**
+ * **Key ordering for an object and the objects nested below it**
+ */
+interface JsonKeyOrderSchema {
+  order?: string[];
+  alphabetical?: boolean;
+  properties?: Record<string, JsonKeyOrderSchema>;
+}
+
+/**
+ * **Resolved key ordering rules for a document**
+ */
+interface JsonKeyOrdering {
+  alphabetical: boolean;
+  maxDepth: number;
+  schema?: JsonKeyOrderSchema;
+}
+
+/**
+ * **Settings shared while formatting a document**
+ */
+interface JsonPrintContext {
+  indentUnit: string;
+  tabSize: number;
+  maxLineLength: number;
+  expandObjects: boolean;
+  packNumericArrays: boolean;
+  trailingCommas: TrailingCommaStyle;
+  jsonLinesSpacing: boolean;
+  lossless: boolean;
+  keyOrdering?: JsonKeyOrdering;
+}
+
+const DEPENDENCY_ORDER: JsonKeyOrderSchema = { alphabetical: true };
 
 /**
- * **Formatter for JSON files**
+ * **Built-in key ordering schemas for well-known files**
+ */
+const BUILT_IN_KEY_ORDER_SCHEMAS: Record<string, JsonKeyOrderSchema> = {
+  "package.json": {
+    order: [
+      "$schema",
+      "name",
+      "displayName",
+      "version",
+      "private",
+      "description",
+      "categories",
+      "keywords",
+      "homepage",
+      "bugs",
+      "repository",
+      "funding",
+      "license",
+      "author",
+      "maintainers",
+      "contributors",
+      "publisher",
+      "sideEffects",
+      "type",
+      "imports",
+      "exports",
+      "main",
+      "module",
+      "browser",
+      "types",
+      "typesVersions",
+      "typings",
+      "bin",
+      "man",
+      "directories",
+      "files",
+      "workspaces",
+      "engines",
+      "activationEvents",
+      "contributes",
+      "scripts",
+      "config",
+      "dependencies",
+      "devDependencies",
+      "peerDependencies",
+      "peerDependenciesMeta",
+      "optionalDependencies",
+      "bundledDependencies",
+      "overrides",
+      "resolutions",
+      "packageManager",
+      "os",
+      "cpu",
+      "publishConfig",
+    ],
+    properties: {
+      dependencies: DEPENDENCY_ORDER,
+      devDependencies: DEPENDENCY_ORDER,
+      peerDependencies: DEPENDENCY_ORDER,
+      peerDependenciesMeta: DEPENDENCY_ORDER,
+      optionalDependencies: DEPENDENCY_ORDER,
+    },
+  },
+  "tsconfig*.json": {
+    order: [
+      "compilerOptions",
+      "$schema",
+      "extends",
+      "files",
+      "include",
+      "exclude",
+      "references",
+    ],
+  },
+  "jsconfig*.json": {
+    order: ["compilerOptions", "extends", "files", "include", "exclude"],
+  },
+};
+
+/**
+ * **Formatter for JSON, JSONC, JSON5 and JSON Lines files**
  */
 export class JsonFormatter extends BaseFormatter {
   public readonly name = "JSON Formatter";
   public readonly priority = 1;
-  public readonly supportedLanguages = ["json", "jsonc"];
+  public readonly supportedLanguages = ["json", "jsonc", "json5", "jsonl"];
 
   /**
    * **Format JSON content**
@@ -25,28 +153,22 @@ export class JsonFormatter extends BaseFormatter {
   ): Promise<FormatResult> {
     try {
       const preprocessedText = this.preprocess(text, options);
+      const context = this.createPrintContext(options);
 
-      // **Handle JSON with comments (JSONC)**
-      const isJsonc = options.languageId === "jsonc";
-      let jsonText = preprocessedText;
-      let comments: Array<{ position: number; comment: string }> = [];
-
-      // **Extract comments for JSONC**
-      if (isJsonc) {
-        const result = this.extractComments(jsonText);
-        jsonText = result.text;
-        comments = result.comments;
-      }
-
-      // **Parse and format JSON**
-      const parsed = JSON.parse(jsonText);
-      const indentString = this.getIndentString(options);
-      const formattedJson = JSON.stringify(parsed, null, indentString);
+      let formattedText: string;
+      if (options.languageId === "jsonl") {
+        // **JSON Lines records are formatted one line at a time**
+        formattedText = this.formatJsonLines(preprocessedText, context);
+      } else {
+        // **Parse into a concrete syntax tree that keeps comments in place**
+        const document = JsonParser.parse(
+          preprocessedText,
+          this.getParserOptions(options.languageId)
+        );
 
-      // **Restore comments for JSONC**
-      let formattedText = formattedJson;
-      if (isJsonc && comments.length > 0) {
-        formattedText = this.restoreComments(formattedJson, comments);
+        // **Print the tree back with normalized layout**
+        this.applyKeyOrdering(document, context);
+        formattedText = this.printDocument(document, context);
       }
 
       // **Post-process the result**
@@ -61,6 +183,195 @@ export class JsonFormatter extends BaseFormatter {
     }
   }
 
+  /**
+   * **Get the parser dialect for a language**
+   */
+  private getParserOptions(languageId: string): JsonParserOptions {
+    const isJson5 = languageId === "json5";
+    const isJsonc = languageId === "jsonc" || isJson5;
+    return {
+      languageId,
+      allowComments: isJsonc,
+      allowTrailingCommas: isJsonc,
+      allowJson5: isJson5,
+    };
+  }
+
+  /**
+   * **Create the printing context from format options**
+   */
+  private createPrintContext(options: FormatOptions): JsonPrintContext {
+    const rules = options.customRules || {};
+    const trailingCommas: TrailingCommaStyle = !this.getParserOptions(
+      options.languageId
+    ).allowTrailingCommas
+      ? "none"
+      : rules.trailingCommas === "none" || rules.trailingCommas === "all"
+        ? rules.trailingCommas
+        : "preserve";
+
+    return {
+      indentUnit: this.getIndentString(options),
+      tabSize: options.tabSize || 2,
+      maxLineLength: options.maxLineLength || 120,
+      expandObjects: rules.expandObjects === true,
+      packNumericArrays: rules.packNumericArrays === true,
+      trailingCommas,
+      jsonLinesSpacing: rules.jsonLinesSpacing === true,
+      lossless: rules.lossless !== false,
+      keyOrdering: this.getKeyOrdering(options),
+    };
+  }
+
+  /**
+   * **Resolve the key ordering rules for a file**
+   */
+  private getKeyOrdering(options: FormatOptions): JsonKeyOrdering | undefined {
+    const rules = options.customRules || {};
+    if (rules.sortKeys !== "alphabetical" && rules.sortKeys !== "priority") {
+      return undefined;
+    }
+
+    const maxDepth =
+      typeof rules.sortKeysDepth === "number" && rules.sortKeysDepth > 0
+        ? rules.sortKeysDepth
+        : Infinity;
+
+    // **User schemas take precedence over the built-in ones**
+    const fileName = options.fileName || "";
+    const schema =
+      this.findKeyOrderSchema(rules.keyOrderSchemas || {}, fileName) ??
+      this.findKeyOrderSchema(BUILT_IN_KEY_ORDER_SCHEMAS, fileName);
+
+    return {
+      alphabetical: rules.sortKeys === "alphabetical",
+      maxDepth,
+      schema,
+    };
+  }
+
+  /**
+   * **Find the first schema whose file pattern matches the file**
+   */
+  private findKeyOrderSchema(
+    schemas: Record<string, JsonKeyOrderSchema | string[]>,
+    fileName: string
+  ): JsonKeyOrderSchema | undefined {
+    const pattern = Object.keys(schemas).find((candidate) =>
+      this.matchesPattern(fileName, candidate)
+    );
+    if (!pattern) {
+      return undefined;
+    }
+
+    const schema = schemas[pattern];
+    return Array.isArray(schema) ? { order: schema } : schema;
+  }
+
+  /**
+   * **Check if file path matches a pattern**
+   */
+  private matchesPattern(filePath: string, pattern: string): boolean {
+    // Simple glob matching
+    const regexPattern = pattern
+      .replace(/\./g, "\\.")
+      .replace(/\*/g, ".*")
+      .replace(/\?/g, ".");
+
+    const regex = new RegExp(`^${regexPattern}$`);
+    const baseName = filePath.split(/[\\/]/).pop() || filePath;
+    return regex.test(filePath) || regex.test(baseName);
+  }
+
+  /**
+   * **Apply the configured key ordering to a parsed document**
+   */
+  private applyKeyOrdering(
+    document: JsonDocument,
+    context: JsonPrintContext
+  ): void {
+    const ordering = context.keyOrdering;
+    if (ordering && document.root) {
+      this.sortKeys(document.root.value, ordering, ordering.schema, 1);
+    }
+  }
+
+  /**
+   * **Reorder object members according to the key ordering rules**
+   *
+   * Members move together with the comments they own, and array order is
+   * never changed.
+   */
+  private sortKeys(
+    node: JsonValueNode,
+    ordering: JsonKeyOrdering,
+    schema: JsonKeyOrderSchema | undefined,
+    depth: number
+  ): void {
+    if (node.type === "array") {
+      for (const element of node.elements) {
+        this.sortKeys(element.value, ordering, schema, depth);
+      }
+      return;
+    }
+
+    if (node.type !== "object" || depth > ordering.maxDepth) {
+      return;
+    }
+
+    const order = schema?.order || [];
+    const sortRest = ordering.alphabetical || schema?.alphabetical === true;
+    const entries = node.members.map((member, index) => {
+      const name = this.getKeyName(member);
+      const rank = order.indexOf(name);
+      return { member, name, index, rank: rank === -1 ? order.length : rank };
+    });
+
+    entries.sort((a, b) => {
+      if (a.rank !== b.rank) {
+        return a.rank - b.rank;
+      }
+      if (sortRest && a.rank === order.length && a.name !== b.name) {
+        return a.name < b.name ? -1 : 1;
+      }
+      return a.index - b.index;
+    });
+
+    // **Blank lines only make sense in the original order**
+    if (entries.some((entry, index) => entry.index !== index)) {
+      for (const entry of entries) {
+        entry.member.blankLineBefore = false;
+      }
+    }
+
+    node.members = entries.map((entry) => entry.member);
+
+    for (const { member, name } of entries) {
+      this.sortKeys(
+        member.value,
+        ordering,
+        schema?.properties?.[name],
+        depth + 1
+      );
+    }
+  }
+
+  /**
+   * **Get the unquoted name of an object member**
+   */
+  private getKeyName(member: JsonMember): string {
+    const raw = member.key.raw;
+    if (member.key.type === "identifier") {
+      return raw;
+    }
+
+    try {
+      return raw.startsWith('"') ? JSON.parse(raw) : raw.slice(1, -1);
+    } catch {
+      return raw.slice(1, -1);
+    }
+  }
+
   /**
    * **Get the indentation string based on options**
    */
@@ -74,62 +385,402 @@ export class JsonFormatter extends BaseFormatter {
   }
 
   /**
-   * **Extract comments from JSONC text**
+   * **Format JSON Lines text without merging records across lines**
    */
-  private extractComments(text: string): {
-    text: string;
-    comments: Array<{ position: number; comment: string }>;
-  } {
-    const comments: Array<{ position: number; comment: string }> = [];
+  private formatJsonLines(text: string, context: JsonPrintContext): string {
+    return text
+      .split(/\r?\n/)
+      .map((line, index) => {
+        const document = JsonParser.parse(line, {
+          ...this.getParserOptions("jsonl"),
+          startLine: index + 1,
+        });
+        this.applyKeyOrdering(document, context);
+        return document.root
+          ? this.printFlat(document.root.value, context, true)
+          : "";
+      })
+      .join("\n");
+  }
 
-    // **Simple comment extraction (basic implementation)**
-    // **Note: This is a simplified approach. A proper implementation would use a JSON parser that supports comments**
-    const lines = text.split("\n");
-    const cleanLines: string[] = [];
+  /**
+   * **Print a value on a single line**
+   *
+   * Compact output is used for JSON Lines records, otherwise objects get
+   * spaces inside their braces the way Prettier prints them.
+   */
+  private printFlat(
+    node: JsonValueNode,
+    context: JsonPrintContext,
+    compact: boolean = false
+  ): string {
+    const space = !compact || context.jsonLinesSpacing ? " " : "";
 
-    for (let i = 0; i < lines.length; i++) {
-      const line = lines[i];
-      const commentMatch = line.match(/^(\s*)(\/\/.*|\/\*.*?\*\/)(.*)$/);
+    switch (node.type) {
+      case "object": {
+        if (node.members.length === 0) {
+          return "{}";
+        }
+        const members = node.members
+          .map(
+            (member) =>
+              `${this.printLiteral(member.key, context)}:${space}${this.printFlat(member.value, context, compact)}`
+          )
+          .join("," + space);
+        return compact ? `{${members}}` : `{ ${members} }`;
+      }
+      case "array":
+        return `[${node.elements
+          .map((element) => this.printFlat(element.value, context, compact))
+          .join("," + space)}]`;
+      default:
+        return this.printLiteral(node, context);
+    }
+  }
+
+  /**
+   * **Check whether a container can be printed on a single line**
+   *
+   * Comments and intentional blank lines keep a container expanded.
+   */
+  private canFlatten(
+    node: JsonObject | JsonArray,
+    context: JsonPrintContext
+  ): boolean {
+    const items: JsonElement[] =
+      node.type === "object" ? node.members : node.elements;
+
+    if (node.type === "object" && context.expandObjects && items.length > 0) {
+      return false;
+    }
+
+    if (node.danglingComments.length > 0) {
+      return false;
+    }
+
+    return items.every(
+      (item, index) =>
+        item.leadingComments.length === 0 &&
+        item.trailingComments.length === 0 &&
+        ((item as JsonMember).separatorComments?.length ?? 0) === 0 &&
+        (index === 0 || !item.blankLineBefore) &&
+        (item.value.type !== "object" && item.value.type !== "array"
+          ? true
+          : this.canFlatten(item.value, context))
+    );
+  }
+
+  /**
+   * **Measure the width of the last line of text**
+   */
+  private measureWidth(text: string, context: JsonPrintContext): number {
+    return text
+      .slice(text.lastIndexOf("\n") + 1)
+      .replace(/\t/g, " ".repeat(context.tabSize)).length;
+  }
+
+  /**
+   * **Print a parsed document**
+   */
+  private printDocument(
+    document: JsonDocument,
+    context: JsonPrintContext
+  ): string {
+    const lines: string[] = [];
+
+    if (document.root) {
+      this.printElement(document.root, "", "", 0, lines, context);
+    }
+    this.printDanglingComments(document.danglingComments, 0, lines, context);
+
+    return lines.join("\n");
+  }
+
+  /**
+   * **Print an element together with the comments it owns**
+   */
+  private printElement(
+    element: JsonElement,
+    label: string,
+    comma: string,
+    level: number,
+    lines: string[],
+    context: JsonPrintContext,
+    valueLevel: number = level
+  ): void {
+    const indent = context.indentUnit.repeat(level);
+    let prefix = "";
+
+    if (element.blankLineBefore && lines.length > 0) {
+      lines.push("");
+    }
+
+    for (const comment of element.leadingComments) {
+      // **Inline block comments stay in front of the value**
+      if (comment.kind === "block" && !comment.followedByNewline) {
+        prefix += this.printComment(comment, indent) + " ";
+        continue;
+      }
 
-      if (commentMatch) {
-        const [, indent, comment, rest] = commentMatch;
-        if (rest.trim()) {
-          cleanLines.push(indent + rest);
-        } else {
-          cleanLines.push("");
+      if (comment.blankLineBefore && lines.length > 0 && prefix === "") {
+        if (lines[lines.length - 1] !== "") {
+          lines.push("");
         }
-        comments.push({ position: i, comment: comment.trim() });
-      } else {
-        cleanLines.push(line);
+      }
+      lines.push(indent + prefix + this.printComment(comment, indent));
+      prefix = "";
+
+      if (comment.blankLineAfter) {
+        lines.push("");
       }
     }
 
-    return {
-      text: cleanLines.join("\n"),
-      comments,
-    };
+    // **Trailing comments do not count towards the line width**
+    const head = indent + prefix + label;
+    const available =
+      context.maxLineLength - this.measureWidth(head, context) - comma.length;
+    const value = this.printValue(
+      element.value,
+      valueLevel,
+      context,
+      available
+    );
+    const trailing = element.trailingComments
+      .map((comment) => " " + this.printComment(comment, indent))
+      .join("");
+
+    lines.push(head + value + comma + trailing);
   }
 
   /**
-   * **Restore comments to formatted JSON**
+   * **Print an object member label including comments around the colon**
    */
-  private restoreComments(
-    text: string,
-    comments: Array<{ position: number; comment: string }>
+  private printMemberLabel(
+    member: JsonMember,
+    level: number,
+    context: JsonPrintContext
+  ): { label: string; valueLevel: number } {
+    const innerIndent = context.indentUnit.repeat(level + 1);
+    let label = this.printLiteral(member.key, context) + ":";
+    let breakLine = false;
+
+    for (const comment of member.separatorComments) {
+      label += breakLine
+        ? "\n" + innerIndent + this.printComment(comment, innerIndent)
+        : " " + this.printComment(comment, innerIndent);
+      breakLine = comment.kind === "line" || comment.followedByNewline;
+    }
+
+    if (breakLine) {
+      return { label: label + "\n" + innerIndent, valueLevel: level + 1 };
+    }
+
+    return { label: label + " ", valueLevel: level };
+  }
+
+  /**
+   * **Print a value node, collapsing containers that fit the available width**
+   */
+  private printValue(
+    node: JsonValueNode,
+    level: number,
+    context: JsonPrintContext,
+    available: number
   ): string {
-    // **Simple comment restoration**
-    // **Note: This is a simplified approach for demonstration**
-    const lines = text.split("\n");
-
-    for (const { position, comment } of comments.reverse()) {
-      if (position < lines.length) {
-        const line = lines[position];
-        const indent = line.match(/^(\s*)/)?.[1] || "";
-        lines.splice(position, 0, `${indent}${comment}`);
+    if (node.type !== "object" && node.type !== "array") {
+      return this.printLiteral(node, context);
+    }
+
+    if (this.canFlatten(node, context)) {
+      const flat = this.printFlat(node, context);
+      if (flat.length <= available) {
+        return flat;
       }
     }
 
-    return lines.join("\n");
+    return node.type === "object"
+      ? this.printContainer(node, "{", "}", level, context)
+      : this.printContainer(node, "[", "]", level, context);
+  }
+
+  /**
+   * **Print a scalar value or key**
+   *
+   * Lossless mode keeps the exact source text, so large integers, number
+   * notation and string escapes survive formatting. Otherwise values are
+   * normalized the way JSON.stringify writes them.
+   */
+  private printLiteral(node: JsonLiteral, context: JsonPrintContext): string {
+    if (
+      context.lossless ||
+      (node.type !== "string" && node.type !== "number")
+    ) {
+      return node.raw;
+    }
+
+    try {
+      return JSON.stringify(JSON.parse(node.raw));
+    } catch {
+      // **JSON5-only forms such as hex numbers are kept as written**
+      return node.raw;
+    }
+  }
+
+  /**
+   * **Print an object or array with one entry per line**
+   */
+  private printContainer(
+    node: JsonObject | JsonArray,
+    open: string,
+    close: string,
+    level: number,
+    context: JsonPrintContext
+  ): string {
+    const items: JsonElement[] =
+      node.type === "object" ? node.members : node.elements;
+
+    if (items.length === 0 && node.danglingComments.length === 0) {
+      return open + close;
+    }
+
+    const keepTrailingComma =
+      context.trailingCommas === "all" ||
+      (context.trailingCommas === "preserve" && node.trailingComma);
+
+    if (
+      node.type === "array" &&
+      context.packNumericArrays &&
+      this.isNumericArray(node)
+    ) {
+      return this.printPackedArray(node, level, keepTrailingComma, context);
+    }
+
+    const lines: string[] = [];
+
+    items.forEach((item, index) => {
+      const isLast = index === items.length - 1;
+      const comma = !isLast || keepTrailingComma ? "," : "";
+
+      if (node.type === "object") {
+        const member = item as JsonMember;
+        const { label, valueLevel } = this.printMemberLabel(
+          member,
+          level + 1,
+          context
+        );
+        this.printElement(
+          member,
+          label,
+          comma,
+          level + 1,
+          lines,
+          context,
+          valueLevel
+        );
+      } else {
+        this.printElement(item, "", comma, level + 1, lines, context);
+      }
+    });
+
+    this.printDanglingComments(
+      node.danglingComments,
+      level + 1,
+      lines,
+      context
+    );
+
+    const indent = context.indentUnit.repeat(level);
+    return `${open}\n${lines.join("\n")}\n${indent}${close}`;
+  }
+
+  /**
+   * **Check for a comment-free array that only holds numbers**
+   */
+  private isNumericArray(node: JsonArray): boolean {
+    return (
+      node.elements.length > 0 &&
+      node.danglingComments.length === 0 &&
+      node.elements.every(
+        (element) =>
+          element.value.type === "number" &&
+          element.leadingComments.length === 0 &&
+          element.trailingComments.length === 0
+      )
+    );
+  }
+
+  /**
+   * **Print a numeric array with as many numbers per line as fit**
+   */
+  private printPackedArray(
+    node: JsonArray,
+    level: number,
+    keepTrailingComma: boolean,
+    context: JsonPrintContext
+  ): string {
+    const indent = context.indentUnit.repeat(level);
+    const innerIndent = indent + context.indentUnit;
+    const lines: string[] = [];
+    let current = "";
+
+    node.elements.forEach((element, index) => {
+      const isLast = index === node.elements.length - 1;
+      const item =
+        this.printLiteral(element.value as JsonLiteral, context) +
+        (!isLast || keepTrailingComma ? "," : "");
+      const candidate = current ? `${current} ${item}` : innerIndent + item;
+
+      if (
+        current &&
+        this.measureWidth(candidate, context) > context.maxLineLength
+      ) {
+        lines.push(current);
+        current = innerIndent + item;
+      } else {
+        current = candidate;
+      }
+    });
+    lines.push(current);
+
+    return `[\n${lines.join("\n")}\n${indent}]`;
+  }
+
+  /**
+   * **Print comments that are not attached to any value**
+   */
+  private printDanglingComments(
+    comments: JsonComment[],
+    level: number,
+    lines: string[],
+    context: JsonPrintContext
+  ): void {
+    const indent = context.indentUnit.repeat(level);
+
+    for (const comment of comments) {
+      if (comment.blankLineBefore && lines.length > 0) {
+        lines.push("");
+      }
+      lines.push(indent + this.printComment(comment, indent));
+    }
+  }
+
+  /**
+   * **Print a comment, re-indenting JSDoc-style block comments**
+   */
+  private printComment(comment: JsonComment, indent: string): string {
+    if (comment.kind === "line" || !comment.text.includes("\n")) {
+      return comment.text;
+    }
+
+    const [firstLine, ...restLines] = comment.text.split("\n");
+    if (!restLines.every((line) => line.trim().startsWith("*"))) {
+      return comment.text;
+    }
+
+    return [
+      firstLine,
+      ...restLines.map((line) => `${indent} ${line.trim()}`),
+    ].join("\n");
   }
 
   public async format(
@@ -155,6 +806,78 @@ export class JsonFormatter extends BaseFormatter {
         default: true,
         required: false,
       },
+      {
+        name: "maxLineLength",
+        type: "number",
+        description: "Collapse objects and arrays that fit within this width",
+        default: 120,
+        required: false,
+      },
+      {
+        name: "trailingCommas",
+        type: "string",
+        description:
+          "Trailing comma handling for JSONC: keep as written, remove or add",
+        default: "preserve",
+        required: false,
+        options: ["preserve", "none", "all"],
+      },
+      {
+        name: "jsonLinesSpacing",
+        type: "boolean",
+        description:
+          "Add a space after commas and colons in JSON Lines records",
+        default: false,
+        required: false,
+      },
+      {
+        name: "expandObjects",
+        type: "boolean",
+        description:
+          "Always put object members on their own lines, even when they fit",
+        default: false,
+        required: false,
+      },
+      {
+        name: "packNumericArrays",
+        type: "boolean",
+        description:
+          "Fill lines with as many numbers as fit when a numeric array has to wrap",
+        default: false,
+        required: false,
+      },
+      {
+        name: "lossless",
+        type: "boolean",
+        description:
+          "Keep numbers and strings exactly as written instead of normalizing them",
+        default: true,
+        required: false,
+      },
+      {
+        name: "sortKeys",
+        type: "string",
+        description:
+          "Sort object keys alphabetically or by the priority lists in keyOrderSchemas",
+        default: "none",
+        required: false,
+        options: ["none", "alphabetical", "priority"],
+      },
+      {
+        name: "sortKeysDepth",
+        type: "number",
+        description: "Deepest object level to sort keys in (0 for unlimited)",
+        default: 0,
+        required: false,
+      },
+      {
+        name: "keyOrderSchemas",
+        type: "object",
+        description:
+          'Key priority lists per file pattern, e.g. { "tsconfig*.json": ["compilerOptions"] }',
+        default: {},
+        required: false,
+      },
     ];
   }
 
@@ -166,38 +889,40 @@ export class JsonFormatter extends BaseFormatter {
     content: string,
     languageId: string
   ): Promise<ValidationResult> {
-    try {
-      if (languageId === "jsonc") {
-        const { text } = this.extractComments(content);
-        JSON.parse(text);
-      } else {
-        JSON.parse(content);
+    const errors: ValidationError[] = [];
+    const parserOptions = this.getParserOptions(languageId);
+
+    // **JSON Lines records are validated independently**
+    const records = languageId === "jsonl" ? content.split(/\r?\n/) : [content];
+
+    records.forEach((record, index) => {
+      try {
+        JsonParser.parse(record, { ...parserOptions, startLine: index + 1 });
+      } catch (error) {
+        errors.push(this.createValidationError(error));
       }
-      return {
-        isValid: true,
-        errors: [],
-        warnings: [],
-        suggestions: [],
-        executionTime: 0,
-      };
-    } catch (error) {
-      return {
-        isValid: false,
-        errors: [
-          {
-            message:
-              error instanceof Error ? error.message : "Invalid JSON syntax",
-            line: 0,
-            column: 0,
-            severity: DiagnosticLevel.ERROR,
-            code: "INVALID_JSON",
-            source: this.name,
-          },
-        ],
-        warnings: [],
-        suggestions: [],
-        executionTime: 0,
-      };
-    }
+    });
+
+    return {
+      isValid: errors.length === 0,
+      errors,
+      warnings: [],
+      suggestions: [],
+      executionTime: 0,
+    };
+  }
+
+  /**
+   * **Convert a parser failure into a validation error**
+   */
+  private createValidationError(error: unknown): ValidationError {
+    return {
+      message: error instanceof Error ? error.message : "Invalid JSON syntax",
+      line: error instanceof ParseError ? error.line : 0,
+      column: error instanceof ParseError ? error.column : 0,
+      severity: DiagnosticLevel.ERROR,
+      code: "INVALID_JSON",
+      source: this.name,
+    };
   }
 }
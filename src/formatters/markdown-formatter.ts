@@ -1,5 +1,5 @@
-import * as vscode from "vscode";
 import { BaseFormatter } from "./base-formatter";
+import { EmbeddedFormatterResolver } from "./html-formatter";
 import {
   FormatOptions,
   FormatResult,
@@ -8,17 +8,75 @@ import {
   FormatOptionDescriptor,
   ValidationError,
   DiagnosticLevel,
+  MarkdownBlock,
+  MarkdownList,
+  MarkdownTable,
+  MarkdownCodeBlock,
 } from "../types";
-import { FormatError } from "../errors/format-error";
+import { MarkdownParser } from "../utils/markdown-parser";
+import { DisplayWidth } from "../utils/display-width";
 
 /**
- * **Enhanced formatter for Markdown files with table formatting and link validation**
+ * **Settings shared while printing a document**
+ */
+interface MarkdownPrintContext {
+  maxLineLength: number;
+  wrapText: boolean;
+  bullet: string;
+  listIndentSize: number;
+  removeTrailingHashes: boolean;
+  formatCodeBlocks: boolean;
+}
+
+/**
+ * **Words that would start a block if a wrapped line began with them**
+ */
+const BLOCK_START_WORD =
+  /^(?:[-+*]|\d{1,9}[.)]|#{1,6}|[-=_*]+)$|^(?:>|`{3}|~{3}|\$\$|<|\|)/;
+
+/**
+ * **Language ids for info string aliases of fenced code**
+ * Other info strings are looked up as language ids themselves
+ */
+const CODE_LANGUAGES: Record<string, string> = {
+  js: "javascript",
+  mjs: "javascript",
+  cjs: "javascript",
+  jsx: "javascriptreact",
+  ts: "typescript",
+  mts: "typescript",
+  cts: "typescript",
+  tsx: "typescriptreact",
+  py: "python",
+};
+
+/**
+ * **Comment that keeps the fenced code block right after it as written**
+ */
+const IGNORE_COMMENT = /^<!--\s*format-master-ignore\s*-->$/;
+
+/**
+ * **Formatter for Markdown files**
+ *
+ * Parses CommonMark with the GitHub extensions into blocks and prints them
+ * back with normalized headings, list markers, indentation, tables and
+ * spacing. Fenced code goes through the formatter of its language when one
+ * is registered. Other code blocks, HTML blocks, math blocks and front
+ * matter are kept exactly as written, and inline content is only wrapped.
  */
 export class MarkdownFormatter extends BaseFormatter {
   public readonly name = "markdown";
-  public readonly priority = 1;
+  public readonly priority = FormatterPriority.NORMAL;
   public readonly supportedLanguages = ["markdown", "md"];
 
+  /**
+   * **Create a formatter that hands fenced code to other formatters**
+   * Without a resolver, code blocks are kept as written
+   */
+  constructor(private readonly resolveFormatter?: EmbeddedFormatterResolver) {
+    super();
+  }
+
   public getSupportedOptions(): FormatOptionDescriptor[] {
     return [
       {
@@ -30,14 +88,32 @@ export class MarkdownFormatter extends BaseFormatter {
       },
       {
         name: "listIndentSize",
-        description: "Number of spaces for list indentation",
+        description:
+          "Columns list item content is indented by, at least the marker width plus one",
         type: "number",
         required: false,
         default: 2,
       },
+      {
+        name: "unorderedListMarker",
+        description:
+          "Bullet for unordered lists, adjacent lists alternate with another one",
+        type: "string",
+        required: false,
+        default: "-",
+        options: ["-", "*", "+"],
+      },
       {
         name: "wrapText",
-        description: "Enable text wrapping at maxLineLength",
+        description: "Break paragraph lines longer than maxLineLength",
+        type: "boolean",
+        required: false,
+        default: true,
+      },
+      {
+        name: "formatCodeBlocks",
+        description:
+          "Format fenced code with the formatter of its language, unless <!-- format-master-ignore --> precedes it",
         type: "boolean",
         required: false,
         default: true,
@@ -46,7 +122,7 @@ export class MarkdownFormatter extends BaseFormatter {
   }
 
   public getVersion(): string {
-    return "1.0.0";
+    return "2.0.0";
   }
 
   public async format(
@@ -56,6 +132,10 @@ export class MarkdownFormatter extends BaseFormatter {
     return this.formatText(text, options);
   }
 
+  /**
+   * **Check the inline content of paragraphs, headings and tables**
+   * Code, HTML and math blocks are never checked
+   */
   public async validateSyntax(
     content: string,
     languageId: string
@@ -79,501 +159,600 @@ export class MarkdownFormatter extends BaseFormatter {
       };
     }
 
-    // Basic Markdown syntax validation
-    try {
-      const startTime = Date.now();
-      const lines = content.split("\n");
-      const errors: ValidationError[] = [];
-
-      for (let i = 0; i < lines.length; i++) {
-        const line = lines[i];
-
-        // Check for unmatched backticks
-        const backtickCount = (line.match(/`/g) || []).length;
-        if (backtickCount % 2 !== 0) {
-          errors.push({
-            code: "UNMATCHED_BACKTICK",
-            message: "Unmatched backtick",
-            line: i + 1,
-            column: line.indexOf("`") + 1,
-            severity: DiagnosticLevel.ERROR,
-            source: this.name,
-          });
-        }
+    const startTime = Date.now();
+    const sourceLines = content.replace(/^\uFEFF/, "").split(/\r\n|\r|\n/);
+    const errors: ValidationError[] = [];
+    const report = (
+      code: string,
+      message: string,
+      line: number,
+      text: string,
+      index: number
+    ) => {
+      const source = sourceLines[line] ?? "";
+      errors.push({
+        code,
+        message,
+        line: line + 1,
+        column: Math.max(source.indexOf(text), 0) + index + 1,
+        severity: DiagnosticLevel.ERROR,
+        source: this.name,
+      });
+    };
 
-        // Check for malformed links
-        const linkPattern = /\[([^\]]*)\]\(([^)]*)\)/g;
-        const links = Array.from(line.matchAll(linkPattern));
-        for (const link of links) {
-          if (!link[1].trim() || !link[2].trim()) {
-            errors.push({
-              code: "INVALID_LINK_FORMAT",
-              message: "Invalid link format - missing text or URL",
-              line: i + 1,
-              column: link.index! + 1,
-              severity: DiagnosticLevel.ERROR,
-              source: this.name,
-            });
+    this.forEachInline(
+      MarkdownParser.parse(content).children,
+      (lines, start) => {
+        lines.forEach((line, offset) => {
+          for (const link of line.matchAll(/\[([^\]]*)\]\(([^)]*)\)/g)) {
+            if (!link[1].trim() || !link[2].trim()) {
+              report(
+                "INVALID_LINK_FORMAT",
+                "Invalid link format - missing text or URL",
+                start + offset,
+                line,
+                link.index!
+              );
+            }
           }
+        });
+
+        const unmatched = this.findUnmatchedBacktick(lines);
+        if (unmatched) {
+          report(
+            "UNMATCHED_BACKTICK",
+            "Unmatched backtick",
+            start + unmatched.line,
+            lines[unmatched.line],
+            unmatched.column
+          );
         }
       }
+    );
 
-      return {
-        isValid: errors.length === 0,
-        errors,
-        warnings: [],
-        suggestions: [],
-        executionTime: Date.now() - startTime,
-      };
-    } catch (error) {
-      return {
-        isValid: false,
-        errors: [
-          {
-            code: "VALIDATION_ERROR",
-            message: error instanceof Error ? error.message : "Unknown error",
-            line: 0,
-            column: 0,
-            severity: DiagnosticLevel.ERROR,
-            source: this.name,
-          },
-        ],
-        warnings: [],
-        suggestions: [],
-        executionTime: 0,
-      };
-    }
+    return {
+      isValid: errors.length === 0,
+      errors,
+      warnings: [],
+      suggestions: [],
+      executionTime: Date.now() - startTime,
+    };
   }
 
   /**
-   * **Format Markdown content with enhanced features**
+   * **Format Markdown content**
+   * Trailing spaces can be hard line breaks or part of code, so the text is
+   * parsed as written and the printer drops the ones that carry nothing
    */
   async formatText(
     text: string,
     options: FormatOptions
   ): Promise<FormatResult> {
-    try {
-      const preprocessedText = this.preprocess(text, options);
-      const startTime = Date.now();
-
-      // **Apply Markdown formatting**
-      let formattedText = this.formatMarkdown(preprocessedText, options);
+    const startTime = Date.now();
 
-      // **Apply post-processing**
-      const finalText = this.postprocess(formattedText, options);
-      const executionTime = Date.now() - startTime;
-
-      return {
-        success: true,
-        edits: [
-          vscode.TextEdit.replace(
-            new vscode.Range(0, 0, Number.MAX_VALUE, Number.MAX_VALUE),
-            finalText
-          ),
-        ],
-        errors: [],
-        warnings: [],
-        suggestions: [],
-        formatterUsed: this.name,
-        executionTime,
-        linesProcessed: text.split("\n").length,
-        charactersProcessed: text.length,
-        fromCache: false,
-      };
+    try {
+      const document = MarkdownParser.parse(text);
+      const context = this.createPrintContext(options);
+      if (context.formatCodeBlocks) {
+        await this.formatCodeBlocks(document.children, options);
+      }
+      const formatted = this.printBlocks(
+        document.children,
+        context.maxLineLength,
+        false,
+        context
+      ).join("\n");
+
+      const result = this.createSuccessResult(
+        this.postprocess(formatted, options)
+      );
+      result.executionTime = Date.now() - startTime;
+      return result;
     } catch (error) {
-      const errorMessage =
-        error instanceof Error ? error.message : "Unknown error";
-      return {
-        success: false,
-        edits: [],
-        errors: [
-          {
-            code: "FORMAT_ERROR",
-            message: `Markdown formatting failed: ${errorMessage}`,
-            line: 0,
-            column: 0,
-            severity: DiagnosticLevel.ERROR,
-            source: this.name,
-          },
-        ],
-        warnings: [],
-        suggestions: [],
-        formatterUsed: this.name,
-        executionTime: 0,
-        linesProcessed: 0,
-        charactersProcessed: 0,
-        fromCache: false,
-      };
+      if (error instanceof Error) {
+        return this.createErrorResult(error);
+      }
+      return this.createErrorResult(new Error("Markdown formatting error"));
     }
   }
 
   /**
-   * **Get custom formatting rules from options**
+   * **Create the printing context from format options**
    */
-  protected getCustomRules(options: FormatOptions): any {
-    const defaultRules = {
-      removeTrailingHashes: true,
-      listIndentSize: 2,
-      unorderedListMarker: "-",
-      wrapText: true,
-      normalizeInlineCode: true,
-      normalizeLinkSpacing: true,
-      formatReferenceLinks: true,
-      maxBlankLines: 2,
+  private createPrintContext(options: FormatOptions): MarkdownPrintContext {
+    const rules = options.customRules || {};
+    return {
+      maxLineLength: options.maxLineLength || 80,
+      wrapText: rules.wrapText !== false,
+      bullet: ["-", "*", "+"].includes(rules.unorderedListMarker)
+        ? rules.unorderedListMarker
+        : "-",
+      listIndentSize:
+        typeof rules.listIndentSize === "number" ? rules.listIndentSize : 2,
+      removeTrailingHashes: rules.removeTrailingHashes !== false,
+      formatCodeBlocks: rules.formatCodeBlocks !== false,
     };
-
-    if (options.customRules) {
-      return { ...defaultRules, ...options.customRules };
-    }
-
-    return defaultRules;
   }
 
   /**
-   * **Count the number of changes between original and formatted text**
+   * **Print sibling blocks to lines without container prefixes**
+   * `width` is what is left of the line length inside the containers.
+   * Children of tight list items are not separated by blank lines.
    */
-  protected countChanges(original: string, formatted: string): number {
-    if (original === formatted) {
-      return 0;
-    }
-
-    const originalChars = original.split("");
-    const formattedChars = formatted.split("");
-    let changes = 0;
-
-    const maxLength = Math.max(originalChars.length, formattedChars.length);
-
-    for (let i = 0; i < maxLength; i++) {
-      const originalChar = originalChars[i] || "";
-      const formattedChar = formattedChars[i] || "";
+  private printBlocks(
+    blocks: MarkdownBlock[],
+    width: number,
+    tight: boolean,
+    context: MarkdownPrintContext
+  ): string[] {
+    const lines: string[] = [];
+    let previous: MarkdownBlock | undefined;
+    let bullet = context.bullet;
+
+    for (const block of blocks) {
+      if (previous && !tight) {
+        lines.push("");
+      }
 
-      if (originalChar !== formattedChar) {
-        changes++;
+      if (block.type === "list" && !block.ordered) {
+        // **Adjacent bullet lists only stay apart with different bullets**
+        bullet =
+          previous?.type === "list" && !previous.ordered
+            ? this.getAlternateBullet(bullet)
+            : context.bullet;
+        lines.push(...this.printList(block, width, bullet, context));
+      } else if (
+        block.type === "thematicBreak" &&
+        tight &&
+        previous?.type === "paragraph"
+      ) {
+        // **`---` right below a paragraph would underline a heading**
+        lines.push("***");
+      } else {
+        lines.push(...this.printBlock(block, width, context));
       }
+      previous = block;
     }
 
-    return changes;
+    return lines;
   }
 
-  /**
-   * **Format Markdown content**
-   */
-  private formatMarkdown(text: string, options: FormatOptions): string {
-    let result = text;
-    const customRules = this.getCustomRules(options);
-
-    // **Format headers**
-    result = this.formatHeaders(result, customRules);
-
-    // **Format lists**
-    result = this.formatLists(result, customRules);
-
-    // **Format tables**
-    result = this.formatTables(result, customRules);
-
-    // **Format code blocks**
-    result = this.formatCodeBlocks(result, customRules);
-
-    // **Format links and images**
-    result = this.formatLinksAndImages(result, customRules);
-
-    // **Fix line spacing**
-    result = this.fixLineSpacing(result, customRules);
-
-    // **Apply line length wrapping**
-    if (customRules.wrapText !== false) {
-      result = this.wrapText(result, options.maxLineLength || 80);
+  private printBlock(
+    block: MarkdownBlock,
+    width: number,
+    context: MarkdownPrintContext
+  ): string[] {
+    switch (block.type) {
+      case "heading":
+        if (block.setext) {
+          const text = this.printParagraph(block.text, Infinity, context);
+          const length = Math.max(3, ...text.map((line) => line.trim().length));
+          return [...text, (block.level === 1 ? "=" : "-").repeat(length)];
+        }
+        return [
+          [
+            "#".repeat(block.level),
+            block.text[0],
+            context.removeTrailingHashes ? "" : block.closing,
+          ]
+            .filter(Boolean)
+            .join(" "),
+        ];
+      case "paragraph":
+        return this.printParagraph(block.lines, width, context);
+      case "code":
+        if (!block.fence) {
+          return block.lines.map((line) => (line ? `    ${line}` : ""));
+        }
+        return [
+          block.fence + (block.info || ""),
+          ...block.lines,
+          ...(block.closed ? [block.fence[0].repeat(block.fence.length)] : []),
+        ];
+      case "blockquote":
+        return this.printBlocks(block.children, width - 2, false, context).map(
+          (line) => (line ? `> ${line}` : ">")
+        );
+      case "list":
+        return this.printList(block, width, context.bullet, context);
+      case "table":
+        return this.printTable(block, width);
+      case "thematicBreak":
+        return ["---"];
+      case "listItem":
+        return this.printBlocks(block.children, width, false, context);
+      default:
+        return block.lines;
     }
-
-    return result;
   }
 
   /**
-   * **Format headers with consistent spacing**
+   * **Print a list with normalized markers**
+   * Ordered lists keep their delimiter and either repeat the first number
+   * or count up from it, as the first two items do
    */
-  private formatHeaders(text: string, customRules: any): string {
-    let result = text;
-
-    // **Ensure space after # in headers**
-    result = result.replace(/^(#{1,6})([^\s#])/gm, "$1 $2");
-
-    // **Remove trailing # from headers**
-    if (customRules.removeTrailingHashes !== false) {
-      result = result.replace(/^(#{1,6}.*?)\s*#+\s*$/gm, "$1");
-    }
+  private printList(
+    list: MarkdownList,
+    width: number,
+    bullet: string,
+    context: MarkdownPrintContext
+  ): string[] {
+    const first = list.items[0]?.number ?? 1;
+    const repeated = list.items.length > 1 && list.items[1].number === first;
+    const lines: string[] = [];
+
+    list.items.forEach((item, index) => {
+      if (index > 0 && !list.tight) {
+        lines.push("");
+      }
 
-    // **Ensure blank line before headers (except at start of document)**
-    result = result.replace(/(?<=\S.*)\n(#{1,6}\s)/g, "\n\n$1");
+      const marker = list.ordered
+        ? `${repeated ? first : first + index}${list.marker}`
+        : bullet;
+      // **Five spaces after the marker would start indented code instead**
+      const startsWithCode =
+        item.children[0]?.type === "code" && !item.children[0].fence;
+      const indent = startsWithCode
+        ? marker.length + 1
+        : Math.min(
+            Math.max(context.listIndentSize, marker.length + 1),
+            marker.length + 4
+          );
+
+      const content = this.printBlocks(
+        item.children,
+        width - indent,
+        list.tight,
+        context
+      );
+      if (content.length === 0) {
+        lines.push(marker);
+        return;
+      }
+      lines.push(
+        marker.padEnd(indent) + content[0],
+        ...content
+          .slice(1)
+          .map((line) => (line ? " ".repeat(indent) + line : ""))
+      );
+    });
 
-    return result;
+    return lines;
   }
 
   /**
-   * **Format lists with consistent indentation**
+   * **Print paragraph lines, wrapping the ones longer than `width`**
+   * Hard line breaks keep their trailing spaces. A continuation line that
+   * would start a block is indented as code, which cannot interrupt it.
    */
-  private formatLists(text: string, customRules: any): string {
-    let result = text;
-    const indentSize = customRules.listIndentSize || 2;
-    const indentChar = " ".repeat(indentSize);
-
-    // **Format unordered lists**
-    const listMarker = customRules.unorderedListMarker || "-";
-    result = result.replace(/^(\s*)([*+-])\s+/gm, (_match, indent, _marker) => {
-      return indent + listMarker + " ";
+  private printParagraph(
+    lines: string[],
+    width: number,
+    context: MarkdownPrintContext
+  ): string[] {
+    return lines.flatMap((line, index) => {
+      const content = line.trimStart();
+      if (index > 0 && BLOCK_START_WORD.test(content.split(/[ \t]/)[0])) {
+        return [
+          `    ${index === lines.length - 1 ? content.trimEnd() : content}`,
+        ];
+      }
+
+      const hardBreak =
+        index < lines.length - 1 ? / {2,}$/.exec(content)?.[0] || "" : "";
+      const text = content.trimEnd();
+      const pieces = context.wrapText ? this.wrapLine(text, width) : [text];
+      pieces[pieces.length - 1] += hardBreak;
+      return pieces;
     });
+  }
 
-    // **Format nested lists**
-    const lines = result.split("\n");
+  /**
+   * **Break a line at spaces so its pieces fit in `width`**
+   * Code spans, inline HTML, autolinks and link destinations are never
+   * broken, nor is a space followed by a word that would start a block
+   */
+  private wrapLine(line: string, width: number): string[] {
+    if (line.length <= width) {
+      return [line];
+    }
 
-    for (let i = 0; i < lines.length; i++) {
-      const line = lines[i];
-      const listMatch = line.match(/^(\s*)([*+-]|\d+\.)\s+/);
+    const ranges = this.findUnbreakableRanges(line);
+    const breaks: Array<[number, number]> = [];
+    for (const space of line.matchAll(/ +/g)) {
+      const start = space.index!;
+      const end = start + space[0].length;
+      const word = line.slice(end).split(" ")[0];
+      if (
+        start > 0 &&
+        end < line.length &&
+        !ranges.some(([from, to]) => start > from && start < to) &&
+        !BLOCK_START_WORD.test(word)
+      ) {
+        breaks.push([start, end]);
+      }
+    }
 
-      if (listMatch) {
-        const indentLevel = Math.floor(listMatch[1].length / indentSize);
-        const newIndent = indentChar.repeat(indentLevel);
-        lines[i] = line.replace(/^\s*/, newIndent);
+    const pieces: string[] = [];
+    let start = 0;
+    while (line.length - start > width) {
+      let chosen: [number, number] | undefined;
+      for (const candidate of breaks) {
+        if (candidate[0] <= start) {
+          continue;
+        }
+        if (candidate[0] - start > width) {
+          chosen = chosen || candidate;
+          break;
+        }
+        chosen = candidate;
+      }
+      if (!chosen) {
+        break;
       }
+      pieces.push(line.slice(start, chosen[0]));
+      start = chosen[1];
     }
+    pieces.push(line.slice(start));
 
-    return lines.join("\n");
+    return pieces;
   }
 
   /**
-   * **Format tables with proper alignment**
+   * **Find the parts of a line that must stay on one line**
    */
-  private formatTables(text: string, customRules: any): string {
-    const lines = text.split("\n");
-    const result: string[] = [];
-    let inTable = false;
-    let tableLines: string[] = [];
-
-    for (const line of lines) {
-      const isTableRow = line.includes("|") && line.trim().length > 0;
-
-      if (isTableRow && !inTable) {
-        inTable = true;
-        tableLines = [line];
-      } else if (isTableRow && inTable) {
-        tableLines.push(line);
-      } else if (!isTableRow && inTable) {
-        // **End of table - format it**
-        result.push(...this.formatTable(tableLines, customRules));
-        result.push(line);
-        inTable = false;
-        tableLines = [];
-      } else {
-        result.push(line);
+  private findUnbreakableRanges(line: string): Array<[number, number]> {
+    const ranges: Array<[number, number]> = [];
+
+    for (let index = 0; index < line.length; index++) {
+      const char = line[index];
+      if (char === "\\") {
+        index++;
+      } else if (char === "`") {
+        const length = /^`+/.exec(line.slice(index))![0].length;
+        const close = this.findBacktickRun(line, index + length, length);
+        if (close === -1) {
+          index += length - 1;
+        } else {
+          ranges.push([index, close + length]);
+          index = close + length - 1;
+        }
+      } else if (char === "<") {
+        const close = line.indexOf(">", index);
+        if (close !== -1) {
+          ranges.push([index, close + 1]);
+          index = close;
+        }
+      } else if (char === "]" && line[index + 1] === "(") {
+        let depth = 0;
+        let close = index + 1;
+        for (; close < line.length; close++) {
+          if (line[close] === "\\") {
+            close++;
+          } else if (line[close] === "(") {
+            depth++;
+          } else if (line[close] === ")" && --depth === 0) {
+            break;
+          }
+        }
+        ranges.push([index, close + 1]);
+        index = close;
       }
     }
 
-    // **Handle table at end of file**
-    if (inTable && tableLines.length > 0) {
-      result.push(...this.formatTable(tableLines, customRules));
-    }
-
-    return result.join("\n");
+    return ranges;
   }
 
   /**
-   * **Format a single table**
+   * **Print a table with its columns padded by display width**
+   * Cells align as the delimiter row of their column says. A table wider
+   * than `width` once padded stays compact instead. Cells past the header's
+   * column count are kept after the others.
    */
-  private formatTable(tableLines: string[], _customRules: any): string[] {
-    if (tableLines.length < 2) {
-      return tableLines;
-    }
-
-    const rows = tableLines.map((line) =>
-      line
-        .split("|")
-        .map((cell) => cell.trim())
-        .filter(
-          (cell, index, arr) =>
-            (index > 0 && index < arr.length - 1) ||
-            (index === 0 && cell !== "") ||
-            (index === arr.length - 1 && cell !== "")
-        )
+  private printTable(table: MarkdownTable, width: number): string[] {
+    const columns = table.alignments.length;
+    const rows = [table.header, ...table.rows].map((cells) =>
+      Array.from({ length: Math.max(columns, cells.length) }, (_, index) =>
+        (cells[index] ?? "").trim()
+      )
     );
+    const widths = table.alignments.map((_, index) =>
+      Math.max(3, ...rows.map((cells) => DisplayWidth.of(cells[index])))
+    );
+    const aligned =
+      widths.reduce((total, column) => total + column + 3, 1) <= width;
 
-    if (rows.length === 0 || rows[0].length === 0) {
-      return tableLines;
-    }
-
-    // **Calculate column widths**
-    const colCount = Math.max(...rows.map((row) => row.length));
-    const colWidths = new Array(colCount).fill(0);
-
-    for (const row of rows) {
-      for (let i = 0; i < colCount; i++) {
-        const cell = row[i] || "";
-        colWidths[i] = Math.max(colWidths[i], cell.length);
+    const padCell = (cell: string, index: number) => {
+      if (!aligned || index >= columns) {
+        return cell;
       }
-    }
-
-    // **Format rows**
-    const formattedRows = rows.map((row, rowIndex) => {
-      const cells = row.map((cell, colIndex) => {
-        const width = colWidths[colIndex];
-        if (rowIndex === 1 && cell.match(/^:?-+:?$/)) {
-          // **Alignment row**
-          if (cell.startsWith(":") && cell.endsWith(":")) {
-            return ":" + "-".repeat(width - 2) + ":";
-          } else if (cell.endsWith(":")) {
-            return "-".repeat(width - 1) + ":";
-          } else if (cell.startsWith(":")) {
-            return ":" + "-".repeat(width - 1);
-          } else {
-            return "-".repeat(width);
-          }
-        } else {
-          return cell.padEnd(width);
+      const space = widths[index] - DisplayWidth.of(cell);
+      switch (table.alignments[index]) {
+        case "right":
+          return " ".repeat(space) + cell;
+        case "center": {
+          const before = Math.floor(space / 2);
+          return " ".repeat(before) + cell + " ".repeat(space - before);
         }
-      });
-
-      return "| " + cells.join(" | ") + " |";
+        default:
+          return cell + " ".repeat(space);
+      }
+    };
+    const printRow = (cells: string[]) =>
+      `| ${cells.map(padCell).join(" | ")} |`;
+    const delimiter = table.alignments.map((alignment, index) => {
+      const dashes = "-".repeat((aligned ? widths[index] : 3) - 2);
+      switch (alignment) {
+        case "left":
+          return `:${dashes}-`;
+        case "right":
+          return `-${dashes}:`;
+        case "center":
+          return `:${dashes}:`;
+        default:
+          return `-${dashes}-`;
+      }
     });
 
-    return formattedRows;
+    return [
+      printRow(rows[0]),
+      `| ${delimiter.join(" | ")} |`,
+      ...rows.slice(1).map(printRow),
+    ];
   }
 
   /**
-   * **Format code blocks**
+   * **Format fenced code with the formatter of its language**
+   * Blocks after an ignore comment keep their content
    */
-  private formatCodeBlocks(text: string, customRules: any): string {
-    let result = text;
-
-    // **Ensure blank lines around code blocks**
-    result = result.replace(/(?<=\S.*)\n```/g, "\n\n```");
-    result = result.replace(/```\n(?=\S)/g, "```\n\n");
-
-    // **Format inline code**
-    if (customRules.normalizeInlineCode !== false) {
-      result = result.replace(/`([^`\n]+)`/g, (_match, code) => {
-        return "`" + code.trim() + "`";
-      });
+  private async formatCodeBlocks(
+    blocks: MarkdownBlock[],
+    options: FormatOptions
+  ): Promise<void> {
+    let previous: MarkdownBlock | undefined;
+
+    for (const block of blocks) {
+      if (block.type === "code") {
+        const ignored =
+          previous?.type === "html" &&
+          IGNORE_COMMENT.test(previous.lines.join("\n").trim());
+        const lines = ignored
+          ? undefined
+          : await this.formatCode(block, options);
+        if (lines) {
+          block.lines = lines;
+        }
+      } else if (block.type === "blockquote" || block.type === "listItem") {
+        await this.formatCodeBlocks(block.children, options);
+      } else if (block.type === "list") {
+        await this.formatCodeBlocks(block.items, options);
+      }
+      previous = block;
     }
-
-    return result;
   }
 
   /**
-   * **Format links and images**
+   * **Format the content of one fenced code block**
+   * Returns undefined when the block has to stay as written: it is not
+   * closed, no formatter takes its language, the formatter fails, or the
+   * result would close the fence early
    */
-  private formatLinksAndImages(text: string, customRules: any): string {
-    let result = text;
-
-    // **Normalize link formatting**
-    if (customRules.normalizeLinkSpacing !== false) {
-      // **Remove spaces in link syntax**
-      result = result.replace(
-        /\[\s*([^\]]+)\s*\]\s*\(\s*([^)]+)\s*\)/g,
-        "[$1]($2)"
-      );
+  private async formatCode(
+    block: MarkdownCodeBlock,
+    options: FormatOptions
+  ): Promise<string[] | undefined> {
+    const name = /^[^\s{]+/.exec(block.info || "")?.[0].toLowerCase();
+    const languageId = name ? (CODE_LANGUAGES[name] ?? name) : undefined;
+    const formatter = languageId
+      ? this.resolveFormatter?.(languageId)
+      : undefined;
+    if (
+      !formatter ||
+      !block.fence ||
+      !block.closed ||
+      !block.lines.some((line) => line.trim())
+    ) {
+      return undefined;
     }
 
-    // **Format reference links**
-    if (customRules.formatReferenceLinks !== false) {
-      // **Ensure blank line before reference definitions**
-      result = result.replace(/(?<=\S.*)\n(\[[^\]]+\]:\s*)/g, "\n\n$1");
+    try {
+      const result = await formatter.formatText(block.lines.join("\n"), {
+        ...options,
+        languageId: languageId!,
+        customRules: undefined,
+      });
+      if (!result.success || result.text === undefined) {
+        return undefined;
+      }
+
+      const lines = result.text.replace(/\s+$/, "").split(/\r?\n/);
+      const closing = new RegExp(
+        `^ {0,3}${block.fence[0]}{${block.fence.length},}[ \t]*$`
+      );
+      return lines.some((line) => closing.test(line)) ? undefined : lines;
+    } catch {
+      return undefined;
     }
+  }
 
-    return result;
+  private getAlternateBullet(bullet: string): string {
+    return bullet === "-" ? "*" : "-";
   }
 
   /**
-   * **Fix line spacing throughout the document**
+   * **Call back with the inline content of each block**
+   * Line `i` of the content is on source line `start + i`
    */
-  private fixLineSpacing(text: string, customRules: any): string {
-    let result = text;
-
-    // **Remove excessive blank lines**
-    const maxBlankLines = customRules.maxBlankLines || 2;
-    const blankLineRegex = new RegExp(
-      `\\n\\s*\\n(?:\\s*\\n){${maxBlankLines},}`,
-      "g"
-    );
-    result = result.replace(blankLineRegex, "\n".repeat(maxBlankLines + 1));
-
-    // **Ensure blank line before block elements**
-    const blockElements = [">", "```", "---", "***", "___"];
-    for (const element of blockElements) {
-      const regex = new RegExp(
-        `(?<=\\S.*)\\n(${element.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")})`,
-        "g"
-      );
-      result = result.replace(regex, `\n\n$1`);
+  private forEachInline(
+    blocks: MarkdownBlock[],
+    callback: (lines: string[], start: number) => void
+  ): void {
+    for (const block of blocks) {
+      switch (block.type) {
+        case "paragraph":
+          callback(block.lines, block.start);
+          break;
+        case "heading":
+          callback(block.text, block.start);
+          break;
+        case "table":
+          [block.header, ...block.rows].forEach((cells, index) => {
+            // **The delimiter row sits between the header and the body**
+            const line = block.start + (index === 0 ? 0 : index + 1);
+            cells.forEach((cell) => callback([cell.trim()], line));
+          });
+          break;
+        case "blockquote":
+        case "listItem":
+          this.forEachInline(block.children, callback);
+          break;
+        case "list":
+          this.forEachInline(block.items, callback);
+          break;
+      }
     }
-
-    return result;
   }
 
   /**
-   * **Wrap text to specified line length**
+   * **Find a backtick run that no run of the same length closes**
    */
-  private wrapText(text: string, maxLength: number): string {
-    const lines = text.split("\n");
-    const wrappedLines: string[] = [];
-
-    for (const line of lines) {
-      // **Don't wrap headers, code blocks, tables, or lists**
-      if (
-        line.match(/^#{1,6}\s/) ||
-        line.match(/^```/) ||
-        line.includes("|") ||
-        line.match(/^\s*([*+-]|\d+\.)\s/) ||
-        line.match(/^>\s/)
-      ) {
-        wrappedLines.push(line);
+  private findUnmatchedBacktick(
+    lines: string[]
+  ): { line: number; column: number } | undefined {
+    const text = lines.join("\n");
+
+    for (let index = 0; index < text.length; index++) {
+      if (text[index] === "\\") {
+        index++;
         continue;
       }
-
-      if (line.length <= maxLength) {
-        wrappedLines.push(line);
+      if (text[index] !== "`") {
         continue;
       }
 
-      // **Wrap long lines**
-      const words = line.split(" ");
-      let currentLine = "";
-
-      for (const word of words) {
-        if (currentLine.length + word.length + 1 <= maxLength) {
-          currentLine += (currentLine ? " " : "") + word;
-        } else {
-          if (currentLine) {
-            wrappedLines.push(currentLine);
-          }
-          currentLine = word;
-        }
-      }
-
-      if (currentLine) {
-        wrappedLines.push(currentLine);
+      const length = /^`+/.exec(text.slice(index))![0].length;
+      const close = this.findBacktickRun(text, index + length, length);
+      if (close === -1) {
+        const before = text.slice(0, index).split("\n");
+        return {
+          line: before.length - 1,
+          column: before[before.length - 1].length,
+        };
       }
+      index = close + length - 1;
     }
 
-    return wrappedLines.join("\n");
+    return undefined;
   }
 
-  /**
-   * **Count lines that were changed**
-   */
-  private countLinesChanged(original: string, formatted: string): number {
-    const originalLines = original.split("\n");
-    const formattedLines = formatted.split("\n");
-
-    let changedLines = 0;
-    const maxLines = Math.max(originalLines.length, formattedLines.length);
-
-    for (let i = 0; i < maxLines; i++) {
-      const originalLine = originalLines[i] || "";
-      const formattedLine = formattedLines[i] || "";
-
-      if (originalLine.trim() !== formattedLine.trim()) {
-        changedLines++;
+  private findBacktickRun(text: string, from: number, length: number): number {
+    const pattern = /`+/g;
+    pattern.lastIndex = from;
+    for (let run = pattern.exec(text); run; run = pattern.exec(text)) {
+      if (run[0].length === length) {
+        return run.index;
       }
     }
-
-    return changedLines;
+    return -1;
   }
 }
@@ -5,12 +5,34 @@ import {
   FormatterPriority,
   FormatOptionDescriptor,
   ValidationResult,
+  ValidationError,
   DiagnosticLevel,
+  ParseError,
 } from "../types";
 import { FormatError } from "../errors/format-error";
+import { PythonTokenizer } from "../utils/python-tokenizer";
+import { PythonLineBuilder } from "../utils/python-line-builder";
+import { PythonLayout } from "../utils/python-layout";
+import { PythonImportSorter } from "../utils/python-import-sorter";
+import { PythonProjectResolver } from "../utils/python-project";
+import { PythonStringNormalizer } from "../utils/python-strings";
+import { PythonToken } from "../types/python-tokens";
 
 /**
- * **Enhanced formatter for Python files with PEP 8 compliance**
+ * **Tokens that carry meaning, kept apart from the comments between them**
+ */
+interface SignificantTokens {
+  code: string[];
+  comments: string[];
+}
+
+/**
+ * **Black compatible formatter for Python files**
+ *
+ * Tokenizes the source and lays every logical line out again, splitting
+ * lines that are too long at brackets and delimiters. The result is checked
+ * to hold the same tokens as the input so formatting never changes what the
+ * program does.
  */
 export class PythonFormatter extends BaseFormatter {
   public readonly name = "Python";
@@ -18,27 +40,75 @@ export class PythonFormatter extends BaseFormatter {
   public readonly priority = FormatterPriority.HIGH;
 
   /**
-   * **Format Python code with PEP 8 compliance**
+   * **Format Python code the way Black does**
    */
   public async formatText(
     text: string,
     options: FormatOptions
   ): Promise<FormatResult> {
+    const startTime = Date.now();
+
     try {
-      const preprocessedText = this.preprocess(text, options);
-      const startTime = Date.now();
+      const maxLineLength =
+        options.customRules?.maxLineLength ?? options.maxLineLength ?? 88;
+      const indent = options.insertSpaces
+        ? " ".repeat(options.tabSize || 4)
+        : "\t";
+      let formatted = PythonLayout.format(text, {
+        maxLineLength,
+        indent,
+        tabSize: options.tabSize || 4,
+        languageId: options.languageId,
+        skipMagicTrailingComma: options.customRules?.skipMagicTrailingComma,
+        targetVersions: options.customRules?.targetVersions,
+        quoteStyle: options.customRules?.quoteStyle,
+        wrapDocstrings: options.customRules?.wrapDocstrings,
+        docstringStyle: options.customRules?.docstringStyle,
+      });
+      this.assertEquivalent(
+        text,
+        formatted,
+        options.languageId,
+        (options.customRules?.docstringStyle ?? "preserve") !== "preserve"
+      );
 
-      let formattedText = this.formatPythonCode(preprocessedText, options);
-      const finalText = this.postprocess(formattedText, options);
-      const executionTime = Date.now() - startTime;
+      if (options.customRules?.sortImports !== false) {
+        // **`[tool.isort]` in pyproject.toml overrides the chosen profile**
+        const project = await PythonProjectResolver.resolve(
+          options.fileName,
+          options.workspaceFolder
+        );
+        const settings = PythonImportSorter.createSettings({
+          profile: options.customRules?.importProfile,
+          lineLength: maxLineLength,
+          indent,
+          config: project.isort,
+          sourceModules: project.modules,
+          languageId: options.languageId,
+        });
+        formatted = PythonImportSorter.sort(
+          formatted,
+          settings,
+          options.languageId
+        );
+      }
 
-      const result = this.createSuccessResult(finalText);
+      const result = this.createSuccessResult(
+        this.postprocess(formatted, options)
+      );
       result.formatterUsed = "formatMaster-python";
-      result.executionTime = executionTime;
+      result.executionTime = Date.now() - startTime;
       return result;
     } catch (error) {
+      if (error instanceof ParseError || error instanceof FormatError) {
+        return this.createErrorResult(error);
+      }
       return this.createErrorResult(
-        error instanceof Error ? error : new Error("Unknown error")
+        new FormatError(
+          `Python formatting failed: ${error instanceof Error ? error.message : "Unknown error"}`,
+          options.languageId,
+          error instanceof Error ? error : undefined
+        )
       );
     }
   }
@@ -61,16 +131,66 @@ export class PythonFormatter extends BaseFormatter {
       {
         name: "maxLineLength",
         type: "number",
-        default: 79,
+        default: 88,
+        required: false,
+        description: "Maximum line length, Black's default is 88",
+      },
+      {
+        name: "skipMagicTrailingComma",
+        type: "boolean",
+        default: false,
+        required: false,
+        description:
+          "Ignore trailing commas that would otherwise keep collections exploded",
+      },
+      {
+        name: "targetVersions",
+        type: "array",
+        default: [],
+        required: false,
+        description:
+          "Python versions the code must support, such as py38; inferred when empty",
+      },
+      {
+        name: "quoteStyle",
+        type: "string",
+        default: "preserve",
+        required: false,
+        description:
+          "Quotes for string literals; quotes that would need more escapes are kept",
+        options: ["double", "single", "preserve"],
+      },
+      {
+        name: "wrapDocstrings",
+        type: "boolean",
+        default: false,
         required: false,
-        description: "Maximum line length according to PEP 8",
+        description: "Wrap docstring paragraphs to the maximum line length",
+      },
+      {
+        name: "docstringStyle",
+        type: "string",
+        default: "preserve",
+        required: false,
+        description:
+          "Convert docstring sections to the Google, NumPy or reST style",
+        options: ["preserve", "google", "numpy", "rest"],
       },
       {
         name: "sortImports",
         type: "boolean",
         default: true,
         required: false,
-        description: "Sort import statements",
+        description:
+          "Group and sort imports the way isort does, honouring [tool.isort] in pyproject.toml",
+      },
+      {
+        name: "importProfile",
+        type: "string",
+        default: "black",
+        required: false,
+        description: "isort profile used to wrap and order imports",
+        options: ["black", "google", "pycharm"],
       },
     ];
   }
@@ -79,276 +199,137 @@ export class PythonFormatter extends BaseFormatter {
    * **Get formatter version**
    */
   public getVersion(): string {
-    return "1.0.0";
+    return "2.0.0";
   }
 
   /**
    * **Validate Python syntax**
+   * Reports what the tokenizer rejects: unterminated strings, unbalanced
+   * brackets and inconsistent dedents
    */
   public async validateSyntax(
     content: string,
     languageId: string
   ): Promise<ValidationResult> {
+    const errors: ValidationError[] = [];
     try {
-      new Function(content);
-      return {
-        isValid: true,
-        errors: [],
-        warnings: [],
-        suggestions: [],
-        executionTime: 0,
-      };
-    } catch (error: any) {
-      return {
-        isValid: false,
-        errors: [
-          {
-            code: "SYNTAX_ERROR",
-            message:
-              error instanceof Error ? error.message : "Invalid Python syntax",
-            line: 0,
-            column: 0,
-            severity: DiagnosticLevel.ERROR,
-            source: this.name,
-          },
-        ],
-        warnings: [],
-        suggestions: [],
-        executionTime: 0,
-      };
-    }
-  }
-
-  private formatPythonCode(text: string, options: FormatOptions): string {
-    let lines = text.split("\n");
-    const indentChar = options.insertSpaces
-      ? " ".repeat(options.tabSize || 4)
-      : "\t";
-    const customRules = this.getCustomRules(options);
-
-    let indentLevel = 0;
-    const formattedLines: string[] = [];
-
-    for (let i = 0; i < lines.length; i++) {
-      let line = lines[i];
-      const trimmedLine = line.trim();
-
-      if (trimmedLine === "" || trimmedLine.startsWith("#")) {
-        formattedLines.push(line);
-        continue;
-      }
-
-      if (this.isDedentKeyword(trimmedLine)) {
-        indentLevel = Math.max(0, indentLevel - 1);
-      }
-
-      const indentedLine = indentChar.repeat(indentLevel) + trimmedLine;
-
-      if (this.isIndentKeyword(trimmedLine)) {
-        indentLevel++;
-      }
-
-      const formattedLine = this.formatImports(indentedLine, customRules);
-      const finalLine = this.formatDefinitions(formattedLine, customRules);
-
-      formattedLines.push(finalLine);
+      PythonTokenizer.tokenize(content, languageId);
+    } catch (error) {
+      errors.push({
+        code: "SYNTAX_ERROR",
+        message:
+          error instanceof Error ? error.message : "Invalid Python syntax",
+        line: error instanceof ParseError ? error.line : 0,
+        column: error instanceof ParseError ? error.column : 0,
+        severity: DiagnosticLevel.ERROR,
+        source: this.name,
+      });
     }
 
-    let result = formattedLines.join("\n");
-    result = this.applyPep8Rules(result, options);
-
-    return result;
+    return {
+      isValid: errors.length === 0,
+      errors,
+      warnings: [],
+      suggestions: [],
+      executionTime: 0,
+    };
   }
 
-  private isIndentKeyword(line: string): boolean {
-    const indentKeywords = [
-      "if ",
-      "elif ",
-      "else:",
-      "for ",
-      "while ",
-      "try:",
-      "except:",
-      "except ",
-      "finally:",
-      "with ",
-      "def ",
-      "class ",
-      "async def ",
-      "async for ",
-      "async with ",
-    ];
-
-    return (
-      indentKeywords.some(
-        (keyword) =>
-          line.startsWith(keyword) ||
-          (line.includes(":") && line.includes(keyword))
-      ) && line.endsWith(":")
+  /**
+   * **Make sure formatting only touched layout**
+   * Docstrings may only change their whitespace, or anything but their
+   * presence when `convertedDocstrings` is set
+   */
+  private assertEquivalent(
+    original: string,
+    formatted: string,
+    languageId: string,
+    convertedDocstrings: boolean
+  ): void {
+    const before = this.getSignificantTokens(
+      original,
+      languageId,
+      convertedDocstrings
     );
-  }
-
-  private isDedentKeyword(line: string): boolean {
-    const dedentKeywords = ["except:", "except ", "elif ", "else:", "finally:"];
-    return dedentKeywords.some((keyword) => line.startsWith(keyword));
-  }
-
-  private formatImports(line: string, customRules: any): string {
-    const trimmed = line.trim();
-
-    if (
-      customRules.sortImports === true &&
-      (trimmed.startsWith("import ") || trimmed.startsWith("from "))
-    ) {
-      return line.replace(/,\s*/g, ", ");
-    }
-
-    return line;
-  }
-
-  private formatDefinitions(line: string, customRules: any): string {
-    const trimmed = line.trim();
-
-    if (
-      trimmed.startsWith("def ") ||
-      trimmed.startsWith("class ") ||
-      trimmed.startsWith("async def ")
-    ) {
-      return line;
-    }
-
-    return line;
-  }
-
-  private applyPep8Rules(text: string, options: FormatOptions): string {
-    let result = text;
-
-    const maxLength = options.maxLineLength || 79;
-    const lines = result.split("\n");
-    const wrappedLines = lines.map((line) =>
-      this.wrapLongLine(line, maxLength)
+    const after = this.getSignificantTokens(
+      formatted,
+      languageId,
+      convertedDocstrings
     );
-    result = wrappedLines.join("\n");
-
-    result = this.fixOperatorSpacing(result);
-    result = this.fixFunctionCallSpacing(result);
-    result = result.replace(/[ \t]+$/gm, "");
-    result = this.fixBlankLineSpacing(result);
-
-    return result;
-  }
-
-  private wrapLongLine(line: string, maxLength: number): string {
-    if (line.length <= maxLength) {
-      return line;
-    }
-
-    const indent = line.match(/^\s*/)?.[0] || "";
-    const content = line.trim();
-
-    if (
-      content.startsWith("#") ||
-      content.includes('"""') ||
-      content.includes("'''")
-    ) {
-      return line;
-    }
-
-    const wrapPoints = [", ", " and ", " or ", " + ", " - ", " * ", " / "];
-
-    for (const wrapPoint of wrapPoints) {
-      if (content.includes(wrapPoint)) {
-        const parts = content.split(wrapPoint);
-        if (parts.length > 1) {
-          const firstPart = indent + parts[0] + wrapPoint;
-          if (firstPart.length < maxLength) {
-            const remainingParts = parts.slice(1).join(wrapPoint);
-            return firstPart + "\n" + indent + "    " + remainingParts;
-          }
-        }
-      }
-    }
-
-    return line;
-  }
-
-  private fixOperatorSpacing(text: string): string {
-    let result = text;
-
-    const binaryOperators = [
-      "==",
-      "!=",
-      "<=",
-      ">=",
-      "<",
-      ">",
-      "=",
-      "+=",
-      "-=",
-      "*=",
-      "/=",
-    ];
-
-    for (const op of binaryOperators) {
-      const regex = new RegExp(
-        `\\s*${op.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}\\s*`,
-        "g"
+    const same = (left: string[], right: string[]): boolean =>
+      left.length === right.length &&
+      left.every((value, index) => value === right[index]);
+
+    if (!same(before.code, after.code)) {
+      throw new FormatError(
+        "Formatting would change the meaning of the Python code",
+        languageId
       );
-      result = result.replace(regex, ` ${op} `);
     }
-
-    result = result.replace(/\s+/g, " ");
-
-    return result;
-  }
-
-  private fixFunctionCallSpacing(text: string): string {
-    return text.replace(/(\w)\s+\(/g, "$1(");
-  }
-
-  private fixBlankLineSpacing(text: string): string {
-    let result = text;
-    result = result.replace(/\n\s*\n\s*\n/g, "\n\n");
-    result = result.replace(/\n(class |def |async def )/g, "\n\n$1");
-    return result;
-  }
-
-  private countLinesChanged(original: string, formatted: string): number {
-    const originalLines = original.split("\n");
-    const formattedLines = formatted.split("\n");
-
-    let changedLines = 0;
-    const maxLines = Math.max(originalLines.length, formattedLines.length);
-
-    for (let i = 0; i < maxLines; i++) {
-      const originalLine = originalLines[i] || "";
-      const formattedLine = formattedLines[i] || "";
-
-      if (originalLine.trim() !== formattedLine.trim()) {
-        changedLines++;
-      }
+    if (!same(before.comments, after.comments)) {
+      throw new FormatError(
+        "Formatting would lose or reorder Python comments",
+        languageId
+      );
     }
-
-    return changedLines;
   }
 
-  private countChanges(original: string, formatted: string): number {
-    let changes = 0;
-    const maxLength = Math.max(original.length, formatted.length);
-
-    for (let i = 0; i < maxLength; i++) {
-      if (original[i] !== formatted[i]) {
-        changes++;
+  /**
+   * **Collect the tokens that formatting must not change**
+   * Parentheses, line ends and trailing commas are left out since the
+   * layout adds and removes them where that is safe
+   */
+  private getSignificantTokens(
+    text: string,
+    languageId: string,
+    convertedDocstrings: boolean
+  ): SignificantTokens {
+    const tokens = PythonTokenizer.tokenize(text, languageId);
+    const comments = tokens
+      .filter((token) => token.type === "comment")
+      .map((token) => PythonLineBuilder.normalizeComment(token.value));
+    const code = tokens.filter(
+      (token) => token.type !== "comment" && token.type !== "nl"
+    );
+    const getStringValue = (token: PythonToken, index: number): string => {
+      const value = PythonStringNormalizer.getCanonicalValue(token.value);
+      const previous = code[index - 1];
+      const isDocstring =
+        !/^[a-z]*[bft]/i.test(token.value) &&
+        code[index + 1]?.type === "newline" &&
+        (previous === undefined ||
+          ["indent", "dedent", "newline"].includes(previous.type) ||
+          previous.value === ":");
+      if (!isDocstring) {
+        return value;
       }
-    }
-
-    return changes;
-  }
-
-  private getCustomRules(options: FormatOptions): Record<string, any> {
-    const customRules = options.customRules || {};
-    return {
-      sortImports: customRules.sortImports ?? true,
+      return convertedDocstrings
+        ? "docstring"
+        : value.replace(/\s+/g, " ").replace(/(:) | $/g, "$1");
     };
+
+    // **Statement ends stay in until trailing commas are found**
+    const values = code
+      .map((token, index) =>
+        token.type === "string"
+          ? getStringValue(token, index)
+          : token.type === "number"
+            ? PythonLineBuilder.normalizeNumber(token.value)
+            : token.type === "newline" || token.value === ";"
+              ? "\n"
+              : ["name", "op"].includes(token.type)
+                ? token.value
+                : undefined
+      )
+      .filter((value): value is string => value !== undefined);
+
+    const significant = values.filter(
+      (value, index) =>
+        !["(", ")", "\n"].includes(value) &&
+        !(
+          value === "," && /^(?:[)\]}=:\n]|in)$/.test(values[index + 1] ?? "\n")
+        )
+    );
+    return { code: significant, comments };
   }
 }
@@ -8,8 +8,93 @@ import {
   ValidationResult,
   ValidationError,
   DiagnosticLevel,
+  XmlAttribute,
+  XmlDocumentNode,
+  XmlToken,
+  ParseError,
 } from "../types";
 import formatXml from "xml-formatter";
+import { XmlParser } from "../utils/xml-parser";
+import { XmlScanner } from "../utils/xml-scanner";
+import { XmlSchemaValidator } from "../utils/xml-schema-validator";
+import { SvgPathOptimizer } from "../utils/svg-path-optimizer";
+
+type XmlAttributeWrapping = "align" | "indent";
+
+/**
+ * **Settings for the line-length layout pass**
+ */
+interface XmlLayoutContext {
+  languageId: string;
+  indentUnit: string;
+  tabSize: number;
+  maxLineLength: number;
+  attributeWrapping: XmlAttributeWrapping;
+}
+
+/**
+ * **Attribute with the keys used to sort it canonically**
+ */
+interface XmlAttributeEntry {
+  attribute: XmlAttribute;
+  rank: number;
+  namespace: string;
+  localName: string;
+}
+
+const XML_NAMESPACE = "http://www.w3.org/XML/1998/namespace";
+
+/**
+ * **Comment standing in for a processing instruction during layout**
+ */
+const INSTRUCTION_PLACEHOLDER = /<!--fm_pi_(\d+)-->/g;
+
+/**
+ * **Namespaces of data that only vector editors read**
+ */
+const EDITOR_NAMESPACES = new Set([
+  "http://www.inkscape.org/namespaces/inkscape",
+  "http://sodipodi.sourceforge.net/DTD/sodipodi-0.dtd",
+  "http://inkscape.sourceforge.net/DTD/sodipodi-0.dtd",
+  "http://www.bohemiancoding.com/sketch/ns",
+  "http://www.figma.com/figma/ns",
+  "http://ns.adobe.com/AdobeIllustrator/10.0/",
+  "http://www.serif.com/",
+]);
+
+const TRANSFORM_ATTRIBUTES = [
+  "transform",
+  "gradientTransform",
+  "patternTransform",
+];
+
+const TRANSFORM_PATTERN =
+  /\s*(matrix|translate|scale|rotate|skewX|skewY)\s*\(([^)]*)\)\s*,?/y;
+
+/**
+ * **Single function of an SVG transform list**
+ */
+interface SvgTransform {
+  type: string;
+  values: number[];
+}
+
+/**
+ * **Open element tracked while optimizing an SVG document**
+ * Groups buffer their output until it is known whether they are empty
+ */
+interface SvgOptimizeFrame {
+  parts?: string[];
+  empty: boolean;
+}
+
+/**
+ * **Open element tracked while laying out the document**
+ */
+interface XmlLayoutFrame {
+  preserveSpace: boolean;
+  mixedContent: boolean;
+}
 
 /**
  * **Formatter for XML files**
@@ -42,6 +127,96 @@ export class XmlFormatter extends BaseFormatter {
         required: false,
         description: "Preserve XML comments in the output",
       },
+      {
+        name: "maxLineLength",
+        type: "number",
+        default: 120,
+        required: false,
+        description: "Wrap attributes and text of elements longer than this",
+      },
+      {
+        name: "attributeWrapping",
+        type: "string",
+        default: "align",
+        required: false,
+        description:
+          "Align wrapped attributes with the first one or indent them one level",
+        options: ["align", "indent"],
+      },
+      {
+        name: "optimizeSvg",
+        type: "boolean",
+        default: false,
+        required: false,
+        description:
+          "Optimize SVG documents; each pass below can be turned off separately",
+      },
+      {
+        name: "optimizePaths",
+        type: "boolean",
+        default: true,
+        required: false,
+        description: "Clean up path data, rounding coordinates in SVG mode",
+      },
+      {
+        name: "pathPrecision",
+        type: "number",
+        default: 3,
+        required: false,
+        description: "Decimal places kept when rounding path coordinates",
+      },
+      {
+        name: "convertPathsToRelative",
+        type: "boolean",
+        default: true,
+        required: false,
+        description: "Use relative path commands where they are shorter",
+      },
+      {
+        name: "removeEditorMetadata",
+        type: "boolean",
+        default: true,
+        required: false,
+        description: "Remove Inkscape, Sketch and other editor namespaces",
+      },
+      {
+        name: "removeEmptyGroups",
+        type: "boolean",
+        default: true,
+        required: false,
+        description: "Remove groups without content, id or filter",
+      },
+      {
+        name: "mergeTransforms",
+        type: "boolean",
+        default: true,
+        required: false,
+        description: "Merge consecutive transforms and drop identity ones",
+      },
+      {
+        name: "schemaCatalog",
+        type: "object",
+        default: {},
+        required: false,
+        description:
+          "Local copies of schemas and DTDs, keyed by namespace, public ID, system ID or URL",
+      },
+      {
+        name: "sortAttributes",
+        type: "boolean",
+        default: false,
+        required: false,
+        description:
+          "Sort attributes: xmlns declarations, id, name, priority lists, then by namespace and name",
+      },
+      {
+        name: "attributeOrder",
+        type: "object",
+        default: {},
+        required: false,
+        description:
+          'Attribute name patterns to put first, keyed by root element name or "*"',
+      },
       {
         name: "whiteSpaceAtEndOfSelfClosingTag",
         type: "boolean",
@@ -58,24 +233,20 @@ export class XmlFormatter extends BaseFormatter {
 
   public async validateSyntax(
     content: string,
-    languageId: string
+    languageId: string,
+    options?: FormatOptions
   ): Promise<ValidationResult> {
+    let document: XmlDocumentNode;
     try {
       // Attempt to parse XML to validate syntax
       formatXml(content, { throwOnFailure: true });
-      return {
-        isValid: true,
-        errors: [],
-        warnings: [],
-        suggestions: [],
-        executionTime: 0,
-      };
+      document = XmlParser.parse(content, languageId);
     } catch (error) {
       const validationError: ValidationError = {
         code: "XML_SYNTAX_ERROR",
         message: error instanceof Error ? error.message : "Invalid XML syntax",
-        line: 0,
-        column: 0,
+        line: error instanceof ParseError ? error.line : 0,
+        column: error instanceof ParseError ? error.column : 0,
         severity: DiagnosticLevel.ERROR,
         source: this.name,
       };
@@ -87,6 +258,39 @@ export class XmlFormatter extends BaseFormatter {
         executionTime: 0,
       };
     }
+
+    // **Validate against the DTD or XML Schema the document declares**
+    const issues = await XmlSchemaValidator.validate(document, {
+      documentPath: options?.fileName,
+      catalog: options?.customRules?.schemaCatalog || {},
+    });
+    const diagnostics = issues.map((issue) => {
+      const before = content.slice(0, issue.offset).split("\n");
+      return {
+        code: issue.code,
+        message: issue.message,
+        line: before.length,
+        column: before[before.length - 1].length + 1,
+        severity:
+          issue.severity === "error"
+            ? DiagnosticLevel.ERROR
+            : DiagnosticLevel.WARNING,
+        source: this.name,
+      };
+    });
+    const errors = diagnostics.filter(
+      (diagnostic) => diagnostic.severity === DiagnosticLevel.ERROR
+    );
+
+    return {
+      isValid: errors.length === 0,
+      errors,
+      warnings: diagnostics.filter(
+        (diagnostic) => diagnostic.severity !== DiagnosticLevel.ERROR
+      ),
+      suggestions: [],
+      executionTime: 0,
+    };
   }
 
   /**
@@ -97,12 +301,17 @@ export class XmlFormatter extends BaseFormatter {
     options: FormatOptions
   ): Promise<FormatResult> {
     try {
-      const preprocessedText = this.preprocess(text, options);
+      let preprocessedText = this.preprocess(text, options);
+
+      // **Handle SVG-specific optimizations before layout**
+      if (options.languageId === "svg") {
+        preprocessedText = this.formatSvg(preprocessedText, options);
+      }
 
       // **Configure XML formatter options**
       const xmlOptions: xmlFormatter.XMLFormatterOptions = {
         indentation: this.getIndentString(options),
-        filter: (node) => node.type !== "Comment", // **Keep comments by default**
+        filter: () => true, // **Keep every node, comments included, by default**
         collapseContent: true,
         lineSeparator: "\n",
         whiteSpaceAtEndOfSelfclosingTag: false,
@@ -110,12 +319,32 @@ export class XmlFormatter extends BaseFormatter {
       }; // **Apply custom rules**
       this.applyCustomRules(xmlOptions, options);
 
+      // **xml-formatter breaks the line before every processing instruction,
+      // even in elements laid out inline, so they go through as comments**
+      const instructions: string[] = [];
+      preprocessedText = this.hideInstructions(preprocessedText, instructions);
+      const filter = xmlOptions.filter!;
+      xmlOptions.filter = (node) =>
+        (node.type === "Comment" &&
+          "content" in node &&
+          String(node.content).startsWith("<!--fm_pi_")) ||
+        filter(node);
+
       // **Format the XML**
-      let formattedXml = formatXml(preprocessedText, xmlOptions);
+      let formattedXml = formatXml(preprocessedText, xmlOptions).replace(
+        INSTRUCTION_PLACEHOLDER,
+        (_, index: string) => instructions[Number(index)]
+      );
 
-      // **Handle SVG-specific formatting if applicable**
-      if (options.languageId === "svg") {
-        formattedXml = this.formatSvg(formattedXml, options);
+      // **Sort attributes canonically when enabled**
+      if (options.customRules?.sortAttributes === true) {
+        formattedXml = this.sortAttributes(formattedXml, options);
+      }
+
+      // **Wrap elements that exceed the line length**
+      const layoutContext = this.createLayoutContext(options);
+      if (layoutContext) {
+        formattedXml = this.applyLineLength(formattedXml, layoutContext);
       }
 
       // **Post-process the result**
@@ -130,6 +359,51 @@ export class XmlFormatter extends BaseFormatter {
     }
   }
 
+  /**
+   * **Trim trailing whitespace everywhere except inside CDATA sections**
+   */
+  protected preprocess(text: string, options: FormatOptions): string {
+    if (options.trimTrailingWhitespace === false) {
+      return text;
+    }
+
+    return text
+      .split(/(<!\[CDATA\[[\s\S]*?\]\]>)/)
+      .map((part, index) =>
+        index % 2 === 1 ? part : part.replace(/[ \t]+(?=\r?\n)/g, "")
+      )
+      .join("")
+      .replace(/[ \t]+$/, "");
+  }
+
+  /**
+   * **Replace processing instructions inside elements with placeholders**
+   * Instructions are stored the way xml-formatter writes them
+   */
+  private hideInstructions(text: string, instructions: string[]): string {
+    if (!text.includes("<?")) {
+      return text;
+    }
+
+    let depth = 0;
+    return XmlScanner.scan(text)
+      .map((token) => {
+        if (token.type === "startTag" && !token.selfClosing) {
+          depth++;
+        } else if (token.type === "endTag") {
+          depth--;
+        } else if (token.type === "processingInstruction" && depth > 0) {
+          const [, name, content] = token.raw.match(
+            /^<\?(\S*?)(?:\s+([\s\S]*))?\?>$/
+          )!;
+          instructions.push(`<?${name} ${(content || "").trim()}?>`);
+          return `<!--fm_pi_${instructions.length - 1}-->`;
+        }
+        return token.raw;
+      })
+      .join("");
+  }
+
   /**
    * **Get the indentation string based on options**
    */
@@ -159,44 +433,611 @@ export class XmlFormatter extends BaseFormatter {
       xmlOptions.collapseContent = rules.collapseContent;
     }
 
-    if (
-      typeof rules.preserveComments === "boolean" &&
-      !rules.preserveComments
-    ) {
-      // If preserveComments is false, we don't want to filter them out.
-      // The default filter keeps comments, so we only change it if preserveComments is explicitly false.
-      // xmlFormatter's filter: return true to keep the node, false to remove.
-      // To remove comments when preserveComments is false:
+    // **xml-formatter keeps the nodes for which the filter returns true**
+    if (rules.preserveComments === false) {
       xmlOptions.filter = (node) => node.type !== "Comment";
-    } else if (rules.preserveComments === true) {
-      // To keep comments when preserveComments is true (or undefined, as per default)
-      xmlOptions.filter = (_node) => true;
     }
 
     if (typeof rules.whiteSpaceAtEndOfSelfClosingTag === "boolean") {
       xmlOptions.whiteSpaceAtEndOfSelfclosingTag =
         rules.whiteSpaceAtEndOfSelfClosingTag;
     }
+  }
+
+  /**
+   * **Reorder the attributes of every start tag canonically**
+   * Attribute text is reused as is, so values stay byte-identical
+   */
+  private sortAttributes(text: string, options: FormatOptions): string {
+    const tokens = XmlScanner.scan(text, options.languageId);
+    const root = tokens.find((token) => token.type === "startTag")?.name;
+    const orders: Record<string, string[]> =
+      options.customRules?.attributeOrder || {};
+    const priority = (root && orders[root]) || orders["*"] || [];
+    const scopes: Map<string, string>[] = [new Map([["xml", XML_NAMESPACE]])];
+
+    return tokens
+      .map((token) => {
+        if (token.type === "endTag") {
+          scopes.pop();
+        }
+        if (token.type !== "startTag") {
+          return token.raw;
+        }
+
+        const attributes = token.attributes || [];
+        const scope = new Map(scopes[scopes.length - 1]);
+        for (const attribute of attributes) {
+          if (attribute.name.startsWith("xmlns:")) {
+            scope.set(attribute.name.slice(6), attribute.value);
+          }
+        }
+        if (!token.selfClosing) {
+          scopes.push(scope);
+        }
 
-    if (typeof rules.maxLineLength === "number") {
-      // **Note: xml-formatter doesn't have built-in line length support**
-      // **This would need to be implemented as a post-processing step**
+        const sorted = attributes
+          .map((attribute) =>
+            this.createAttributeEntry(attribute, scope, priority)
+          )
+          .sort((a, b) => this.compareAttributes(a, b))
+          .map((entry) => entry.attribute);
+        if (
+          sorted.every((attribute, index) => attribute === attributes[index])
+        ) {
+          return token.raw;
+        }
+
+        return `<${token.name} ${sorted
+          .map((attribute) => attribute.raw)
+          .join(" ")}${this.getTagClose(token)}`;
+      })
+      .join("");
+  }
+
+  /**
+   * **Compute the sort keys of an attribute**
+   */
+  private createAttributeEntry(
+    attribute: XmlAttribute,
+    scope: Map<string, string>,
+    priority: string[]
+  ): XmlAttributeEntry {
+    const separator = attribute.name.indexOf(":");
+    const prefix = separator < 0 ? "" : attribute.name.slice(0, separator);
+    const localName = attribute.name.slice(separator + 1);
+    const priorityIndex = priority.findIndex((pattern) =>
+      this.matchesPattern(attribute.name, pattern)
+    );
+
+    let rank: number;
+    if (attribute.name === "xmlns" || prefix === "xmlns") {
+      rank = 0;
+    } else if (localName === "id") {
+      rank = 1;
+    } else if (localName === "name") {
+      rank = 2;
+    } else {
+      rank = 3 + (priorityIndex < 0 ? priority.length : priorityIndex);
     }
+
+    return {
+      attribute,
+      rank,
+      namespace: prefix && (scope.get(prefix) ?? prefix),
+      localName,
+    };
+  }
+
+  /**
+   * **Order by rank, then unprefixed first, then namespace and local name**
+   */
+  private compareAttributes(
+    a: XmlAttributeEntry,
+    b: XmlAttributeEntry
+  ): number {
+    if (a.rank !== b.rank) {
+      return a.rank - b.rank;
+    }
+    if (a.namespace !== b.namespace) {
+      return a.namespace < b.namespace ? -1 : 1;
+    }
+    if (a.localName !== b.localName) {
+      return a.localName < b.localName ? -1 : 1;
+    }
+    return 0;
+  }
+
+  /**
+   * **Get the text closing a start tag after its last attribute**
+   */
+  private getTagClose(token: XmlToken): string {
+    const attributes = token.attributes || [];
+    const last = attributes[attributes.length - 1];
+    return last
+      ? token.raw.slice(token.raw.lastIndexOf(last.raw) + last.raw.length)
+      : token.raw.slice(token.name!.length + 1);
+  }
+
+  private matchesPattern(name: string, pattern: string): boolean {
+    // Simple glob matching
+    const regexPattern = pattern
+      .replace(/\./g, "\\.")
+      .replace(/\*/g, ".*")
+      .replace(/\?/g, ".");
+
+    return new RegExp(`^${regexPattern}$`).test(name);
+  }
+
+  /**
+   * **Resolve line-length settings, or nothing when wrapping is disabled**
+   */
+  private createLayoutContext(
+    options: FormatOptions
+  ): XmlLayoutContext | undefined {
+    const rules = options.customRules || {};
+    const maxLineLength =
+      typeof rules.maxLineLength === "number"
+        ? rules.maxLineLength
+        : options.maxLineLength;
+    if (!maxLineLength || maxLineLength <= 0) {
+      return undefined;
+    }
+
+    return {
+      languageId: options.languageId,
+      indentUnit: this.getIndentString(options),
+      tabSize: options.tabSize || 2,
+      maxLineLength,
+      attributeWrapping:
+        rules.attributeWrapping === "indent" ? "indent" : "align",
+    };
+  }
+
+  /**
+   * **Wrap attributes and text nodes that exceed the line length**
+   * Mixed content and `xml:space="preserve"` regions are copied verbatim
+   */
+  private applyLineLength(text: string, context: XmlLayoutContext): string {
+    const tokens = XmlScanner.scan(text, context.languageId);
+    const mixedElements = this.findMixedContent(tokens);
+    const stack: XmlLayoutFrame[] = [];
+    let output = "";
+
+    tokens.forEach((token, index) => {
+      const parent = stack[stack.length - 1];
+      const verbatim = parent?.preserveSpace || parent?.mixedContent;
+      let raw = token.raw;
+
+      if (!verbatim && token.type === "startTag") {
+        raw = this.wrapAttributes(token, output, context);
+      } else if (!verbatim && token.type === "text" && raw.trim()) {
+        raw = this.wrapText(
+          token,
+          tokens[index + 1],
+          stack.length,
+          output,
+          context
+        );
+      }
+      output += raw;
+
+      if (token.type === "startTag" && !token.selfClosing) {
+        const space = token.attributes?.find(
+          (attribute) => attribute.name === "xml:space"
+        )?.value;
+        stack.push({
+          preserveSpace:
+            space === "preserve" ||
+            (space !== "default" && !!parent?.preserveSpace),
+          mixedContent: mixedElements.has(index),
+        });
+      } else if (token.type === "endTag") {
+        stack.pop();
+      }
+    });
+
+    return output;
+  }
+
+  /**
+   * **Find start tags of elements holding both text and child elements**
+   */
+  private findMixedContent(tokens: XmlToken[]): Set<number> {
+    const mixed = new Set<number>();
+    const stack: { index: number; hasText: boolean; hasElement: boolean }[] =
+      [];
+
+    tokens.forEach((token, index) => {
+      const parent = stack[stack.length - 1];
+      if (token.type === "startTag") {
+        if (parent) {
+          parent.hasElement = true;
+        }
+        if (!token.selfClosing) {
+          stack.push({ index, hasText: false, hasElement: false });
+        }
+      } else if (token.type === "endTag") {
+        const frame = stack.pop();
+        if (frame?.hasText && frame.hasElement) {
+          mixed.add(frame.index);
+        }
+      } else if (
+        parent &&
+        (token.type === "cdata" ||
+          (token.type === "text" && token.raw.trim() !== ""))
+      ) {
+        parent.hasText = true;
+      }
+    });
+
+    return mixed;
+  }
+
+  /**
+   * **Put each attribute of an overlong start tag on its own line**
+   */
+  private wrapAttributes(
+    token: XmlToken,
+    output: string,
+    context: XmlLayoutContext
+  ): string {
+    const attributes = token.attributes || [];
+    if (
+      attributes.length < 2 ||
+      token.raw.includes("\n") ||
+      this.measureWidth(output + token.raw, context) <= context.maxLineLength
+    ) {
+      return token.raw;
+    }
+
+    const linePrefix = output.slice(output.lastIndexOf("\n") + 1);
+    const lineIndent = linePrefix.match(/^\s*/)![0];
+    const close = this.getTagClose(token);
+
+    if (context.attributeWrapping === "indent") {
+      const separator = `\n${lineIndent}${context.indentUnit}`;
+      return `<${token.name}${separator}${attributes
+        .map((attribute) => attribute.raw)
+        .join(separator)}${close}`;
+    }
+
+    const alignment =
+      linePrefix.replace(/[^\t]/g, " ") + " ".repeat(token.name!.length + 2);
+    return `<${token.name} ${attributes
+      .map((attribute) => attribute.raw)
+      .join(`\n${alignment}`)}${close}`;
+  }
+
+  /**
+   * **Reflow an overlong text node at the indentation of its content**
+   */
+  private wrapText(
+    token: XmlToken,
+    next: XmlToken | undefined,
+    depth: number,
+    output: string,
+    context: XmlLayoutContext
+  ): string {
+    const [, leading, content, trailing] = token.raw.match(
+      /^(\s*)([\s\S]*?)(\s*)$/
+    )!;
+    const suffix =
+      trailing.includes("\n") || next?.type !== "endTag"
+        ? trailing
+        : trailing + next.raw;
+    const exceeds = (output + leading + content + suffix)
+      .slice(output.lastIndexOf("\n") + 1)
+      .split("\n")
+      .some((line) => this.measureWidth(line, context) > context.maxLineLength);
+    if (!exceeds) {
+      return token.raw;
+    }
+
+    // **Reflowed text starts and ends at a word, as it does on the next run**
+    const start = leading.includes("\n") ? leading : "";
+    const end = trailing.includes("\n") ? trailing : "";
+    const indent = context.indentUnit.repeat(depth);
+    const lines: string[] = [];
+    let line = "";
+    let head = output + start;
+    for (const word of content.split(/\s+/)) {
+      const candidate = line ? `${line} ${word}` : word;
+      if (
+        line &&
+        this.measureWidth(head + candidate, context) > context.maxLineLength
+      ) {
+        lines.push(line);
+        line = word;
+        head = indent;
+      } else {
+        line = candidate;
+      }
+    }
+
+    const lastWords = line.split(" ");
+    if (
+      lastWords.length > 1 &&
+      this.measureWidth(
+        head + line + (end || (next?.type === "endTag" ? next.raw : "")),
+        context
+      ) > context.maxLineLength
+    ) {
+      lines.push(lastWords.slice(0, -1).join(" "));
+      line = lastWords[lastWords.length - 1];
+    }
+    lines.push(line);
+
+    return start + lines.join(`\n${indent}`) + end;
+  }
+
+  /**
+   * **Measure the display width of the last line of text**
+   */
+  private measureWidth(text: string, context: XmlLayoutContext): number {
+    return text
+      .slice(text.lastIndexOf("\n") + 1)
+      .replace(/\t/g, " ".repeat(context.tabSize)).length;
   }
 
   /**
    * **Handle SVG-specific formatting**
    */
   private formatSvg(text: string, options: FormatOptions): string {
-    // **SVG-specific optimizations**
-    let formatted = text;
+    const rules = options.customRules || {};
+    if (rules.optimizeSvg === true) {
+      return this.optimizeSvg(text, rules);
+    }
 
     // **Optimize path data if enabled**
-    if (options.customRules?.optimizePaths !== false) {
-      formatted = this.optimizeSvgPaths(formatted);
+    if (rules.optimizePaths !== false) {
+      return this.optimizeSvgPaths(text);
+    }
+
+    return text;
+  }
+
+  /**
+   * **Optimize an SVG document without changing how it renders**
+   */
+  private optimizeSvg(text: string, rules: Record<string, any>): string {
+    const tokens = XmlScanner.scan(text, "svg");
+    const editorPrefixes = new Set<string>();
+    if (rules.removeEditorMetadata !== false) {
+      for (const attribute of tokens.flatMap(
+        (token) => token.attributes || []
+      )) {
+        if (
+          attribute.name.startsWith("xmlns:") &&
+          EDITOR_NAMESPACES.has(attribute.value)
+        ) {
+          editorPrefixes.add(attribute.name.slice(6));
+        }
+      }
+    }
+
+    const stack: SvgOptimizeFrame[] = [];
+    let output = "";
+    let skipDepth = 0;
+    const emit = (raw: string, content: boolean): void => {
+      const frame = [...stack].reverse().find((item) => item.parts);
+      if (frame) {
+        frame.parts!.push(raw);
+        frame.empty = frame.empty && !content;
+      } else {
+        output += raw;
+      }
+    };
+
+    for (const token of tokens) {
+      if (skipDepth > 0) {
+        if (token.type === "startTag" && !token.selfClosing) {
+          skipDepth++;
+        } else if (token.type === "endTag") {
+          skipDepth--;
+        }
+        continue;
+      }
+
+      if (token.type === "startTag") {
+        if (this.isEditorName(token.name!, editorPrefixes)) {
+          skipDepth = token.selfClosing ? 0 : 1;
+          continue;
+        }
+
+        const raw = this.optimizeSvgTag(token, rules, editorPrefixes);
+        const removable =
+          rules.removeEmptyGroups !== false &&
+          token.name === "g" &&
+          !token.attributes!.some(
+            (attribute) =>
+              attribute.name === "id" || attribute.name === "filter"
+          );
+        if (token.selfClosing) {
+          if (!removable) {
+            emit(raw, true);
+          }
+        } else if (removable) {
+          stack.push({ parts: [raw], empty: true });
+        } else {
+          emit(raw, true);
+          stack.push({ empty: false });
+        }
+      } else if (token.type === "endTag") {
+        const frame = stack.pop();
+        if (frame?.parts) {
+          if (!frame.empty) {
+            emit(frame.parts.join("") + token.raw, true);
+          }
+        } else {
+          emit(token.raw, true);
+        }
+      } else {
+        emit(token.raw, token.type !== "text" || token.raw.trim() !== "");
+      }
+    }
+
+    return output;
+  }
+
+  /**
+   * **Rewrite the attributes of a start tag for SVG optimization**
+   */
+  private optimizeSvgTag(
+    token: XmlToken,
+    rules: Record<string, any>,
+    editorPrefixes: Set<string>
+  ): string {
+    let changed = false;
+    const attributes: string[] = [];
+
+    for (const attribute of token.attributes || []) {
+      let value = attribute.value;
+      if (
+        this.isEditorName(attribute.name, editorPrefixes) ||
+        (attribute.name.startsWith("xmlns:") &&
+          editorPrefixes.has(attribute.name.slice(6)))
+      ) {
+        changed = true;
+        continue;
+      }
+      if (attribute.name === "d" && rules.optimizePaths !== false) {
+        value = SvgPathOptimizer.optimize(value, {
+          precision:
+            typeof rules.pathPrecision === "number" ? rules.pathPrecision : 3,
+          relative: rules.convertPathsToRelative !== false,
+        });
+      } else if (
+        TRANSFORM_ATTRIBUTES.includes(attribute.name) &&
+        rules.mergeTransforms !== false
+      ) {
+        value = this.mergeTransforms(value);
+        if (!value) {
+          changed = true;
+          continue;
+        }
+      }
+
+      changed = changed || value !== attribute.value;
+      attributes.push(
+        value === attribute.value
+          ? attribute.raw
+          : `${attribute.name}=${attribute.quote}${value}${attribute.quote}`
+      );
     }
 
-    return formatted;
+    return changed
+      ? `<${token.name}${attributes.map((raw) => ` ${raw}`).join("")}${this.getTagClose(token)}`
+      : token.raw;
+  }
+
+  /**
+   * **Whether a qualified name belongs to an editor namespace**
+   */
+  private isEditorName(name: string, editorPrefixes: Set<string>): boolean {
+    const separator = name.indexOf(":");
+    return separator > 0 && editorPrefixes.has(name.slice(0, separator));
+  }
+
+  /**
+   * **Merge consecutive transforms of the same kind and drop identities**
+   * Returns the value unchanged when there is nothing to simplify
+   */
+  private mergeTransforms(value: string): string {
+    const transforms: SvgTransform[] = [];
+    let offset = 0;
+    let changed = false;
+
+    while (offset < value.length) {
+      TRANSFORM_PATTERN.lastIndex = offset;
+      const match = TRANSFORM_PATTERN.exec(value);
+      if (!match) {
+        return value.trim() ? value : "";
+      }
+      offset = TRANSFORM_PATTERN.lastIndex;
+
+      const current: SvgTransform = {
+        type: match[1],
+        values: match[2]
+          .split(/[\s,]+/)
+          .filter(Boolean)
+          .map(Number),
+      };
+      const previous = transforms[transforms.length - 1];
+      if (previous && this.canMergeTransforms(previous, current)) {
+        transforms[transforms.length - 1] = this.combineTransforms(
+          previous,
+          current
+        );
+        changed = true;
+      } else {
+        transforms.push(current);
+      }
+      if (this.isIdentityTransform(transforms[transforms.length - 1])) {
+        transforms.pop();
+        changed = true;
+      }
+    }
+
+    if (!changed) {
+      return value;
+    }
+    return transforms
+      .map(
+        (transform) =>
+          `${transform.type}(${transform.values
+            .map((number) => String(Number(number.toFixed(12))))
+            .join(" ")})`
+      )
+      .join(" ");
+  }
+
+  private canMergeTransforms(a: SvgTransform, b: SvgTransform): boolean {
+    if (a.type !== b.type) {
+      return false;
+    }
+    return (
+      a.type === "translate" ||
+      a.type === "scale" ||
+      (a.type === "rotate" && a.values.length === 1 && b.values.length === 1)
+    );
+  }
+
+  private combineTransforms(a: SvgTransform, b: SvgTransform): SvgTransform {
+    if (a.type === "translate") {
+      return {
+        type: "translate",
+        values: [
+          a.values[0] + b.values[0],
+          (a.values[1] || 0) + (b.values[1] || 0),
+        ],
+      };
+    }
+    if (a.type === "scale") {
+      const [ax, ay = ax] = a.values;
+      const [bx, by = bx] = b.values;
+      return {
+        type: "scale",
+        values: ax * bx === ay * by ? [ax * bx] : [ax * bx, ay * by],
+      };
+    }
+    return { type: "rotate", values: [a.values[0] + b.values[0]] };
+  }
+
+  private isIdentityTransform(transform: SvgTransform): boolean {
+    const values = transform.values;
+    switch (transform.type) {
+      case "translate":
+        return values.every((value) => value === 0);
+      case "scale":
+        return values.every((value) => value === 1);
+      case "rotate":
+      case "skewX":
+      case "skewY":
+        return values[0] % 360 === 0;
+      default:
+        return values.join(" ") === "1 0 0 1 0 0";
+    }
   }
 
   /**
@@ -6,13 +6,61 @@ import {
   FormatOptionDescriptor,
   ValidationResult,
   ValidationError,
+  ValidationWarning,
   FormatterPriority,
   DiagnosticLevel,
+  CodeFix,
+  YamlComment,
+  YamlEntry,
+  YamlIssue,
+  YamlAlias,
+  YamlMapping,
+  YamlNode,
+  YamlPair,
+  YamlScalar,
+  YamlSequence,
+  YamlStream,
 } from "../types";
 import { FormatError } from "../errors/format-error";
+import {
+  YamlKeyOrder,
+  YamlKeyOrderProfile,
+  BUILT_IN_KEY_ORDER_PROFILES,
+} from "../utils/yaml-key-order";
+import { YamlParser } from "../utils/yaml-parser";
+import { YamlValidator } from "../utils/yaml-validator";
+
+type YamlQuoteStyle = "preserve" | "double" | "single";
+type SequenceIndentStyle = "preserve" | "indented" | "flush";
+
+/**
+ * **Where an entry's value is printed**
+ * Sequence items, `?` keys and their `:` values share the compact layout
+ */
+type EntryKind = "pair" | "item" | "document";
+
+/**
+ * **Settings shared while formatting a stream**
+ */
+interface YamlPrintContext {
+  indentUnit: number;
+  maxLineLength: number;
+  quoteStyle: YamlQuoteStyle;
+  sequenceIndent: SequenceIndentStyle;
+  normalizeBooleans: boolean;
+  normalizeNulls: boolean;
+}
+
+const TRUE_VALUES = /^(?:yes|Yes|YES|on|On|ON)$/;
+const FALSE_VALUES = /^(?:no|No|NO|off|Off|OFF)$/;
+const NULL_VALUES = /^(?:null|Null|NULL|~)$/;
 
 /**
- * **Enhanced formatter for YAML files with validation and structure preservation**
+ * **Formatter for YAML files**
+ *
+ * Parses the stream into a concrete syntax tree and prints it back with
+ * normalized indentation. Comments, anchors, aliases, tags, document
+ * markers and the content of every scalar are kept as written.
  */
 export class YamlFormatter extends BaseFormatter {
   public readonly name = "yaml";
@@ -29,530 +77,751 @@ export class YamlFormatter extends BaseFormatter {
   public getSupportedOptions(): FormatOptionDescriptor[] {
     return [
       {
-        name: "alignComments",
-        type: "boolean",
-        description: "Align comments with the current context",
-        default: true,
+        name: "tabSize",
+        type: "number",
+        description:
+          "Number of spaces per indentation level, YAML does not allow tabs",
+        default: 2,
         required: false,
       },
       {
-        name: "spaceAfterDash",
-        type: "boolean",
-        description: "Add space after list item dashes",
-        default: true,
+        name: "maxLineLength",
+        type: "number",
+        description: "Break flow collections that do not fit within this width",
+        default: 80,
         required: false,
       },
       {
-        name: "spaceAfterColon",
-        type: "boolean",
-        description: "Add space after colons in key-value pairs",
-        default: true,
+        name: "sequenceIndent",
+        type: "string",
+        description:
+          "Indent sequences under a mapping key further than the key, or keep them flush with it",
+        default: "preserve",
         required: false,
+        options: ["preserve", "indented", "flush"],
       },
       {
-        name: "quoteKeys",
-        type: "boolean",
-        description: "Quote keys containing spaces or special characters",
-        default: false,
+        name: "quoteStyle",
+        type: "string",
+        description:
+          "Quotes for quoted scalars; quotes that would need escapes are kept",
+        default: "preserve",
         required: false,
+        options: ["preserve", "double", "single"],
       },
       {
         name: "normalizeBooleans",
         type: "boolean",
         description: "Normalize boolean values (yes/no to true/false)",
-        default: true,
+        default: false,
         required: false,
       },
       {
         name: "normalizeNulls",
         type: "boolean",
         description: "Normalize null values (~, NULL etc. to null)",
-        default: true,
+        default: false,
+        required: false,
+      },
+      {
+        name: "keyOrder",
+        type: "string",
+        description:
+          "Order mapping keys by a dialect profile, detected from the file name and content with auto",
+        default: "none",
+        required: false,
+        options: ["none", "auto", ...Object.keys(BUILT_IN_KEY_ORDER_PROFILES)],
+      },
+      {
+        name: "keyOrderSchemas",
+        type: "object",
+        description:
+          'Custom key order profiles, e.g. { "ansible": { "files": ["playbook*.yml"], "order": ["name", "hosts", "tasks"] } }',
+        default: {},
         required: false,
       },
     ];
   }
 
   public getVersion(): string {
-    return "1.0.0";
+    return "2.0.0";
   }
 
+  /**
+   * **Report syntax errors and values YAML parsers may read differently**
+   * Warnings come with quick fixes when the file name is known
+   */
   public async validateSyntax(
     content: string,
-    languageId: string
+    languageId: string,
+    options?: FormatOptions
   ): Promise<ValidationResult> {
-    try {
-      this.validateYamlStructure(content);
-      return {
-        isValid: true,
-        errors: [],
-        warnings: [],
-        suggestions: [],
-        executionTime: 0,
-      };
-    } catch (error) {
-      const syntaxError: ValidationError = {
-        code: "YAML_SYNTAX_ERROR",
-        message: error instanceof Error ? error.message : "Invalid YAML syntax",
-        line: 0,
-        column: 0,
-        severity: DiagnosticLevel.ERROR,
+    const errors: ValidationError[] = [];
+    const warnings: ValidationWarning[] = [];
+
+    for (const issue of YamlValidator.validate(content, options?.tabSize)) {
+      const diagnostic = {
+        code: issue.code,
+        message: issue.message,
+        line: issue.line,
+        column: issue.column,
         source: this.name,
+        fix:
+          issue.fix && options?.fileName
+            ? this.createCodeFix(issue, options.fileName)
+            : undefined,
       };
-
-      return {
-        isValid: false,
-        errors: [syntaxError],
-        warnings: [],
-        suggestions: [],
-        executionTime: 0,
-      };
+      if (issue.severity === "error") {
+        errors.push({
+          ...diagnostic,
+          endLine: issue.endLine,
+          endColumn: issue.endColumn,
+          severity: DiagnosticLevel.ERROR,
+        });
+      } else {
+        warnings.push({ ...diagnostic, severity: DiagnosticLevel.WARNING });
+      }
     }
+
+    return {
+      isValid: errors.length === 0,
+      errors,
+      warnings,
+      suggestions: [],
+      executionTime: 0,
+    };
+  }
+
+  /**
+   * **Quick fix that replaces the text of an issue**
+   */
+  private createCodeFix(issue: YamlIssue, fileName: string): CodeFix {
+    const edit = new vscode.WorkspaceEdit();
+    edit.replace(
+      vscode.Uri.file(fileName),
+      new vscode.Range(
+        issue.line - 1,
+        issue.column - 1,
+        issue.endLine - 1,
+        issue.endColumn - 1
+      ),
+      issue.fix!.text
+    );
+    return {
+      title: issue.fix!.title,
+      edit,
+      kind: vscode.CodeActionKind.QuickFix,
+      isPreferred: true,
+    };
   }
 
   /**
-   * **Format YAML content with validation and structure preservation**
+   * **Format YAML content**
+   * Trailing whitespace can be part of a block scalar, so the text is
+   * parsed as written and the printer drops whitespace that carries nothing
    */
   async formatText(
     text: string,
     options: FormatOptions
   ): Promise<FormatResult> {
-    try {
-      const preprocessedText = this.preprocess(text, options);
-      const startTime = Date.now();
+    const startTime = Date.now();
 
-      // **Validate YAML structure first**
-      if (options.enableValidation !== false) {
-        this.validateYamlStructure(preprocessedText);
-      }
+    try {
+      const stream = YamlParser.parse(text, options.languageId);
+      this.applyKeyOrdering(stream, options);
+      const formatted = this.printStream(
+        stream,
+        this.createPrintContext(options)
+      );
 
-      // **Apply YAML formatting**
-      let formattedText = this.formatYaml(preprocessedText, options);
-
-      // **Apply post-processing**
-      const finalText = this.postprocess(formattedText, options);
-      const executionTime = Date.now() - startTime;
-
-      return {
-        success: true,
-        edits: [
-          vscode.TextEdit.replace(
-            new vscode.Range(
-              new vscode.Position(0, 0),
-              new vscode.Position(text.split("\n").length, 0)
-            ),
-            finalText
-          ),
-        ],
-        errors: [],
-        warnings: [],
-        suggestions: [],
-        formatterUsed: this.name,
-        executionTime,
-        linesProcessed: text.split("\n").length,
-        charactersProcessed: text.length,
-        fromCache: false,
-      };
+      const result = this.createSuccessResult(
+        this.postprocess(formatted, options)
+      );
+      result.executionTime = Date.now() - startTime;
+      return result;
     } catch (error) {
-      const errorMessage =
-        error instanceof Error ? error.message : "Unknown error";
-      const formatError: ValidationError = {
-        code: "YAML_FORMAT_ERROR",
-        message: `YAML formatting failed: ${errorMessage}`,
-        line: 0,
-        column: 0,
-        severity: DiagnosticLevel.ERROR,
-        source: this.name,
-      };
-
-      return {
-        success: false,
-        edits: [],
-        errors: [formatError],
-        warnings: [],
-        suggestions: [],
-        formatterUsed: this.name,
-        executionTime: 0,
-        linesProcessed: 0,
-        charactersProcessed: 0,
-        fromCache: false,
-      };
+      if (error instanceof Error) {
+        return this.createErrorResult(error);
+      }
+      return this.createErrorResult(new Error("YAML formatting error"));
     }
   }
 
   /**
-   * **Validate YAML structure before formatting**
+   * **Reorder mapping keys by the profile each document uses**
+   * Profiles can also be written as a plain list of root keys
    */
-  private validateYamlStructure(text: string): void {
-    const lines = text.split("\n");
-    const indentStack: number[] = [0];
+  private applyKeyOrdering(stream: YamlStream, options: FormatOptions): void {
+    const rules = options.customRules || {};
+    const profile =
+      typeof rules.keyOrder === "string" ? rules.keyOrder : "none";
+    if (profile === "none") {
+      return;
+    }
 
-    for (let i = 0; i < lines.length; i++) {
-      const line = lines[i];
-      const trimmed = line.trim();
+    const userProfiles: Record<string, YamlKeyOrderProfile> = {};
+    for (const [name, schema] of Object.entries<YamlKeyOrderProfile | string[]>(
+      rules.keyOrderSchemas || {}
+    )) {
+      userProfiles[name] = Array.isArray(schema) ? { order: schema } : schema;
+    }
 
-      // **Skip empty lines and comments**
-      if (trimmed === "" || trimmed.startsWith("#")) {
-        continue;
+    for (const document of stream.documents) {
+      const schema = YamlKeyOrder.findProfile(
+        document,
+        options.fileName || "",
+        profile,
+        userProfiles
+      );
+      if (schema) {
+        YamlKeyOrder.apply(document.contents.value, schema);
       }
+    }
+  }
 
-      const indent = line.length - line.trimStart().length;
-
-      // **Check for consistent indentation**
-      if (indent > indentStack[indentStack.length - 1]) {
-        indentStack.push(indent);
-      } else if (indent < indentStack[indentStack.length - 1]) {
-        // **Pop until we find the right level**
-        while (
-          indentStack.length > 1 &&
-          indentStack[indentStack.length - 1] > indent
-        ) {
-          indentStack.pop();
-        }
+  /**
+   * **Create the printing context from format options**
+   */
+  private createPrintContext(options: FormatOptions): YamlPrintContext {
+    const rules = options.customRules || {};
+    return {
+      indentUnit: options.tabSize || 2,
+      maxLineLength: rules.maxLineLength ?? options.maxLineLength ?? 80,
+      quoteStyle: ["double", "single"].includes(rules.quoteStyle)
+        ? rules.quoteStyle
+        : "preserve",
+      sequenceIndent: ["indented", "flush"].includes(rules.sequenceIndent)
+        ? rules.sequenceIndent
+        : "preserve",
+      normalizeBooleans: rules.normalizeBooleans === true,
+      normalizeNulls: rules.normalizeNulls === true,
+    };
+  }
 
-        if (indentStack[indentStack.length - 1] !== indent) {
-          throw new Error(`Inconsistent indentation at line ${i + 1}: ${line}`);
-        }
+  /**
+   * **Print every document of the stream**
+   */
+  private printStream(stream: YamlStream, context: YamlPrintContext): string {
+    const lines: string[] = [];
+
+    stream.documents.forEach((document, index) => {
+      // **Documents after the first need `---` unless `...` ended the last**
+      const marker =
+        document.explicitStart ||
+        (index > 0 && !stream.documents[index - 1].explicitEnd);
+      this.printComments(lines, document.leadingComments, 0);
+      lines.push(...document.directives);
+
+      // **Keep a header comment apart from the root node it precedes**
+      const lastComment = document.leadingComments.slice(-1)[0];
+      const root = document.contents.value;
+      if (
+        !marker &&
+        lastComment &&
+        root &&
+        root.start.line > lastComment.start.line + 1
+      ) {
+        this.pushBlankLine(lines);
       }
-
-      // **Check for valid key-value pairs**
-      if (trimmed.includes(":") && !trimmed.startsWith("-")) {
-        const colonIndex = trimmed.indexOf(":");
-        const key = trimmed.substring(0, colonIndex).trim();
-
-        if (
-          key === "" ||
-          (key.includes(" ") && !key.startsWith('"') && !key.startsWith("'"))
-        ) {
-          // **Keys with spaces should be quoted**
-          // **This is a warning rather than an error**
-        }
+      this.printEntry(
+        lines,
+        marker ? "---" : "",
+        document.contents,
+        -1,
+        "document",
+        context
+      );
+      this.printComments(lines, document.danglingComments, 0);
+      if (document.explicitEnd) {
+        lines.push("...");
       }
-    }
+    });
+    this.printComments(lines, stream.danglingComments, 0);
+
+    return lines.join("\n");
   }
 
   /**
-   * **Format YAML content**
+   * **Print the value of a pair, sequence item or document**
+   * `prefix` holds the indented key and indicator, `indent` is the column
+   * the entry starts at
    */
-  private formatYaml(text: string, options: FormatOptions): string {
-    const lines = text.split("\n");
-    const indentChar = !options.insertSpaces
-      ? "\t"
-      : " ".repeat(options.tabSize);
-    const customRules = this.getCustomRules(options);
-    const formattedLines: string[] = [];
-
-    let currentIndentLevel = 0;
-    const indentStack: number[] = [0];
-
-    for (let i = 0; i < lines.length; i++) {
-      const line = lines[i];
-      const trimmed = line.trim();
-
-      // **Preserve empty lines and comments with proper indentation**
-      if (trimmed === "") {
-        formattedLines.push("");
-        continue;
+  private printEntry(
+    lines: string[],
+    prefix: string,
+    entry: YamlEntry & { value?: YamlNode },
+    indent: number,
+    kind: EntryKind,
+    context: YamlPrintContext
+  ): void {
+    const value = entry.value;
+    const lead = prefix.trim() === "" ? prefix : `${prefix} `;
+    const comment = entry.comment ? ` ${entry.comment.text}` : "";
+    const childIndent =
+      kind === "document" ? 0 : kind === "item" ? indent + 2 : indent;
+    const nestedIndent =
+      kind === "pair" ? childIndent + context.indentUnit : childIndent;
+    const scalarIndent =
+      kind === "document" ? context.indentUnit : nestedIndent;
+
+    if (value === undefined) {
+      if (prefix) {
+        lines.push(prefix + comment);
       }
+      return;
+    }
 
-      if (trimmed.startsWith("#")) {
-        const commentIndent = this.getCommentIndent(
-          line,
-          indentStack,
-          customRules
-        );
-        formattedLines.push(indentChar.repeat(commentIndent) + trimmed);
-        continue;
+    // **Comments between the indicator and the value keep it on its own line**
+    const commentBeforeValue =
+      entry.comment !== undefined &&
+      entry.comment.start.line < value.start.line &&
+      (value.type === "alias" ||
+        (value.type === "scalar" &&
+          value.style !== "literal" &&
+          value.style !== "folded"));
+    if (entry.valueComments.length > 0 || commentBeforeValue) {
+      if (prefix || commentBeforeValue) {
+        lines.push(prefix + (commentBeforeValue ? comment : ""));
       }
-
-      // **Calculate proper indentation**
-      const originalIndent = line.length - line.trimStart().length;
-      let newIndentLevel = this.calculateIndentLevel(
-        originalIndent,
-        indentStack,
-        options.tabSize
+      this.printComments(lines, entry.valueComments, scalarIndent);
+      this.printEntry(
+        lines,
+        " ".repeat(scalarIndent),
+        {
+          ...entry,
+          comment: commentBeforeValue ? undefined : entry.comment,
+          valueComments: [],
+        },
+        indent,
+        kind,
+        context
       );
+      return;
+    }
 
-      // **Handle list items**
-      if (trimmed.startsWith("-")) {
-        const listItemFormatted = this.formatListItem(
-          trimmed,
-          newIndentLevel,
-          indentChar,
-          customRules
-        );
-        formattedLines.push(listItemFormatted);
-
-        // **Check if list item has a value**
-        if (trimmed.includes(":")) {
-          const colonIndex = trimmed.indexOf(":");
-          const afterColon = trimmed.substring(colonIndex + 1).trim();
-          if (afterColon === "") {
-            // **List item with nested content - increase indent**
-            indentStack.push((newIndentLevel + 1) * options.tabSize);
-          }
-        }
-        continue;
-      }
+    const properties = this.printProperties(value);
 
-      // **Handle key-value pairs**
-      if (trimmed.includes(":")) {
-        const formattedKeyValue = this.formatKeyValue(
-          trimmed,
-          newIndentLevel,
-          indentChar,
-          customRules
-        );
-        formattedLines.push(formattedKeyValue);
-
-        // **Check if this starts a new nested structure**
-        const colonIndex = trimmed.indexOf(":");
-        const afterColon = trimmed.substring(colonIndex + 1).trim();
-
-        if (afterColon === "" || afterColon === "|" || afterColon === ">") {
-          // **Key with nested content - prepare for increased indent**
-          const nextLineIndex = i + 1;
-          if (nextLineIndex < lines.length) {
-            const nextLine = lines[nextLineIndex];
-            const nextTrimmed = nextLine.trim();
-            if (nextTrimmed !== "" && !nextTrimmed.startsWith("#")) {
-              const nextIndent = nextLine.length - nextLine.trimStart().length;
-              if (nextIndent > originalIndent) {
-                indentStack.push(nextIndent);
-              }
-            }
-          }
-        }
-        continue;
+    if (
+      value.type === "scalar" &&
+      (value.style === "literal" || value.style === "folded")
+    ) {
+      lines.push(lead + this.join(properties, value.header!) + comment);
+      const explicitIndent = /[1-9]/.exec(value.header!);
+      const contentIndent = explicitIndent
+        ? Math.max(indent, 0) + Number(explicitIndent[0])
+        : scalarIndent;
+      for (const line of value.lines) {
+        lines.push(line ? " ".repeat(contentIndent) + line : "");
       }
+      return;
+    }
 
-      // **Handle scalar values (multiline strings, etc.)**
-      const formattedScalar = indentChar.repeat(newIndentLevel) + trimmed;
-      formattedLines.push(formattedScalar);
+    if (value.type === "scalar" || value.type === "alias") {
+      const [first, ...rest] = this.printScalarLines(
+        value,
+        context,
+        kind === "pair"
+      );
+      lines.push(first ? lead + first : prefix);
+      for (const line of rest) {
+        lines.push(line ? " ".repeat(scalarIndent) + line : "");
+      }
+      lines[lines.length - 1] += comment;
+      return;
     }
 
-    let result = formattedLines.join("\n");
+    if (value.flow) {
+      const inline = this.printInline(value, context);
+      if (
+        inline !== undefined &&
+        (lead + inline + comment).length <= context.maxLineLength
+      ) {
+        lines.push(lead + inline + comment);
+        return;
+      }
+      if (kind === "item") {
+        this.printFlowCollection(lines, lead, value, childIndent, context);
+      } else {
+        if (prefix) {
+          lines.push(prefix);
+        }
+        this.printFlowCollection(
+          lines,
+          " ".repeat(scalarIndent),
+          value,
+          scalarIndent,
+          context
+        );
+      }
+      lines[lines.length - 1] += comment;
+      return;
+    }
 
-    // **Apply additional formatting rules**
-    result = this.applyYamlRules(result, customRules);
+    // **Sequence items start their first entry on the `-` line**
+    const entries: YamlEntry[] =
+      value.type === "mapping" ? value.pairs : value.items;
+    if (
+      kind === "item" &&
+      !properties &&
+      !comment &&
+      entries[0].leadingComments.length === 0
+    ) {
+      this.printBlockCollection(lines, value, childIndent, context, lead);
+      return;
+    }
 
-    return result;
+    if (prefix || properties || comment) {
+      lines.push(this.join(prefix, properties) + comment);
+    }
+    const flush =
+      value.type === "sequence" &&
+      kind === "pair" &&
+      !this.isIndentedSequence(value, context);
+    this.printBlockCollection(
+      lines,
+      value,
+      flush ? childIndent : nestedIndent,
+      context
+    );
   }
 
   /**
-   * **Calculate proper indentation level**
+   * **Print the entries of a block mapping or sequence at `indent`**
+   * `firstPrefix` puts the first entry on a line that is already started
    */
-  private calculateIndentLevel(
-    originalIndent: number,
-    indentStack: number[],
-    indentSize: number
-  ): number {
-    // **Find the appropriate indent level**
-    let level = 0;
-
-    for (let i = indentStack.length - 1; i >= 0; i--) {
-      if (originalIndent >= indentStack[i]) {
-        level = i;
-        break;
+  private printBlockCollection(
+    lines: string[],
+    node: YamlMapping | YamlSequence,
+    indent: number,
+    context: YamlPrintContext,
+    firstPrefix?: string
+  ): void {
+    const padding = " ".repeat(indent);
+    const entries: YamlEntry[] =
+      node.type === "mapping" ? node.pairs : node.items;
+
+    entries.forEach((entry, index) => {
+      const start =
+        index === 0 && firstPrefix !== undefined ? firstPrefix : padding;
+      if (start === padding) {
+        // **Blank lines never open a collection**
+        this.printComments(lines, entry.leadingComments, indent, index === 0);
+        if (
+          entry.blankLineBefore &&
+          (index > 0 || entry.leadingComments.length > 0)
+        ) {
+          this.pushBlankLine(lines);
+        }
       }
-    }
-
-    // **Adjust stack if we're backing out of indentation**
-    while (indentStack.length > level + 1) {
-      indentStack.pop();
-    }
 
-    return level;
+      if (node.type === "mapping") {
+        this.printPair(lines, start, entry as YamlPair, indent, context);
+      } else {
+        this.printEntry(lines, `${start}-`, entry, indent, "item", context);
+      }
+    });
+    this.printComments(lines, node.danglingComments, indent);
   }
 
   /**
-   * **Get appropriate comment indentation**
+   * **Print a `key: value` pair, or a `?` key with its `:` value**
    */
-  private getCommentIndent(
-    line: string,
-    indentStack: number[],
-    customRules: any
-  ): number {
-    const originalIndent = line.length - line.trimStart().length;
-
-    // **Comments can be aligned with current context or standalone**
-    if (customRules.alignComments === false) {
-      // Use default tab size since this is just for comment alignment
-      const defaultTabSize = 2;
-      return Math.floor(originalIndent / defaultTabSize);
+  private printPair(
+    lines: string[],
+    start: string,
+    pair: YamlPair,
+    indent: number,
+    context: YamlPrintContext
+  ): void {
+    if (pair.explicitKey) {
+      this.printEntry(
+        lines,
+        `${start}?`,
+        {
+          ...pair,
+          value: pair.key,
+          comment: pair.value ? undefined : pair.comment,
+          valueComments: [],
+        },
+        indent,
+        "item",
+        context
+      );
+      if (pair.value) {
+        this.printEntry(
+          lines,
+          `${" ".repeat(indent)}:`,
+          pair,
+          indent,
+          "item",
+          context
+        );
+      }
+      return;
     }
 
-    // **Align with current indent level**
-    return indentStack[indentStack.length - 1] || 0;
+    const key = pair.key ? this.printKey(pair.key, context) : "";
+    this.printEntry(lines, `${start}${key}:`, pair, indent, "pair", context);
   }
 
   /**
-   * **Format list items**
+   * **Print an implicit key, which always fits on one line**
+   * Alias keys keep a space before the `:` so it does not join their name
    */
-  private formatListItem(
-    item: string,
-    indentLevel: number,
-    indentChar: string,
-    customRules: any
-  ): string {
-    const baseIndent = indentChar.repeat(indentLevel);
-
-    if (item.includes(":")) {
-      // **List item with key-value**
-      const dashIndex = item.indexOf("-");
-      const afterDash = item.substring(dashIndex + 1).trim();
-
-      const spaceAfterDash = customRules.spaceAfterDash !== false ? " " : "";
-      return baseIndent + "-" + spaceAfterDash + afterDash;
-    } else {
-      // **Simple list item**
-      const content = item.substring(1).trim();
-      const spaceAfterDash = customRules.spaceAfterDash !== false ? " " : "";
-      return baseIndent + "-" + spaceAfterDash + content;
+  private printKey(node: YamlNode, context: YamlPrintContext): string {
+    const key = this.printInline(node, context);
+    if (key === undefined) {
+      throw new FormatError(
+        `Implicit key at line ${node.start.line} must fit on a single line`,
+        "yaml"
+      );
     }
+    return node.type === "alias" ? `${key} ` : key;
   }
 
   /**
-   * **Format key-value pairs**
+   * **Print a node on a single line**
+   * Returns undefined for block nodes, multi-line scalars and flow
+   * collections holding comments
    */
-  private formatKeyValue(
-    pair: string,
-    indentLevel: number,
-    indentChar: string,
-    customRules: any
-  ): string {
-    const baseIndent = indentChar.repeat(indentLevel);
-    const colonIndex = pair.indexOf(":");
-
-    const key = pair.substring(0, colonIndex).trim();
-    const value = pair.substring(colonIndex + 1).trim();
+  private printInline(
+    node: YamlNode,
+    context: YamlPrintContext
+  ): string | undefined {
+    if (node.type === "alias") {
+      return `*${node.name}`;
+    }
+    if (node.type === "scalar") {
+      return node.style === "literal" ||
+        node.style === "folded" ||
+        node.lines.length > 1
+        ? undefined
+        : this.printScalarLines(node, context, false)[0];
+    }
+    if (!node.flow || node.danglingComments.length > 0) {
+      return undefined;
+    }
 
-    // **Format key (quote if necessary)**
-    let formattedKey = key;
-    if (
-      customRules.quoteKeys === true &&
-      !key.startsWith('"') &&
-      !key.startsWith("'")
-    ) {
-      if (key.includes(" ") || key.includes("-") || /^\d/.test(key)) {
-        formattedKey = `"${key}"`;
+    const entries: string[] = [];
+    for (const entry of node.type === "mapping" ? node.pairs : node.items) {
+      if (
+        entry.comment ||
+        entry.leadingComments.length > 0 ||
+        entry.valueComments.length > 0
+      ) {
+        return undefined;
+      }
+      const text = this.printFlowEntry(entry, context);
+      if (text === undefined) {
+        return undefined;
       }
+      entries.push(text);
     }
 
-    // **Format spacing around colon**
-    const spaceAfterColon = customRules.spaceAfterColon !== false ? " " : "";
-
-    if (value === "") {
-      return baseIndent + formattedKey + ":";
-    } else if (value === "|" || value === ">") {
-      return baseIndent + formattedKey + ": " + value;
-    } else {
-      return baseIndent + formattedKey + ":" + spaceAfterColon + value;
+    const properties = this.printProperties(node);
+    if (node.type === "sequence") {
+      return this.join(properties, `[${entries.join(", ")}]`);
     }
+    return this.join(
+      properties,
+      entries.length > 0 ? `{ ${entries.join(", ")} }` : "{}"
+    );
   }
 
   /**
-   * **Apply additional YAML formatting rules**
+   * **Print an entry of a flow collection on a single line**
    */
-  private applyYamlRules(text: string, customRules: any): string {
-    let result = text;
-
-    // **Normalize boolean values**
-    if (customRules.normalizeBooleans !== false) {
-      result = result.replace(/:\s*(yes|Yes|YES|on|On|ON)\s*$/gm, ": true");
-      result = result.replace(/:\s*(no|No|NO|off|Off|OFF)\s*$/gm, ": false");
+  private printFlowEntry(
+    entry: YamlEntry & { key?: YamlNode; value?: YamlNode },
+    context: YamlPrintContext
+  ): string | undefined {
+    const isPair = "explicitKey" in entry;
+    if (!isPair) {
+      return entry.value ? this.printInline(entry.value, context) : "";
     }
 
-    // **Normalize null values**
-    if (customRules.normalizeNulls !== false) {
-      result = result.replace(/:\s*(null|Null|NULL|~)\s*$/gm, ": null");
+    const key = entry.key ? this.printInline(entry.key, context) : "";
+    const value = entry.value
+      ? this.printInline(entry.value, context)
+      : undefined;
+    if (key === undefined || (entry.value && value === undefined)) {
+      return undefined;
     }
-
-    // **Remove trailing spaces**
-    result = result.replace(/[ \t]+$/gm, "");
-
-    // **Ensure document ends with newline**
-    if (!result.endsWith("\n") && customRules.ensureFinalNewline !== false) {
-      result += "\n";
-    }
-
-    // **Remove excessive blank lines**
-    result = result.replace(/\n\s*\n\s*\n/g, "\n\n");
-
-    return result;
+    const separator = entry.key?.type === "alias" ? " :" : ":";
+    return value === undefined
+      ? key
+      : value
+        ? `${key}${separator} ${value}`
+        : `${key}${separator}`;
   }
 
   /**
-   * **Count lines that were changed**
+   * **Print a flow collection with one entry per line**
+   * The opening bracket goes at the end of `start` and the closing one on
+   * its own line at `indent`
    */
-  private countLinesChanged(original: string, formatted: string): number {
-    const originalLines = original.split("\n");
-    const formattedLines = formatted.split("\n");
-
-    let changedLines = 0;
-    const maxLines = Math.max(originalLines.length, formattedLines.length);
+  private printFlowCollection(
+    lines: string[],
+    start: string,
+    node: YamlMapping | YamlSequence,
+    indent: number,
+    context: YamlPrintContext
+  ): void {
+    const [open, close] = node.type === "mapping" ? ["{", "}"] : ["[", "]"];
+    const inner = indent + context.indentUnit;
+    const padding = " ".repeat(inner);
+    const entries: Array<YamlEntry & { key?: YamlNode; value?: YamlNode }> =
+      node.type === "mapping" ? node.pairs : node.items;
+    lines.push(start + this.join(this.printProperties(node), open));
+
+    entries.forEach((entry, index) => {
+      this.printComments(lines, entry.leadingComments, inner);
+      this.printComments(lines, entry.valueComments, inner);
+      if (node.type === "sequence") {
+        this.printFlowNode(lines, padding, entry.value, inner, context);
+      } else if (entry.value === undefined) {
+        lines.push(
+          padding + (entry.key ? this.printKey(entry.key, context) : "")
+        );
+      } else {
+        const key = entry.key ? this.printKey(entry.key, context) : "";
+        this.printFlowNode(
+          lines,
+          `${padding}${key}:`,
+          entry.value,
+          inner,
+          context
+        );
+      }
+      lines[lines.length - 1] +=
+        (index < entries.length - 1 ? "," : "") +
+        (entry.comment ? ` ${entry.comment.text}` : "");
+    });
 
-    for (let i = 0; i < maxLines; i++) {
-      const originalLine = originalLines[i] || "";
-      const formattedLine = formattedLines[i] || "";
+    this.printComments(lines, node.danglingComments, inner);
+    lines.push(" ".repeat(indent) + close);
+  }
 
-      if (originalLine.trim() !== formattedLine.trim()) {
-        changedLines++;
-      }
+  /**
+   * **Print a node inside a flow collection, starting on the line `start`**
+   */
+  private printFlowNode(
+    lines: string[],
+    start: string,
+    node: YamlNode | undefined,
+    indent: number,
+    context: YamlPrintContext
+  ): void {
+    const lead = start.trim() === "" ? start : `${start} `;
+    const inline = node ? this.printInline(node, context) : "";
+    if (
+      !node ||
+      (inline !== undefined &&
+        (!inline || (lead + inline).length <= context.maxLineLength))
+    ) {
+      lines.push(inline ? lead + inline : start);
+      return;
     }
 
-    return changedLines;
+    if (node.type === "mapping" || node.type === "sequence") {
+      this.printFlowCollection(lines, lead, node, indent, context);
+      return;
+    }
+    const [first, ...rest] = this.printScalarLines(node, context, false);
+    lines.push(lead + first);
+    for (const line of rest) {
+      lines.push(line ? " ".repeat(indent + context.indentUnit) + line : "");
+    }
   }
 
   /**
-   * **Count character differences between original and formatted text**
+   * **Print a flow scalar or alias, one string per source line**
+   * Values of block mappings get their booleans and nulls normalized
    */
-  private countChanges(original: string, formatted: string): number {
-    if (original === formatted) {
-      return 0;
+  private printScalarLines(
+    node: YamlScalar | YamlAlias,
+    context: YamlPrintContext,
+    isMappingValue: boolean
+  ): string[] {
+    if (node.type === "alias") {
+      return [`*${node.name}`];
     }
 
-    let changes = 0;
-    const maxLength = Math.max(original.length, formatted.length);
-
-    for (let i = 0; i < maxLength; i++) {
-      if (original[i] !== formatted[i]) {
-        changes++;
+    const lines = [...node.lines];
+    if (lines.length === 1 && node.style !== "plain") {
+      lines[0] = this.normalizeQuotes(lines[0], node.style, context);
+    } else if (lines.length === 1 && isMappingValue && !node.tag) {
+      if (context.normalizeBooleans && TRUE_VALUES.test(lines[0])) {
+        lines[0] = "true";
+      } else if (context.normalizeBooleans && FALSE_VALUES.test(lines[0])) {
+        lines[0] = "false";
+      } else if (context.normalizeNulls && NULL_VALUES.test(lines[0])) {
+        lines[0] = "null";
       }
     }
 
-    return changes;
+    lines[0] = this.join(this.printProperties(node), lines[0] ?? "");
+    return lines;
   }
 
   /**
-   * **Get custom formatting rules with defaults**
+   * **Switch a single line quoted scalar to the preferred quotes**
+   * Only when the value can be written without escapes in the new style
    */
-  private getCustomRules(options: FormatOptions): any {
-    const customRules = options.customRules || {};
-    return {
-      alignComments: customRules.alignComments !== false,
-      spaceAfterDash: customRules.spaceAfterDash !== false,
-      spaceAfterColon: customRules.spaceAfterColon !== false,
-      quoteKeys: customRules.quoteKeys === true,
-      normalizeBooleans: customRules.normalizeBooleans !== false,
-      normalizeNulls: customRules.normalizeNulls !== false,
-      ensureFinalNewline: options.insertFinalNewline !== false,
-    };
+  private normalizeQuotes(
+    text: string,
+    style: YamlScalar["style"],
+    context: YamlPrintContext
+  ): string {
+    const body = text.slice(1, -1);
+    if (style === "single" && context.quoteStyle === "double") {
+      const value = body.replace(/''/g, "'");
+      return /["\\]/.test(value) ? text : `"${value}"`;
+    }
+    if (style === "double" && context.quoteStyle === "single") {
+      return /['\\]/.test(body) ? text : `'${body}'`;
+    }
+    return text;
+  }
+
+  private printProperties(node: YamlNode): string {
+    return node.type === "alias" ? "" : this.join(node.anchor, node.tag);
+  }
+
+  private isIndentedSequence(
+    node: YamlSequence,
+    context: YamlPrintContext
+  ): boolean {
+    return context.sequenceIndent === "preserve"
+      ? node.indented
+      : context.sequenceIndent === "indented";
   }
 
   /**
-   * **Enhanced preprocessing for YAML**
+   * **Print own-line comments at `indent`**
+   * `skipFirstBlankLine` drops the blank line before the first comment
    */
-  protected preprocess(text: string, options: FormatOptions): string {
-    let processedText = super.preprocess(text, options);
-
-    // **Normalize line endings**
-    processedText = processedText.replace(/\r\n/g, "\n");
+  private printComments(
+    lines: string[],
+    comments: YamlComment[],
+    indent: number,
+    skipFirstBlankLine: boolean = false
+  ): void {
+    comments.forEach((comment, index) => {
+      if (comment.blankLineBefore && !(skipFirstBlankLine && index === 0)) {
+        this.pushBlankLine(lines);
+      }
+      lines.push(" ".repeat(indent) + comment.text);
+    });
+  }
 
-    // **Preserve document separators**
-    processedText = processedText.replace(/^---\s*$/gm, "---");
-    processedText = processedText.replace(/^\.\.\.\s*$/gm, "...");
+  private pushBlankLine(lines: string[]): void {
+    if (lines.length > 0 && lines[lines.length - 1] !== "") {
+      lines.push("");
+    }
+  }
 
-    return processedText;
+  private join(...parts: Array<string | undefined>): string {
+    return parts.filter((part) => part).join(" ");
   }
 }
@@ -1,5 +1,5 @@
 import * as vscode from "vscode";
-import { IFormatService } from "../types";
+import { IConfigurationService, IFormatService } from "../types";
 
 /**
  * **VSCode document formatting provider**
@@ -9,7 +9,10 @@ export class DocumentFormatProvider
     vscode.DocumentFormattingEditProvider,
     vscode.DocumentRangeFormattingEditProvider
 {
-  constructor(private formatService: IFormatService) {}
+  constructor(
+    private formatService: IFormatService,
+    private configService?: IConfigurationService
+  ) {}
 
   /**
    * **Provide formatting edits for the entire document**
@@ -31,6 +34,7 @@ export class DocumentFormatProvider
         indentSize: options.insertSpaces ? options.tabSize : 1,
         useTabs: !options.insertSpaces,
         fileName: document.fileName,
+        ...this.getProjectOptions(document),
       };
 
       const result = await this.formatService.formatDocument(
@@ -65,6 +69,7 @@ export class DocumentFormatProvider
         indentSize: options.insertSpaces ? options.tabSize : 1,
         useTabs: !options.insertSpaces,
         fileName: document.fileName,
+        ...this.getProjectOptions(document),
       };
 
       const result = await this.formatService.formatRange(
@@ -78,4 +83,25 @@ export class DocumentFormatProvider
       throw error;
     }
   }
+
+  /**
+   * **Rules from the settings and project files of the document's folder**
+   */
+  private getProjectOptions(document: vscode.TextDocument): {
+    workspaceFolder?: string;
+    customRules?: Record<string, any>;
+  } {
+    if (!this.configService) {
+      return {};
+    }
+    const workspaceFolder = vscode.workspace.getWorkspaceFolder(document.uri)
+      ?.uri.fsPath;
+    return {
+      workspaceFolder,
+      customRules: this.configService.getLanguageConfig(
+        document.languageId,
+        workspaceFolder
+      ).rules,
+    };
+  }
 }
@@ -14,7 +14,103 @@ import {
   LanguageConfig,
   SuggestionType,
   LineEndingType,
+  ConfigExplanation,
 } from "../types";
+import { TomlParser, TomlTable, TomlValue } from "../utils/toml-parser";
+
+/**
+ * **PythonFormatter rules read from a Python project's files**
+ * `sources` names the file and section each rule was read from
+ */
+interface PythonProjectConfig {
+  rules: Record<string, any>;
+  sources: Record<string, string>;
+}
+
+/**
+ * **A pyproject.toml setting and the PythonFormatter rule it maps to**
+ */
+interface PythonToolSetting {
+  section: string;
+  key: string;
+  type: "number" | "string" | "boolean" | "array";
+  rule: string;
+  map?: (value: any) => any;
+}
+
+/**
+ * **pyproject.toml settings read for Python files, weakest first**
+ */
+const PYTHON_TOOL_SETTINGS: PythonToolSetting[] = [
+  {
+    section: "tool.isort",
+    key: "profile",
+    type: "string",
+    rule: "importProfile",
+  },
+  {
+    section: "tool.ruff",
+    key: "line-length",
+    type: "number",
+    rule: "maxLineLength",
+  },
+  {
+    section: "tool.ruff",
+    key: "target-version",
+    type: "string",
+    rule: "targetVersions",
+    map: (version: string) => [version],
+  },
+  {
+    section: "tool.ruff.format",
+    key: "quote-style",
+    type: "string",
+    rule: "quoteStyle",
+  },
+  {
+    section: "tool.ruff.format",
+    key: "skip-magic-trailing-comma",
+    type: "boolean",
+    rule: "skipMagicTrailingComma",
+  },
+  {
+    section: "tool.black",
+    key: "line-length",
+    type: "number",
+    rule: "maxLineLength",
+  },
+  {
+    section: "tool.black",
+    key: "skip-string-normalization",
+    type: "boolean",
+    rule: "quoteStyle",
+    map: (skip: boolean) => (skip ? "preserve" : undefined),
+  },
+  {
+    section: "tool.black",
+    key: "skip-magic-trailing-comma",
+    type: "boolean",
+    rule: "skipMagicTrailingComma",
+  },
+  {
+    section: "tool.black",
+    key: "target-version",
+    type: "array",
+    rule: "targetVersions",
+  },
+];
+
+/**
+ * **Languages whose settings may come from a Prettier config**
+ */
+const PRETTIER_LANGUAGES = [
+  "javascript",
+  "typescript",
+  "css",
+  "html",
+  "json",
+  "markdown",
+];
 
 /**
  * **Enhanced service for managing extension configuration with profiles and validation**
@@ -27,6 +123,7 @@ export class ConfigurationService implements IConfigurationService {
   private profiles: Map<string, ConfigurationProfile> = new Map();
   private editorConfigCache: Map<string, any> = new Map();
   private prettierConfigCache: Map<string, any> = new Map();
+  private pythonConfigCache: Map<string, PythonProjectConfig> = new Map();
 
   constructor() {
     // **Listen for configuration changes**
@@ -72,9 +169,16 @@ export class ConfigurationService implements IConfigurationService {
         "javascript",
         "typescript",
         "json",
+        "jsonc",
+        "json5",
+        "jsonl",
         "xml",
         "css",
+        "scss",
+        "less",
         "html",
+        "vue",
+        "svelte",
         "python",
         "markdown",
         "yaml",
@@ -117,6 +221,7 @@ export class ConfigurationService implements IConfigurationService {
       respectEditorConfig: config.get<boolean>("respectEditorConfig", true),
       respectPrettierConfig: config.get<boolean>("respectPrettierConfig", true),
       respectESLintConfig: config.get<boolean>("respectESLintConfig", true),
+      respectPythonConfig: config.get<boolean>("respectPythonConfig", true),
       enableWorkspaceInheritance: config.get<boolean>(
         "enableWorkspaceInheritance",
         true
@@ -240,7 +345,16 @@ export class ConfigurationService implements IConfigurationService {
   ): Partial<FormatConfig> & LanguageConfig {
     const baseConfig = this.getConfig(workspaceFolder);
     const languageSpecific = baseConfig.languageSpecific[languageId] || {};
-    const customRules = baseConfig.customRules[languageId] || {};
+
+    // **Python project settings give way to the user's own rules**
+    const pythonRules =
+      languageId === "python" && baseConfig.respectPythonConfig
+        ? this.getPythonConfig(workspaceFolder).customRules?.python
+        : undefined;
+    const customRules = {
+      ...pythonRules,
+      ...baseConfig.customRules[languageId],
+    };
 
     // **Merge EditorConfig if enabled**
     const editorConfig = baseConfig.respectEditorConfig
@@ -250,14 +364,7 @@ export class ConfigurationService implements IConfigurationService {
     // **Merge Prettier config if enabled**
     const prettierConfig =
       baseConfig.respectPrettierConfig &&
-      this.isLanguageSupported(languageId, [
-        "javascript",
-        "typescript",
-        "css",
-        "html",
-        "json",
-        "markdown",
-      ])
+      this.isLanguageSupported(languageId, PRETTIER_LANGUAGES)
         ? this.getPrettierConfig(workspaceFolder)
         : {};
 
@@ -277,6 +384,63 @@ export class ConfigurationService implements IConfigurationService {
     };
   }
 
+  /**
+   * **List the settings used for a language and where each comes from**
+   */
+  explainLanguageConfig(
+    languageId: string,
+    workspaceFolder?: string
+  ): ConfigExplanation[] {
+    const baseConfig = this.getConfig(workspaceFolder);
+    const config = this.getLanguageConfig(languageId, workspaceFolder);
+    const languageRules = baseConfig.languageSpecific[languageId]?.rules || {};
+    const userRules = baseConfig.customRules[languageId] || {};
+    const pythonSources =
+      languageId === "python" && baseConfig.respectPythonConfig
+        ? this.readPythonConfig(workspaceFolder).sources
+        : {};
+    const prettierConfig =
+      baseConfig.respectPrettierConfig &&
+      this.isLanguageSupported(languageId, PRETTIER_LANGUAGES)
+        ? this.getPrettierConfig(workspaceFolder)
+        : {};
+    const editorConfig = baseConfig.respectEditorConfig
+      ? this.getEditorConfig(workspaceFolder)
+      : {};
+
+    const sourceOf = (setting: string): string => {
+      if (setting in languageRules) {
+        return `formatMaster.languageSpecific.${languageId}`;
+      }
+      if (setting in userRules) {
+        return `formatMaster.customRules.${languageId}`;
+      }
+      if (pythonSources[setting]) {
+        return pythonSources[setting];
+      }
+      if (setting in prettierConfig) {
+        return "Prettier config";
+      }
+      return setting in editorConfig
+        ? ".editorconfig"
+        : `formatMaster.${setting}`;
+    };
+
+    const settings = new Set([
+      "indentSize",
+      "useTabs",
+      ...Object.keys(config.rules),
+    ]);
+    return [...settings].map((setting) => ({
+      setting,
+      value:
+        setting in config.rules
+          ? config.rules[setting]
+          : config[setting as keyof typeof config],
+      source: sourceOf(setting),
+    }));
+  }
+
   /**
    * **Validate configuration with comprehensive checks**
    */
@@ -325,11 +489,16 @@ export class ConfigurationService implements IConfigurationService {
       "javascriptreact",
       "typescriptreact",
       "json",
+      "jsonc",
+      "json5",
+      "jsonl",
       "xml",
       "css",
       "scss",
       "less",
       "html",
+      "vue",
+      "svelte",
       "python",
       "markdown",
       "yaml",
@@ -691,6 +860,18 @@ export class ConfigurationService implements IConfigurationService {
     return {};
   }
 
+  /**
+   * **Get Python project settings as `customRules.python`**
+   * Black's settings win over Ruff's, Ruff's over isort's and those over
+   * flake8's and pycodestyle's
+   */
+  getPythonConfig(workspaceFolder?: string): Partial<FormatConfig> {
+    const { rules } = this.readPythonConfig(workspaceFolder);
+    return Object.keys(rules).length > 0
+      ? { customRules: { python: rules } }
+      : {};
+  }
+
   /**
    * Cleanup resources
    */
@@ -700,6 +881,7 @@ export class ConfigurationService implements IConfigurationService {
     this.profiles.clear();
     this.editorConfigCache.clear();
     this.prettierConfigCache.clear();
+    this.pythonConfigCache.clear();
   }
 
   private mapESLintToFormatConfig(eslintConfig: any): Partial<FormatConfig> {
@@ -802,6 +984,119 @@ export class ConfigurationService implements IConfigurationService {
     return config;
   }
 
+  private readPythonConfig(workspaceFolder?: string): PythonProjectConfig {
+    if (!workspaceFolder) {
+      workspaceFolder = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+    }
+
+    const config: PythonProjectConfig = { rules: {}, sources: {} };
+    if (!workspaceFolder) {
+      return config;
+    }
+
+    const cached = this.pythonConfigCache.get(workspaceFolder);
+    if (cached) {
+      return cached;
+    }
+
+    const assign = (rule: string, value: any, source: string): void => {
+      if (value !== undefined) {
+        config.rules[rule] = value;
+        config.sources[rule] = source;
+      }
+    };
+
+    // **flake8 reads setup.cfg before tox.ini**
+    for (const fileName of ["tox.ini", "setup.cfg"]) {
+      const sections = this.readIniFile(path.join(workspaceFolder, fileName));
+      for (const section of ["pycodestyle", "flake8"]) {
+        const maxLineLength = parseInt(
+          sections[section]?.["max-line-length"] ?? ""
+        );
+        if (!isNaN(maxLineLength)) {
+          assign("maxLineLength", maxLineLength, `${fileName} [${section}]`);
+        }
+      }
+    }
+
+    const pyproject = this.readPyproject(
+      path.join(workspaceFolder, "pyproject.toml")
+    );
+    for (const setting of PYTHON_TOOL_SETTINGS) {
+      let table: TomlValue | undefined = pyproject;
+      for (const key of setting.section.split(".")) {
+        table =
+          table && typeof table === "object" && !Array.isArray(table)
+            ? table[key]
+            : undefined;
+      }
+      const value =
+        table && typeof table === "object" && !Array.isArray(table)
+          ? table[setting.key]
+          : undefined;
+      const matches =
+        setting.type === "array"
+          ? Array.isArray(value)
+          : typeof value === setting.type;
+      if (matches) {
+        assign(
+          setting.rule,
+          setting.map ? setting.map(value) : value,
+          `pyproject.toml [${setting.section}]`
+        );
+      }
+    }
+
+    this.pythonConfigCache.set(workspaceFolder, config);
+    return config;
+  }
+
+  /**
+   * **Read pyproject.toml, ignoring files that are missing or invalid**
+   */
+  private readPyproject(configPath: string): TomlTable | undefined {
+    try {
+      if (fs.existsSync(configPath)) {
+        return TomlParser.parse(fs.readFileSync(configPath, "utf8"));
+      }
+    } catch (error) {
+      // **Ignore parsing errors**
+    }
+    return undefined;
+  }
+
+  /**
+   * **Read the sections of an INI file such as setup.cfg**
+   * Keys are lower cased with underscores turned into dashes, the way
+   * flake8 accepts them
+   */
+  private readIniFile(
+    configPath: string
+  ): Record<string, Record<string, string>> {
+    const sections: Record<string, Record<string, string>> = {};
+    try {
+      if (!fs.existsSync(configPath)) {
+        return sections;
+      }
+      let current: Record<string, string> | undefined;
+      for (const line of fs.readFileSync(configPath, "utf8").split(/\r?\n/)) {
+        const trimmed = line.trim();
+        const header = /^\[([^\]]+)\]$/.exec(trimmed);
+        const entry = /^([^=:\s]+)\s*[=:]\s*(.*)$/.exec(line);
+        if (header) {
+          current = sections[header[1].trim()] ??= {};
+        } else if (current && entry && !/^[#;]/.test(trimmed)) {
+          current[entry[1].toLowerCase().replace(/_/g, "-")] = entry[2]
+            .replace(/\s+[#;].*$/, "")
+            .trim();
+        }
+      }
+    } catch (error) {
+      // **Ignore read errors**
+    }
+    return sections;
+  }
+
   private parsePrettierConfig(configPath: string): Partial<FormatConfig> {
     try {
       if (configPath.endsWith(".json") || configPath.endsWith(".prettierrc")) {
@@ -905,6 +1200,7 @@ export class ConfigurationService implements IConfigurationService {
     this.cachedConfig = null;
     this.editorConfigCache.clear();
     this.prettierConfigCache.clear();
+    this.pythonConfigCache.clear();
   }
 
   /**
@@ -162,11 +162,16 @@ export class ValidationService {
       "javascript",
       "typescript",
       "json",
+      "jsonc",
+      "json5",
+      "jsonl",
       "xml",
       "css",
       "scss",
       "less",
       "html",
+      "vue",
+      "svelte",
       "python",
       "markdown",
       "yaml",
@@ -0,0 +1,192 @@
+import * as assert from "assert";
+import { ComponentFormatter } from "../formatters/component-formatter";
+import { JavaScriptFormatter } from "../formatters/javascript-formatter";
+import { FormatOptions, IFormatter } from "../types";
+
+suite("Component Formatter Test Suite", () => {
+  const javascript: IFormatter = new JavaScriptFormatter() as any;
+  const formatter = new ComponentFormatter((languageId) =>
+    javascript.canFormat(languageId) ? javascript : undefined
+  );
+
+  const createOptions = (
+    languageId: string,
+    customRules: Record<string, any> = {}
+  ): FormatOptions => ({
+    insertSpaces: true,
+    tabSize: 2,
+    languageId,
+    fileName: `Test.${languageId}`,
+    customRules,
+  });
+
+  const format = async (
+    text: string,
+    languageId: string,
+    customRules: Record<string, any> = {}
+  ): Promise<string> => {
+    const result = await formatter.formatText(
+      text,
+      createOptions(languageId, customRules)
+    );
+    assert.ok(result.success, result.errors[0]?.message);
+    return result.text!;
+  };
+
+  suite("Vue", () => {
+    const component = [
+      "<template>",
+      '<div   v-if="show" @click="toggle( \'a  b\' )">',
+      '<MyItem v-for="item   in items" :key="item.id"/>',
+      "</div>",
+      "</template>",
+      "",
+      '<script setup lang="ts">',
+      'import {ref} from "vue"',
+      "const count=ref<number>(0)",
+      "</script>",
+      "",
+      '<style scoped lang="scss">',
+      ".a{ .b{color:red} }",
+      "</style>",
+    ].join("\n");
+
+    test("formats template, script and style blocks", async () => {
+      assert.strictEqual(
+        await format(component, "vue"),
+        [
+          "<template>",
+          '  <div v-if="show" @click="toggle( \'a  b\' )">',
+          '    <MyItem v-for="item in items" :key="item.id" />',
+          "  </div>",
+          "</template>",
+          "",
+          '<script setup lang="ts">',
+          'import { ref } from "vue";',
+          "const count = ref<number>(0);",
+          "</script>",
+          "",
+          '<style scoped lang="scss">',
+          ".a {",
+          "  .b {",
+          "    color: red",
+          "  }",
+          "}",
+          "</style>",
+          "",
+        ].join("\n")
+      );
+    });
+
+    test("indents script and style blocks when configured", async () => {
+      const output = await format(component, "vue", {
+        indentScriptAndStyle: true,
+      });
+
+      assert.ok(output.includes('\n  import { ref } from "vue";\n'), output);
+    });
+
+    test("collapses whitespace in directive expressions only", async () => {
+      const output = await format(
+        [
+          "<template>",
+          '<p :class="{ on:   active,',
+          '  big: size > 2 }" title="a   b">{{ count<max ? "more" : "done" }}</p>',
+          "</template>",
+        ].join("\n"),
+        "vue"
+      );
+
+      assert.ok(
+        output.includes(
+          '<p :class="{ on: active, big: size > 2 }" title="a   b">{{ count<max ? "more" : "done" }}</p>'
+        ),
+        output
+      );
+    });
+
+    test("keeps long lines ending in an interpolation stable", async () => {
+      const once = await format(
+        [
+          "<template>",
+          '<div class="aaaaaaaaaaaaaaaa" id="bbbbbbbbbbbbbbbbbbbbbbb" :title="cccccccccccccccccccccccccccc">{{ item.name.toUpperCase() }}</div>',
+          "</template>",
+        ].join("\n"),
+        "vue"
+      );
+
+      assert.ok(once.includes("{{ item.name.toUpperCase() }}</div>"), once);
+      assert.strictEqual(await format(once, "vue"), once);
+    });
+  });
+
+  suite("Svelte", () => {
+    test("indents control-flow blocks like nested markup", async () => {
+      const input = [
+        "<script>",
+        "let items=[1,2]",
+        "</script>",
+        "",
+        "{#if items.length > 0}",
+        "<ul>",
+        "{#each items as item (item)}",
+        "<li class:big={item > 1} {item}>{item}</li>",
+        "{:else}",
+        "<li>none</li>",
+        "{/each}",
+        "</ul>",
+        "{:else}",
+        "<p>{@html empty}</p>",
+        "{/if}",
+      ].join("\n");
+
+      assert.strictEqual(
+        await format(input, "svelte"),
+        [
+          "<script>",
+          "let items = [1, 2];",
+          "</script>",
+          "",
+          "{#if items.length > 0}",
+          "  <ul>",
+          "    {#each items as item (item)}",
+          "      <li class:big={item > 1} {item}>{item}</li>",
+          "    {:else}",
+          "      <li>none</li>",
+          "    {/each}",
+          "  </ul>",
+          "{:else}",
+          "  <p>{@html empty}</p>",
+          "{/if}",
+          "",
+        ].join("\n")
+      );
+    });
+
+    test("keeps brace expressions containing > inside tags", async () => {
+      const output = await format(
+        "<button   on:click={() => open = count > 1}>Toggle</button>",
+        "svelte"
+      );
+
+      assert.strictEqual(
+        output,
+        "<button on:click={() => open = count > 1}>Toggle</button>\n"
+      );
+    });
+
+    test("validates markup around expressions and self-closing components", async () => {
+      const result = await formatter.validateSyntax(
+        "<div on:click={() => a > b}><Child /></div>\n<div><span>{x}</div>",
+        "svelte"
+      );
+
+      assert.deepStrictEqual(
+        [...result.errors, ...result.warnings].map(
+          (issue) => `${issue.code} ${issue.line}:${issue.column}`
+        ),
+        ["HTML_MISNESTED_TAG 2:15"]
+      );
+    });
+  });
+});
@@ -0,0 +1,92 @@
+import * as assert from "assert";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { ConfigurationService } from "../services/configuration-service";
+
+suite("Configuration Service Test Suite", () => {
+  suite("Python project settings", () => {
+    let directory: string;
+    let service: ConfigurationService;
+
+    suiteSetup(() => {
+      directory = fs.mkdtempSync(path.join(os.tmpdir(), "format-master-"));
+      fs.writeFileSync(
+        path.join(directory, "pyproject.toml"),
+        [
+          "[tool.black]",
+          "line-length = 100",
+          'target-version = ["py38", "py39"]',
+          "",
+          "[tool.ruff.format]",
+          'quote-style = "single"',
+          "skip-magic-trailing-comma = true",
+          "",
+          "[tool.isort]",
+          'profile = "google"',
+        ].join("\n")
+      );
+      fs.writeFileSync(
+        path.join(directory, "setup.cfg"),
+        "[flake8]\nmax_line_length = 79  # pep 8\nexclude =\n    build\n"
+      );
+      service = new ConfigurationService();
+    });
+
+    suiteTeardown(() => {
+      service.dispose();
+      fs.rmSync(directory, { recursive: true, force: true });
+    });
+
+    test("maps Black, Ruff and isort settings to Python rules", () => {
+      assert.deepStrictEqual(
+        service.getLanguageConfig("python", directory).rules,
+        {
+          maxLineLength: 100,
+          targetVersions: ["py38", "py39"],
+          quoteStyle: "single",
+          skipMagicTrailingComma: true,
+          importProfile: "google",
+        }
+      );
+    });
+
+    test("names the file and section of each setting", () => {
+      const sources = Object.fromEntries(
+        service
+          .explainLanguageConfig("python", directory)
+          .map(({ setting, source }) => [setting, source])
+      );
+
+      assert.strictEqual(sources.maxLineLength, "pyproject.toml [tool.black]");
+      assert.strictEqual(
+        sources.quoteStyle,
+        "pyproject.toml [tool.ruff.format]"
+      );
+      assert.strictEqual(sources.importProfile, "pyproject.toml [tool.isort]");
+      assert.strictEqual(sources.indentSize, "formatMaster.indentSize");
+    });
+
+    test("falls back to flake8's max-line-length", () => {
+      fs.writeFileSync(path.join(directory, "pyproject.toml"), "");
+      service.dispose();
+      service = new ConfigurationService();
+
+      assert.deepStrictEqual(
+        service.explainLanguageConfig("python", directory)[2],
+        {
+          setting: "maxLineLength",
+          value: 79,
+          source: "setup.cfg [flake8]",
+        }
+      );
+    });
+
+    test("leaves other languages alone", () => {
+      assert.deepStrictEqual(
+        service.getLanguageConfig("javascript", directory).rules,
+        {}
+      );
+    });
+  });
+});
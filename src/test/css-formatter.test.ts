@@ -0,0 +1,274 @@
+import * as assert from "assert";
+import { CssFormatter } from "../formatters/css-formatter";
+import { FormatOptions } from "../types";
+
+suite("CSS Formatter Test Suite", () => {
+  const formatter = new CssFormatter();
+
+  const createOptions = (
+    languageId: string,
+    customRules: Record<string, any> = {}
+  ): FormatOptions => ({
+    insertSpaces: true,
+    tabSize: 2,
+    languageId,
+    fileName: `test.${languageId}`,
+    customRules,
+  });
+
+  const format = async (
+    text: string,
+    languageId: string = "css",
+    customRules: Record<string, any> = {}
+  ): Promise<string> => {
+    const result = await formatter.formatText(
+      text,
+      createOptions(languageId, customRules)
+    );
+    assert.ok(result.success, result.errors[0]?.message);
+    return result.text!;
+  };
+
+  test("lays out rules, selectors and at-rules", async () => {
+    const output = await format(
+      "/* header */\n.a,.b  >  c{color:red;margin : 0 auto}\n@media (max-width:600px){.a{display:none}}\n.empty{}"
+    );
+
+    assert.strictEqual(
+      output,
+      [
+        "/* header */",
+        ".a,",
+        ".b > c {",
+        "  color: red;",
+        "  margin: 0 auto;",
+        "}",
+        "",
+        "@media (max-width:600px) {",
+        "  .a {",
+        "    display: none;",
+        "  }",
+        "}",
+        "",
+        ".empty {}",
+        "",
+      ].join("\n")
+    );
+  });
+
+  suite("Property sorting", () => {
+    const input = [
+      ".a {",
+      "  color: red;",
+      "  /* box */",
+      "  width: 10px; /* fixed */",
+      "  display: flex;",
+      "  -webkit-box-shadow: none;",
+      "  box-shadow: none;",
+      "  margin: 0;",
+      "}",
+    ].join("\n");
+
+    test("sorts alphabetically with comments attached", async () => {
+      assert.strictEqual(
+        await format(input, "css", { propertyOrder: "alphabetical" }),
+        [
+          ".a {",
+          "  -webkit-box-shadow: none;",
+          "  box-shadow: none;",
+          "  color: red;",
+          "  display: flex;",
+          "  margin: 0;",
+          "  /* box */",
+          "  width: 10px; /* fixed */",
+          "}",
+          "",
+        ].join("\n")
+      );
+    });
+
+    test("sorts into concentric and SMACSS groups", async () => {
+      const props = async (order: string) =>
+        (await format(input, "css", { propertyOrder: order }))
+          .split("\n")
+          .filter((line) => line.includes(": "))
+          .map((line) => line.trim().split(":")[0]);
+
+      assert.deepStrictEqual(await props("concentric"), [
+        "display",
+        "margin",
+        "-webkit-box-shadow",
+        "box-shadow",
+        "width",
+        "color",
+      ]);
+      assert.deepStrictEqual(await props("smacss"), [
+        "display",
+        "width",
+        "margin",
+        "-webkit-box-shadow",
+        "box-shadow",
+        "color",
+      ]);
+    });
+
+    test("does not move declarations across nested rules", async () => {
+      assert.strictEqual(
+        await format(".a{z-index:1;&:hover{b:c}color:red;a:b}", "scss", {
+          propertyOrder: "alphabetical",
+        }),
+        ".a {\n  z-index: 1;\n  &:hover {\n    b: c;\n  }\n  a: b;\n  color: red;\n}\n"
+      );
+    });
+  });
+
+  suite("Value normalization", () => {
+    test("lowercases and shortens hex colors", async () => {
+      assert.strictEqual(
+        await format(
+          '.a{color:#FFFFFF;background:#AbCdEf url("#FFF.svg");border-color:#11223344}'
+        ),
+        '.a {\n  color: #fff;\n  background: #abcdef url("#FFF.svg");\n  border-color: #1234;\n}\n'
+      );
+    });
+
+    test("strips units from zero lengths only", async () => {
+      assert.strictEqual(
+        await format(
+          ".a{margin:0px -0.0em 10px .0rem;transition:opacity 0s;width:calc(100% - 0px);flex:1 1 0%;--gap:0px}"
+        ),
+        ".a {\n  margin: 0 0 10px 0;\n  transition: opacity 0s;\n  width: calc(100% - 0px);\n  flex: 1 1 0%;\n  --gap: 0px;\n}\n"
+      );
+    });
+
+    test("leaves values alone when normalization is disabled", async () => {
+      assert.strictEqual(
+        await format(".a{color:#FFFFFF;margin:0px}", "css", {
+          normalizeColors: false,
+          stripZeroUnits: false,
+        }),
+        ".a {\n  color: #FFFFFF;\n  margin: 0px;\n}\n"
+      );
+    });
+  });
+
+  suite("Preprocessors", () => {
+    test("keeps SCSS line comments, interpolation and nesting", async () => {
+      const input = [
+        "// Variables",
+        "$size :  0px; // no unit stripping",
+        ".icon-#{$name}{ &:hover{color:#FF0000} @include size( 2px ) }",
+      ].join("\n");
+
+      assert.strictEqual(
+        await format(input, "scss"),
+        [
+          "// Variables",
+          "$size: 0px; // no unit stripping",
+          "",
+          ".icon-#{$name} {",
+          "  &:hover {",
+          "    color: #f00;",
+          "  }",
+          "  @include size( 2px );",
+          "}",
+          "",
+        ].join("\n")
+      );
+    });
+
+    test("keeps Less mixin calls, variables and interpolation", async () => {
+      const input = [
+        "@color:#FF0000;",
+        ".box{.mixin(1px);#ns > .helper();",
+        ".@{name}-x{color:@color}",
+        ".last()}",
+      ].join("\n");
+
+      assert.strictEqual(
+        await format(input, "less"),
+        [
+          "@color: #f00;",
+          "",
+          ".box {",
+          "  .mixin(1px);",
+          "  #ns > .helper();",
+          "  .@{name}-x {",
+          "    color: @color;",
+          "  }",
+          "  .last();",
+          "}",
+          "",
+        ].join("\n")
+      );
+    });
+
+    test("keeps interpolated property names across runs", async () => {
+      const scss = await format(
+        ".a{#{$prop}-top:1px;margin-#{$side}:0}",
+        "scss"
+      );
+      const less = await format(".a{@{prop}-color:red}", "less");
+
+      assert.strictEqual(
+        scss,
+        [".a {", "  #{$prop}-top: 1px;", "  margin-#{$side}: 0;", "}", ""].join(
+          "\n"
+        )
+      );
+      assert.strictEqual(
+        less,
+        [".a {", "  @{prop}-color: red;", "}", ""].join("\n")
+      );
+      assert.strictEqual(await format(scss, "scss"), scss);
+      assert.strictEqual(await format(less, "less"), less);
+    });
+  });
+
+  test("adds vendor prefixes for the configured browsers", async () => {
+    const output = await format(".a{user-select:none}", "css", {
+      autoprefixer: true,
+      browserslist: "safari 8",
+    });
+
+    assert.strictEqual(
+      output,
+      ".a {\n  -webkit-user-select: none;\n  user-select: none;\n}\n"
+    );
+    assert.strictEqual(
+      await format(".a{user-select:none}"),
+      ".a {\n  user-select: none;\n}\n"
+    );
+  });
+
+  suite("Syntax validation", () => {
+    test("reports parse errors at their position in the source", async () => {
+      const result = await formatter.validateSyntax(
+        "// comment\n.a {\n  .m(\n    1px\n  );\n  color red;\n}",
+        "less"
+      );
+
+      assert.strictEqual(result.isValid, false);
+      assert.deepStrictEqual(
+        result.errors.map(
+          (error) => `${error.code} ${error.line}:${error.column}`
+        ),
+        ["CSS_SYNTAX_ERROR 6:3"]
+      );
+    });
+
+    test("rejects line comments in plain CSS", async () => {
+      const result = await formatter.validateSyntax(
+        ".a { color: red; // x\n}",
+        "css"
+      );
+
+      assert.strictEqual(result.errors[0]?.line, 1);
+      assert.strictEqual(result.errors[0]?.column, 18);
+      assert.ok(
+        (await formatter.validateSyntax(".a { color: red; // x\n}", "scss"))
+          .isValid
+      );
+    });
+  });
+});
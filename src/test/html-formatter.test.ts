@@ -0,0 +1,406 @@
+import * as assert from "assert";
+import { HtmlFormatter } from "../formatters/html-formatter";
+import { JavaScriptFormatter } from "../formatters/javascript-formatter";
+import { JsonFormatter } from "../formatters/json-formatter";
+import { FormatOptions, IFormatter } from "../types";
+import { HtmlTokenizer } from "../utils/html-tokenizer";
+
+const BLOCK_TAGS = new Set(["html", "head", "body", "div", "p", "ul", "li"]);
+
+const WHITESPACE_CORPUS = [
+  '<p>Read <a href="#">the <em>docs</em></a>, then <code>run</code> it.</p>',
+  "<div><span>a</span><span>b</span> <span>c</span></div><div>\n   <b>bold</b>\n  <i>italic</i>\n</div>",
+  '<label>Name</label> <input name="n"><button>A</button><button>B</button>',
+  "<ul><li><a>one</a></li> <li>two</li></ul><p>x<!-- note --> y</p>",
+  "<p>" +
+    "A sentence with <b>inline</b> markup that goes on. ".repeat(5) +
+    "</p>",
+  "<div><pre>  line one  \n    <b>indented</b> </pre><textarea>  keep\n  this </textarea></div>",
+];
+
+/**
+ * **Text as a browser renders it, with block boundaries as line breaks**
+ * Whitespace in preformatted content is made visible so it never collapses
+ */
+const renderText = (
+  html: string,
+  isBlock: (name: string) => boolean
+): string => {
+  let output = "";
+  let hidden = false;
+  let preformatted = 0;
+  for (const token of HtmlTokenizer.tokenize(html)) {
+    const raw = html.slice(token.start, token.end);
+    if (token.type === "text" && !hidden) {
+      output += preformatted
+        ? raw.replace(/ /g, "\u00b7").replace(/\n/g, "\u00b6")
+        : raw;
+    } else if (token.type === "startTag" || token.type === "endTag") {
+      const opens = token.type === "startTag" ? 1 : -1;
+      if (token.name === "script" || token.name === "style") {
+        hidden = opens > 0;
+      }
+      if (token.name === "pre" || token.name === "textarea") {
+        preformatted += opens;
+      }
+      output += isBlock(token.name!) ? "\0" : "";
+    }
+  }
+  return output
+    .replace(/\s+/g, " ")
+    .split("\0")
+    .map((line) => line.trim())
+    .filter((line) => line)
+    .join("\n");
+};
+
+suite("HTML Formatter Test Suite", () => {
+  const embedded: IFormatter[] = [
+    new JavaScriptFormatter() as any,
+    new JsonFormatter() as any,
+  ];
+  const formatter = new HtmlFormatter((languageId) =>
+    embedded.find((candidate) => candidate.canFormat(languageId))
+  );
+
+  const createOptions = (
+    customRules: Record<string, any> = {}
+  ): FormatOptions => ({
+    insertSpaces: true,
+    tabSize: 2,
+    languageId: "html",
+    fileName: "test.html",
+    customRules,
+  });
+
+  const format = async (
+    text: string,
+    customRules: Record<string, any> = {}
+  ): Promise<string> => {
+    const result = await formatter.formatText(text, createOptions(customRules));
+    assert.ok(result.success, result.errors[0]?.message);
+    return result.text!;
+  };
+
+  suite("Embedded blocks", () => {
+    test("formats scripts and indents them under their tag", async () => {
+      const input =
+        "<html><head><script>const a={b:1};function f(x){return x*2}</script></head><body></body></html>";
+
+      assert.strictEqual(
+        await format(input),
+        [
+          "<html>",
+          "",
+          "<head>",
+          "  <script>",
+          "    const a = { b: 1 };",
+          "    function f(x) {",
+          "      return x * 2;",
+          "    }",
+          "  </script>",
+          "</head>",
+          "",
+          "<body></body>",
+          "",
+          "</html>",
+          "",
+        ].join("\n")
+      );
+    });
+
+    test("formats module scripts and lang=ts as TypeScript", async () => {
+      const output = await format(
+        [
+          "<div>",
+          '<script type="module">import {a} from "./a.js"; a()</script>',
+          '<script lang="ts">let n:number=1</script>',
+          "</div>",
+        ].join("\n")
+      );
+
+      assert.ok(output.includes('    import { a } from "./a.js";\n'), output);
+      assert.ok(output.includes("    let n: number = 1;\n"), output);
+    });
+
+    test("formats JSON-LD with the JSON formatter", async () => {
+      const output = await format(
+        '<head><script type="application/ld+json">{"@context":"https://schema.org","@type":"Person"}</script></head>'
+      );
+
+      assert.ok(
+        output.includes(
+          [
+            '  <script type="application/ld+json">',
+            '    { "@context": "https://schema.org", "@type": "Person" }',
+            "  </script>",
+          ].join("\n")
+        ),
+        output
+      );
+    });
+
+    test("keeps unknown script types and external scripts verbatim", async () => {
+      const template = '<script type="text/template"><b>{{ x }}</b>  </script>';
+      const output = await format(
+        `<div>${template}<script src="a.js"></script></div>`
+      );
+
+      assert.ok(output.includes(template), output);
+      assert.ok(output.includes('<script src="a.js"></script>'), output);
+    });
+
+    test("falls back to js-beautify for styles without a CSS formatter", async () => {
+      const output = await format("<head><style>body{margin:0}</style></head>");
+
+      assert.ok(
+        output.includes(
+          [
+            "  <style>",
+            "    body {",
+            "      margin: 0",
+            "    }",
+            "  </style>",
+          ].join("\n")
+        ),
+        output
+      );
+    });
+
+    test("keeps the lines of multi-line template literals as written", async () => {
+      const input = [
+        "<div>",
+        "<script>",
+        "const s = `line1",
+        "  line2 ${ `in",
+        "ner` }`;",
+        "</script>",
+        "</div>",
+      ].join("\n");
+      const output = await format(input);
+
+      assert.strictEqual(
+        output,
+        [
+          "<div>",
+          "  <script>",
+          "    const s = `line1",
+          "  line2 ${`in",
+          "ner`}`;",
+          "  </script>",
+          "</div>",
+          "",
+        ].join("\n")
+      );
+      assert.strictEqual(await format(output), output);
+    });
+
+    test("leaves scripts inside comments alone", async () => {
+      const input = "<div><!-- <script>var x=1</script> --></div>";
+
+      assert.strictEqual(await format(input), `${input}\n`);
+    });
+
+    test("formats documents concurrently without mixing blocks", async () => {
+      const documents = ["first", "second", "third"].map(
+        (name) => `<div><script>const ${name}=1</script><p>${name}</p></div>`
+      );
+
+      const outputs = await Promise.all(
+        documents.map((document) => format(document))
+      );
+
+      outputs.forEach((output, index) => {
+        const name = ["first", "second", "third"][index];
+        assert.ok(output.includes(`const ${name} = 1;`), output);
+        assert.ok(!output.includes("__PRESERVED"), output);
+      });
+    });
+  });
+
+  suite("Syntax validation", () => {
+    const validate = async (content: string) => {
+      const result = await formatter.validateSyntax(content, "html");
+      return [...result.errors, ...result.warnings].map(
+        (issue) => `${issue.code} ${issue.line}:${issue.column}`
+      );
+    };
+
+    test("accepts void elements, optional end tags and raw text", async () => {
+      const input = [
+        "<!DOCTYPE html>",
+        "<title>a < b</title>",
+        '<p>One<br>two<img src="a.png" alt=x>',
+        "<p>Second paragraph",
+        "<ul><li>a<li>b</ul>",
+        "<table><tr><td>1<td>2<tr><td>3</table>",
+        "<!-- <div> in a comment -->",
+        "<script>if (a < b) { document.write('</div>'); }</script>",
+        '<svg><path d="M0 0"/></svg>',
+      ].join("\n");
+
+      assert.deepStrictEqual(await validate(input), []);
+    });
+
+    test("reports misnested and unclosed elements where they occur", async () => {
+      const input = [
+        "<div>",
+        "  <span><b>bold</span></b>",
+        "  <section>",
+        "</div>",
+      ].join("\n");
+
+      assert.deepStrictEqual(await validate(input), [
+        "HTML_MISNESTED_TAG 2:16",
+        "HTML_UNEXPECTED_END_TAG 2:23",
+        "HTML_MISNESTED_TAG 4:1",
+      ]);
+    });
+
+    test("reports elements left open at the end", async () => {
+      assert.deepStrictEqual(await validate("<main>\n  <article>text"), [
+        "HTML_UNCLOSED_TAG 1:1",
+        "HTML_UNCLOSED_TAG 2:3",
+      ]);
+    });
+
+    test("reports duplicate ids and invalid attribute syntax", async () => {
+      const input = [
+        '<div id="a" class="x"class="y"></div>',
+        '<p id="a" title=a"b>text</p>',
+        "<input value=>",
+        "</br>",
+      ].join("\n");
+
+      assert.deepStrictEqual(await validate(input), [
+        "HTML_INVALID_ATTRIBUTE 1:22",
+        "HTML_DUPLICATE_ATTRIBUTE 1:22",
+        "HTML_DUPLICATE_ID 2:4",
+        "HTML_INVALID_ATTRIBUTE 2:17",
+        "HTML_INVALID_ATTRIBUTE 3:8",
+        "HTML_VOID_END_TAG 4:1",
+      ]);
+    });
+  });
+
+  suite("Whitespace sensitivity", () => {
+    test("css mode never changes rendered text", async () => {
+      for (const input of WHITESPACE_CORPUS) {
+        const output = await format(input);
+        assert.strictEqual(
+          renderText(output, (name) => BLOCK_TAGS.has(name)),
+          renderText(input, (name) => BLOCK_TAGS.has(name)),
+          output
+        );
+      }
+    });
+
+    test("strict mode keeps whitespace between every pair of tags", async () => {
+      for (const input of WHITESPACE_CORPUS) {
+        const output = await format(input, { whitespaceSensitivity: "strict" });
+        assert.strictEqual(
+          renderText(output, () => false),
+          renderText(input, () => false),
+          output
+        );
+      }
+    });
+
+    test("css mode drops whitespace only around block tags", async () => {
+      assert.strictEqual(
+        await format("<div> <p><b>a</b> <i>b</i></p> </div>"),
+        "<div>\n  <p><b>a</b> <i>b</i></p>\n</div>\n"
+      );
+    });
+
+    test("ignore mode drops whitespace between any tags", async () => {
+      assert.strictEqual(
+        await format("<p><b>a</b> <i>b</i></p>", {
+          whitespaceSensitivity: "ignore",
+        }),
+        "<p><b>a</b><i>b</i></p>\n"
+      );
+    });
+
+    test("keeps pre and textarea content byte for byte", async () => {
+      const pre = "<pre>  a  \n</p>\n\tb </pre>";
+      const textarea = '<textarea name="t">\n  x  \n</textarea>';
+
+      for (const whitespaceSensitivity of ["css", "strict", "ignore"]) {
+        const output = await format(
+          `<div>${pre}<span>${textarea}</span></div>`,
+          {
+            whitespaceSensitivity,
+          }
+        );
+        assert.ok(output.includes(pre), output);
+        assert.ok(output.includes(textarea), output);
+      }
+    });
+  });
+
+  suite("Angular templates", () => {
+    test("indents control-flow blocks in component templates", async () => {
+      const input = [
+        "<section>",
+        "@if (user.isLoggedIn) {",
+        "<p>Welcome {{ user.name }}</p>",
+        "} @else {",
+        '<button (click)="login()"   [disabled]="busy   &&  !ready">Log in</button>',
+        "}",
+        "@for (item of items; track item.id) {",
+        '<li *ngIf="item.visible">{{ item.label }}</li>',
+        "} @empty {",
+        "<li>No items</li>",
+        "}",
+        "</section>",
+      ].join("\n");
+
+      const result = await formatter.formatText(input, {
+        ...createOptions(),
+        fileName: "login.component.html",
+      });
+
+      assert.strictEqual(
+        result.text,
+        [
+          "<section>",
+          "  @if (user.isLoggedIn) {",
+          "    <p>Welcome {{ user.name }}</p>",
+          "  } @else {",
+          '    <button (click)="login()" [disabled]="busy && !ready">Log in</button>',
+          "  }",
+          "  @for (item of items; track item.id) {",
+          '    <li *ngIf="item.visible">{{ item.label }}</li>',
+          "  } @empty {",
+          "    <li>No items</li>",
+          "  }",
+          "</section>",
+          "",
+        ].join("\n")
+      );
+    });
+
+    test("keeps long lines ending in an interpolation stable", async () => {
+      const input =
+        '<div class="aaaaaaaaaaaaaaaa" id="bbbbbbbbbbbbbbbbbbbbbbb" [title]="cccccccccccccccccccccccccccc">{{ item.name.toUpperCase() }}</div>';
+
+      for (const fileName of ["login.component.html", "test.html"]) {
+        const options = { ...createOptions(), fileName };
+        const once = (await formatter.formatText(input, options)).text!;
+        assert.ok(once.includes("{{ item.name.toUpperCase() }}</div>"), once);
+        assert.strictEqual(
+          (await formatter.formatText(once, options)).text,
+          once
+        );
+      }
+    });
+
+    test("leaves @ text alone in plain HTML", async () => {
+      assert.strictEqual(
+        await format("<p>Mail me @if you like {</p>"),
+        "<p>Mail me @if you like {</p>\n"
+      );
+    });
+  });
+});
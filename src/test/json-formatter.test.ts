@@ -0,0 +1,317 @@
+import * as assert from "assert";
+import { JsonFormatter } from "../formatters/json-formatter";
+import { FormatOptions, JsonValueNode } from "../types";
+import { JsonParser } from "../utils/json-parser";
+
+const LOSSLESS_CORPUS = [
+  '{"id": 12345678901234567890, "ratio": 1.0, "scale": 1e3}',
+  "[-0, 0.10, 1E+2, 2.50e-10, 9007199254740993, -123456789012345678901234]",
+  '{"text": "caf\\u00e9 \\ud83d\\ude00", "slash": "a\\/b", "quote": "\\"hi\\""}',
+  '{"\\u0041": true, "nested": {"n": -1.500, "list": [1.0, 2.00, null]}}',
+  '{"tabs": "a\\tb", "control": "\\u001f", "empty": "", "unicode": "日本"}',
+];
+
+/**
+ * **Collect the lexical form of every key and value in document order**
+ */
+const collectTokens = (text: string, languageId = "json"): string[] => {
+  const tokens: string[] = [];
+  const visit = (node: JsonValueNode): void => {
+    if (node.type === "object") {
+      for (const member of node.members) {
+        tokens.push(member.key.raw);
+        visit(member.value);
+      }
+    } else if (node.type === "array") {
+      node.elements.forEach((element) => visit(element.value));
+    } else {
+      tokens.push(node.raw);
+    }
+  };
+
+  const document = JsonParser.parse(text, {
+    languageId,
+    allowComments: false,
+    allowTrailingCommas: false,
+  });
+  if (document.root) {
+    visit(document.root.value);
+  }
+  return tokens;
+};
+
+suite("JSON Formatter Test Suite", () => {
+  const formatter = new JsonFormatter();
+
+  const createOptions = (
+    languageId: string,
+    customRules: Record<string, any> = {}
+  ): FormatOptions => ({
+    insertSpaces: true,
+    tabSize: 2,
+    languageId,
+    fileName: `test.${languageId}`,
+    customRules,
+  });
+
+  const format = async (
+    text: string,
+    languageId = "jsonc",
+    customRules: Record<string, any> = {}
+  ): Promise<string> => {
+    const result = await formatter.formatText(
+      text,
+      createOptions(languageId, customRules)
+    );
+    assert.ok(result.success, result.errors[0]?.message);
+    return result.text!;
+  };
+
+  test("keeps comments attached to their owning members", async () => {
+    const input = [
+      "{",
+      '  "target": "ES2022", // target',
+      "  // strictness",
+      '  "strict": true, "lib": ["ES2022" /* base */, "DOM"]',
+      "}",
+    ].join("\n");
+
+    assert.strictEqual(
+      await format(input),
+      [
+        "{",
+        '  "target": "ES2022", // target',
+        "  // strictness",
+        '  "strict": true,',
+        '  "lib": [',
+        '    "ES2022", /* base */',
+        '    "DOM"',
+        "  ]",
+        "}",
+        "",
+      ].join("\n")
+    );
+  });
+
+  test("keeps dangling comments and trailing commas in JSONC", async () => {
+    const input = '{"files": [\n  "a.ts",\n  // more later\n],\n}';
+
+    assert.strictEqual(
+      await format(input),
+      '{\n  "files": [\n    "a.ts",\n    // more later\n  ],\n}\n'
+    );
+    assert.strictEqual(
+      await format(input, "jsonc", { trailingCommas: "none" }),
+      '{\n  "files": [\n    "a.ts"\n    // more later\n  ]\n}\n'
+    );
+  });
+
+  test("produces stable output when run twice", async () => {
+    const input = [
+      "/**",
+      "   * Settings",
+      "   */",
+      '{ "editor.tabSize": 2, /* inline */ "files.exclude": {',
+      '  "**/.git": true, // vcs',
+      "",
+      "",
+      '  "**/node_modules": /* deps */ true',
+      "} }",
+    ].join("\n");
+
+    const once = await format(input);
+    assert.strictEqual(await format(once), once);
+  });
+
+  test("rejects comments and trailing commas in strict JSON", async () => {
+    const result = await formatter.validateSyntax('{\n  "a": 1,\n}', "json");
+
+    assert.strictEqual(result.isValid, false);
+    assert.strictEqual(result.errors[0].line, 2);
+    assert.strictEqual(result.errors[0].column, 9);
+  });
+
+  test("keeps JSON5 syntax as written", async () => {
+    const input =
+      "{unquoted: 'single', hex: 0xFF, half: .5, big: +Infinity, // note\n" +
+      "  'quoted key': [1, 2,],}";
+
+    assert.strictEqual(
+      await format(input, "json5"),
+      [
+        "{",
+        "  unquoted: 'single',",
+        "  hex: 0xFF,",
+        "  half: .5,",
+        "  big: +Infinity, // note",
+        "  'quoted key': [1, 2],",
+        "}",
+        "",
+      ].join("\n")
+    );
+  });
+
+  test("formats JSON Lines records one line at a time", async () => {
+    const input = '{ "id": 1, "tags": [ "a" ] }\n[ 1 , 2 ]\n\n"text"\n';
+
+    assert.strictEqual(
+      await format(input, "jsonl"),
+      '{"id":1,"tags":["a"]}\n[1,2]\n\n"text"\n'
+    );
+  });
+
+  test("reports JSON Lines errors per line", async () => {
+    const result = await formatter.validateSyntax(
+      '{"a": 1}\n{"b": }\n{"c": 3\n',
+      "jsonl"
+    );
+
+    assert.strictEqual(result.isValid, false);
+    assert.deepStrictEqual(
+      result.errors.map((error) => [error.line, error.column]),
+      [
+        [2, 7],
+        [3, 8],
+      ]
+    );
+  });
+
+  test("sorts keys alphabetically with their comments", async () => {
+    const input =
+      '{\n  // about b\n  "b": [3, 1],\n  "a": {"z": 1, "y": 2} // a\n}';
+
+    assert.strictEqual(
+      await format(input, "jsonc", { sortKeys: "alphabetical" }),
+      [
+        "{",
+        '  "a": { "y": 2, "z": 1 }, // a',
+        "  // about b",
+        '  "b": [3, 1]',
+        "}",
+        "",
+      ].join("\n")
+    );
+  });
+
+  test("limits key sorting to the configured depth", async () => {
+    const result = await formatter.formatText(
+      '{"b": {"d": 1, "c": 2}, "a": 0}',
+      createOptions("json", { sortKeys: "alphabetical", sortKeysDepth: 1 })
+    );
+
+    assert.strictEqual(result.text, '{ "a": 0, "b": { "d": 1, "c": 2 } }\n');
+  });
+
+  test("applies priority schemas by file pattern", async () => {
+    const options = {
+      ...createOptions("json", { sortKeys: "priority", expandObjects: true }),
+      fileName: "/workspace/package.json",
+    };
+    const result = await formatter.formatText(
+      '{"scripts": {}, "version": "1.0.0", "dependencies": {"b": "1", "a": "2"}, "name": "demo"}',
+      options
+    );
+
+    assert.strictEqual(
+      result.text,
+      [
+        "{",
+        '  "name": "demo",',
+        '  "version": "1.0.0",',
+        '  "scripts": {},',
+        '  "dependencies": {',
+        '    "a": "2",',
+        '    "b": "1"',
+        "  }",
+        "}",
+        "",
+      ].join("\n")
+    );
+
+    const custom = await formatter.formatText(
+      '{"include": [], "compilerOptions": {}}',
+      {
+        ...createOptions("jsonc", {
+          sortKeys: "priority",
+          expandObjects: true,
+          keyOrderSchemas: { "tsconfig.*.json": ["include"] },
+        }),
+        fileName: "tsconfig.build.json",
+      }
+    );
+    assert.strictEqual(
+      custom.text,
+      '{\n  "include": [],\n  "compilerOptions": {}\n}\n'
+    );
+  });
+
+  test("keeps every key and value byte-identical by default", async () => {
+    for (const input of LOSSLESS_CORPUS) {
+      const output = await format(input, "json");
+      assert.deepStrictEqual(collectTokens(output), collectTokens(input));
+    }
+  });
+
+  test("normalizes values when lossless mode is turned off", async () => {
+    assert.strictEqual(
+      await format('{"\\u0041": 1.0, "b": 1e3, "c": "\\u00e9"}', "json", {
+        lossless: false,
+        expandObjects: true,
+      }),
+      '{\n  "A": 1,\n  "b": 1000,\n  "c": "é"\n}\n'
+    );
+  });
+
+  test("collapses containers that fit within the line length", async () => {
+    const input =
+      '{"point": [\n  1.5,\n  2.5\n], "box": {"w": 10, "h": 20}, "long": ["aaaaaaaaaa", "bbbbbbbbbb", "cccccccccc"]}';
+
+    const result = await formatter.formatText(input, {
+      ...createOptions("json"),
+      maxLineLength: 40,
+    });
+
+    assert.strictEqual(
+      result.text,
+      [
+        "{",
+        '  "point": [1.5, 2.5],',
+        '  "box": { "w": 10, "h": 20 },',
+        '  "long": [',
+        '    "aaaaaaaaaa",',
+        '    "bbbbbbbbbb",',
+        '    "cccccccccc"',
+        "  ]",
+        "}",
+        "",
+      ].join("\n")
+    );
+  });
+
+  test("always expands objects when configured", async () => {
+    assert.strictEqual(
+      await format('{"a": {"b": [1, 2]}}', "json", { expandObjects: true }),
+      '{\n  "a": {\n    "b": [1, 2]\n  }\n}\n'
+    );
+  });
+
+  test("packs numeric arrays that have to wrap", async () => {
+    const numbers = Array.from({ length: 12 }, (_, index) => index * 100);
+    const result = await formatter.formatText(JSON.stringify(numbers), {
+      ...createOptions("json", { packNumericArrays: true }),
+      maxLineLength: 30,
+    });
+
+    assert.strictEqual(
+      result.text,
+      [
+        "[",
+        "  0, 100, 200, 300, 400, 500,",
+        "  600, 700, 800, 900, 1000,",
+        "  1100",
+        "]",
+        "",
+      ].join("\n")
+    );
+  });
+});
@@ -0,0 +1,343 @@
+import * as assert from "assert";
+import { MarkdownFormatter } from "../formatters/markdown-formatter";
+import { JavaScriptFormatter } from "../formatters/javascript-formatter";
+import { JsonFormatter } from "../formatters/json-formatter";
+import { YamlFormatter } from "../formatters/yaml-formatter";
+import { FormatOptions, IFormatter } from "../types";
+
+suite("Markdown Formatter Test Suite", () => {
+  const embedded: IFormatter[] = [
+    new JavaScriptFormatter() as any,
+    new JsonFormatter() as any,
+    new YamlFormatter() as any,
+  ];
+  const formatter = new MarkdownFormatter((languageId) =>
+    embedded.find((candidate) => candidate.canFormat(languageId))
+  );
+
+  const createOptions = (
+    customRules: Record<string, any> = {},
+    maxLineLength: number = 80
+  ): FormatOptions => ({
+    insertSpaces: true,
+    tabSize: 2,
+    languageId: "markdown",
+    fileName: "README.md",
+    maxLineLength,
+    customRules,
+  });
+
+  const format = async (
+    text: string,
+    customRules: Record<string, any> = {},
+    maxLineLength?: number
+  ): Promise<string> => {
+    const result = await formatter.formatText(
+      text,
+      createOptions(customRules, maxLineLength)
+    );
+    assert.ok(result.success, result.errors[0]?.message);
+    return result.text!;
+  };
+
+  test("keeps code, HTML, math blocks and front matter as written", async () => {
+    const input = [
+      "---",
+      "title:   Guide",
+      "---",
+      "",
+      "```bash",
+      "#comment   ",
+      "* not a list",
+      "```",
+      "",
+      "<div>",
+      "#  not a heading",
+      "</div>",
+      "",
+      "$$",
+      "a | b",
+      "$$",
+      "",
+      "    indented  ",
+      "    code",
+      "",
+    ].join("\n");
+
+    assert.strictEqual(await format(input), input);
+  });
+
+  test("normalizes headings, lists and thematic breaks", async () => {
+    const output = await format(
+      [
+        "#   Title   ##",
+        "Text",
+        "* one",
+        "* two",
+        "",
+        "+ other list",
+        "",
+        "3) three",
+        "7) seven",
+        "***",
+      ].join("\n")
+    );
+
+    assert.strictEqual(
+      output,
+      [
+        "# Title",
+        "",
+        "Text",
+        "",
+        "- one",
+        "- two",
+        "",
+        "* other list",
+        "",
+        "3) three",
+        "4) seven",
+        "",
+        "---",
+        "",
+      ].join("\n")
+    );
+  });
+
+  test("indents nested blocks by the list marker", async () => {
+    const output = await format(
+      [
+        "1. first",
+        "",
+        "    ```js",
+        "    let x;",
+        "    ```",
+        "2. second",
+        "    - nested",
+        "    > quote",
+        "lazy",
+      ].join("\n"),
+      { listIndentSize: 4 }
+    );
+
+    assert.strictEqual(
+      output,
+      [
+        "1.  first",
+        "",
+        "    ```js",
+        "    let x;",
+        "    ```",
+        "",
+        "2.  second",
+        "",
+        "    -   nested",
+        "",
+        "    > quote",
+        "    > lazy",
+        "",
+      ].join("\n")
+    );
+  });
+
+  test("wraps long paragraph lines outside code spans and links", async () => {
+    const output = await format(
+      [
+        "A line with `some code here` and [a link](https://example.com/x) that wraps - 1. ok",
+        "hard break  ",
+        "end",
+        "",
+        "| long table row that is never wrapped | b |",
+        "| --- | --- |",
+      ].join("\n"),
+      {},
+      30
+    );
+
+    assert.strictEqual(
+      output,
+      [
+        "A line with `some code here`",
+        "and [a",
+        "link](https://example.com/x)",
+        "that wraps - 1. ok",
+        "hard break  ",
+        "end",
+        "",
+        "| long table row that is never wrapped | b |",
+        "| --- | --- |",
+        "",
+      ].join("\n")
+    );
+  });
+
+  test("keeps continuation lines that look like blocks in their block", async () => {
+    const output = await format(
+      ["Text", "    - not a list", "2. not a list either", "   ==="].join("\n")
+    );
+
+    assert.strictEqual(
+      output,
+      [
+        "Text",
+        "    - not a list",
+        "    2. not a list either",
+        "====================",
+        "",
+      ].join("\n")
+    );
+  });
+
+  test("is idempotent", async () => {
+    const once = await format(
+      [
+        "Setext",
+        "===",
+        "> - a",
+        ">",
+        ">   b",
+        "",
+        "| a | b |",
+        "|:-:|--:|",
+        "| `x\\|y` | 2 |",
+        "- [ ] task",
+        "-     code",
+      ].join("\n")
+    );
+
+    assert.strictEqual(await format(once), once);
+  });
+
+  test("checks inline content only outside code", async () => {
+    const result = await formatter.validateSyntax(
+      [
+        "```",
+        "echo `unclosed",
+        "[](nothing)",
+        "```",
+        "",
+        "Text with `code",
+        "that spans` lines and [](empty).",
+      ].join("\n"),
+      "markdown"
+    );
+
+    assert.deepStrictEqual(
+      result.errors.map((error) => [error.code, error.line, error.column]),
+      [["INVALID_LINK_FORMAT", 7, 23]]
+    );
+  });
+
+  suite("Fenced code", () => {
+    test("formats code with the formatter of its language", async () => {
+      const output = await format(
+        [
+          "- Config:",
+          "",
+          "  ```json title=config.json",
+          '  {"name":"demo",   "tags":["a","b"]}',
+          "  ```",
+          "",
+          "```ts",
+          "const x:number=1",
+          "```",
+          "",
+          "~~~yml",
+          "key:   value",
+          "~~~",
+        ].join("\n")
+      );
+
+      assert.strictEqual(
+        output,
+        [
+          "- Config:",
+          "",
+          "  ```json title=config.json",
+          '  { "name": "demo", "tags": ["a", "b"] }',
+          "  ```",
+          "",
+          "```ts",
+          "const x: number = 1;",
+          "```",
+          "",
+          "~~~yml",
+          "key: value",
+          "~~~",
+          "",
+        ].join("\n")
+      );
+    });
+
+    test("keeps code that does not parse, is opted out or unknown", async () => {
+      const input = [
+        "```json",
+        '{"broken": [1, 2}',
+        "```",
+        "",
+        "<!-- format-master-ignore -->",
+        "",
+        "```json",
+        '{"kept":   true}',
+        "```",
+        "",
+        "```bash",
+        "if [ -f x ];then echo   y; fi",
+        "```",
+        "",
+      ].join("\n");
+
+      assert.strictEqual(await format(input), input);
+      assert.strictEqual(
+        await format('```json\n{"a":1}\n```', { formatCodeBlocks: false }),
+        '```json\n{"a":1}\n```\n'
+      );
+    });
+  });
+
+  suite("Tables", () => {
+    test("pads cells by display width as their column is aligned", async () => {
+      const output = await format(
+        [
+          "| 名前 | Emoji | Count | Note |",
+          "|:-|:-:|-:|---|",
+          "| 日本語 | 👍🏽 | 1 | `a\\|b` |",
+          "| cafe\u0301 | 👨‍👩‍👧 | 1234 | ❤️ |",
+        ].join("\n")
+      );
+
+      assert.strictEqual(
+        output,
+        [
+          "| 名前   | Emoji | Count | Note   |",
+          "| :----- | :---: | ----: | ------ |",
+          "| 日本語 |  👍🏽   |     1 | `a\\|b` |",
+          "| cafe\u0301   |  👨‍👩‍👧   |  1234 | ❤️     |",
+          "",
+        ].join("\n")
+      );
+    });
+
+    test("keeps tables compact when padding makes them too wide", async () => {
+      const output = await format(
+        [
+          "| Name | Description |",
+          "| :-- | :-: |",
+          "| a | a description long enough to exceed the limit |",
+        ].join("\n"),
+        {},
+        40
+      );
+
+      assert.strictEqual(
+        output,
+        [
+          "| Name | Description |",
+          "| :-- | :-: |",
+          "| a | a description long enough to exceed the limit |",
+          "",
+        ].join("\n")
+      );
+    });
+  });
+});
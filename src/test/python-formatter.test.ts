@@ -0,0 +1,597 @@
+import * as assert from "assert";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { PythonFormatter } from "../formatters/python-formatter";
+import { FormatOptions } from "../types";
+
+suite("Python Formatter Test Suite", () => {
+  const formatter = new PythonFormatter();
+
+  const createOptions = (
+    customRules: Record<string, any> = {}
+  ): FormatOptions => ({
+    insertSpaces: true,
+    tabSize: 4,
+    languageId: "python",
+    fileName: "test.py",
+    customRules,
+  });
+
+  const format = async (
+    text: string,
+    customRules: Record<string, any> = {}
+  ): Promise<string> => {
+    const result = await formatter.formatText(text, createOptions(customRules));
+    assert.ok(result.success, result.errors[0]?.message);
+    return result.text!;
+  };
+
+  suite("Black compatibility", () => {
+    test("normalizes whitespace, blank lines and compound statements", async () => {
+      const output = await format(
+        [
+          "import os",
+          "def f(a,b = 1,*args,**kwargs) :",
+          "  x=a+b*2",
+          "  if x>10 : return x",
+          "  return {'a':1,'b':[1,2,3]}",
+          "class C(object):",
+          "  def m(self): pass",
+        ].join("\n")
+      );
+
+      assert.strictEqual(
+        output,
+        [
+          "import os",
+          "",
+          "",
+          "def f(a, b=1, *args, **kwargs):",
+          "    x = a + b * 2",
+          "    if x > 10:",
+          "        return x",
+          "    return {'a': 1, 'b': [1, 2, 3]}",
+          "",
+          "",
+          "class C(object):",
+          "    def m(self):",
+          "        pass",
+          "",
+        ].join("\n")
+      );
+    });
+
+    test("splits long lines at brackets and delimiters", async () => {
+      const output = await format(
+        [
+          "result = some_function_name(first_argument_value, second_argument_value, third_argument_value)",
+          "values = [element_number_one, element_number_two, element_number_three, element_number_four]",
+          "if some_condition and another_condition or yet_another_condition and the_last_condition_here:",
+          "    pass",
+        ].join("\n")
+      );
+
+      assert.strictEqual(
+        output,
+        [
+          "result = some_function_name(",
+          "    first_argument_value, second_argument_value, third_argument_value",
+          ")",
+          "values = [",
+          "    element_number_one,",
+          "    element_number_two,",
+          "    element_number_three,",
+          "    element_number_four,",
+          "]",
+          "if (",
+          "    some_condition",
+          "    and another_condition",
+          "    or yet_another_condition",
+          "    and the_last_condition_here",
+          "):",
+          "    pass",
+          "",
+        ].join("\n")
+      );
+    });
+
+    test("explodes collections with a magic trailing comma", async () => {
+      assert.strictEqual(
+        await format("config = dict(a=1,)\n"),
+        "config = dict(\n    a=1,\n)\n"
+      );
+    });
+
+    test("ignores magic trailing commas when asked to", async () => {
+      assert.strictEqual(
+        await format("config = dict(a=1,)\n", { skipMagicTrailingComma: true }),
+        "config = dict(a=1)\n"
+      );
+    });
+
+    test("respects maxLineLength", async () => {
+      assert.strictEqual(
+        await format("total = first_value + second_value\n", {
+          maxLineLength: 20,
+        }),
+        "total = (\n    first_value\n    + second_value\n)\n"
+      );
+    });
+
+    test("keeps comments after decorators and formats match statements", async () => {
+      const input = [
+        "@decorator",
+        "# comment",
+        "def f(): return 1",
+        "match command.split():",
+        "    case [action]:",
+        "        pass",
+        "    case [action, obj]:",
+        "        pass",
+      ].join("\n");
+
+      assert.strictEqual(
+        await format(input),
+        [
+          "@decorator",
+          "# comment",
+          "def f():",
+          "    return 1",
+          "",
+          "",
+          "match command.split():",
+          "    case [action]:",
+          "        pass",
+          "    case [action, obj]:",
+          "        pass",
+          "",
+        ].join("\n")
+      );
+    });
+
+    test("parenthesizes one-tuple loop targets", async () => {
+      const output = await format(
+        [
+          "for a, in b: pass",
+          "x = [a for a, in b if a]",
+          "y = {k: v for k, in b for v, in k}",
+        ].join("\n")
+      );
+
+      assert.strictEqual(
+        output,
+        [
+          "for (a,) in b:",
+          "    pass",
+          "x = [a for (a,) in b if a]",
+          "y = {k: v for (k,) in b for (v,) in k}",
+          "",
+        ].join("\n")
+      );
+      assert.strictEqual(await format(output), output);
+    });
+
+    test("keeps backslash continuations", async () => {
+      assert.strictEqual(
+        await format("x = 1+ \\\n    2\n"),
+        "x = 1 + \\\n    2\n"
+      );
+      const input = [
+        "if True:",
+        "  with open(a) as f, \\",
+        "       open(b) as g:",
+        "    pass",
+      ].join("\n");
+
+      assert.strictEqual(
+        await format(input),
+        [
+          "if True:",
+          "    with open(a) as f, \\",
+          "         open(b) as g:",
+          "        pass",
+          "",
+        ].join("\n")
+      );
+    });
+
+    test("is idempotent", async () => {
+      const once = await format(
+        "class A:\n\n\n\n    x = [1,\n  2]\n    def f(self, *, key = None): return key\n"
+      );
+      assert.strictEqual(await format(once), once);
+
+      const joined = await format("x = (  # comment\n    1\n)\n");
+      assert.strictEqual(joined, "x = 1  # comment\n");
+      assert.strictEqual(await format(joined), joined);
+    });
+  });
+
+  suite("Semantics", () => {
+    test("leaves string contents untouched", async () => {
+      const input = "s = '''keep   this\n   exactly'''\nt = 'a  b'  \n";
+      assert.strictEqual(
+        await format(input),
+        "s = '''keep   this\n   exactly'''\nt = 'a  b'\n"
+      );
+    });
+
+    test("leaves fmt: off regions and fmt: skip lines alone", async () => {
+      const output = await format(
+        [
+          "# fmt: off",
+          "custom = [",
+          "    0,  1,  2,",
+          "]",
+          "# fmt: on",
+          "regular = [",
+          "    0,  1,  2,",
+          "]",
+          "y = [1,2,3]  # fmt: skip",
+        ].join("\n")
+      );
+
+      assert.strictEqual(
+        output,
+        [
+          "# fmt: off",
+          "custom = [",
+          "    0,  1,  2,",
+          "]",
+          "# fmt: on",
+          "regular = [",
+          "    0,",
+          "    1,",
+          "    2,",
+          "]",
+          "y = [1,2,3]  # fmt: skip",
+          "",
+        ].join("\n")
+      );
+    });
+
+    test("fails instead of formatting unparsable code", async () => {
+      const result = await formatter.formatText(
+        "x = (1,\ny = 2\n",
+        createOptions()
+      );
+      assert.strictEqual(result.success, false);
+    });
+  });
+
+  suite("Strings and docstrings", () => {
+    test("normalizes quotes without adding escapes and keeps prefixes", async () => {
+      const input = [
+        "a = 'text'",
+        "b = 'say \"hi\"'",
+        "c = F'{x}' + Rb'\\d'",
+        'd = "it\'s"',
+        "",
+      ].join("\n");
+
+      assert.strictEqual(
+        await format(input, { quoteStyle: "double" }),
+        [
+          'a = "text"',
+          "b = 'say \"hi\"'",
+          'c = f"{x}" + Rb"\\d"',
+          'd = "it\'s"',
+          "",
+        ].join("\n")
+      );
+      assert.strictEqual(
+        await format(input, { quoteStyle: "single" }),
+        [
+          "a = 'text'",
+          "b = 'say \"hi\"'",
+          "c = f'{x}' + Rb'\\d'",
+          'd = "it\'s"',
+          "",
+        ].join("\n")
+      );
+    });
+
+    test("strips docstring indentation and surrounding whitespace", async () => {
+      const output = await format(
+        [
+          "def f():",
+          "        '''  Summary.",
+          "",
+          "            Indented detail.",
+          "        More detail.  ",
+          "        '''",
+          "        pass",
+          "",
+        ].join("\n"),
+        { quoteStyle: "double" }
+      );
+
+      assert.strictEqual(
+        output,
+        [
+          "def f():",
+          '    """Summary.',
+          "",
+          "        Indented detail.",
+          "    More detail.",
+          '    """',
+          "    pass",
+          "",
+        ].join("\n")
+      );
+    });
+
+    test("wraps docstring paragraphs to the line length", async () => {
+      const output = await format(
+        [
+          "def f():",
+          '    """Return the value of the setting after it was read from the project file.',
+          "",
+          "    Falls back to the default value.",
+          '    """',
+          "",
+        ].join("\n"),
+        { wrapDocstrings: true, maxLineLength: 60 }
+      );
+
+      assert.strictEqual(
+        output,
+        [
+          "def f():",
+          '    """Return the value of the setting after it was read',
+          "    from the project file.",
+          "",
+          "    Falls back to the default value.",
+          '    """',
+          "",
+        ].join("\n")
+      );
+    });
+
+    test("converts Google docstrings to NumPy and reST sections", async () => {
+      const google = [
+        "def area(width, height):",
+        '    """Compute an area.',
+        "",
+        "    Args:",
+        "        width (float): Width of the shape.",
+        "        height (float): Height of the shape.",
+        "",
+        "    Returns:",
+        "        float: The area.",
+        '    """',
+        "    return width * height",
+        "",
+      ].join("\n");
+
+      const numpy = await format(google, { docstringStyle: "numpy" });
+      assert.strictEqual(
+        numpy,
+        [
+          "def area(width, height):",
+          '    """Compute an area.',
+          "",
+          "    Parameters",
+          "    ----------",
+          "    width : float",
+          "        Width of the shape.",
+          "    height : float",
+          "        Height of the shape.",
+          "",
+          "    Returns",
+          "    -------",
+          "    float",
+          "        The area.",
+          '    """',
+          "    return width * height",
+          "",
+        ].join("\n")
+      );
+      assert.strictEqual(
+        await format(numpy, { docstringStyle: "rest" }),
+        [
+          "def area(width, height):",
+          '    """Compute an area.',
+          "",
+          "    :param width: Width of the shape.",
+          "    :type width: float",
+          "    :param height: Height of the shape.",
+          "    :type height: float",
+          "    :returns: The area.",
+          "    :rtype: float",
+          '    """',
+          "    return width * height",
+          "",
+        ].join("\n")
+      );
+      assert.strictEqual(
+        await format(numpy, { docstringStyle: "google" }),
+        google
+      );
+    });
+  });
+
+  suite("Import sorting", () => {
+    const IMPORTS = [
+      "import sys, os",
+      "from .local import b",
+      "from __future__ import annotations",
+      "import requests",
+      "from os.path import join as j, exists, abspath",
+      "from os.path import dirname",
+      "from typing import List, Dict, TYPE_CHECKING, cast, Any",
+      "# about collections",
+      "from collections import OrderedDict, defaultdict, Counter, namedtuple, deque, ChainMap, UserDict",
+      "x = 1",
+    ].join("\n");
+
+    test("groups sections, merges duplicates and wraps like isort's black profile", async () => {
+      assert.strictEqual(
+        await format(IMPORTS),
+        [
+          "from __future__ import annotations",
+          "",
+          "import os",
+          "import sys",
+          "",
+          "# about collections",
+          "from collections import (",
+          "    ChainMap,",
+          "    Counter,",
+          "    OrderedDict,",
+          "    UserDict,",
+          "    defaultdict,",
+          "    deque,",
+          "    namedtuple,",
+          ")",
+          "from os.path import abspath, dirname, exists",
+          "from os.path import join as j",
+          "from typing import TYPE_CHECKING, Any, Dict, List, cast",
+          "",
+          "import requests",
+          "",
+          "from .local import b",
+          "",
+          "x = 1",
+          "",
+        ].join("\n")
+      );
+    });
+
+    test("follows the google profile", async () => {
+      const output = await format(IMPORTS, { importProfile: "google" });
+
+      assert.strictEqual(
+        output.split("\n\n")[1],
+        [
+          "# about collections",
+          "from collections import ChainMap",
+          "from collections import Counter",
+          "from collections import defaultdict",
+          "from collections import deque",
+          "from collections import namedtuple",
+          "from collections import OrderedDict",
+          "from collections import UserDict",
+          "import os",
+          "from os.path import abspath",
+          "from os.path import dirname",
+          "from os.path import exists",
+          "from os.path import join as j",
+          "import sys",
+          "from typing import Any, cast, Dict, List, TYPE_CHECKING",
+        ].join("\n")
+      );
+    });
+
+    test("follows the pycharm profile", async () => {
+      assert.strictEqual(
+        await format("from os.path import join, exists\nimport sys\nx = 1\n", {
+          importProfile: "pycharm",
+        }),
+        [
+          "import sys",
+          "from os.path import (",
+          "    exists,",
+          "    join",
+          ")",
+          "",
+          "",
+          "x = 1",
+          "",
+        ].join("\n")
+      );
+    });
+
+    test("leaves skipped imports and disabled sorting alone", async () => {
+      const input = "import sys\nimport os  # isort: skip\nimport abc\n";
+
+      assert.strictEqual(
+        await format(input),
+        "import sys\n\nimport os  # isort: skip\nimport abc\n"
+      );
+      assert.strictEqual(await format(input, { sortImports: false }), input);
+    });
+
+    suite("Project configuration", () => {
+      let directory: string;
+
+      suiteSetup(() => {
+        directory = fs.mkdtempSync(path.join(os.tmpdir(), "format-master-"));
+        fs.writeFileSync(
+          path.join(directory, "pyproject.toml"),
+          [
+            "[project]",
+            'name = "my-app"',
+            "",
+            "[tool.isort]",
+            'profile = "black"',
+            "force_single_line = true",
+            'known_third_party = ["helpers"]',
+          ].join("\n")
+        );
+        fs.mkdirSync(path.join(directory, "src", "mypkg"), { recursive: true });
+        fs.writeFileSync(
+          path.join(directory, "src", "mypkg", "__init__.py"),
+          ""
+        );
+        fs.writeFileSync(path.join(directory, "helpers.py"), "");
+      });
+
+      suiteTeardown(() => {
+        fs.rmSync(directory, { recursive: true, force: true });
+      });
+
+      test("reads [tool.isort] and finds first party packages", async () => {
+        const result = await formatter.formatText(
+          [
+            "import mypkg",
+            "import my_app.cli",
+            "import helpers",
+            "from requests import get, post",
+          ].join("\n"),
+          {
+            ...createOptions({ importProfile: "google" }),
+            fileName: path.join(directory, "tool.py"),
+          }
+        );
+
+        assert.ok(result.success, result.errors[0]?.message);
+        assert.strictEqual(
+          result.text,
+          [
+            "import helpers",
+            "from requests import get",
+            "from requests import post",
+            "",
+            "import my_app.cli",
+            "import mypkg",
+            "",
+          ].join("\n")
+        );
+      });
+    });
+  });
+
+  suite("Validation", () => {
+    test("reports the position of tokenizer errors", async () => {
+      const result = await formatter.validateSyntax(
+        "x = 1\ns = 'abc\n",
+        "python"
+      );
+
+      assert.strictEqual(result.isValid, false);
+      assert.strictEqual(result.errors[0].code, "SYNTAX_ERROR");
+      assert.strictEqual(result.errors[0].line, 2);
+      assert.strictEqual(result.errors[0].column, 5);
+    });
+
+    test("accepts valid code", async () => {
+      const result = await formatter.validateSyntax(
+        "def f():\n    return [x for x in range(3)]\n",
+        "python"
+      );
+      assert.strictEqual(result.isValid, true);
+    });
+  });
+});
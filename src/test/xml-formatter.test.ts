@@ -0,0 +1,578 @@
+import * as assert from "assert";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { XmlFormatter } from "../formatters/xml-formatter";
+import { FormatOptions } from "../types";
+
+suite("XML Formatter Test Suite", () => {
+  const formatter = new XmlFormatter();
+
+  const createOptions = (
+    customRules: Record<string, any> = {},
+    maxLineLength = 40
+  ): FormatOptions => ({
+    insertSpaces: true,
+    tabSize: 2,
+    languageId: "xml",
+    fileName: "test.xml",
+    maxLineLength,
+    customRules,
+  });
+
+  const format = async (
+    text: string,
+    customRules: Record<string, any> = {},
+    maxLineLength = 40
+  ): Promise<string> => {
+    const result = await formatter.formatText(
+      text,
+      createOptions(customRules, maxLineLength)
+    );
+    assert.ok(result.success, result.errors[0]?.message);
+    return result.text!;
+  };
+
+  test("aligns wrapped attributes with the first attribute", async () => {
+    assert.strictEqual(
+      await format(
+        '<root><item id="first-item" name="A fairly long name" kind="x"/></root>'
+      ),
+      [
+        "<root>",
+        '  <item id="first-item"',
+        '        name="A fairly long name"',
+        '        kind="x"/>',
+        "</root>",
+        "",
+      ].join("\n")
+    );
+  });
+
+  test("indents wrapped attributes one level when configured", async () => {
+    assert.strictEqual(
+      await format(
+        '<root><item id="first-item" name="A fairly long name">x</item></root>',
+        { attributeWrapping: "indent" }
+      ),
+      [
+        "<root>",
+        "  <item",
+        '    id="first-item"',
+        '    name="A fairly long name">x</item>',
+        "</root>",
+        "",
+      ].join("\n")
+    );
+  });
+
+  test("wraps long text nodes at the content indentation", async () => {
+    const input =
+      '<root><desc lang="en">This is a fairly long description text that must wrap</desc></root>';
+
+    assert.strictEqual(
+      await format(input),
+      [
+        "<root>",
+        '  <desc lang="en">This is a fairly long',
+        "    description text that must",
+        "    wrap</desc>",
+        "</root>",
+        "",
+      ].join("\n")
+    );
+    assert.strictEqual(
+      await format(input, { collapseContent: false }),
+      [
+        "<root>",
+        '  <desc lang="en">',
+        "    This is a fairly long description",
+        "    text that must wrap",
+        "  </desc>",
+        "</root>",
+        "",
+      ].join("\n")
+    );
+  });
+
+  test("leaves mixed content and preserved whitespace untouched", async () => {
+    const mixed =
+      "  <p>Hello <b>bold</b> world and more words past the limit</p>";
+    const preserved =
+      '  <pre xml:space="preserve">  keep   this long preserved line as written</pre>';
+
+    assert.strictEqual(
+      await format(`<root>${mixed.trim()}${preserved.trim()}</root>`, {}, 30),
+      ["<root>", mixed, preserved, "</root>", ""].join("\n")
+    );
+  });
+
+  test("produces stable output when run twice", async () => {
+    const input =
+      '<root a="1"><item id="first-item" name="A fairly long name" kind="x"><desc>Some text that is long enough to be wrapped twice over</desc></item></root>';
+
+    for (const attributeWrapping of ["align", "indent"]) {
+      const once = await format(input, { attributeWrapping });
+      assert.strictEqual(await format(once, { attributeWrapping }), once);
+    }
+
+    for (const text of ["word ".repeat(30), `  ${"word ".repeat(30)}  `]) {
+      const once = await format(`<root><t>${text}</t></root>`, {}, 60);
+      assert.ok(once.includes("word</t>"), once);
+      assert.strictEqual(await format(once, {}, 60), once);
+    }
+  });
+
+  test("keeps license headers before the root element", async () => {
+    const header = [
+      "<!--",
+      "  Licensed under the Apache License, Version 2.0",
+      "-->",
+    ];
+
+    assert.strictEqual(
+      await format(
+        `<?xml version="1.0"?>\n${header.join("\n")}\n<project><modelVersion>4.0.0</modelVersion></project>`,
+        {},
+        120
+      ),
+      [
+        '<?xml version="1.0"?>',
+        ...header,
+        "<project>",
+        "  <modelVersion>4.0.0</modelVersion>",
+        "</project>",
+        "",
+      ].join("\n")
+    );
+  });
+
+  test("keeps comments inside elements", async () => {
+    assert.strictEqual(
+      await format(
+        '<manifest><!-- permissions --><uses-permission name="a"/><!-- end --></manifest>',
+        {},
+        120
+      ),
+      [
+        "<manifest>",
+        "  <!-- permissions -->",
+        '  <uses-permission name="a"/>',
+        "  <!-- end -->",
+        "</manifest>",
+        "",
+      ].join("\n")
+    );
+  });
+
+  test("removes comments only when preserveComments is false", async () => {
+    const input = "<!-- header --><root><!-- note --><a/></root>";
+
+    assert.strictEqual(
+      await format(input, { preserveComments: true }, 120),
+      "<!-- header -->\n<root>\n  <!-- note -->\n  <a/>\n</root>\n"
+    );
+    assert.strictEqual(
+      await format(input, { preserveComments: false }, 120),
+      "<root>\n  <a/>\n</root>\n"
+    );
+  });
+
+  test("keeps processing instructions", async () => {
+    assert.strictEqual(
+      await format(
+        '<?xml version="1.0" encoding="UTF-8"?><?xml-stylesheet type="text/xsl" href="style.xsl"?><root><?page break?><a/></root>',
+        {},
+        120
+      ),
+      [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        '<?xml-stylesheet type="text/xsl" href="style.xsl"?>',
+        "<root>",
+        "  <?page break?>",
+        "  <a/>",
+        "</root>",
+        "",
+      ].join("\n")
+    );
+  });
+
+  test("keeps CDATA sections verbatim", async () => {
+    const cdata = "<![CDATA[\n  if (a < b && c > d) {   \n    run();\n  }\n]]>";
+
+    assert.strictEqual(
+      await format(`<root><script>${cdata}</script></root>`, {}, 20),
+      `<root>\n  <script>${cdata}</script>\n</root>\n`
+    );
+  });
+
+  test("keeps processing instructions inline next to CDATA", async () => {
+    const input = "<r><?pi   data?><a>x</a><![CDATA[  keep  ]]><!-- c --></r>";
+    const once = await format(input, {}, 120);
+
+    assert.strictEqual(
+      once,
+      "<r><?pi data?><a>x</a><![CDATA[  keep  ]]><!-- c --></r>\n"
+    );
+    assert.strictEqual(await format(once, {}, 120), once);
+  });
+
+  test("keeps DOCTYPE declarations with internal subsets", async () => {
+    const doctype = [
+      "<!DOCTYPE note [",
+      '  <!ENTITY writer "Writer: Donald Duck.">',
+      "  <!ELEMENT note (#PCDATA)>",
+      "]>",
+    ];
+
+    assert.strictEqual(
+      await format(`${doctype.join("\n")}\n<note>&writer;</note>`, {}, 120),
+      [...doctype, "<note>&writer;</note>", ""].join("\n")
+    );
+  });
+
+  test("sorts attributes only when enabled", async () => {
+    const input = '<root b="2" a="1"/>';
+
+    assert.strictEqual(await format(input, {}, 120), '<root b="2" a="1"/>\n');
+    assert.strictEqual(
+      await format(input, { sortAttributes: true }, 120),
+      '<root a="1" b="2"/>\n'
+    );
+  });
+
+  test("puts namespaces, id and name first, then sorts by namespace", async () => {
+    const input =
+      '<svg width="10" xmlns:xlink="http://www.w3.org/1999/xlink" viewBox="0 0 10 10" xmlns="http://www.w3.org/2000/svg">' +
+      '<use xlink:href="#a" name="n" y="2" x="1" id="u"/></svg>';
+    const result = await formatter.formatText(input, {
+      ...createOptions({ sortAttributes: true }, 200),
+      languageId: "svg",
+      fileName: "icon.svg",
+    });
+
+    assert.strictEqual(
+      result.text,
+      [
+        '<svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink" viewBox="0 0 10 10" width="10">',
+        '  <use id="u" name="n" x="1" y="2" xlink:href="#a"/>',
+        "</svg>",
+        "",
+      ].join("\n")
+    );
+  });
+
+  test("applies attribute priority lists for the root element", async () => {
+    const input =
+      '<LinearLayout android:orientation="vertical" android:layout_width="match_parent" ' +
+      'xmlns:android="http://schemas.android.com/apk/res/android" android:id="@+id/root" ' +
+      'android:layout_height="wrap_content"><View android:layout_width="0dp" android:alpha="1"/></LinearLayout>';
+
+    assert.strictEqual(
+      await format(
+        input,
+        {
+          sortAttributes: true,
+          attributeOrder: { LinearLayout: ["android:layout_*"] },
+        },
+        200
+      ),
+      [
+        '<LinearLayout xmlns:android="http://schemas.android.com/apk/res/android" android:id="@+id/root" ' +
+          'android:layout_height="wrap_content" android:layout_width="match_parent" android:orientation="vertical">',
+        '  <View android:layout_width="0dp" android:alpha="1"/>',
+        "</LinearLayout>",
+        "",
+      ].join("\n")
+    );
+  });
+
+  test("keeps attribute values byte-identical when sorting", async () => {
+    const values = ['z="a &amp; b"', 'y="line&#10;break"', 'x="  spaced  "'];
+    const output = await format(
+      `<root ${values.join(" ")}/>`,
+      { sortAttributes: true },
+      200
+    );
+
+    assert.strictEqual(output, `<root ${[...values].reverse().join(" ")}/>\n`);
+  });
+
+  suite("SVG optimization", () => {
+    const optimize = async (
+      text: string,
+      customRules: Record<string, any> = {}
+    ): Promise<string> => {
+      const result = await formatter.formatText(text, {
+        ...createOptions({ optimizeSvg: true, ...customRules }, 200),
+        languageId: "svg",
+        fileName: "icon.svg",
+      });
+      assert.ok(result.success, result.errors[0]?.message);
+      return result.text!;
+    };
+
+    test("rounds path coordinates and uses shorter relative commands", async () => {
+      const input =
+        '<svg><path d="M 10.00001 20 L 110.123456 20.5 L 115 25 C 115.5 25.5, 116 26, 117 27 Z"/></svg>';
+
+      assert.strictEqual(
+        await optimize(input),
+        '<svg>\n  <path d="M10 20l100.123.5L115 25c.5.5 1 1 2 2Z"/>\n</svg>\n'
+      );
+      assert.strictEqual(
+        await optimize(input, {
+          pathPrecision: 1,
+          convertPathsToRelative: false,
+        }),
+        '<svg>\n  <path d="M10 20 110.1 20.5 115 25C115.5 25.5 116 26 117 27Z"/>\n</svg>\n'
+      );
+    });
+
+    test("does not accumulate rounding errors in relative paths", async () => {
+      const output = await optimize(
+        '<svg><path d="M100 100 L 100.4 100 L 100.8 100 L 101.2 100 L 101.6 100"/></svg>',
+        { pathPrecision: 0 }
+      );
+
+      assert.strictEqual(
+        output,
+        '<svg>\n  <path d="M100 100l0 0 1 0 0 0 1 0"/>\n</svg>\n'
+      );
+    });
+
+    test("removes editor namespaces, elements and attributes", async () => {
+      const input =
+        '<svg xmlns="http://www.w3.org/2000/svg" xmlns:inkscape="http://www.inkscape.org/namespaces/inkscape" ' +
+        'xmlns:sketch="http://www.bohemiancoding.com/sketch/ns" inkscape:version="1.0">' +
+        '<inkscape:grid type="xygrid"/><rect sketch:type="MSShapeGroup" width="1" height="1"/></svg>';
+
+      assert.strictEqual(
+        await optimize(input),
+        '<svg xmlns="http://www.w3.org/2000/svg">\n  <rect width="1" height="1"/>\n</svg>\n'
+      );
+      assert.ok(
+        (await optimize(input, { removeEditorMetadata: false })).includes(
+          "inkscape:grid"
+        )
+      );
+    });
+
+    test("removes empty groups but keeps referenced ones", async () => {
+      const input =
+        '<svg><g><g class="x"/>\n</g><g id="target"/><g filter="url(#f)"></g><g><rect/></g></svg>';
+
+      assert.strictEqual(
+        await optimize(input),
+        [
+          "<svg>",
+          '  <g id="target"/>',
+          '  <g filter="url(#f)"></g>',
+          "  <g>",
+          "    <rect/>",
+          "  </g>",
+          "</svg>",
+          "",
+        ].join("\n")
+      );
+      assert.ok(
+        (await optimize(input, { removeEmptyGroups: false })).includes(
+          '<g class="x"/>'
+        )
+      );
+    });
+
+    test("merges redundant transforms", async () => {
+      const input =
+        '<svg><g transform="translate(10,0) translate(5 5) scale(2) scale(0.5)"><rect transform="rotate(0)"/></g>' +
+        '<linearGradient gradientTransform="rotate(30) rotate(60)"/></svg>';
+
+      assert.strictEqual(
+        await optimize(input),
+        [
+          "<svg>",
+          '  <g transform="translate(15 5)">',
+          "    <rect/>",
+          "  </g>",
+          '  <linearGradient gradientTransform="rotate(90)"/>',
+          "</svg>",
+          "",
+        ].join("\n")
+      );
+      assert.ok(
+        (await optimize(input, { mergeTransforms: false })).includes(
+          'transform="translate(10,0) translate(5 5) scale(2) scale(0.5)"'
+        )
+      );
+    });
+
+    test("only cleans up path whitespace outside optimization mode", async () => {
+      const result = await formatter.formatText(
+        '<svg><path d="M 10.00001   20 L 30 40" transform="scale(1)"/></svg>',
+        { ...createOptions({}, 200), languageId: "svg", fileName: "icon.svg" }
+      );
+
+      assert.strictEqual(
+        result.text,
+        '<svg>\n  <path d="M 10.00001 20 L 30 40" transform="scale(1)"/>\n</svg>\n'
+      );
+    });
+  });
+
+  suite("Schema validation", () => {
+    const NOTE_SCHEMA = `<?xml version="1.0"?>
+<xs:schema xmlns:xs="http://www.w3.org/2001/XMLSchema" targetNamespace="urn:note" elementFormDefault="qualified">
+  <xs:element name="note">
+    <xs:complexType>
+      <xs:sequence>
+        <xs:element name="to" type="xs:string"/>
+        <xs:element name="priority" type="priorityType" minOccurs="0"/>
+        <xs:element name="line" type="xs:string" maxOccurs="unbounded"/>
+      </xs:sequence>
+      <xs:attribute name="id" type="xs:positiveInteger" use="required"/>
+    </xs:complexType>
+  </xs:element>
+  <xs:simpleType name="priorityType">
+    <xs:restriction base="xs:string">
+      <xs:enumeration value="low"/>
+      <xs:enumeration value="high"/>
+    </xs:restriction>
+  </xs:simpleType>
+</xs:schema>`;
+    const PAIR_SCHEMA = `<?xml version="1.0"?>
+<xs:schema xmlns:xs="http://www.w3.org/2001/XMLSchema">
+  <xs:element name="r">
+    <xs:complexType>
+      <xs:sequence>
+        <xs:element name="a" type="xs:string"/>
+        <xs:element name="b" type="xs:boolean"/>
+      </xs:sequence>
+    </xs:complexType>
+  </xs:element>
+</xs:schema>`;
+    const NOTE_DTD = `<!ELEMENT note (to, line+)>
+<!ELEMENT to (#PCDATA)>
+<!ELEMENT line (#PCDATA)>
+<!ATTLIST note kind (memo|letter) #REQUIRED>`;
+
+    let directory: string;
+
+    suiteSetup(() => {
+      directory = fs.mkdtempSync(path.join(os.tmpdir(), "format-master-"));
+      fs.writeFileSync(path.join(directory, "note.xsd"), NOTE_SCHEMA);
+      fs.writeFileSync(path.join(directory, "note.dtd"), NOTE_DTD);
+      fs.writeFileSync(path.join(directory, "pair.xsd"), PAIR_SCHEMA);
+    });
+
+    suiteTeardown(() => {
+      fs.rmSync(directory, { recursive: true, force: true });
+    });
+
+    const validate = (content: string, customRules: Record<string, any> = {}) =>
+      formatter.validateSyntax(content, "xml", {
+        ...createOptions(customRules),
+        fileName: path.join(directory, "note.xml"),
+      });
+
+    const noteDocument = (location: string, body: string): string =>
+      [
+        '<note xmlns="urn:note" id="1"',
+        '      xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"',
+        `      xsi:schemaLocation="urn:note ${location}">`,
+        body,
+        "</note>",
+      ].join("\n");
+
+    test("accepts documents that match a local XML Schema", async () => {
+      const result = await validate(
+        noteDocument(
+          "note.xsd",
+          "  <to>Ann</to><priority>high</priority><line>Hi</line>"
+        )
+      );
+
+      assert.strictEqual(result.isValid, true, result.errors[0]?.message);
+      assert.deepStrictEqual(result.warnings, []);
+    });
+
+    test("reports XML Schema violations with their position", async () => {
+      const result = await validate(
+        noteDocument(
+          "note.xsd",
+          "  <to>Ann</to>\n  <priority>urgent</priority>\n  <line>Hi</line>\n  <to>Bob</to>"
+        ).replace(' id="1"', "")
+      );
+
+      assert.strictEqual(result.isValid, false);
+      assert.deepStrictEqual(
+        result.errors.map((error) => [error.line, error.column]),
+        [
+          [1, 1],
+          [7, 3],
+          [5, 3],
+        ]
+      );
+      assert.match(result.errors[0].message, /missing required attribute "id"/);
+      assert.match(result.errors[1].message, /Unexpected element <to>/);
+      assert.match(
+        result.errors[2].message,
+        /"urgent" is not one of low, high/
+      );
+    });
+
+    test("reports children left over after a complete sequence", async () => {
+      for (const extra of ["<c/>", "<b>false</b>"]) {
+        const result = await validate(
+          [
+            '<r xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"',
+            '   xsi:noNamespaceSchemaLocation="pair.xsd">',
+            `  <a>1</a><b>true</b>${extra}`,
+            "</r>",
+          ].join("\n")
+        );
+
+        assert.deepStrictEqual(
+          result.errors.map((error) => [
+            error.line,
+            error.column,
+            error.message,
+          ]),
+          [[3, 22, `Unexpected element <${extra.slice(1, 2)}> in <r>`]]
+        );
+      }
+    });
+
+    test("resolves remote schemas through the catalog only", async () => {
+      const remote = "https://example.com/schemas/note.xsd";
+      const invalid = noteDocument(remote, "  <line>Hi</line>");
+
+      const offline = await validate(invalid);
+      assert.strictEqual(offline.isValid, true);
+      assert.strictEqual(offline.warnings[0].code, "XML_SCHEMA_UNAVAILABLE");
+
+      const mapped = await validate(invalid, {
+        schemaCatalog: { [remote]: "note.xsd" },
+      });
+      assert.strictEqual(mapped.isValid, false);
+      assert.match(mapped.errors[0].message, /expected <to>/);
+    });
+
+    test("validates against local and internal DTDs", async () => {
+      const external = await validate(
+        '<!DOCTYPE note SYSTEM "note.dtd">\n<note kind="fax">\n  <line>Hi</line>\n</note>'
+      );
+      assert.deepStrictEqual(
+        external.errors.map((error) => [error.line, error.message]),
+        [
+          [2, 'Attribute "kind" must be one of memo, letter'],
+          [2, "Content of <note> does not match its declaration"],
+        ]
+      );
+
+      const internal = await validate(
+        `<!DOCTYPE note [\n${NOTE_DTD}\n]>\n<note kind="memo"><to>Ann</to><line>Hi</line></note>`
+      );
+      assert.strictEqual(internal.isValid, true, internal.errors[0]?.message);
+    });
+  });
+});
@@ -0,0 +1,420 @@
+import * as assert from "assert";
+import { YamlFormatter } from "../formatters/yaml-formatter";
+import { FormatOptions } from "../types";
+
+suite("YAML Formatter Test Suite", () => {
+  const formatter = new YamlFormatter();
+
+  const createOptions = (
+    customRules: Record<string, any> = {},
+    tabSize: number = 2,
+    fileName: string = "test.yaml"
+  ): FormatOptions => ({
+    insertSpaces: true,
+    tabSize,
+    languageId: "yaml",
+    fileName,
+    customRules,
+  });
+
+  const format = async (
+    text: string,
+    customRules: Record<string, any> = {},
+    tabSize: number = 2,
+    fileName?: string
+  ): Promise<string> => {
+    const result = await formatter.formatText(
+      text,
+      createOptions(customRules, tabSize, fileName)
+    );
+    assert.ok(result.success, result.errors[0]?.message);
+    return result.text!;
+  };
+
+  test("keeps block scalars, quoted keys and flow mappings intact", async () => {
+    const output = await format(
+      [
+        "script: |-",
+        "    echo hi",
+        "",
+        "      indented",
+        "folded: >2",
+        "   leading",
+        "  text",
+        '"url: with colon": {host: "a:b", port: 80}',
+        "'it''s': [1, 2,   {x: y}]",
+      ].join("\n")
+    );
+
+    assert.strictEqual(
+      output,
+      [
+        "script: |-",
+        "  echo hi",
+        "",
+        "    indented",
+        "folded: >2",
+        "   leading",
+        "  text",
+        '"url: with colon": { host: "a:b", port: 80 }',
+        "'it''s': [1, 2, { x: y }]",
+        "",
+      ].join("\n")
+    );
+  });
+
+  test("keeps comments, anchors, aliases, tags and documents", async () => {
+    const input = [
+      "%YAML 1.2",
+      "--- !shape",
+      "# header",
+      "base: &base   # anchored",
+      "    name: x",
+      "",
+      "    # own line",
+      "    size: !!int 3",
+      "derived:",
+      "    <<: *base",
+      "...",
+      "---",
+      "- second",
+      "---",
+      "third: doc",
+      "",
+    ].join("\n");
+
+    assert.strictEqual(
+      await format(input),
+      [
+        "%YAML 1.2",
+        "--- !shape",
+        "# header",
+        "base: &base # anchored",
+        "  name: x",
+        "",
+        "  # own line",
+        "  size: !!int 3",
+        "derived:",
+        "  <<: *base",
+        "...",
+        "---",
+        "- second",
+        "---",
+        "third: doc",
+        "",
+      ].join("\n")
+    );
+  });
+
+  test("normalizes indentation to the tab size", async () => {
+    const output = await format(
+      "root:\n  child:\n   - a\n   - b:  1\n     c: 2\n",
+      {},
+      4
+    );
+
+    assert.strictEqual(
+      output,
+      "root:\n    child:\n        - a\n        - b: 1\n          c: 2\n"
+    );
+  });
+
+  test("switches the sequence indentation style", async () => {
+    const input = "list:\n- a\n- b\nnested:\n  items:\n    - c\n";
+
+    assert.strictEqual(
+      await format(input, { sequenceIndent: "indented" }),
+      "list:\n  - a\n  - b\nnested:\n  items:\n    - c\n"
+    );
+    assert.strictEqual(
+      await format(input, { sequenceIndent: "flush" }),
+      "list:\n- a\n- b\nnested:\n  items:\n  - c\n"
+    );
+    assert.strictEqual(await format(input), input);
+  });
+
+  test("switches quotes only when no escapes are needed", async () => {
+    const input = [
+      "a: 'single'",
+      "b: 'it''s'",
+      'c: "double"',
+      'd: "say \\"hi\\""',
+      "",
+    ].join("\n");
+
+    assert.strictEqual(
+      await format(input, { quoteStyle: "double" }),
+      [
+        'a: "single"',
+        'b: "it\'s"',
+        'c: "double"',
+        'd: "say \\"hi\\""',
+        "",
+      ].join("\n")
+    );
+    assert.strictEqual(
+      await format(input, { quoteStyle: "single" }),
+      [
+        "a: 'single'",
+        "b: 'it''s'",
+        "c: 'double'",
+        'd: "say \\"hi\\""',
+        "",
+      ].join("\n")
+    );
+  });
+
+  test("breaks long flow collections one entry per line", async () => {
+    const output = await format(
+      `keys: [${["alpha", "bravo", "charlie", "delta", "echo", "foxtrot"]
+        .map((word) => `${word}-value`)
+        .join(", ")}]`
+    );
+
+    assert.strictEqual(
+      output,
+      [
+        "keys:",
+        "  [",
+        "    alpha-value,",
+        "    bravo-value,",
+        "    charlie-value,",
+        "    delta-value,",
+        "    echo-value,",
+        "    foxtrot-value",
+        "  ]",
+        "",
+      ].join("\n")
+    );
+  });
+
+  suite("Round trip", () => {
+    const corpus = [
+      "# header\n\nkey: value # trailing\nempty:\nnothing: null\n",
+      "anchors:\n  base: &base\n    a: 1\n  derived:\n    <<: *base\n    set: !!set { a, b }\n",
+      "- one\n- two words\n  continued\n- key: v\n  other: [1, 2]\n- - nested\n  - seq\n",
+      "? complex key\n: complex value\n? |\n  block key\n: v\n",
+      "--- |\n  literal doc\n--- >-\n  folded\n  doc\n---\n# only comment\n",
+      "seq:\n  - # before value\n    value\n  -\n  - &a !tag x\n  - *a\n",
+      'multi: "line one\n  line two"\nplain: first\n  second\n',
+      "flow:\n  {\n    a: 1, # one\n    b: 2\n  }\n",
+    ];
+
+    test("formatted documents are left unchanged", async () => {
+      for (const text of corpus) {
+        assert.strictEqual(await format(text), text);
+      }
+    });
+
+    test("formatting is idempotent", async () => {
+      for (const text of corpus) {
+        const rules = { sequenceIndent: "indented", quoteStyle: "single" };
+        const once = await format(text, rules, 4);
+        assert.strictEqual(await format(once, rules, 4), once);
+      }
+    });
+  });
+
+  suite("Key ordering", () => {
+    test("keeps aliases after the anchors they refer to", async () => {
+      const input = [
+        "base: &b {name: web}",
+        "kind: Pod",
+        "apiVersion: v1",
+        "metadata: *b",
+        "",
+      ].join("\n");
+
+      assert.strictEqual(
+        await format(input, { keyOrder: "kubernetes" }),
+        [
+          "apiVersion: v1",
+          "kind: Pod",
+          "base: &b { name: web }",
+          "metadata: *b",
+          "",
+        ].join("\n")
+      );
+    });
+
+    test("orders every Kubernetes document of a stream", async () => {
+      const input = [
+        "metadata:",
+        "  labels: {app: web}",
+        "  name: web",
+        "# the workload",
+        "spec:",
+        "  replicas: 2",
+        "kind: Deployment",
+        "apiVersion: apps/v1",
+        "---",
+        "kind: Service",
+        "apiVersion: v1",
+        "",
+      ].join("\n");
+
+      assert.strictEqual(
+        await format(input, { keyOrder: "auto" }),
+        [
+          "apiVersion: apps/v1",
+          "kind: Deployment",
+          "metadata:",
+          "  name: web",
+          "  labels: { app: web }",
+          "# the workload",
+          "spec:",
+          "  replicas: 2",
+          "---",
+          "apiVersion: v1",
+          "kind: Service",
+          "",
+        ].join("\n")
+      );
+      assert.strictEqual(
+        await format(input),
+        input.replace("{app: web}", "{ app: web }")
+      );
+    });
+
+    test("orders GitHub Actions jobs and steps", async () => {
+      const input = [
+        "jobs:",
+        "  build:",
+        "    steps:",
+        "      - run: make",
+        "        name: Build",
+        "    runs-on: ubuntu-latest",
+        "on: push",
+        "name: CI",
+        "",
+      ].join("\n");
+
+      assert.strictEqual(
+        await format(
+          input,
+          { keyOrder: "auto" },
+          2,
+          "/repo/.github/workflows/ci.yml"
+        ),
+        [
+          "name: CI",
+          "on: push",
+          "jobs:",
+          "  build:",
+          "    runs-on: ubuntu-latest",
+          "    steps:",
+          "      - name: Build",
+          "        run: make",
+          "",
+        ].join("\n")
+      );
+    });
+
+    test("detects Compose files by name and uses custom profiles", async () => {
+      const input =
+        "services:\n  web:\n    ports: [80]\n    image: nginx\n    build: .\n";
+
+      assert.strictEqual(
+        await format(input, { keyOrder: "auto" }, 2, "docker-compose.yml"),
+        "services:\n  web:\n    image: nginx\n    build: .\n    ports: [80]\n"
+      );
+      assert.strictEqual(await format(input, { keyOrder: "auto" }), input);
+      assert.strictEqual(
+        await format(
+          "tasks: []\nhosts: all\nname: Play\n",
+          {
+            keyOrder: "auto",
+            keyOrderSchemas: {
+              ansible: { files: ["playbook*.yml"], order: ["name", "hosts"] },
+            },
+          },
+          2,
+          "playbook.yml"
+        ),
+        "name: Play\nhosts: all\ntasks: []\n"
+      );
+    });
+  });
+
+  suite("Validation", () => {
+    test("reports the position of syntax errors", async () => {
+      const result = await formatter.validateSyntax(
+        "key: value\nlist:\n  - a\n  b: c\n",
+        "yaml"
+      );
+
+      assert.strictEqual(result.isValid, false);
+      assert.deepStrictEqual(
+        result.errors.map(
+          (error) => `${error.code} ${error.line}:${error.column}`
+        ),
+        ["YAML_SYNTAX_ERROR 4:3"]
+      );
+    });
+
+    test("warns about duplicate keys, undefined aliases and tabs", async () => {
+      const result = await formatter.validateSyntax(
+        [
+          "base: &base {a: 1}",
+          "first: *base",
+          "early: *later",
+          "later: &later x",
+          "first: again",
+          "merged:",
+          "  <<: *base",
+          "  <<: *later",
+          "nested:",
+          "\tkey: value",
+          "script: |",
+          "  \tindented by a tab",
+        ].join("\n"),
+        "yaml",
+        createOptions()
+      );
+
+      assert.strictEqual(result.isValid, true);
+      assert.deepStrictEqual(
+        result.warnings.map(
+          (warning) =>
+            `${warning.code} ${warning.line}:${warning.column} ${warning.fix?.title}`
+        ),
+        [
+          "YAML_UNDEFINED_ALIAS 3:8 undefined",
+          "YAML_DUPLICATE_KEY 5:1 undefined",
+          "YAML_TAB_INDENTATION 10:1 Replace tabs with spaces",
+        ]
+      );
+    });
+
+    test("offers to quote values YAML 1.1 reads differently", async () => {
+      const result = await formatter.validateSyntax(
+        "country: no\nmode: 0755\nlist: [on, 0x1F, '0644', !!str off]\n",
+        "yaml",
+        createOptions()
+      );
+
+      assert.deepStrictEqual(
+        result.warnings.map(
+          (warning) =>
+            `${warning.code} ${warning.line}:${warning.column} ${warning.fix?.title}`
+        ),
+        [
+          'YAML_AMBIGUOUS_SCALAR 1:10 Quote "no"',
+          'YAML_AMBIGUOUS_SCALAR 2:7 Quote "0755"',
+          'YAML_AMBIGUOUS_SCALAR 3:8 Quote "on"',
+        ]
+      );
+      assert.strictEqual(result.warnings[0].fix?.isPreferred, true);
+    });
+
+    test("leaves ambiguous values for the quick fix by default", async () => {
+      const input = "country: NO\nenabled: on\nnothing: ~\n";
+
+      assert.strictEqual(await format(input), input);
+      assert.strictEqual(
+        await format(input, { normalizeBooleans: true, normalizeNulls: true }),
+        "country: false\nenabled: true\nnothing: null\n"
+      );
+    });
+  });
+});
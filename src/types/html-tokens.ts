@@ -0,0 +1,40 @@
+/**
+ * **Kind of lexical construct in an HTML document**
+ */
+export type HtmlTokenType =
+  "text" | "startTag" | "endTag" | "comment" | "doctype";
+
+/**
+ * **Attribute of a start tag**
+ * `value` is undefined for attributes written without one
+ */
+export interface HtmlAttribute {
+  name: string;
+  value?: string;
+  start: number;
+  end: number;
+}
+
+/**
+ * **Token produced by the HTML tokenizer**
+ * Offsets are 0-based and `end` is exclusive; tag names are lower-cased
+ */
+export interface HtmlToken {
+  type: HtmlTokenType;
+  start: number;
+  end: number;
+  name?: string;
+  attributes?: HtmlAttribute[];
+  selfClosing?: boolean;
+}
+
+/**
+ * **Syntax problem found while tokenizing or building an HTML tree**
+ * `offset` is the 0-based position the problem refers to
+ */
+export interface HtmlSyntaxIssue {
+  code: string;
+  message: string;
+  offset: number;
+  severity: "error" | "warning";
+}
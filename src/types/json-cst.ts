@@ -0,0 +1,92 @@
+/**
+ * **Position of a token in the source text**
+ * Lines and columns are 1-based
+ */
+export interface JsonPosition {
+  offset: number;
+  line: number;
+  column: number;
+}
+
+/**
+ * **Comment preserved in the concrete syntax tree**
+ */
+export interface JsonComment {
+  kind: "line" | "block";
+  text: string;
+  start: JsonPosition;
+  ownLine: boolean;
+  blankLineBefore: boolean;
+  followedByNewline: boolean;
+  blankLineAfter: boolean;
+}
+
+/**
+ * **Scalar value kept in its original lexical form**
+ */
+export interface JsonLiteral {
+  type: "string" | "number" | "boolean" | "null" | "identifier";
+  raw: string;
+  start: JsonPosition;
+}
+
+/**
+ * **Object node with its members and comments**
+ */
+export interface JsonObject {
+  type: "object";
+  members: JsonMember[];
+  danglingComments: JsonComment[];
+  trailingComma: boolean;
+  start: JsonPosition;
+}
+
+/**
+ * **Array node with its elements and comments**
+ */
+export interface JsonArray {
+  type: "array";
+  elements: JsonElement[];
+  danglingComments: JsonComment[];
+  trailingComma: boolean;
+  start: JsonPosition;
+}
+
+export type JsonValueNode = JsonObject | JsonArray | JsonLiteral;
+
+/**
+ * **Array element or document root with the comments it owns**
+ */
+export interface JsonElement {
+  value: JsonValueNode;
+  leadingComments: JsonComment[];
+  trailingComments: JsonComment[];
+  blankLineBefore: boolean;
+}
+
+/**
+ * **Object member with the comments it owns**
+ */
+export interface JsonMember extends JsonElement {
+  key: JsonLiteral;
+  separatorComments: JsonComment[];
+}
+
+/**
+ * **Parsed JSON document**
+ */
+export interface JsonDocument {
+  root?: JsonElement;
+  danglingComments: JsonComment[];
+}
+
+/**
+ * **Parser dialect options**
+ */
+export interface JsonParserOptions {
+  languageId: string;
+  allowComments: boolean;
+  allowTrailingCommas: boolean;
+  allowJson5?: boolean;
+  startLine?: number;
+}
@@ -0,0 +1,116 @@
+/**
+ * **Block of a Markdown document**
+ * `start` and `end` are the 0-based lines the block begins and ends on,
+ * blank lines after it excluded
+ */
+interface MarkdownBlockBase {
+  start: number;
+  end: number;
+}
+
+/**
+ * **ATX (`# Title`) or setext (`Title` over `===`) heading**
+ * `text` holds the inline content, one entry per source line. `closing`
+ * keeps the optional closing `#` sequence of an ATX heading.
+ */
+export interface MarkdownHeading extends MarkdownBlockBase {
+  type: "heading";
+  level: number;
+  setext: boolean;
+  text: string[];
+  closing?: string;
+}
+
+/**
+ * **Paragraph, one entry per source line**
+ * Lines keep their trailing spaces, which may be hard line breaks
+ */
+export interface MarkdownParagraph extends MarkdownBlockBase {
+  type: "paragraph";
+  lines: string[];
+}
+
+/**
+ * **Fenced or indented code block**
+ * `lines` hold the content without the indentation that belongs to the
+ * block. `fence` and `info` are only set on fenced blocks, `closed` tells
+ * whether the closing fence was written.
+ */
+export interface MarkdownCodeBlock extends MarkdownBlockBase {
+  type: "code";
+  fence?: string;
+  info?: string;
+  lines: string[];
+  closed: boolean;
+}
+
+/**
+ * **Block kept exactly as written**
+ * HTML blocks, `$$` math blocks, link reference definitions and front
+ * matter, with their delimiters
+ */
+export interface MarkdownVerbatimBlock extends MarkdownBlockBase {
+  type: "html" | "math" | "definition" | "frontMatter";
+  lines: string[];
+}
+
+export interface MarkdownThematicBreak extends MarkdownBlockBase {
+  type: "thematicBreak";
+}
+
+export interface MarkdownBlockquote extends MarkdownBlockBase {
+  type: "blockquote";
+  children: MarkdownBlock[];
+}
+
+/**
+ * **Bullet or ordered list**
+ * `marker` is the bullet character or the delimiter after the number
+ */
+export interface MarkdownList extends MarkdownBlockBase {
+  type: "list";
+  ordered: boolean;
+  marker: string;
+  tight: boolean;
+  items: MarkdownListItem[];
+}
+
+/**
+ * **List item with the number it was written with**
+ */
+export interface MarkdownListItem extends MarkdownBlockBase {
+  type: "listItem";
+  number?: number;
+  children: MarkdownBlock[];
+}
+
+export type MarkdownAlignment = "none" | "left" | "center" | "right";
+
+/**
+ * **GFM table with its cells as written, escaped pipes included**
+ */
+export interface MarkdownTable extends MarkdownBlockBase {
+  type: "table";
+  alignments: MarkdownAlignment[];
+  header: string[];
+  rows: string[][];
+}
+
+export type MarkdownBlock =
+  | MarkdownHeading
+  | MarkdownParagraph
+  | MarkdownCodeBlock
+  | MarkdownVerbatimBlock
+  | MarkdownThematicBreak
+  | MarkdownBlockquote
+  | MarkdownList
+  | MarkdownListItem
+  | MarkdownTable;
+
+/**
+ * **Parsed Markdown document**
+ */
+export interface MarkdownDocument {
+  type: "document";
+  children: MarkdownBlock[];
+}
@@ -0,0 +1,62 @@
+/**
+ * **Kind of lexical construct in Python source**
+ * Follows the token types of CPython's `tokenize` module
+ */
+export type PythonTokenType =
+  | "name"
+  | "number"
+  | "string"
+  | "op"
+  | "comment"
+  | "newline"
+  | "nl"
+  | "indent"
+  | "dedent"
+  | "endmarker";
+
+/**
+ * **Token produced by the Python tokenizer**
+ * Offsets are 0-based with `end` exclusive; `line` and `column` are 1-based
+ */
+export interface PythonToken {
+  type: PythonTokenType;
+  value: string;
+  start: number;
+  end: number;
+  line: number;
+  column: number;
+}
+
+/**
+ * **Token of a logical line prepared for layout**
+ * `prefix` is the whitespace printed before the leaf when the line is
+ * rendered on one line. Invisible parentheses have an empty `value` and the
+ * bracket they stand for in `bracket`. `continuation` is set on leaves
+ * written after a backslash continuation and holds their indentation
+ * relative to the statement
+ */
+export interface PythonLeaf {
+  type: PythonTokenType | "standalone";
+  value: string;
+  prefix: string;
+  bracket?: string;
+  depth: number;
+  priority: number;
+  opening?: PythonLeaf;
+  kind?: "call" | "subscript" | "atom" | "def" | "import";
+  vararg?: boolean;
+  continuation?: string;
+  comments: string[];
+}
+
+/**
+ * **Logical line at a given indentation depth**
+ * `insideBrackets` marks the body of a bracket split and `forceSplit` a body
+ * that has to be exploded one element per line
+ */
+export interface PythonLine {
+  depth: number;
+  leaves: PythonLeaf[];
+  insideBrackets: boolean;
+  forceSplit?: boolean;
+}
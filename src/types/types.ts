@@ -72,6 +72,7 @@ export interface FormatConfig {
   respectEditorConfig: boolean;
   respectPrettierConfig: boolean;
   respectESLintConfig: boolean;
+  respectPythonConfig: boolean;
   enableWorkspaceInheritance: boolean;
 
   // UI and UX settings
@@ -470,7 +471,8 @@ export interface IFormatter {
   formatText(text: string, options: FormatOptions): Promise<FormatResult>;
   validateSyntax(
     content: string,
-    languageId: string
+    languageId: string,
+    options?: FormatOptions
   ): Promise<ValidationResult>;
   getSupportedOptions(): FormatOptionDescriptor[];
   getVersion(): string;
@@ -577,11 +579,37 @@ export interface IConfigurationService {
   deleteProfile(profileName: string): Promise<void>;
   resetConfig(): Promise<void>;
   isLanguageEnabled(languageId: string): boolean;
+  getPythonConfig(workspaceFolder?: string): Partial<FormatConfig>;
+  explainLanguageConfig(
+    languageId: string,
+    workspaceFolder?: string
+  ): ConfigExplanation[];
   dispose(): void;
 }
 
+/**
+ * **Where the value of a language setting comes from**
+ * `source` names the file and section, or the VS Code setting
+ */
+export interface ConfigExplanation {
+  setting: string;
+  value: any;
+  source: string;
+}
+
 export * from "./file-monitor";
-export { FormatError, UnsupportedLanguageError } from "../errors/format-error";
+export * from "./json-cst";
+export * from "./html-tokens";
+export * from "./markdown-ast";
+export * from "./python-tokens";
+export * from "./xml-tokens";
+export * from "./xml-tree";
+export * from "./yaml-cst";
+export {
+  FormatError,
+  UnsupportedLanguageError,
+  ParseError,
+} from "../errors/format-error";
 
 /**
  * **Preview result interface**
@@ -0,0 +1,35 @@
+/**
+ * **Kind of lexical construct in an XML document**
+ */
+export type XmlTokenType =
+  | "text"
+  | "startTag"
+  | "endTag"
+  | "comment"
+  | "cdata"
+  | "processingInstruction"
+  | "doctype";
+
+/**
+ * **Attribute of a start tag kept in its original lexical form**
+ */
+export interface XmlAttribute {
+  name: string;
+  value: string;
+  quote: '"' | "'";
+  raw: string;
+}
+
+/**
+ * **Token produced by the XML scanner**
+ * Offsets are 0-based and `end` is exclusive
+ */
+export interface XmlToken {
+  type: XmlTokenType;
+  raw: string;
+  start: number;
+  end: number;
+  name?: string;
+  attributes?: XmlAttribute[];
+  selfClosing?: boolean;
+}
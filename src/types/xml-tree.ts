@@ -0,0 +1,32 @@
+import { XmlAttribute, XmlToken } from "./xml-tokens";
+
+/**
+ * **Element with its attributes and children**
+ * `start` is the 0-based offset of the start tag in the source text
+ */
+export interface XmlElementNode {
+  type: "element";
+  name: string;
+  attributes: XmlAttribute[];
+  children: XmlNode[];
+  start: number;
+}
+
+/**
+ * **Character data from text or a CDATA section**
+ */
+export interface XmlTextNode {
+  type: "text";
+  text: string;
+  start: number;
+}
+
+export type XmlNode = XmlElementNode | XmlTextNode;
+
+/**
+ * **Parsed XML document**
+ */
+export interface XmlDocumentNode {
+  root?: XmlElementNode;
+  doctype?: XmlToken;
+}
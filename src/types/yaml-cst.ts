@@ -0,0 +1,149 @@
+/**
+ * **Position of a node in the source text**
+ * Lines and columns are 1-based
+ */
+export interface YamlPosition {
+  offset: number;
+  line: number;
+  column: number;
+}
+
+/**
+ * **Comment preserved in the concrete syntax tree**
+ * `text` starts with the `#`
+ */
+export interface YamlComment {
+  text: string;
+  start: YamlPosition;
+  blankLineBefore: boolean;
+}
+
+/**
+ * **Anchor and tag written before a node**
+ * Both keep their indicator, as in `&base` and `!!str`
+ */
+export interface YamlProperties {
+  anchor?: string;
+  tag?: string;
+}
+
+export type YamlScalarStyle =
+  "plain" | "single" | "double" | "literal" | "folded";
+
+/**
+ * **Scalar kept in its original lexical form**
+ * Flow scalars hold their source lines without the indentation and line
+ * breaks that YAML folds away. Block scalars hold the `|` or `>` header and
+ * their lines relative to the content indentation.
+ */
+export interface YamlScalar extends YamlProperties {
+  type: "scalar";
+  style: YamlScalarStyle;
+  lines: string[];
+  header?: string;
+  start: YamlPosition;
+}
+
+/**
+ * **Reference to an anchored node, written without the `*`**
+ */
+export interface YamlAlias {
+  type: "alias";
+  name: string;
+  start: YamlPosition;
+}
+
+/**
+ * **Block or flow mapping**
+ */
+export interface YamlMapping extends YamlProperties {
+  type: "mapping";
+  flow: boolean;
+  pairs: YamlPair[];
+  danglingComments: YamlComment[];
+  start: YamlPosition;
+}
+
+/**
+ * **Block or flow sequence**
+ * `indented` tells whether a block sequence under a mapping key was indented
+ * further than the key
+ */
+export interface YamlSequence extends YamlProperties {
+  type: "sequence";
+  flow: boolean;
+  items: YamlItem[];
+  danglingComments: YamlComment[];
+  indented: boolean;
+  start: YamlPosition;
+}
+
+export type YamlNode = YamlScalar | YamlAlias | YamlMapping | YamlSequence;
+
+/**
+ * **Collection entry with the comments it owns**
+ * `comment` ends the first line of the entry, or the last line of an inline
+ * scalar. `valueComments` stand on their own lines between the entry's
+ * indicator and a scalar value written below it.
+ */
+export interface YamlEntry {
+  leadingComments: YamlComment[];
+  comment?: YamlComment;
+  valueComments: YamlComment[];
+  blankLineBefore: boolean;
+}
+
+/**
+ * **Sequence item**
+ * Items without a node stand for an empty value
+ */
+export interface YamlItem extends YamlEntry {
+  value?: YamlNode;
+}
+
+/**
+ * **Mapping pair**
+ * `explicitKey` pairs were written with the `?` indicator
+ */
+export interface YamlPair extends YamlEntry {
+  key?: YamlNode;
+  value?: YamlNode;
+  explicitKey: boolean;
+}
+
+/**
+ * **One document of a YAML stream**
+ * `leadingComments` come before the directives and the `---` marker
+ */
+export interface YamlDocument {
+  directives: string[];
+  explicitStart: boolean;
+  explicitEnd: boolean;
+  leadingComments: YamlComment[];
+  contents: YamlItem;
+  danglingComments: YamlComment[];
+}
+
+/**
+ * **Parsed YAML stream**
+ */
+export interface YamlStream {
+  documents: YamlDocument[];
+  danglingComments: YamlComment[];
+}
+
+/**
+ * **Problem found while validating a YAML stream**
+ * Lines and columns are 1-based, and `fix` replaces the text between the
+ * start and the end of the issue
+ */
+export interface YamlIssue {
+  code: string;
+  message: string;
+  line: number;
+  column: number;
+  endLine: number;
+  endColumn: number;
+  severity: "error" | "warning";
+  fix?: { title: string; text: string };
+}
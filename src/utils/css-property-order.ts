@@ -0,0 +1,329 @@
+/**
+ * **Named orders a rule's declarations can be sorted into**
+ */
+export type CssPropertyOrder =
+  "none" | "alphabetical" | "concentric" | "smacss";
+
+/**
+ * **Concentric CSS: from the outside of the box inwards**
+ * Based on https://github.com/brandon-rhodes/Concentric-CSS
+ */
+const CONCENTRIC_ORDER = [
+  "display",
+  "position",
+  "top",
+  "right",
+  "bottom",
+  "left",
+  "columns",
+  "column-count",
+  "column-gap",
+  "column-rule",
+  "column-width",
+  "float",
+  "clear",
+  "transform",
+  "transform-origin",
+  "transition",
+  "transition-property",
+  "transition-duration",
+  "transition-timing-function",
+  "transition-delay",
+  "animation",
+  "visibility",
+  "opacity",
+  "z-index",
+  "flex",
+  "flex-basis",
+  "flex-direction",
+  "flex-flow",
+  "flex-grow",
+  "flex-shrink",
+  "flex-wrap",
+  "grid",
+  "grid-area",
+  "grid-template",
+  "grid-template-areas",
+  "grid-template-rows",
+  "grid-template-columns",
+  "grid-row",
+  "grid-row-start",
+  "grid-row-end",
+  "grid-column",
+  "grid-column-start",
+  "grid-column-end",
+  "grid-auto-rows",
+  "grid-auto-columns",
+  "grid-auto-flow",
+  "gap",
+  "row-gap",
+  "align-content",
+  "align-items",
+  "align-self",
+  "justify-content",
+  "justify-items",
+  "justify-self",
+  "order",
+  "margin",
+  "margin-top",
+  "margin-right",
+  "margin-bottom",
+  "margin-left",
+  "outline",
+  "outline-offset",
+  "outline-width",
+  "outline-style",
+  "outline-color",
+  "border",
+  "border-width",
+  "border-style",
+  "border-color",
+  "border-top",
+  "border-top-width",
+  "border-top-style",
+  "border-top-color",
+  "border-right",
+  "border-right-width",
+  "border-right-style",
+  "border-right-color",
+  "border-bottom",
+  "border-bottom-width",
+  "border-bottom-style",
+  "border-bottom-color",
+  "border-left",
+  "border-left-width",
+  "border-left-style",
+  "border-left-color",
+  "border-radius",
+  "border-top-left-radius",
+  "border-top-right-radius",
+  "border-bottom-right-radius",
+  "border-bottom-left-radius",
+  "border-image",
+  "box-shadow",
+  "background",
+  "background-color",
+  "background-image",
+  "background-repeat",
+  "background-position",
+  "background-size",
+  "background-attachment",
+  "background-clip",
+  "background-origin",
+  "cursor",
+  "padding",
+  "padding-top",
+  "padding-right",
+  "padding-bottom",
+  "padding-left",
+  "box-sizing",
+  "width",
+  "min-width",
+  "max-width",
+  "height",
+  "min-height",
+  "max-height",
+  "overflow",
+  "overflow-x",
+  "overflow-y",
+  "list-style",
+  "list-style-type",
+  "list-style-position",
+  "list-style-image",
+  "caption-side",
+  "table-layout",
+  "border-collapse",
+  "border-spacing",
+  "empty-cells",
+  "vertical-align",
+  "text-align",
+  "text-decoration",
+  "text-indent",
+  "text-overflow",
+  "text-shadow",
+  "text-transform",
+  "line-height",
+  "word-break",
+  "word-spacing",
+  "word-wrap",
+  "overflow-wrap",
+  "letter-spacing",
+  "white-space",
+  "color",
+  "font",
+  "font-family",
+  "font-size",
+  "font-style",
+  "font-variant",
+  "font-weight",
+  "content",
+  "quotes",
+];
+
+/**
+ * **SMACSS: box, border, background, text, then everything else**
+ * Based on the categories in Scalable and Modular Architecture for CSS
+ */
+const SMACSS_ORDER = [
+  "display",
+  "position",
+  "top",
+  "right",
+  "bottom",
+  "left",
+  "z-index",
+  "box-sizing",
+  "flex",
+  "flex-basis",
+  "flex-direction",
+  "flex-flow",
+  "flex-grow",
+  "flex-shrink",
+  "flex-wrap",
+  "align-content",
+  "align-items",
+  "align-self",
+  "justify-content",
+  "justify-items",
+  "justify-self",
+  "order",
+  "grid",
+  "grid-area",
+  "grid-template",
+  "grid-template-areas",
+  "grid-template-rows",
+  "grid-template-columns",
+  "grid-row",
+  "grid-row-start",
+  "grid-row-end",
+  "grid-column",
+  "grid-column-start",
+  "grid-column-end",
+  "grid-auto-rows",
+  "grid-auto-columns",
+  "grid-auto-flow",
+  "gap",
+  "row-gap",
+  "column-gap",
+  "columns",
+  "column-count",
+  "column-width",
+  "float",
+  "clear",
+  "width",
+  "min-width",
+  "max-width",
+  "height",
+  "min-height",
+  "max-height",
+  "margin",
+  "margin-top",
+  "margin-right",
+  "margin-bottom",
+  "margin-left",
+  "padding",
+  "padding-top",
+  "padding-right",
+  "padding-bottom",
+  "padding-left",
+  "overflow",
+  "overflow-x",
+  "overflow-y",
+  "transform",
+  "transform-origin",
+  "visibility",
+  "opacity",
+  "border",
+  "border-width",
+  "border-style",
+  "border-color",
+  "border-top",
+  "border-top-width",
+  "border-top-style",
+  "border-top-color",
+  "border-right",
+  "border-right-width",
+  "border-right-style",
+  "border-right-color",
+  "border-bottom",
+  "border-bottom-width",
+  "border-bottom-style",
+  "border-bottom-color",
+  "border-left",
+  "border-left-width",
+  "border-left-style",
+  "border-left-color",
+  "border-radius",
+  "border-top-left-radius",
+  "border-top-right-radius",
+  "border-bottom-right-radius",
+  "border-bottom-left-radius",
+  "border-image",
+  "border-collapse",
+  "border-spacing",
+  "outline",
+  "outline-width",
+  "outline-style",
+  "outline-color",
+  "outline-offset",
+  "box-shadow",
+  "background",
+  "background-color",
+  "background-image",
+  "background-repeat",
+  "background-position",
+  "background-size",
+  "background-attachment",
+  "background-clip",
+  "background-origin",
+  "color",
+  "font",
+  "font-family",
+  "font-size",
+  "font-style",
+  "font-variant",
+  "font-weight",
+  "line-height",
+  "letter-spacing",
+  "text-align",
+  "text-decoration",
+  "text-indent",
+  "text-overflow",
+  "text-shadow",
+  "text-transform",
+  "vertical-align",
+  "white-space",
+  "word-break",
+  "word-spacing",
+  "word-wrap",
+  "overflow-wrap",
+  "list-style",
+  "list-style-type",
+  "list-style-position",
+  "list-style-image",
+  "table-layout",
+  "caption-side",
+  "empty-cells",
+  "cursor",
+  "pointer-events",
+  "user-select",
+  "content",
+  "quotes",
+  "transition",
+  "transition-property",
+  "transition-duration",
+  "transition-timing-function",
+  "transition-delay",
+  "animation",
+];
+
+/**
+ * **Position of each property in the grouped orders**
+ */
+export const CSS_PROPERTY_RANKS: Record<
+  "concentric" | "smacss",
+  Map<string, number>
+> = {
+  concentric: new Map(CONCENTRIC_ORDER.map((name, index) => [name, index])),
+  smacss: new Map(SMACSS_ORDER.map((name, index) => [name, index])),
+};
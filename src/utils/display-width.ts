@@ -0,0 +1,56 @@
+/**
+ * **Characters with East Asian Width W or F**
+ * Hangul Jamo, CJK symbols and ideographs, kana, Hangul syllables,
+ * compatibility forms, fullwidth forms and the supplementary ideographs
+ */
+const WIDE_CHARACTER =
+  /[\u1100-\u115f\u231a\u231b\u2329\u232a\u2e80-\u303e\u3041-\u33ff\u3400-\u4dbf\u4e00-\u9fff\ua000-\ua4cf\ua960-\ua97f\uac00-\ud7a3\uf900-\ufaff\ufe10-\ufe19\ufe30-\ufe6f\uff00-\uff60\uffe0-\uffe6\u{16fe0}-\u{16fe4}\u{17000}-\u{18aff}\u{1b000}-\u{1b2ff}\u{1f200}-\u{1f251}\u{20000}-\u{3fffd}]/u;
+
+/**
+ * **Emoji shown as pictures, by default or through the emoji selector**
+ */
+const EMOJI = /\p{Emoji_Presentation}|\p{Extended_Pictographic}\ufe0f/u;
+
+/**
+ * **Marks, format characters and controls that take no column**
+ */
+const ZERO_WIDTH = /^[\p{Mn}\p{Me}\p{Cf}\p{Cc}]+$/u;
+
+/**
+ * **Columns text takes in a monospace editor**
+ *
+ * Counts grapheme clusters, so combining marks, emoji modifiers and joined
+ * emoji sequences stay one character. Wide East Asian characters and emoji
+ * take two columns.
+ */
+export class DisplayWidth {
+  private static segmenter?: Intl.Segmenter;
+
+  private constructor() {}
+
+  static of(text: string): number {
+    // **Plain ASCII takes one column per character**
+    if (/^[\x20-\x7e]*$/.test(text)) {
+      return text.length;
+    }
+
+    DisplayWidth.segmenter ??= new Intl.Segmenter(undefined, {
+      granularity: "grapheme",
+    });
+    let width = 0;
+    for (const { segment } of DisplayWidth.segmenter.segment(text)) {
+      width += DisplayWidth.ofCluster(segment);
+    }
+    return width;
+  }
+
+  private static ofCluster(cluster: string): number {
+    if (ZERO_WIDTH.test(cluster)) {
+      return 0;
+    }
+    return EMOJI.test(cluster) ||
+      WIDE_CHARACTER.test(String.fromCodePoint(cluster.codePointAt(0)!))
+      ? 2
+      : 1;
+  }
+}
@@ -0,0 +1,316 @@
+import {
+  HtmlAttribute,
+  HtmlSyntaxIssue,
+  HtmlToken,
+} from "../types/html-tokens";
+
+const TAG_NAME_PATTERN = /[^\s/>]+/y;
+const ATTRIBUTE_NAME_PATTERN = /[^\s/>=]+|=[^\s/>=]*/y;
+const UNQUOTED_VALUE_PATTERN = /[^\s>]+/y;
+const WHITESPACE_PATTERN = /\s*/y;
+
+/**
+ * **Elements whose content is text up to the matching end tag**
+ */
+const RAW_TEXT_ELEMENTS = new Set([
+  "script",
+  "style",
+  "textarea",
+  "title",
+  "xmp",
+  "iframe",
+  "noembed",
+  "noframes",
+]);
+
+/**
+ * **Tokenizer following the HTML5 tokenization rules**
+ *
+ * Unlike the XML scanner it never gives up: malformed markup is recovered
+ * the way a browser would and reported as an issue, so one mistake does not
+ * hide the ones after it.
+ */
+export class HtmlTokenizer {
+  private offset = 0;
+
+  constructor(
+    private readonly text: string,
+    private readonly issues: HtmlSyntaxIssue[] = []
+  ) {}
+
+  /**
+   * **Tokenize text, appending syntax problems to `issues`**
+   */
+  static tokenize(text: string, issues: HtmlSyntaxIssue[] = []): HtmlToken[] {
+    return new HtmlTokenizer(text, issues).tokenize();
+  }
+
+  /**
+   * **Tokenize the whole document**
+   */
+  tokenize(): HtmlToken[] {
+    const tokens: HtmlToken[] = [];
+    this.offset = 0;
+
+    while (this.offset < this.text.length) {
+      const token = this.scanToken();
+      tokens.push(token);
+      if (
+        token.type === "startTag" &&
+        !token.selfClosing &&
+        RAW_TEXT_ELEMENTS.has(token.name!)
+      ) {
+        const text = this.scanRawText(token.name!);
+        if (text) {
+          tokens.push(text);
+        }
+      }
+    }
+
+    return tokens;
+  }
+
+  /**
+   * **Scan the token starting at the current offset**
+   */
+  private scanToken(): HtmlToken {
+    const start = this.offset;
+
+    if (this.text.startsWith("<!--", start)) {
+      return this.scanComment(start);
+    }
+    if (/^<!doctype/i.test(this.text.slice(start, start + 9))) {
+      return this.scanBogusComment("doctype", start);
+    }
+    if (this.text.startsWith("<![CDATA[", start)) {
+      const close = this.text.indexOf("]]>", start);
+      return this.createToken(
+        "comment",
+        start,
+        close < 0 ? this.text.length : close + 3
+      );
+    }
+    if (
+      this.text.startsWith("<!", start) ||
+      this.text.startsWith("<?", start)
+    ) {
+      return this.scanBogusComment("comment", start);
+    }
+    if (/^<\/[a-zA-Z]/.test(this.text.slice(start, start + 3))) {
+      return this.scanTag("endTag", start);
+    }
+    if (this.text.startsWith("</", start)) {
+      this.report("HTML_INVALID_END_TAG", "End tag is missing a name", start);
+      return this.scanBogusComment("comment", start);
+    }
+    if (/^<[a-zA-Z]/.test(this.text.slice(start, start + 2))) {
+      return this.scanTag("startTag", start);
+    }
+
+    // **A "<" that does not open a tag is ordinary text**
+    const next = this.text.slice(start + 1).search(/<[a-zA-Z/!?]/);
+    return this.createToken(
+      "text",
+      start,
+      next < 0 ? this.text.length : start + 1 + next
+    );
+  }
+
+  /**
+   * **Scan a comment, reporting one that never ends**
+   */
+  private scanComment(start: number): HtmlToken {
+    const close = this.text.indexOf("-->", start + 4);
+    if (close < 0) {
+      this.report("HTML_UNTERMINATED_COMMENT", "Comment is not closed", start);
+      return this.createToken("comment", start, this.text.length);
+    }
+    return this.createToken("comment", start, close + 3);
+  }
+
+  /**
+   * **Scan a construct that runs to the next ">"**
+   */
+  private scanBogusComment(type: HtmlToken["type"], start: number): HtmlToken {
+    const close = this.text.indexOf(">", start + 2);
+    return this.createToken(
+      type,
+      start,
+      close < 0 ? this.text.length : close + 1
+    );
+  }
+
+  /**
+   * **Scan a start or end tag with its attributes**
+   */
+  private scanTag(type: "startTag" | "endTag", start: number): HtmlToken {
+    this.offset = start + (type === "endTag" ? 2 : 1);
+    TAG_NAME_PATTERN.lastIndex = this.offset;
+    const name = TAG_NAME_PATTERN.exec(this.text)![0].toLowerCase();
+    this.offset = TAG_NAME_PATTERN.lastIndex;
+
+    const attributes: HtmlAttribute[] = [];
+    let selfClosing = false;
+    for (;;) {
+      const separated = this.skipWhitespace();
+      if (this.offset >= this.text.length) {
+        this.report(
+          "HTML_UNTERMINATED_TAG",
+          `Tag <${type === "endTag" ? "/" : ""}${name}> is not closed with ">"`,
+          start
+        );
+        break;
+      }
+      if (this.text[this.offset] === ">") {
+        this.offset++;
+        break;
+      }
+      if (this.text.startsWith("/>", this.offset)) {
+        selfClosing = true;
+        this.offset += 2;
+        break;
+      }
+      if (this.text[this.offset] === "/") {
+        this.report(
+          "HTML_INVALID_ATTRIBUTE",
+          `Unexpected "/" in tag <${name}>`,
+          this.offset
+        );
+        this.offset++;
+        continue;
+      }
+
+      const attribute = this.scanAttribute(name, separated, attributes);
+      if (!attribute) {
+        break;
+      }
+      attributes.push(attribute);
+    }
+
+    if (type === "endTag" && attributes.length > 0) {
+      this.report(
+        "HTML_INVALID_END_TAG",
+        `End tag </${name}> cannot have attributes`,
+        attributes[0].start
+      );
+    }
+    return { type, start, end: this.offset, name, attributes, selfClosing };
+  }
+
+  /**
+   * **Scan one attribute, returning undefined when the tag runs off the end**
+   */
+  private scanAttribute(
+    tagName: string,
+    separated: boolean,
+    previous: HtmlAttribute[]
+  ): HtmlAttribute | undefined {
+    const start = this.offset;
+    ATTRIBUTE_NAME_PATTERN.lastIndex = start;
+    const name = ATTRIBUTE_NAME_PATTERN.exec(this.text)![0].toLowerCase();
+    this.offset += name.length;
+
+    if (!separated && previous.length > 0) {
+      this.report(
+        "HTML_INVALID_ATTRIBUTE",
+        `Missing whitespace before attribute "${name}"`,
+        start
+      );
+    }
+    if (/^=|["'<]/.test(name)) {
+      this.report(
+        "HTML_INVALID_ATTRIBUTE",
+        `Invalid attribute name "${name}" in tag <${tagName}>`,
+        start
+      );
+    }
+    if (previous.some((attribute) => attribute.name === name)) {
+      this.report(
+        "HTML_DUPLICATE_ATTRIBUTE",
+        `Duplicate attribute "${name}" in tag <${tagName}>`,
+        start
+      );
+    }
+
+    const afterName = this.offset;
+    this.skipWhitespace();
+    if (this.text[this.offset] !== "=") {
+      this.offset = afterName;
+      return { name, start, end: afterName };
+    }
+    this.offset++;
+    this.skipWhitespace();
+
+    const quote = this.text[this.offset];
+    if (quote === '"' || quote === "'") {
+      const close = this.text.indexOf(quote, this.offset + 1);
+      if (close < 0) {
+        this.report(
+          "HTML_INVALID_ATTRIBUTE",
+          `Value of attribute "${name}" is not closed`,
+          this.offset
+        );
+        this.offset = this.text.length;
+        return undefined;
+      }
+      const value = this.text.slice(this.offset + 1, close);
+      this.offset = close + 1;
+      return { name, value, start, end: this.offset };
+    }
+    if (quote === ">" || quote === undefined) {
+      this.report(
+        "HTML_INVALID_ATTRIBUTE",
+        `Attribute "${name}" is missing a value after "="`,
+        start
+      );
+      return { name, value: "", start, end: this.offset };
+    }
+
+    UNQUOTED_VALUE_PATTERN.lastIndex = this.offset;
+    const value = UNQUOTED_VALUE_PATTERN.exec(this.text)![0];
+    if (/["'<=`]/.test(value)) {
+      this.report(
+        "HTML_INVALID_ATTRIBUTE",
+        `Unquoted value of attribute "${name}" contains characters that require quotes`,
+        this.offset
+      );
+    }
+    this.offset += value.length;
+    return { name, value, start, end: this.offset };
+  }
+
+  /**
+   * **Scan the text content of a raw text element up to its end tag**
+   */
+  private scanRawText(name: string): HtmlToken | undefined {
+    const start = this.offset;
+    const pattern = new RegExp(`</${name}(?=[\\s/>])`, "ig");
+    pattern.lastIndex = start;
+    const match = pattern.exec(this.text);
+    const end = match ? match.index : this.text.length;
+    return end > start ? this.createToken("text", start, end) : undefined;
+  }
+
+  /**
+   * **Skip whitespace, returning whether there was any**
+   */
+  private skipWhitespace(): boolean {
+    WHITESPACE_PATTERN.lastIndex = this.offset;
+    const length = WHITESPACE_PATTERN.exec(this.text)![0].length;
+    this.offset += length;
+    return length > 0;
+  }
+
+  private createToken(
+    type: HtmlToken["type"],
+    start: number,
+    end: number
+  ): HtmlToken {
+    this.offset = end;
+    return { type, start, end };
+  }
+
+  private report(code: string, message: string, offset: number): void {
+    this.issues.push({ code, message, offset, severity: "error" });
+  }
+}
@@ -0,0 +1,337 @@
+import { HtmlSyntaxIssue, HtmlToken } from "../types/html-tokens";
+import { HtmlTokenizer } from "./html-tokenizer";
+
+/**
+ * **Options for structural validation**
+ * `allowSelfClosing` makes `<x />` close any element, as component
+ * templates do
+ */
+export interface HtmlValidatorOptions {
+  allowSelfClosing?: boolean;
+}
+
+/**
+ * **Element on the stack of open elements**
+ */
+interface OpenElement {
+  name: string;
+  start: number;
+}
+
+/**
+ * **Elements that never have content or an end tag**
+ */
+const VOID_ELEMENTS = new Set([
+  "area",
+  "base",
+  "br",
+  "col",
+  "embed",
+  "hr",
+  "img",
+  "input",
+  "keygen",
+  "link",
+  "meta",
+  "param",
+  "source",
+  "track",
+  "wbr",
+]);
+
+/**
+ * **Elements whose end tag may be left out**
+ */
+const OPTIONAL_END_ELEMENTS = new Set([
+  "html",
+  "head",
+  "body",
+  "p",
+  "li",
+  "dt",
+  "dd",
+  "rt",
+  "rp",
+  "option",
+  "optgroup",
+  "colgroup",
+  "caption",
+  "thead",
+  "tbody",
+  "tfoot",
+  "tr",
+  "td",
+  "th",
+]);
+
+/**
+ * **Start tags that close an open paragraph**
+ */
+const PARAGRAPH_CLOSERS = new Set([
+  "address",
+  "article",
+  "aside",
+  "blockquote",
+  "dd",
+  "details",
+  "dialog",
+  "div",
+  "dl",
+  "dt",
+  "fieldset",
+  "figcaption",
+  "figure",
+  "footer",
+  "form",
+  "h1",
+  "h2",
+  "h3",
+  "h4",
+  "h5",
+  "h6",
+  "header",
+  "hgroup",
+  "hr",
+  "li",
+  "main",
+  "menu",
+  "nav",
+  "ol",
+  "p",
+  "pre",
+  "section",
+  "table",
+  "ul",
+]);
+
+const TABLE_SECTION_CLOSES = [
+  "thead",
+  "tbody",
+  "tfoot",
+  "tr",
+  "td",
+  "th",
+  "caption",
+  "colgroup",
+];
+
+/**
+ * **Open elements a start tag implicitly ends when they are current**
+ */
+const IMPLIED_END_TAGS: Record<string, string[]> = {
+  li: ["li"],
+  dt: ["dt", "dd"],
+  dd: ["dt", "dd"],
+  rt: ["rt", "rp"],
+  rp: ["rt", "rp"],
+  option: ["option"],
+  optgroup: ["option", "optgroup"],
+  tr: ["tr", "td", "th", "caption", "colgroup"],
+  td: ["td", "th"],
+  th: ["td", "th"],
+  thead: TABLE_SECTION_CLOSES,
+  tbody: TABLE_SECTION_CLOSES,
+  tfoot: TABLE_SECTION_CLOSES,
+  body: ["head"],
+};
+
+/**
+ * **Elements allowed in the head; anything else starts the body**
+ */
+const HEAD_ELEMENTS = new Set([
+  "base",
+  "link",
+  "meta",
+  "noscript",
+  "script",
+  "style",
+  "template",
+  "title",
+]);
+
+/**
+ * **Roots of SVG and MathML content, where XML-style self-closing applies**
+ */
+const FOREIGN_ELEMENTS = new Set(["svg", "math"]);
+
+/**
+ * **Structural validator for HTML documents**
+ *
+ * Builds the stack of open elements the way the HTML5 tree builder does,
+ * applying void elements and optional end tags, so only markup a browser
+ * would have to repair is reported.
+ */
+export class HtmlValidator {
+  private readonly issues: HtmlSyntaxIssue[] = [];
+  private readonly stack: OpenElement[] = [];
+  private readonly ids = new Map<string, number>();
+
+  constructor(
+    private readonly text: string,
+    private readonly options: HtmlValidatorOptions = {}
+  ) {}
+
+  /**
+   * **Validate text, returning problems in document order**
+   */
+  static validate(
+    text: string,
+    options: HtmlValidatorOptions = {}
+  ): HtmlSyntaxIssue[] {
+    return new HtmlValidator(text, options).validate();
+  }
+
+  /**
+   * **Validate the whole document**
+   */
+  validate(): HtmlSyntaxIssue[] {
+    for (const token of HtmlTokenizer.tokenize(this.text, this.issues)) {
+      if (token.type === "startTag") {
+        this.openElement(token);
+      } else if (token.type === "endTag") {
+        this.closeElement(token);
+      }
+    }
+
+    for (const element of this.stack) {
+      if (!OPTIONAL_END_ELEMENTS.has(element.name)) {
+        this.report(
+          "HTML_UNCLOSED_TAG",
+          `Element <${element.name}> is not closed`,
+          element.start
+        );
+      }
+    }
+
+    return this.issues.sort((a, b) => a.offset - b.offset);
+  }
+
+  /**
+   * **Handle a start tag**
+   */
+  private openElement(token: HtmlToken): void {
+    const name = token.name!;
+    this.checkIds(token);
+    this.closeImplied(name);
+
+    if (VOID_ELEMENTS.has(name)) {
+      return;
+    }
+    if (token.selfClosing) {
+      if (
+        this.options.allowSelfClosing ||
+        this.isForeign() ||
+        FOREIGN_ELEMENTS.has(name)
+      ) {
+        return;
+      }
+      this.report(
+        "HTML_SELF_CLOSING_TAG",
+        `Self-closing syntax is ignored on non-void element <${name}>`,
+        token.start,
+        "warning"
+      );
+    }
+    this.stack.push({ name, start: token.start });
+  }
+
+  /**
+   * **Pop elements the new start tag ends implicitly**
+   */
+  private closeImplied(name: string): void {
+    for (;;) {
+      const current = this.stack[this.stack.length - 1];
+      if (!current) {
+        return;
+      }
+      const implied =
+        (current.name === "p" && PARAGRAPH_CLOSERS.has(name)) ||
+        (current.name === "head" && !HEAD_ELEMENTS.has(name)) ||
+        IMPLIED_END_TAGS[name]?.includes(current.name);
+      if (!implied) {
+        return;
+      }
+      this.stack.pop();
+    }
+  }
+
+  /**
+   * **Handle an end tag, reporting elements it closes out of order**
+   */
+  private closeElement(token: HtmlToken): void {
+    const name = token.name!;
+    if (VOID_ELEMENTS.has(name)) {
+      this.report(
+        "HTML_VOID_END_TAG",
+        `Void element <${name}> cannot have an end tag`,
+        token.start
+      );
+      return;
+    }
+
+    let index = this.stack.length - 1;
+    while (index >= 0 && this.stack[index].name !== name) {
+      index--;
+    }
+    if (index < 0) {
+      // **The html, head and body tags themselves are optional**
+      if (!["html", "head", "body"].includes(name)) {
+        this.report(
+          "HTML_UNEXPECTED_END_TAG",
+          `End tag </${name}> has no matching start tag`,
+          token.start
+        );
+      }
+      return;
+    }
+
+    for (const element of this.stack.splice(index + 1).reverse()) {
+      if (!OPTIONAL_END_ELEMENTS.has(element.name)) {
+        this.report(
+          "HTML_MISNESTED_TAG",
+          `Element <${element.name}> opened on line ${this.getLine(element.start)} must be closed before </${name}>`,
+          token.start
+        );
+      }
+    }
+    this.stack.pop();
+  }
+
+  /**
+   * **Report id values used more than once**
+   */
+  private checkIds(token: HtmlToken): void {
+    const id = token.attributes!.find((attribute) => attribute.name === "id");
+    if (id?.value === undefined || id.value === "") {
+      return;
+    }
+
+    const first = this.ids.get(id.value);
+    if (first === undefined) {
+      this.ids.set(id.value, id.start);
+      return;
+    }
+    this.report(
+      "HTML_DUPLICATE_ID",
+      `Duplicate id "${id.value}", first used on line ${this.getLine(first)}`,
+      id.start
+    );
+  }
+
+  private isForeign(): boolean {
+    return this.stack.some((element) => FOREIGN_ELEMENTS.has(element.name));
+  }
+
+  private getLine(offset: number): number {
+    return this.text.slice(0, offset).split("\n").length;
+  }
+
+  private report(
+    code: string,
+    message: string,
+    offset: number,
+    severity: HtmlSyntaxIssue["severity"] = "error"
+  ): void {
+    this.issues.push({ code, message, offset, severity });
+  }
+}
@@ -0,0 +1,514 @@
+import { ParseError } from "../errors/format-error";
+import {
+  JsonArray,
+  JsonComment,
+  JsonDocument,
+  JsonElement,
+  JsonMember,
+  JsonObject,
+  JsonParserOptions,
+  JsonPosition,
+  JsonValueNode,
+} from "../types/json-cst";
+
+type JsonTokenKind =
+  | "{"
+  | "}"
+  | "["
+  | "]"
+  | ":"
+  | ","
+  | "string"
+  | "number"
+  | "boolean"
+  | "null"
+  | "identifier"
+  | "lineComment"
+  | "blockComment"
+  | "eof";
+
+interface JsonToken {
+  kind: JsonTokenKind;
+  raw: string;
+  start: JsonPosition;
+  newlinesBefore: number;
+}
+
+interface ContainerContents<T> {
+  items: T[];
+  danglingComments: JsonComment[];
+  trailingComma: boolean;
+}
+
+const NUMBER_PATTERN = /-?(?:0|[1-9]\d*)(?:\.\d+)?(?:[eE][+-]?\d+)?/y;
+const JSON5_NUMBER_PATTERN =
+  /[+-]?(?:Infinity|NaN|0[xX][0-9a-fA-F]+|(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?)/y;
+const WORD_PATTERN = /[A-Za-z_$][\w$]*/y;
+const JSON5_IDENTIFIER_PATTERN =
+  /(?:[\p{ID_Start}$_]|\\u[0-9a-fA-F]{4})(?:[\p{ID_Continue}$\u200c\u200d]|\\u[0-9a-fA-F]{4})*/uy;
+const JSON5_WHITESPACE = "\v\f\u00a0\u2028\u2029\ufeff";
+const PUNCTUATION = "{}[]:,";
+
+/**
+ * **Concrete syntax tree parser for JSON, JSONC and JSON5**
+ *
+ * Keeps every value in its original lexical form and attaches each comment
+ * to the node that owns it, so the tree can be printed back without loss.
+ */
+export class JsonParser {
+  private readonly tokens: JsonToken[];
+  private index = 0;
+
+  constructor(
+    private readonly text: string,
+    private readonly options: JsonParserOptions
+  ) {
+    this.tokens = this.tokenize();
+  }
+
+  /**
+   * **Parse text into a JSON document**
+   */
+  static parse(text: string, options: JsonParserOptions): JsonDocument {
+    return new JsonParser(text, options).parse();
+  }
+
+  /**
+   * **Parse the whole document**
+   */
+  parse(): JsonDocument {
+    const leadingComments = this.collectComments();
+
+    if (this.peek().kind === "eof") {
+      return { danglingComments: leadingComments };
+    }
+
+    const value = this.parseValue();
+    const root: JsonElement = {
+      value,
+      leadingComments,
+      trailingComments: this.collectTrailingComments(),
+      blankLineBefore: false,
+    };
+    const danglingComments = this.collectComments();
+
+    const token = this.peek();
+    if (token.kind !== "eof") {
+      throw this.error(`Unexpected token "${token.raw}"`, token.start);
+    }
+
+    return { root, danglingComments };
+  }
+
+  /**
+   * **Parse a single value**
+   */
+  private parseValue(): JsonValueNode {
+    const token = this.next();
+
+    switch (token.kind) {
+      case "{":
+        return this.parseObject(token);
+      case "[":
+        return this.parseArray(token);
+      case "string":
+      case "number":
+      case "boolean":
+      case "null":
+        return { type: token.kind, raw: token.raw, start: token.start };
+      case "eof":
+        throw this.error("Unexpected end of input", token.start);
+      default:
+        throw this.error(`Unexpected token "${token.raw}"`, token.start);
+    }
+  }
+
+  /**
+   * **Parse an object after its opening brace**
+   */
+  private parseObject(open: JsonToken): JsonObject {
+    const contents = this.parseContainer<JsonMember>("}", (leadingComments) => {
+      const keyToken = this.next();
+      if (keyToken.kind !== "string" && keyToken.kind !== "identifier") {
+        throw this.error("Expected property name", keyToken.start);
+      }
+
+      const separatorComments = this.collectComments();
+      const colon = this.next();
+      if (colon.kind !== ":") {
+        throw this.error("Expected ':' after property name", colon.start);
+      }
+      separatorComments.push(...this.collectComments());
+
+      return {
+        key: { type: keyToken.kind, raw: keyToken.raw, start: keyToken.start },
+        value: this.parseValue(),
+        leadingComments,
+        separatorComments,
+        trailingComments: [],
+        blankLineBefore: this.hasBlankLineBefore(leadingComments, keyToken),
+      };
+    });
+
+    return {
+      type: "object",
+      members: contents.items,
+      danglingComments: contents.danglingComments,
+      trailingComma: contents.trailingComma,
+      start: open.start,
+    };
+  }
+
+  /**
+   * **Parse an array after its opening bracket**
+   */
+  private parseArray(open: JsonToken): JsonArray {
+    const contents = this.parseContainer<JsonElement>(
+      "]",
+      (leadingComments) => {
+        const firstToken = this.peek();
+        return {
+          value: this.parseValue(),
+          leadingComments,
+          trailingComments: [],
+          blankLineBefore: this.hasBlankLineBefore(leadingComments, firstToken),
+        };
+      }
+    );
+
+    return {
+      type: "array",
+      elements: contents.items,
+      danglingComments: contents.danglingComments,
+      trailingComma: contents.trailingComma,
+      start: open.start,
+    };
+  }
+
+  /**
+   * **Parse comma-separated items up to the closing token**
+   */
+  private parseContainer<T extends JsonElement>(
+    close: "}" | "]",
+    parseItem: (leadingComments: JsonComment[]) => T
+  ): ContainerContents<T> {
+    const items: T[] = [];
+    let pending: JsonComment[] = [];
+    let comma: JsonToken | undefined;
+
+    while (true) {
+      const leadingComments = pending.concat(this.collectComments());
+
+      if (this.peek().kind === close) {
+        this.index++;
+        if (comma && !this.options.allowTrailingCommas) {
+          throw this.error("Trailing comma is not allowed", comma.start);
+        }
+        return {
+          items,
+          danglingComments: leadingComments,
+          trailingComma: comma !== undefined,
+        };
+      }
+
+      const item = parseItem(leadingComments);
+      item.trailingComments = this.collectTrailingComments();
+      items.push(item);
+      pending = this.collectComments();
+
+      const separator = this.next();
+      if (separator.kind === ",") {
+        item.trailingComments.push(...this.collectTrailingComments(true));
+        comma = separator;
+        continue;
+      }
+
+      if (separator.kind === close) {
+        return { items, danglingComments: pending, trailingComma: false };
+      }
+
+      throw this.error(`Expected ',' or '${close}'`, separator.start);
+    }
+  }
+
+  /**
+   * **Check whether an item is separated from the previous one by a blank line**
+   */
+  private hasBlankLineBefore(
+    leadingComments: JsonComment[],
+    firstToken: JsonToken
+  ): boolean {
+    return leadingComments.length > 0
+      ? leadingComments[0].blankLineBefore
+      : firstToken.newlinesBefore > 1;
+  }
+
+  /**
+   * **Collect all comments at the current position**
+   */
+  private collectComments(): JsonComment[] {
+    const comments: JsonComment[] = [];
+    while (this.isComment(this.peek())) {
+      comments.push(this.toComment(this.index));
+      this.index++;
+    }
+    return comments;
+  }
+
+  /**
+   * **Collect comments that stay on the line of the previous token**
+   *
+   * After a comma, a block comment directly followed by more content on the
+   * same line belongs to the next item instead.
+   */
+  private collectTrailingComments(afterComma: boolean = false): JsonComment[] {
+    const comments: JsonComment[] = [];
+    while (this.isComment(this.peek()) && this.peek().newlinesBefore === 0) {
+      const comment = this.toComment(this.index);
+      if (
+        afterComma &&
+        comment.kind === "block" &&
+        !comment.followedByNewline
+      ) {
+        break;
+      }
+      comments.push(comment);
+      this.index++;
+    }
+    return comments;
+  }
+
+  private isComment(token: JsonToken): boolean {
+    return token.kind === "lineComment" || token.kind === "blockComment";
+  }
+
+  /**
+   * **Convert a comment token into a tree comment**
+   */
+  private toComment(index: number): JsonComment {
+    const token = this.tokens[index];
+    const following = this.tokens[index + 1];
+
+    return {
+      kind: token.kind === "lineComment" ? "line" : "block",
+      text: token.raw.replace(/\r\n/g, "\n"),
+      start: token.start,
+      ownLine: index === 0 || token.newlinesBefore > 0,
+      blankLineBefore: token.newlinesBefore > 1,
+      followedByNewline:
+        following.kind === "eof" || following.newlinesBefore > 0,
+      blankLineAfter: following.newlinesBefore > 1,
+    };
+  }
+
+  private peek(): JsonToken {
+    return this.tokens[this.index];
+  }
+
+  private next(): JsonToken {
+    const token = this.tokens[this.index];
+    if (token.kind !== "eof") {
+      this.index++;
+    }
+    return token;
+  }
+
+  /**
+   * **Split the source text into tokens**
+   */
+  private tokenize(): JsonToken[] {
+    const text = this.text;
+    const tokens: JsonToken[] = [];
+    const json5 = this.options.allowJson5 === true;
+    let offset = text.charCodeAt(0) === 0xfeff ? 1 : 0;
+    let line = this.options.startLine ?? 1;
+    let lineStart = 0;
+    let newlines = 0;
+
+    while (offset < text.length) {
+      const ch = text[offset];
+
+      if (ch === "\n") {
+        newlines++;
+        offset++;
+        line++;
+        lineStart = offset;
+        continue;
+      }
+
+      if (
+        ch === " " ||
+        ch === "\t" ||
+        ch === "\r" ||
+        (json5 && (JSON5_WHITESPACE.includes(ch) || /\p{Zs}/u.test(ch)))
+      ) {
+        offset++;
+        continue;
+      }
+
+      const start: JsonPosition = {
+        offset,
+        line,
+        column: offset - lineStart + 1,
+      };
+      let kind: JsonTokenKind;
+      let end: number;
+
+      if (PUNCTUATION.includes(ch)) {
+        kind = ch as JsonTokenKind;
+        end = offset + 1;
+      } else if (ch === '"' || (json5 && ch === "'")) {
+        kind = "string";
+        end = this.scanString(offset, start);
+      } else if (
+        ch === "-" ||
+        (ch >= "0" && ch <= "9") ||
+        (json5 && (ch === "+" || ch === "." || this.isJson5NumberWord(offset)))
+      ) {
+        kind = "number";
+        end = this.scanNumber(offset, start);
+      } else if (ch === "/" && text[offset + 1] === "/") {
+        kind = "lineComment";
+        const newline = text.indexOf("\n", offset);
+        end = newline === -1 ? text.length : newline;
+      } else if (ch === "/" && text[offset + 1] === "*") {
+        kind = "blockComment";
+        const close = text.indexOf("*/", offset + 2);
+        if (close === -1) {
+          throw this.error("Unterminated block comment", start);
+        }
+        end = close + 2;
+      } else {
+        const pattern = json5 ? JSON5_IDENTIFIER_PATTERN : WORD_PATTERN;
+        pattern.lastIndex = offset;
+        const word = pattern.exec(text)?.[0];
+        if (word === "true" || word === "false") {
+          kind = "boolean";
+        } else if (word === "null") {
+          kind = "null";
+        } else if (json5 && word !== undefined) {
+          kind = "identifier";
+        } else {
+          throw this.error(`Unexpected character "${word ?? ch}"`, start);
+        }
+        end = offset + word.length;
+      }
+
+      if (
+        (kind === "lineComment" || kind === "blockComment") &&
+        !this.options.allowComments
+      ) {
+        throw this.error("Comments are not allowed", start);
+      }
+
+      let raw = text.slice(offset, end);
+      if (kind === "lineComment") {
+        raw = raw.trimEnd();
+      } else if (kind === "blockComment" || kind === "string") {
+        // **Keep line tracking correct across multi-line tokens**
+        for (let i = offset; i < end; i++) {
+          if (text[i] === "\n") {
+            line++;
+            lineStart = i + 1;
+          }
+        }
+      }
+
+      tokens.push({ kind, raw, start, newlinesBefore: newlines });
+      newlines = 0;
+      offset = end;
+    }
+
+    tokens.push({
+      kind: "eof",
+      raw: "",
+      start: { offset, line, column: offset - lineStart + 1 },
+      newlinesBefore: newlines,
+    });
+
+    return tokens;
+  }
+
+  /**
+   * **Scan a quoted string and return its end offset**
+   */
+  private scanString(offset: number, start: JsonPosition): number {
+    const text = this.text;
+    const quote = text[offset];
+    let i = offset + 1;
+
+    while (i < text.length) {
+      const ch = text[i];
+
+      if (ch === quote) {
+        return i + 1;
+      }
+
+      if (ch === "\\" && this.options.allowJson5) {
+        // **JSON5 accepts any escape, including escaped line breaks**
+        i += text[i + 1] === "\r" && text[i + 2] === "\n" ? 3 : 2;
+        continue;
+      }
+
+      if (ch === "\\") {
+        const escape = text[i + 1];
+        if (escape === "u") {
+          if (!/^[0-9a-fA-F]{4}$/.test(text.slice(i + 2, i + 6))) {
+            throw this.error("Invalid unicode escape in string", start);
+          }
+          i += 6;
+          continue;
+        }
+        if (escape === undefined || !'"\\/bfnrt'.includes(escape)) {
+          throw this.error("Invalid escape sequence in string", start);
+        }
+        i += 2;
+        continue;
+      }
+
+      if (ch === "\n" || ch.charCodeAt(0) < 0x20) {
+        break;
+      }
+
+      i++;
+    }
+
+    throw this.error("Unterminated string", start);
+  }
+
+  /**
+   * **Scan a number and return its end offset**
+   */
+  private scanNumber(offset: number, start: JsonPosition): number {
+    const pattern = this.options.allowJson5
+      ? JSON5_NUMBER_PATTERN
+      : NUMBER_PATTERN;
+    pattern.lastIndex = offset;
+    const match = pattern.exec(this.text);
+    const end = match ? offset + match[0].length : offset;
+
+    if (!match || /[\w.$]/.test(this.text[end] ?? "")) {
+      throw this.error("Invalid number", start);
+    }
+
+    return end;
+  }
+
+  /**
+   * **Check for the JSON5 Infinity and NaN number literals**
+   */
+  private isJson5NumberWord(offset: number): boolean {
+    WORD_PATTERN.lastIndex = offset;
+    const word = WORD_PATTERN.exec(this.text)?.[0];
+    return word === "Infinity" || word === "NaN";
+  }
+
+  private error(message: string, position: JsonPosition): ParseError {
+    return new ParseError(
+      message,
+      this.options.languageId,
+      position.line,
+      position.column
+    );
+  }
+}
@@ -0,0 +1,888 @@
+import {
+  MarkdownAlignment,
+  MarkdownBlock,
+  MarkdownCodeBlock,
+  MarkdownDocument,
+  MarkdownList,
+  MarkdownListItem,
+  MarkdownParagraph,
+  MarkdownTable,
+  MarkdownVerbatimBlock,
+} from "../types";
+
+type MarkdownContainer =
+  MarkdownDocument | Extract<MarkdownBlock, { children: MarkdownBlock[] }>;
+
+/**
+ * **Block that still takes lines, with what it needs to continue**
+ * `contentOffset` is the column the content of a list item starts at
+ */
+interface OpenBlock {
+  block: MarkdownContainer | MarkdownBlock;
+  contentOffset: number;
+  fence?: { char: string; length: number; offset: number };
+  htmlType?: number;
+}
+
+/**
+ * **How the current line continues an open block**
+ * `consumed` means the line was used up, closing a fenced block
+ */
+type ContinueResult = "matched" | "unmatched" | "consumed";
+
+const ATTRIBUTE =
+  "(?:\\s+[a-zA-Z_:][a-zA-Z0-9_.:-]*(?:\\s*=\\s*(?:[^\"'=<>`\\x00-\\x20]+|'[^']*'|\"[^\"]*\"))?)";
+const OPEN_TAG = `<[A-Za-z][A-Za-z0-9-]*${ATTRIBUTE}*\\s*/?>`;
+const CLOSE_TAG = "</[A-Za-z][A-Za-z0-9-]*\\s*>";
+
+/**
+ * **Start conditions of the seven kinds of HTML blocks**
+ * Indexed by kind, as numbered in the CommonMark specification
+ */
+const HTML_BLOCK_OPEN = [
+  /^$/,
+  /^<(?:script|pre|textarea|style)(?:\s|>|$)/i,
+  /^<!--/,
+  /^<[?]/,
+  /^<![A-Za-z]/,
+  /^<!\[CDATA\[/,
+  /^<[/]?(?:address|article|aside|base|basefont|blockquote|body|caption|center|col|colgroup|dd|details|dialog|dir|div|dl|dt|fieldset|figcaption|figure|footer|form|frame|frameset|h[1-6]|head|header|hr|html|iframe|legend|li|link|main|menu|menuitem|nav|noframes|ol|optgroup|option|p|param|search|section|summary|table|tbody|td|tfoot|th|thead|title|tr|track|ul)(?:\s|[/]?[>]|$)/i,
+  new RegExp(`^(?:${OPEN_TAG}|${CLOSE_TAG})\\s*$`, "i"),
+];
+
+const HTML_BLOCK_CLOSE = [
+  /^$/,
+  /<\/(?:script|pre|textarea|style)>/i,
+  /-->/,
+  /\?>/,
+  />/,
+  /\]\]>/,
+];
+
+const ATX_HEADING = /^#{1,6}(?:[ \t]+|$)/;
+const CODE_FENCE = /^`{3,}(?!.*`)|^~{3,}/;
+const CLOSING_CODE_FENCE = /^(?:`{3,}|~{3,})(?=[ \t]*$)/;
+const SETEXT_UNDERLINE = /^(?:=+|-+)[ \t]*$/;
+const THEMATIC_BREAK = /^(?:(?:\*[ \t]*){3,}|(?:_[ \t]*){3,}|(?:-[ \t]*){3,})$/;
+const BULLET_MARKER = /^[*+-]/;
+const ORDERED_MARKER = /^(\d{1,9})([.)])/;
+const TABLE_DELIMITER_CELL = /^:?-+:?$/;
+const LINK_DEFINITION =
+  /^ {0,3}\[(?:[^\\[\]]|\\.){1,999}\]:[ \t]*(?:<[^<>\n]*>|[^\s<][^\s]*)/;
+
+/**
+ * **Block structure parser for CommonMark with GitHub extensions**
+ *
+ * Follows the two phases of the CommonMark reference parser for blocks:
+ * each line first continues the open container blocks, then may start new
+ * ones, and what is left of it goes to the innermost leaf block. Adds GFM
+ * tables, `$$` math blocks and front matter. Inline content is kept as
+ * written.
+ */
+export class MarkdownParser {
+  private readonly lines: string[];
+  private readonly document: MarkdownDocument = {
+    type: "document",
+    children: [],
+  };
+  private readonly open: OpenBlock[] = [];
+  private lineNumber = 0;
+  private line = "";
+  private offset = 0;
+  private column = 0;
+  private nextNonspace = 0;
+  private nextNonspaceColumn = 0;
+  private indent = 0;
+  private blank = false;
+  private partiallyConsumedTab = false;
+  private matchedDepth = 1;
+
+  constructor(text: string) {
+    this.lines = text.replace(/^\uFEFF/, "").split(/\r\n|\r|\n/);
+    if (this.lines[this.lines.length - 1] === "") {
+      this.lines.pop();
+    }
+    this.open.push({ block: this.document, contentOffset: 0 });
+  }
+
+  /**
+   * **Parse Markdown text into a document**
+   */
+  static parse(text: string): MarkdownDocument {
+    return new MarkdownParser(text).parse();
+  }
+
+  /**
+   * **Parse every line of the document**
+   */
+  parse(): MarkdownDocument {
+    this.lineNumber = this.parseFrontMatter();
+    for (; this.lineNumber < this.lines.length; this.lineNumber++) {
+      this.parseLine(this.lines[this.lineNumber]);
+    }
+    while (this.open.length > 1) {
+      this.closeTip();
+    }
+    return this.document;
+  }
+
+  /**
+   * **Take `---` YAML or `+++` TOML front matter at the very start**
+   * Returns the line after it
+   */
+  private parseFrontMatter(): number {
+    const delimiter = this.lines[0]?.trimEnd();
+    if (delimiter !== "---" && delimiter !== "+++") {
+      return 0;
+    }
+
+    const closing = delimiter === "---" ? /^(?:---|\.\.\.)\s*$/ : /^\+\+\+\s*$/;
+    const end = this.lines.findIndex(
+      (line, index) => index > 0 && closing.test(line)
+    );
+    if (end === -1) {
+      return 0;
+    }
+
+    this.document.children.push({
+      type: "frontMatter",
+      lines: this.lines.slice(0, end + 1),
+      start: 0,
+      end,
+    });
+    return end + 1;
+  }
+
+  /**
+   * **Continue open blocks with a line, start new ones and add the rest**
+   */
+  private parseLine(line: string): void {
+    this.line = line;
+    this.offset = 0;
+    this.column = 0;
+    this.partiallyConsumedTab = false;
+
+    let matched = 1;
+    for (; matched < this.open.length; matched++) {
+      this.findNextNonspace();
+      const result = this.continueBlock(this.open[matched]);
+      if (result === "consumed") {
+        this.markLine();
+        this.closeTip();
+        return;
+      }
+      if (result === "unmatched") {
+        break;
+      }
+    }
+
+    const allMatched = matched === this.open.length;
+    let container = this.open[matched - 1].block;
+    this.matchedDepth = matched;
+
+    // **Start new blocks until a leaf takes the rest of the line**
+    while (!this.acceptsLines(container)) {
+      this.findNextNonspace();
+      const started = this.startBlock(container, allMatched);
+      if (!started) {
+        this.advanceNextNonspace();
+        break;
+      }
+      container = this.open[this.open.length - 1].block;
+      if (started === "leaf") {
+        break;
+      }
+    }
+
+    // **Lazy continuation lines belong to the open paragraph**
+    if (
+      !allMatched &&
+      !this.blank &&
+      this.open[this.open.length - 1].block.type === "paragraph"
+    ) {
+      this.addLine();
+    } else {
+      this.closeUnmatched();
+      if (container.type === "table") {
+        if (this.offset < this.line.length) {
+          container.rows.push(this.splitRow(this.line.slice(this.offset)));
+        }
+      } else if (
+        this.acceptsLines(container) ||
+        container.type === "paragraph"
+      ) {
+        this.addLine();
+        this.closeLeafAtEnd(container);
+      } else if (this.offset < this.line.length && !this.blank) {
+        this.addChild({ type: "paragraph", lines: [], ...this.position() }, 0);
+        this.addLine();
+      }
+    }
+    this.markLine();
+  }
+
+  /**
+   * **Try to continue an open block with the current line**
+   */
+  private continueBlock(open: OpenBlock): ContinueResult {
+    const block = open.block;
+    switch (block.type) {
+      case "blockquote":
+        if (this.indent >= 4 || this.line[this.nextNonspace] !== ">") {
+          return "unmatched";
+        }
+        this.advanceNextNonspace();
+        this.advanceOffset(1, false);
+        if (this.isSpaceOrTab(this.line[this.offset])) {
+          this.advanceOffset(1, true);
+        }
+        return "matched";
+      case "listItem":
+        if (this.blank) {
+          if (block.children.length === 0) {
+            return "unmatched";
+          }
+          this.advanceNextNonspace();
+        } else if (this.indent >= open.contentOffset) {
+          this.advanceOffset(open.contentOffset, true);
+        } else {
+          return "unmatched";
+        }
+        return "matched";
+      case "list":
+        return "matched";
+      case "code":
+        return this.continueCode(open);
+      case "html":
+        return this.blank && open.htmlType! >= 6 ? "unmatched" : "matched";
+      case "math":
+        return "matched";
+      case "paragraph":
+      case "table":
+        return this.blank ? "unmatched" : "matched";
+      default:
+        return "unmatched";
+    }
+  }
+
+  /**
+   * **Continue a code block, or close a fenced one on its closing fence**
+   */
+  private continueCode(open: OpenBlock): ContinueResult {
+    const fence = open.fence;
+    if (!fence) {
+      if (this.indent >= 4) {
+        this.advanceOffset(4, true);
+      } else if (this.blank) {
+        this.advanceNextNonspace();
+      } else {
+        return "unmatched";
+      }
+      return "matched";
+    }
+
+    const closing =
+      this.indent <= 3 && this.line[this.nextNonspace] === fence.char
+        ? CLOSING_CODE_FENCE.exec(this.line.slice(this.nextNonspace))
+        : null;
+    if (closing && closing[0].length >= fence.length) {
+      (open.block as MarkdownCodeBlock).closed = true;
+      return "consumed";
+    }
+
+    // **Content loses as much indentation as the opening fence had**
+    for (
+      let spaces = fence.offset;
+      spaces > 0 && this.isSpaceOrTab(this.line[this.offset]);
+      spaces--
+    ) {
+      this.advanceOffset(1, true);
+    }
+    return "matched";
+  }
+
+  /**
+   * **Start a block at the current position**
+   * `container` is the innermost block the line continued or started
+   */
+  private startBlock(
+    container: MarkdownContainer | MarkdownBlock,
+    allMatched: boolean
+  ): "container" | "leaf" | undefined {
+    const tip = this.open[this.open.length - 1].block;
+    const indented = this.indent >= 4;
+    const rest = this.line.slice(this.nextNonspace);
+    const lazyParagraph =
+      !allMatched && !this.blank && tip.type === "paragraph";
+
+    if (!indented && container.type === "paragraph" && this.startTable(rest)) {
+      return "leaf";
+    }
+
+    if (!indented && rest[0] === ">") {
+      this.advanceNextNonspace();
+      this.advanceOffset(1, false);
+      if (this.isSpaceOrTab(this.line[this.offset])) {
+        this.advanceOffset(1, true);
+      }
+      this.closeUnmatched();
+      this.addChild(
+        { type: "blockquote", children: [], ...this.position() },
+        0
+      );
+      return "container";
+    }
+
+    const heading = indented ? null : ATX_HEADING.exec(rest);
+    if (heading) {
+      this.closeUnmatched();
+      const content = this.line.slice(this.nextNonspace + heading[0].length);
+      const closing = /(?:^|[ \t]+)(#+)[ \t]*$/.exec(content);
+      this.addChild(
+        {
+          type: "heading",
+          level: heading[0].trim().length,
+          setext: false,
+          text: [(closing ? content.slice(0, closing.index) : content).trim()],
+          closing: closing?.[1],
+          ...this.position(),
+        },
+        0
+      );
+      this.offset = this.line.length;
+      return "leaf";
+    }
+
+    const fence = indented ? null : CODE_FENCE.exec(rest);
+    if (fence) {
+      this.closeUnmatched();
+      this.addChild(
+        {
+          type: "code",
+          fence: fence[0],
+          info: rest.slice(fence[0].length).trim(),
+          lines: [],
+          closed: false,
+          ...this.position(),
+        },
+        0,
+        { char: fence[0][0], length: fence[0].length, offset: this.indent }
+      );
+      this.offset = this.line.length;
+      return "leaf";
+    }
+
+    if (!indented && rest.startsWith("$$")) {
+      this.closeUnmatched();
+      this.addChild({ type: "math", lines: [], ...this.position() }, 0);
+      return "leaf";
+    }
+
+    if (!indented && rest[0] === "<") {
+      const htmlType = HTML_BLOCK_OPEN.findIndex(
+        (pattern, index) =>
+          index > 0 &&
+          pattern.test(rest) &&
+          (index < 7 || (container.type !== "paragraph" && !lazyParagraph))
+      );
+      if (htmlType > 0) {
+        this.closeUnmatched();
+        this.addChild(
+          { type: "html", lines: [], ...this.position() },
+          0,
+          undefined,
+          htmlType
+        );
+        return "leaf";
+      }
+    }
+
+    if (
+      !indented &&
+      container.type === "paragraph" &&
+      SETEXT_UNDERLINE.test(rest) &&
+      this.startSetextHeading(rest[0] === "=" ? 1 : 2)
+    ) {
+      return "leaf";
+    }
+
+    if (!indented && THEMATIC_BREAK.test(rest)) {
+      this.closeUnmatched();
+      this.addChild({ type: "thematicBreak", ...this.position() }, 0);
+      this.offset = this.line.length;
+      return "leaf";
+    }
+
+    if (!indented || container.type === "list") {
+      if (this.startListItem(container)) {
+        return "container";
+      }
+    }
+
+    if (
+      indented &&
+      !this.blank &&
+      tip.type !== "paragraph" &&
+      tip.type !== "table"
+    ) {
+      this.advanceOffset(4, true);
+      this.closeUnmatched();
+      this.addChild(
+        { type: "code", lines: [], closed: false, ...this.position() },
+        0
+      );
+      return "leaf";
+    }
+
+    return undefined;
+  }
+
+  /**
+   * **Turn the last line of a paragraph into a table header**
+   * The current line must be a delimiter row with as many cells
+   */
+  private startTable(rest: string): boolean {
+    if (!rest.includes("|")) {
+      return false;
+    }
+    const delimiters = this.splitRow(rest);
+    if (!delimiters.every((cell) => TABLE_DELIMITER_CELL.test(cell))) {
+      return false;
+    }
+
+    const paragraph = this.open[this.open.length - 1]
+      .block as MarkdownParagraph;
+    const header = this.splitRow(paragraph.lines[paragraph.lines.length - 1]);
+    if (header.length !== delimiters.length) {
+      return false;
+    }
+
+    paragraph.lines.pop();
+    if (paragraph.lines.length === 0) {
+      this.open.pop();
+      this.getChildren(this.open[this.open.length - 1].block).pop();
+    } else {
+      paragraph.end = this.lineNumber - 2;
+      this.closeTip();
+    }
+
+    this.addChild(
+      {
+        type: "table",
+        start: this.lineNumber - 1,
+        end: this.lineNumber,
+        header,
+        alignments: delimiters.map((cell): MarkdownAlignment =>
+          cell.endsWith(":")
+            ? cell.startsWith(":")
+              ? "center"
+              : "right"
+            : cell.startsWith(":")
+              ? "left"
+              : "none"
+        ),
+        rows: [],
+      },
+      0
+    );
+    this.offset = this.line.length;
+    return true;
+  }
+
+  /**
+   * **Turn the open paragraph into a setext heading**
+   * Link reference definitions at its start stay apart from the heading
+   */
+  private startSetextHeading(level: number): boolean {
+    const paragraph = this.open[this.open.length - 1]
+      .block as MarkdownParagraph;
+    const definitions = this.takeDefinitions(paragraph);
+    if (paragraph.lines.length === 0) {
+      paragraph.lines = definitions;
+      return false;
+    }
+
+    this.open.pop();
+    const siblings = this.getChildren(this.open[this.open.length - 1].block);
+    siblings.pop();
+    if (definitions.length > 0) {
+      siblings.push({
+        type: "definition",
+        lines: definitions,
+        start: paragraph.start,
+        end: paragraph.start + definitions.length - 1,
+      });
+    }
+    this.addChild(
+      {
+        type: "heading",
+        level,
+        setext: true,
+        text: paragraph.lines.map((line) => line.trim()),
+        start: paragraph.start + definitions.length,
+        end: this.lineNumber,
+      },
+      0
+    );
+    this.offset = this.line.length;
+    return true;
+  }
+
+  /**
+   * **Start a list item, and a list when the item does not continue one**
+   */
+  private startListItem(container: MarkdownContainer | MarkdownBlock): boolean {
+    if (this.indent >= 4) {
+      return false;
+    }
+
+    const rest = this.line.slice(this.nextNonspace);
+    const interrupts = container.type === "paragraph";
+    const ordered = ORDERED_MARKER.exec(rest);
+    const bullet = ordered ? null : BULLET_MARKER.exec(rest);
+    if (!bullet && (!ordered || (interrupts && ordered[1] !== "1"))) {
+      return false;
+    }
+
+    const marker = (ordered ?? bullet)![0];
+    const after = rest.slice(marker.length);
+    if (
+      (after && !this.isSpaceOrTab(after[0])) ||
+      (interrupts && !/[^ \t]/.test(after))
+    ) {
+      return false;
+    }
+
+    // **Content starts after one to four spaces, or one if it is code**
+    const markerOffset = this.indent;
+    this.advanceNextNonspace();
+    this.advanceOffset(marker.length, true);
+    const spacesColumn = this.column;
+    const spacesOffset = this.offset;
+    do {
+      this.advanceOffset(1, true);
+    } while (
+      this.column - spacesColumn < 5 &&
+      this.isSpaceOrTab(this.line[this.offset])
+    );
+    const spaces = this.column - spacesColumn;
+    let padding = marker.length + spaces;
+    if (spaces >= 5 || spaces < 1 || this.offset >= this.line.length) {
+      padding = marker.length + 1;
+      this.column = spacesColumn;
+      this.offset = spacesOffset;
+      this.partiallyConsumedTab = false;
+      if (this.isSpaceOrTab(this.line[this.offset])) {
+        this.advanceOffset(1, true);
+      }
+    }
+
+    this.closeUnmatched();
+    const delimiter = ordered ? ordered[2] : marker;
+    const list = this.open[this.open.length - 1].block;
+    if (
+      list.type !== "list" ||
+      list.ordered !== Boolean(ordered) ||
+      list.marker !== delimiter
+    ) {
+      this.addChild(
+        {
+          type: "list",
+          ordered: Boolean(ordered),
+          marker: delimiter,
+          tight: true,
+          items: [],
+          ...this.position(),
+        },
+        0
+      );
+    }
+    this.addChild(
+      {
+        type: "listItem",
+        number: ordered ? Number(ordered[1]) : undefined,
+        children: [],
+        ...this.position(),
+      },
+      markerOffset + padding
+    );
+    return true;
+  }
+
+  /**
+   * **Add a block to the innermost open block that can contain it**
+   */
+  private addChild(
+    block: MarkdownBlock,
+    contentOffset: number,
+    fence?: OpenBlock["fence"],
+    htmlType?: number
+  ): void {
+    while (!this.canContain(this.open[this.open.length - 1].block, block)) {
+      this.closeTip();
+    }
+    this.getChildren(this.open[this.open.length - 1].block).push(block);
+    this.open.push({ block, contentOffset, fence, htmlType });
+    this.matchedDepth = this.open.length;
+  }
+
+  private canContain(
+    parent: MarkdownContainer | MarkdownBlock,
+    child: MarkdownBlock
+  ): boolean {
+    switch (parent.type) {
+      case "document":
+      case "blockquote":
+      case "listItem":
+        return child.type !== "listItem";
+      case "list":
+        return child.type === "listItem";
+      default:
+        return false;
+    }
+  }
+
+  private getChildren(
+    block: MarkdownContainer | MarkdownBlock
+  ): MarkdownBlock[] {
+    if (block.type === "list") {
+      return block.items;
+    }
+    return "children" in block ? block.children : [];
+  }
+
+  /**
+   * **Close the open blocks the current line did not continue**
+   */
+  private closeUnmatched(): void {
+    while (this.open.length > this.matchedDepth) {
+      this.closeTip();
+    }
+  }
+
+  /**
+   * **Close the innermost open block**
+   */
+  private closeTip(): void {
+    const { block } = this.open.pop()!;
+    if (block.type === "paragraph") {
+      const definitions = this.takeDefinitions(block);
+      if (definitions.length > 0) {
+        const siblings = this.getChildren(
+          this.open[this.open.length - 1].block
+        );
+        siblings.splice(siblings.length - 1, 0, {
+          type: "definition",
+          lines: definitions,
+          start: block.start,
+          end: block.start + definitions.length - 1,
+        });
+        block.start += definitions.length;
+        if (block.lines.length === 0) {
+          siblings.pop();
+        }
+      }
+    } else if (block.type === "code" && !block.fence) {
+      while (
+        block.lines.length > 0 &&
+        !block.lines[block.lines.length - 1].trim()
+      ) {
+        block.lines.pop();
+      }
+    } else if (block.type === "list") {
+      block.tight = this.isTight(block);
+    }
+    this.matchedDepth = Math.min(this.matchedDepth, this.open.length);
+  }
+
+  /**
+   * **Check that no blank line separates the items or their blocks**
+   */
+  private isTight(list: MarkdownList): boolean {
+    const adjacent = (blocks: MarkdownBlock[]) =>
+      blocks.every(
+        (block, index) =>
+          index === blocks.length - 1 ||
+          blocks[index + 1].start <= block.end + 1
+      );
+    return (
+      adjacent(list.items) &&
+      list.items.every((item: MarkdownListItem) => adjacent(item.children))
+    );
+  }
+
+  /**
+   * **Remove the link reference definitions a paragraph starts with**
+   * A title on the line after a definition belongs to it
+   */
+  private takeDefinitions(paragraph: MarkdownParagraph): string[] {
+    let count = 0;
+    while (
+      count < paragraph.lines.length &&
+      LINK_DEFINITION.test(paragraph.lines[count])
+    ) {
+      count++;
+      if (
+        count < paragraph.lines.length &&
+        /^\s*(?:"[^"]*"|'[^']*'|\([^)]*\))\s*$/.test(paragraph.lines[count])
+      ) {
+        count++;
+      }
+    }
+    return paragraph.lines.splice(0, count);
+  }
+
+  /**
+   * **Add the rest of the line to the innermost open block**
+   */
+  private addLine(): void {
+    const block = this.open[this.open.length - 1].block as
+      MarkdownParagraph | MarkdownCodeBlock | MarkdownVerbatimBlock;
+    if (
+      block.type === "code" &&
+      block.fence &&
+      block.start === this.lineNumber
+    ) {
+      return;
+    }
+
+    let text = this.line.slice(this.offset);
+    if (this.partiallyConsumedTab) {
+      text =
+        " ".repeat(4 - (this.column % 4)) + this.line.slice(this.offset + 1);
+    }
+    block.lines.push(text);
+  }
+
+  /**
+   * **Close an HTML or math block whose end condition the line meets**
+   */
+  private closeLeafAtEnd(block: MarkdownContainer | MarkdownBlock): void {
+    const open = this.open[this.open.length - 1];
+    const rest = this.line.slice(this.offset);
+    if (
+      (block.type === "html" &&
+        open.htmlType! <= 5 &&
+        HTML_BLOCK_CLOSE[open.htmlType!].test(rest)) ||
+      (block.type === "math" &&
+        rest.trimEnd().endsWith("$$") &&
+        (block.lines.length > 1 || rest.trim().length > 2))
+    ) {
+      this.markLine();
+      this.closeTip();
+    }
+  }
+
+  /**
+   * **Extend the open blocks to a line with content**
+   */
+  private markLine(): void {
+    if (this.line.trim() === "") {
+      return;
+    }
+    for (const { block } of this.open) {
+      if (block.type !== "document") {
+        block.end = this.lineNumber;
+      }
+    }
+  }
+
+  /**
+   * **Leaf blocks whose lines are taken as they are**
+   */
+  private acceptsLines(block: MarkdownContainer | MarkdownBlock): boolean {
+    return (
+      block.type === "code" || block.type === "html" || block.type === "math"
+    );
+  }
+
+  private position(): { start: number; end: number } {
+    return { start: this.lineNumber, end: this.lineNumber };
+  }
+
+  /**
+   * **Split a table row into cells on pipes that are not escaped**
+   */
+  private splitRow(row: string): string[] {
+    const cells: string[] = [];
+    let cell = "";
+    for (let index = 0; index < row.length; index++) {
+      const char = row[index];
+      if (char === "\\" && index + 1 < row.length) {
+        cell += char + row[++index];
+      } else if (char === "|") {
+        cells.push(cell.trim());
+        cell = "";
+      } else {
+        cell += char;
+      }
+    }
+    cells.push(cell.trim());
+
+    if (cells.length > 1 && cells[0] === "" && /^\s*\|/.test(row)) {
+      cells.shift();
+    }
+    if (
+      cells.length > 1 &&
+      cells[cells.length - 1] === "" &&
+      /(?:^|[^\\])\|\s*$/.test(row)
+    ) {
+      cells.pop();
+    }
+    return cells;
+  }
+
+  /**
+   * **Find the first non-space character from the current offset**
+   */
+  private findNextNonspace(): void {
+    let offset = this.offset;
+    let column = this.column;
+    while (this.isSpaceOrTab(this.line[offset])) {
+      column += this.line[offset] === "\t" ? 4 - (column % 4) : 1;
+      offset++;
+    }
+    this.nextNonspace = offset;
+    this.nextNonspaceColumn = column;
+    this.indent = column - this.column;
+    this.blank = offset >= this.line.length;
+  }
+
+  private advanceNextNonspace(): void {
+    this.offset = this.nextNonspace;
+    this.column = this.nextNonspaceColumn;
+    this.partiallyConsumedTab = false;
+  }
+
+  /**
+   * **Move forward by characters, or by columns when a tab spans several**
+   */
+  private advanceOffset(count: number, columns: boolean): void {
+    while (count > 0 && this.offset < this.line.length) {
+      if (this.line[this.offset] === "\t") {
+        const toTab = 4 - (this.column % 4);
+        if (columns) {
+          this.partiallyConsumedTab = toTab > count;
+          const advance = Math.min(toTab, count);
+          this.column += advance;
+          this.offset += this.partiallyConsumedTab ? 0 : 1;
+          count -= advance;
+        } else {
+          this.partiallyConsumedTab = false;
+          this.column += toTab;
+          this.offset++;
+          count--;
+        }
+      } else {
+        this.partiallyConsumedTab = false;
+        this.offset++;
+        this.column++;
+        count--;
+      }
+    }
+  }
+
+  private isSpaceOrTab(char: string | undefined): boolean {
+    return char === " " || char === "\t";
+  }
+}
@@ -0,0 +1,682 @@
+/**
+ * **Convention docstring sections such as parameters are written in**
+ */
+export type PythonDocstringStyle = "google" | "numpy" | "rest";
+
+type SectionKind =
+  | "parameters"
+  | "otherParameters"
+  | "keywordArguments"
+  | "attributes"
+  | "returns"
+  | "yields"
+  | "raises"
+  | "warns"
+  | "text";
+
+/**
+ * **Documented parameter, return value or exception**
+ * `description` keeps its lines relative to the entry
+ */
+interface DocstringEntry {
+  name?: string;
+  type?: string;
+  description: string[];
+}
+
+interface DocstringSection {
+  kind: SectionKind;
+  title: string;
+  entries: DocstringEntry[];
+  lines: string[];
+}
+
+interface ParsedDocstring {
+  intro: string[];
+  sections: DocstringSection[];
+}
+
+const SECTION_KINDS: Record<string, SectionKind> = {
+  args: "parameters",
+  arguments: "parameters",
+  parameters: "parameters",
+  params: "parameters",
+  "other parameters": "otherParameters",
+  "keyword args": "keywordArguments",
+  "keyword arguments": "keywordArguments",
+  kwargs: "keywordArguments",
+  attributes: "attributes",
+  returns: "returns",
+  return: "returns",
+  yields: "yields",
+  yield: "yields",
+  raises: "raises",
+  raise: "raises",
+  warns: "warns",
+  example: "text",
+  examples: "text",
+  note: "text",
+  notes: "text",
+  warning: "text",
+  warnings: "text",
+  "see also": "text",
+  references: "text",
+  todo: "text",
+};
+
+const TITLES: Record<PythonDocstringStyle, Record<string, string>> = {
+  google: {
+    parameters: "Args",
+    otherParameters: "Other Parameters",
+    keywordArguments: "Keyword Args",
+    attributes: "Attributes",
+    returns: "Returns",
+    yields: "Yields",
+    raises: "Raises",
+    warns: "Warns",
+  },
+  numpy: {
+    parameters: "Parameters",
+    otherParameters: "Other Parameters",
+    keywordArguments: "Keyword Arguments",
+    attributes: "Attributes",
+    returns: "Returns",
+    yields: "Yields",
+    raises: "Raises",
+    warns: "Warns",
+  },
+  rest: {},
+};
+
+/**
+ * **reST fields and the section and part of an entry they describe**
+ */
+const REST_FIELDS: Record<string, [SectionKind, "description" | "type"]> = {
+  param: ["parameters", "description"],
+  parameter: ["parameters", "description"],
+  arg: ["parameters", "description"],
+  argument: ["parameters", "description"],
+  type: ["parameters", "type"],
+  key: ["keywordArguments", "description"],
+  keyword: ["keywordArguments", "description"],
+  kwtype: ["keywordArguments", "type"],
+  ivar: ["attributes", "description"],
+  var: ["attributes", "description"],
+  cvar: ["attributes", "description"],
+  vartype: ["attributes", "type"],
+  returns: ["returns", "description"],
+  return: ["returns", "description"],
+  rtype: ["returns", "type"],
+  yields: ["yields", "description"],
+  yield: ["yields", "description"],
+  ytype: ["yields", "type"],
+  raises: ["raises", "description"],
+  raise: ["raises", "description"],
+  except: ["raises", "description"],
+  exception: ["raises", "description"],
+  warns: ["warns", "description"],
+};
+
+const REST_FIELD_NAMES: Partial<Record<SectionKind, [string, string]>> = {
+  parameters: ["param", "type"],
+  otherParameters: ["param", "type"],
+  keywordArguments: ["keyword", "kwtype"],
+  attributes: ["ivar", "vartype"],
+  returns: ["returns", "rtype"],
+  yields: ["yields", "ytype"],
+  raises: ["raises", ""],
+  warns: ["warns", ""],
+};
+
+/**
+ * **reST directives Sphinx's napoleon turns free text sections into**
+ */
+const REST_DIRECTIVES: Record<string, string> = {
+  note: "Note",
+  notes: "Note",
+  warning: "Warning",
+  warnings: "Warning",
+  "see also": "See Also",
+};
+
+const GOOGLE_HEADER_PATTERN = /^([A-Za-z][A-Za-z ]*):\s*$/;
+const NUMPY_UNDERLINE_PATTERN = /^-{3,}\s*$/;
+const REST_FIELD_PATTERN = /^:(\w+)(?:\s+([^:]+?))?:(?:\s+(.*))?$/;
+const REST_SECTION_PATTERN =
+  /^\.\.\s+(note|warning|seealso|rubric)::(?:\s+(.*))?$/;
+const GOOGLE_PARAMETER_PATTERN =
+  /^(\*{0,2}[A-Za-z_][\w.]*)\s*(?:\((.*?)\))?\s*:(?:\s+(.*))?$/;
+const NAME_PATTERN = /^([A-Za-z_][\w.]*)\s*(?::\s*(.*))?$/;
+const TYPE_PATTERN = /^[\w.[\]]+(?:(?:,\s*|\s*\|\s*|\s+or\s+)[\w.[\]]+)*$/;
+
+/**
+ * **Lines that must keep their own line when text is wrapped**
+ */
+const VERBATIM_PATTERN = /^(>>>|\.\.\s|[-*+]\s|\d+[.)]\s|[|+=]|:\w|-{3,})/;
+
+const indentOf = (line: string): number =>
+  line.length - line.trimStart().length;
+
+/**
+ * **Parses and renders the sections of Google, NumPy and reST docstrings**
+ *
+ * Docstrings are converted through a common model of parameters, return
+ * values, exceptions and free text sections. A docstring that does not
+ * follow its convention closely enough is left alone.
+ */
+export class PythonDocstringSections {
+  private constructor() {}
+
+  /**
+   * **Convert docstring lines to a style**
+   * Lines are relative to the docstring indentation; text is wrapped at
+   * `width` when given. Returns undefined when the lines cannot be parsed
+   */
+  static convert(
+    lines: string[],
+    style: PythonDocstringStyle,
+    width?: number,
+    firstWidth?: number
+  ): string[] | undefined {
+    const parsed =
+      PythonDocstringSections.parseRest(lines) ??
+      PythonDocstringSections.parseNumpy(lines) ??
+      PythonDocstringSections.parseGoogle(lines);
+    if (!parsed || !PythonDocstringSections.canRender(parsed, style)) {
+      return undefined;
+    }
+
+    const output = width
+      ? PythonDocstringSections.reflow(parsed.intro, width, firstWidth)
+      : [...parsed.intro];
+    parsed.sections.forEach((section, index) => {
+      const previous = parsed.sections[index - 1];
+      const joinsFields =
+        style === "rest" &&
+        section.kind !== "text" &&
+        previous !== undefined &&
+        previous.kind !== "text";
+      if (output.length > 0 && !joinsFields) {
+        output.push("");
+      }
+      output.push(
+        ...PythonDocstringSections.renderSection(section, style, width)
+      );
+    });
+    return output;
+  }
+
+  /**
+   * **Wrap paragraphs of plain text at `width`**
+   * Indented lines, lists, doctests and directives are kept as written
+   */
+  static reflow(
+    lines: string[],
+    width: number,
+    firstWidth: number = width
+  ): string[] {
+    const output: string[] = [];
+    let paragraph: string[] = [];
+    const flush = (): void => {
+      const verbatim = paragraph.some(
+        (line) => indentOf(line) > 0 || VERBATIM_PATTERN.test(line)
+      );
+      if (verbatim || paragraph.length === 0) {
+        output.push(...paragraph);
+      } else {
+        const words = paragraph.join(" ").split(/\s+/).filter(Boolean);
+        let current = "";
+        for (const word of words) {
+          const limit = output.length === 0 ? firstWidth : width;
+          if (current && current.length + 1 + word.length > limit) {
+            output.push(current);
+            current = word;
+          } else {
+            current = current ? `${current} ${word}` : word;
+          }
+        }
+        output.push(current);
+      }
+      paragraph = [];
+    };
+
+    for (const line of lines) {
+      if (line.trim() === "") {
+        flush();
+        output.push("");
+      } else {
+        paragraph.push(line);
+      }
+    }
+    flush();
+    return output;
+  }
+
+  private static parseGoogle(lines: string[]): ParsedDocstring | undefined {
+    const titleOf = (line: string): string | undefined => {
+      const title = GOOGLE_HEADER_PATTERN.exec(line)?.[1];
+      return title && SECTION_KINDS[title.toLowerCase()] ? title : undefined;
+    };
+    const start = lines.findIndex((line) => titleOf(line) !== undefined);
+    if (start < 0) {
+      return { intro: trimBlank(lines), sections: [] };
+    }
+
+    const parsed: ParsedDocstring = {
+      intro: trimBlank(lines.slice(0, start)),
+      sections: [],
+    };
+    let index = start;
+    while (index < lines.length) {
+      const title = titleOf(lines[index]);
+      if (!title) {
+        return undefined;
+      }
+      let end = index + 1;
+      while (
+        end < lines.length &&
+        (lines[end].trim() === "" || indentOf(lines[end]) > 0)
+      ) {
+        end++;
+      }
+      const section = PythonDocstringSections.createGoogleSection(
+        title,
+        dedent(trimBlank(lines.slice(index + 1, end)))
+      );
+      if (!section) {
+        return undefined;
+      }
+      parsed.sections.push(section);
+      index = end;
+    }
+    return parsed;
+  }
+
+  private static createGoogleSection(
+    title: string,
+    body: string[]
+  ): DocstringSection | undefined {
+    const kind = SECTION_KINDS[title.toLowerCase()];
+    const section: DocstringSection = { kind, title, entries: [], lines: [] };
+    if (kind === "text") {
+      section.lines = body;
+      return section;
+    }
+    if (kind === "returns" || kind === "yields") {
+      if (body.length > 0) {
+        const typed = /^([^:\s][^:]*):(?:\s+(.*))?$/.exec(body[0]);
+        section.entries.push(
+          typed && TYPE_PATTERN.test(typed[1].trim())
+            ? {
+                type: typed[1].trim(),
+                description: joinDescription(typed[2], body.slice(1)),
+              }
+            : { description: body }
+        );
+      }
+      return section;
+    }
+
+    const pattern =
+      kind === "raises" || kind === "warns"
+        ? NAME_PATTERN
+        : GOOGLE_PARAMETER_PATTERN;
+    for (const [head, continuation] of splitEntries(body)) {
+      const match = pattern.exec(head);
+      if (!match) {
+        return undefined;
+      }
+      const text = pattern === NAME_PATTERN ? match[2] : match[3];
+      section.entries.push({
+        name: match[1],
+        type: pattern === NAME_PATTERN ? undefined : match[2]?.trim(),
+        description: joinDescription(text, continuation),
+      });
+    }
+    return section;
+  }
+
+  private static parseNumpy(lines: string[]): ParsedDocstring | undefined {
+    const isHeader = (index: number): boolean =>
+      indentOf(lines[index]) === 0 &&
+      SECTION_KINDS[lines[index].trim().toLowerCase()] !== undefined &&
+      NUMPY_UNDERLINE_PATTERN.test(lines[index + 1] ?? "");
+    const headers = lines
+      .map((_, index) => index)
+      .filter((index) => isHeader(index));
+    if (headers.length === 0) {
+      return undefined;
+    }
+
+    const parsed: ParsedDocstring = {
+      intro: trimBlank(lines.slice(0, headers[0])),
+      sections: [],
+    };
+    for (const [position, start] of headers.entries()) {
+      const title = lines[start].trim();
+      const kind = SECTION_KINDS[title.toLowerCase()];
+      const body = trimBlank(
+        lines.slice(start + 2, headers[position + 1] ?? lines.length)
+      );
+      const section: DocstringSection = { kind, title, entries: [], lines: [] };
+      if (kind === "text") {
+        section.lines = body;
+      }
+      for (const [head, continuation] of kind === "text"
+        ? []
+        : splitEntries(body)) {
+        const entry = PythonDocstringSections.parseNumpyEntry(kind, head);
+        if (!entry) {
+          return undefined;
+        }
+        entry.description = dedent(trimBlank(continuation));
+        section.entries.push(entry);
+      }
+      parsed.sections.push(section);
+    }
+    return parsed;
+  }
+
+  private static parseNumpyEntry(
+    kind: SectionKind,
+    head: string
+  ): DocstringEntry | undefined {
+    const typed = /^(.+?)\s*:\s*(.*)$/.exec(head);
+    if (kind === "raises" || kind === "warns") {
+      return /^[A-Za-z_][\w.]*$/.test(head)
+        ? { name: head, description: [] }
+        : undefined;
+    }
+    if (kind === "returns" || kind === "yields") {
+      return typed && /^\S+$/.test(typed[1])
+        ? { name: typed[1], type: typed[2] || undefined, description: [] }
+        : { type: head.trim(), description: [] };
+    }
+    const name = typed ? typed[1] : head.trim();
+    return /^\*{0,2}[A-Za-z_][\w.]*(\s*,\s*\*{0,2}[A-Za-z_][\w.]*)*$/.test(name)
+      ? { name, type: typed?.[2] || undefined, description: [] }
+      : undefined;
+  }
+
+  private static parseRest(lines: string[]): ParsedDocstring | undefined {
+    const isField = (line: string): boolean => {
+      const field = REST_FIELD_PATTERN.exec(line);
+      return field !== null && field[1] in REST_FIELDS;
+    };
+    const startsSection = (line: string): boolean =>
+      isField(line) || REST_SECTION_PATTERN.test(line);
+    const start = lines.findIndex(startsSection);
+    if (start < 0) {
+      return undefined;
+    }
+
+    const parsed: ParsedDocstring = {
+      intro: trimBlank(lines.slice(0, start)),
+      sections: [],
+    };
+    const sectionOf = (kind: SectionKind): DocstringSection => {
+      let section = parsed.sections.find((entry) => entry.kind === kind);
+      if (!section) {
+        section = { kind, title: TITLES.google[kind], entries: [], lines: [] };
+        parsed.sections.push(section);
+      }
+      return section;
+    };
+
+    let index = start;
+    while (index < lines.length) {
+      const line = lines[index];
+      let end = index + 1;
+      const directive = REST_SECTION_PATTERN.exec(line);
+      if (directive?.[1] === "rubric") {
+        while (end < lines.length && !startsSection(lines[end])) {
+          end++;
+        }
+      } else {
+        while (
+          end < lines.length &&
+          (lines[end].trim() === "" || indentOf(lines[end]) > 0)
+        ) {
+          end++;
+        }
+      }
+      const body = dedent(trimBlank(lines.slice(index + 1, end)));
+      index = end;
+
+      if (line.trim() === "") {
+        continue;
+      }
+      if (directive) {
+        const title =
+          directive[1] === "rubric"
+            ? (directive[2] ?? "")
+            : REST_DIRECTIVES[
+                directive[1] === "seealso" ? "see also" : directive[1]
+              ];
+        parsed.sections.push({
+          kind: "text",
+          title,
+          entries: [],
+          lines:
+            directive[2] && directive[1] !== "rubric"
+              ? [directive[2], ...body]
+              : body,
+        });
+        continue;
+      }
+
+      const field = REST_FIELD_PATTERN.exec(line);
+      if (!field || !(field[1] in REST_FIELDS) || indentOf(line) > 0) {
+        return undefined;
+      }
+      const [kind, part] = REST_FIELDS[field[1]];
+      const section = sectionOf(kind);
+      const description = joinDescription(field[3], body);
+      const argument = field[2]?.trim();
+
+      if (kind === "returns" || kind === "yields") {
+        if (argument) {
+          return undefined;
+        }
+        const entry =
+          section.entries[0] ?? (section.entries[0] = { description: [] });
+        if (part === "type") {
+          entry.type = description.join(" ");
+        } else {
+          entry.description = description;
+        }
+      } else if (kind === "raises" || kind === "warns") {
+        if (!argument) {
+          return undefined;
+        }
+        section.entries.push({ name: argument, description });
+      } else {
+        const words = argument?.split(/\s+/) ?? [];
+        const name = words.pop();
+        if (!name) {
+          return undefined;
+        }
+        let entry = section.entries.find((item) => item.name === name);
+        if (!entry) {
+          entry = { name, description: [] };
+          section.entries.push(entry);
+        }
+        if (part === "type") {
+          entry.type = description.join(" ");
+        } else {
+          entry.description = description;
+          entry.type = words.join(" ") || entry.type;
+        }
+      }
+    }
+    return parsed;
+  }
+
+  /**
+   * **Whether a style can express everything that was parsed**
+   * Only NumPy names return values or lists several of them
+   */
+  private static canRender(
+    parsed: ParsedDocstring,
+    style: PythonDocstringStyle
+  ): boolean {
+    return parsed.sections.every((section) => {
+      if (section.kind !== "returns" && section.kind !== "yields") {
+        return true;
+      }
+      if (style === "numpy") {
+        return section.entries.every((entry) => entry.type);
+      }
+      return (
+        section.entries.length <= 1 &&
+        section.entries.every((entry) => !entry.name)
+      );
+    });
+  }
+
+  private static renderSection(
+    section: DocstringSection,
+    style: PythonDocstringStyle,
+    width?: number
+  ): string[] {
+    const wrap = (lines: string[], indent: number): string[] =>
+      width ? PythonDocstringSections.reflow(lines, width - indent) : lines;
+    const pad = (lines: string[], indent: number): string[] =>
+      lines.map((line) => (line ? " ".repeat(indent) + line : ""));
+    const describe = (
+      head: string,
+      description: string[],
+      indent: number,
+      hanging: number
+    ): string[] => {
+      const lines = width
+        ? PythonDocstringSections.reflow(
+            description,
+            width - indent - hanging,
+            width - indent - head.length - 1
+          )
+        : description;
+      const [first = "", ...rest] = lines;
+      return [
+        " ".repeat(indent) +
+          (head && first ? `${head} ${first}` : head || first),
+        ...pad(rest, head ? indent + hanging : indent),
+      ];
+    };
+
+    if (section.kind === "text") {
+      if (style === "google") {
+        return [`${section.title}:`, ...pad(wrap(section.lines, 4), 4)];
+      }
+      if (style === "numpy") {
+        return [
+          section.title,
+          "-".repeat(section.title.length),
+          ...wrap(section.lines, 0),
+        ];
+      }
+      const directive = REST_DIRECTIVES[section.title.toLowerCase()];
+      return directive
+        ? [
+            `.. ${directive === "See Also" ? "seealso" : directive.toLowerCase()}::`,
+            ...pad(wrap(section.lines, 4), 4),
+          ]
+        : [`.. rubric:: ${section.title}`, "", ...wrap(section.lines, 0)];
+    }
+
+    const named = section.kind !== "returns" && section.kind !== "yields";
+    const typed = section.kind !== "raises" && section.kind !== "warns";
+    const output: string[] = [];
+    if (style === "google") {
+      output.push(`${TITLES.google[section.kind]}:`);
+      for (const entry of section.entries) {
+        const head = named
+          ? `${entry.name}${typed && entry.type ? ` (${entry.type})` : ""}:`
+          : entry.type
+            ? `${entry.type}:`
+            : "";
+        output.push(...describe(head, entry.description, 4, 4));
+      }
+    } else if (style === "numpy") {
+      const title = TITLES.numpy[section.kind];
+      output.push(title, "-".repeat(title.length));
+      for (const entry of section.entries) {
+        const head =
+          named || entry.name
+            ? `${entry.name}${entry.type ? ` : ${entry.type}` : ""}`
+            : entry.type!;
+        output.push(head, ...pad(wrap(entry.description, 4), 4));
+      }
+    } else {
+      const [field, typeField] = REST_FIELD_NAMES[section.kind]!;
+      for (const entry of section.entries) {
+        const target = named ? ` ${entry.name}` : "";
+        // **`:rtype:` may stand alone**
+        if (named || entry.description.length > 0) {
+          output.push(
+            ...describe(`:${field}${target}:`, entry.description, 0, 4)
+          );
+        }
+        if (typeField && entry.type) {
+          output.push(`:${typeField}${target}: ${entry.type}`);
+        }
+      }
+    }
+    return output;
+  }
+}
+
+/**
+ * **Drop blank lines at both ends**
+ */
+function trimBlank(lines: string[]): string[] {
+  let start = 0;
+  let end = lines.length;
+  while (start < end && lines[start].trim() === "") {
+    start++;
+  }
+  while (end > start && lines[end - 1].trim() === "") {
+    end--;
+  }
+  return lines.slice(start, end);
+}
+
+/**
+ * **Remove the indentation the non-blank lines have in common**
+ */
+function dedent(lines: string[]): string[] {
+  const indents = lines
+    .filter((line) => line.trim() !== "")
+    .map((line) => indentOf(line));
+  const common = indents.length > 0 ? Math.min(...indents) : 0;
+  return lines.map((line) => (line.trim() === "" ? "" : line.slice(common)));
+}
+
+/**
+ * **Split a section body into entry lines and their indented continuations**
+ */
+function splitEntries(body: string[]): [string, string[]][] {
+  const entries: [string, string[]][] = [];
+  for (const line of body) {
+    if (line.trim() !== "" && indentOf(line) === 0) {
+      entries.push([line.trim(), []]);
+    } else if (entries.length > 0) {
+      entries[entries.length - 1][1].push(line);
+    } else {
+      // **Text above the first entry keeps the entry from parsing**
+      entries.push(["", [line]]);
+    }
+  }
+  return entries;
+}
+
+/**
+ * **Description from the text after an entry's head and the lines below it**
+ */
+function joinDescription(
+  text: string | undefined,
+  continuation: string[]
+): string[] {
+  const rest = dedent(trimBlank(continuation));
+  return text ? [text.trim(), ...rest] : rest;
+}
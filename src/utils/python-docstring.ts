@@ -0,0 +1,196 @@
+import {
+  PythonDocstringSections,
+  PythonDocstringStyle,
+} from "./python-docstring-sections";
+import { PythonQuoteStyle, PythonStringNormalizer } from "./python-strings";
+
+/**
+ * **How a docstring is laid out**
+ * `indent` is the indentation of the docstring's statement. `style`
+ * converts sections to another convention and `wrap` fills paragraphs up
+ * to `maxLineLength`
+ */
+export interface PythonDocstringOptions {
+  indent: string;
+  tabSize: number;
+  maxLineLength: number;
+  quoteStyle: PythonQuoteStyle;
+  wrap: boolean;
+  style: PythonDocstringStyle | "preserve";
+}
+
+/**
+ * **Formats docstrings the way Black does**
+ *
+ * Strips the indentation docstring lines have in common and indents them
+ * like the code around them, trims surrounding whitespace and keeps the
+ * closing quotes within the line length. Sections can be converted between
+ * the Google, NumPy and reST conventions and text wrapped on request.
+ */
+export class PythonDocstringFormatter {
+  private constructor() {}
+
+  /**
+   * **Format a docstring literal**
+   * Docstrings with backslash continuations only get their quotes normalized
+   */
+  static format(value: string, options: PythonDocstringOptions): string {
+    if (/\\\s*\n/.test(value)) {
+      return PythonStringNormalizer.normalize(value, options.quoteStyle);
+    }
+
+    // **PEP 257 asks for double quotes around docstrings**
+    const quoteStyle =
+      options.quoteStyle === "preserve" ? "preserve" : "double";
+    const { prefix, quote, body } = PythonStringNormalizer.parse(
+      PythonStringNormalizer.normalize(value, quoteStyle)
+    );
+    const { indent } = options;
+
+    let docstring =
+      quote.length === 3 && body.includes("\n")
+        ? PythonDocstringFormatter.fixIndentation(body, indent, options.tabSize)
+        : body.trim();
+    if (quote.length === 3 && (options.wrap || options.style !== "preserve")) {
+      docstring = PythonDocstringFormatter.reformat(
+        docstring,
+        prefix.length + quote.length,
+        options
+      );
+    }
+
+    let trailingBackslash = false;
+    if (docstring) {
+      // **Keep quotes inside the docstring apart from its delimiters**
+      if (docstring.startsWith(quote[0])) {
+        docstring = " " + docstring;
+      }
+      if (docstring.endsWith(quote[0])) {
+        docstring += " ";
+      }
+      const backslashes = /\\*$/.exec(docstring)![0].length;
+      if (backslashes % 2 === 1) {
+        docstring += " ";
+        trailingBackslash = true;
+      }
+    } else if (body) {
+      docstring = " ";
+    }
+
+    if (quote.length === 3) {
+      const lines = docstring.split("\n");
+      if (docstring.endsWith("\n")) {
+        lines.pop();
+      }
+      const lastLineLength =
+        docstring && !docstring.endsWith("\n")
+          ? lines[lines.length - 1].length
+          : 0;
+      if (
+        lines.length > 1 &&
+        lastLineLength + quote.length > options.maxLineLength &&
+        indent.length + quote.length <= options.maxLineLength &&
+        !trailingBackslash &&
+        value[value.length - 1 - quote.length] !== "\n"
+      ) {
+        return `${prefix}${quote}${docstring}\n${indent}${quote}`;
+      }
+    }
+    return prefix + quote + docstring + quote;
+  }
+
+  /**
+   * **Re-indent the lines after the first one, as PEP 257 describes**
+   * Leading tabs count as `tabSize` columns
+   */
+  private static fixIndentation(
+    body: string,
+    indent: string,
+    tabSize: number
+  ): string {
+    const lines = body.split(/\r\n|\r|\n/).map((line) => {
+      const content = line.trimStart();
+      if (!content || content === line) {
+        return line;
+      }
+      const leading = line.slice(0, line.length - content.length);
+      let columns = 0;
+      for (const char of leading) {
+        columns =
+          char === "\t" ? columns + tabSize - (columns % tabSize) : columns + 1;
+      }
+      return " ".repeat(columns) + content;
+    });
+
+    const common = Math.min(
+      ...lines
+        .slice(1)
+        .filter((line) => line.trim())
+        .map((line) => line.length - line.trimStart().length)
+    );
+    const trimmed = [lines[0].trim()];
+    if (Number.isFinite(common)) {
+      lines.slice(1).forEach((line, index) => {
+        const content = line.slice(common).trimEnd();
+        trimmed.push(
+          content || index === lines.length - 2 ? indent + content : ""
+        );
+      });
+    }
+    return trimmed.join("\n");
+  }
+
+  /**
+   * **Convert sections and wrap text of an indented docstring**
+   * `opening` is the width of the prefix and quotes before the first line
+   */
+  private static reformat(
+    docstring: string,
+    opening: number,
+    options: PythonDocstringOptions
+  ): string {
+    const { indent } = options;
+    const lines = docstring
+      .split("\n")
+      .map((line, index) =>
+        index > 0 && line.startsWith(indent) ? line.slice(indent.length) : line
+      );
+    const multiline = lines.length > 1;
+    const closingLine = multiline && lines[lines.length - 1] === "";
+    const openingLine = multiline && lines[0] === "";
+    const content = lines.slice(
+      openingLine ? 1 : 0,
+      closingLine ? -1 : undefined
+    );
+
+    const width =
+      options.maxLineLength -
+      indent.replace(/\t/g, " ".repeat(options.tabSize)).length;
+    const firstWidth = openingLine ? width : width - opening;
+    const wrapWidth = options.wrap ? width : undefined;
+    let formatted =
+      options.style === "preserve"
+        ? undefined
+        : PythonDocstringSections.convert(
+            content,
+            options.style,
+            wrapWidth,
+            firstWidth
+          );
+    if (!formatted) {
+      formatted = options.wrap
+        ? PythonDocstringSections.reflow(content, width, firstWidth)
+        : content;
+    }
+
+    // **Multi-line docstrings end with the closing quotes on their own line**
+    const output = [...(openingLine ? [""] : []), ...formatted];
+    if (closingLine || formatted.length > 1) {
+      output.push("");
+    }
+    return output
+      .map((line, index) => (index > 0 && line ? indent + line : line))
+      .join("\n")
+      .replace(/\n$/, `\n${indent}`);
+  }
+}
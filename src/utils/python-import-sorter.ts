@@ -0,0 +1,1056 @@
+import { FormatError } from "../errors/format-error";
+import { PythonToken } from "../types/python-tokens";
+import { PythonTokenizer } from "./python-tokenizer";
+import { TomlTable, TomlValue } from "./toml-parser";
+import { PYTHON_STDLIB_MODULES } from "./python-stdlib-modules";
+
+/**
+ * **isort profile the import layout follows**
+ */
+export type PythonImportProfile = "black" | "google" | "pycharm";
+
+/**
+ * **Options of the import sorter, named after their isort counterparts**
+ * `multiLineOutput` is isort's wrap mode number; `sourceModules` lists the
+ * top level modules found in the project's source folders
+ */
+export interface PythonImportSettings {
+  lineLength: number;
+  indent: string;
+  multiLineOutput: number;
+  includeTrailingComma: boolean;
+  splitOnTrailingComma: boolean;
+  forceGridWrap: number;
+  forceSingleLine: boolean;
+  singleLineExclusions: string[];
+  forceSortWithinSections: boolean;
+  lexicographical: boolean;
+  groupByPackage: boolean;
+  orderByType: boolean;
+  caseSensitive: boolean;
+  combineAsImports: boolean;
+  ensureNewlineBeforeComments: boolean;
+  linesAfterImports: number;
+  linesBetweenSections: number;
+  knownFirstParty: string[];
+  knownThirdParty: string[];
+  knownLocalFolder: string[];
+  extraStandardLibrary: string[];
+  sourceModules: string[];
+}
+
+type ImportSection =
+  "FUTURE" | "STDLIB" | "THIRDPARTY" | "FIRSTPARTY" | "LOCALFOLDER";
+
+const SECTIONS: ImportSection[] = [
+  "FUTURE",
+  "STDLIB",
+  "THIRDPARTY",
+  "FIRSTPARTY",
+  "LOCALFOLDER",
+];
+
+const WRAP_MODES = [
+  "GRID",
+  "VERTICAL",
+  "HANGING_INDENT",
+  "VERTICAL_HANGING_INDENT",
+  "VERTICAL_GRID",
+  "VERTICAL_GRID_GROUPED",
+];
+
+/**
+ * **isort's defaults, before a profile is applied**
+ */
+const DEFAULT_SETTINGS: Omit<PythonImportSettings, "lineLength" | "indent"> = {
+  multiLineOutput: 0,
+  includeTrailingComma: false,
+  splitOnTrailingComma: false,
+  forceGridWrap: 0,
+  forceSingleLine: false,
+  singleLineExclusions: [],
+  forceSortWithinSections: false,
+  lexicographical: false,
+  groupByPackage: false,
+  orderByType: true,
+  caseSensitive: false,
+  combineAsImports: false,
+  ensureNewlineBeforeComments: false,
+  linesAfterImports: -1,
+  linesBetweenSections: 1,
+  knownFirstParty: [],
+  knownThirdParty: [],
+  knownLocalFolder: [],
+  extraStandardLibrary: [],
+  sourceModules: [],
+};
+
+/**
+ * **Settings of the supported isort profiles**
+ * Only google sets a line length; the others follow `maxLineLength`
+ */
+const PROFILES: Record<PythonImportProfile, Partial<PythonImportSettings>> = {
+  black: {
+    multiLineOutput: 3,
+    includeTrailingComma: true,
+    splitOnTrailingComma: true,
+    ensureNewlineBeforeComments: true,
+  },
+  google: {
+    forceSingleLine: true,
+    forceSortWithinSections: true,
+    lexicographical: true,
+    lineLength: 1000,
+    singleLineExclusions: [
+      "collections.abc",
+      "six.moves",
+      "typing",
+      "typing_extensions",
+    ],
+    orderByType: false,
+    groupByPackage: true,
+  },
+  pycharm: {
+    multiLineOutput: 3,
+    forceGridWrap: 2,
+    linesAfterImports: 2,
+  },
+};
+
+/**
+ * **`[tool.isort]` keys and the settings they map to**
+ */
+const CONFIG_KEYS: Record<string, keyof PythonImportSettings> = {
+  line_length: "lineLength",
+  multi_line_output: "multiLineOutput",
+  include_trailing_comma: "includeTrailingComma",
+  split_on_trailing_comma: "splitOnTrailingComma",
+  force_grid_wrap: "forceGridWrap",
+  force_single_line: "forceSingleLine",
+  single_line_exclusions: "singleLineExclusions",
+  force_sort_within_sections: "forceSortWithinSections",
+  lexicographical: "lexicographical",
+  group_by_package: "groupByPackage",
+  order_by_type: "orderByType",
+  case_sensitive: "caseSensitive",
+  combine_as_imports: "combineAsImports",
+  ensure_newline_before_comments: "ensureNewlineBeforeComments",
+  lines_after_imports: "linesAfterImports",
+  lines_between_sections: "linesBetweenSections",
+  known_first_party: "knownFirstParty",
+  known_third_party: "knownThirdParty",
+  known_local_folder: "knownLocalFolder",
+  extra_standard_library: "extraStandardLibrary",
+};
+
+/**
+ * **Statements that make isort put two blank lines after the imports**
+ */
+const DECLARATION_PATTERN = /^(def |class |@|async def )/;
+
+/**
+ * **Name brought in by an import, with the comments written after it**
+ */
+interface ImportedName {
+  name: string;
+  alias?: string;
+  comments: string[];
+}
+
+/**
+ * **Import statement read from the source**
+ * Straight imports list their modules as names
+ */
+interface ImportStatement {
+  kind: "import" | "from";
+  module: string;
+  names: ImportedName[];
+  comments: string[];
+  above: string[];
+  trailingComma: boolean;
+}
+
+/**
+ * **How one name or module is imported, merged across statements**
+ * `plain` tells whether it is imported without an alias too
+ */
+interface ImportUse {
+  plain: boolean;
+  aliases: Set<string>;
+  comments: string[];
+}
+
+interface FromModule {
+  star: boolean;
+  starComments: string[];
+  names: Map<string, ImportUse>;
+  comments: string[];
+  above: string[];
+  trailingComma: boolean;
+}
+
+interface StraightModule extends ImportUse {
+  above: string[];
+}
+
+interface SectionImports {
+  straight: Map<string, StraightModule>;
+  from: Map<string, FromModule>;
+}
+
+/**
+ * **Output statement with the one line form it is sorted by**
+ */
+interface RenderedImport {
+  text: string;
+  above: string[];
+  sortLine: string;
+}
+
+/**
+ * **Logical line of the source: a statement, a comment or a blank line**
+ * Lines are 0-based and `end` is exclusive
+ */
+interface SourceUnit {
+  kind: "statement" | "comment" | "blank";
+  start: number;
+  end: number;
+  column: number;
+  tokens: PythonToken[];
+  comments: PythonToken[];
+  barrier: boolean;
+}
+
+/**
+ * **isort compatible import sorting**
+ *
+ * Sorts every run of import statements into future, standard library,
+ * third party, first party and local sections, merges duplicates and wraps
+ * long `from` imports the way the configured isort profile does.
+ */
+export class PythonImportSorter {
+  private readonly patterns: [ImportSection, RegExp[]][];
+  private readonly lineLength: number;
+
+  private constructor(
+    private readonly settings: PythonImportSettings,
+    indentation: string
+  ) {
+    const compile = (globs: string[]): RegExp[] =>
+      globs.map(
+        (glob) =>
+          new RegExp(
+            `^${glob
+              .replace(/[.+^${}()|[\]\\]/g, "\\$&")
+              .replace(/\*/g, ".*")
+              .replace(/\?/g, ".")}$`
+          )
+      );
+    this.patterns = [
+      ["LOCALFOLDER", compile(settings.knownLocalFolder)],
+      ["FIRSTPARTY", compile(settings.knownFirstParty)],
+      ["THIRDPARTY", compile(settings.knownThirdParty)],
+      ["STDLIB", compile(settings.extraStandardLibrary)],
+    ];
+    this.lineLength = settings.lineLength - indentation.length;
+  }
+
+  /**
+   * **Sort the import blocks of formatted Python source**
+   */
+  static sort(
+    text: string,
+    settings: PythonImportSettings,
+    languageId: string = "python"
+  ): string {
+    const tokens = PythonTokenizer.tokenize(text, languageId);
+    if (
+      tokens.some(
+        (token) =>
+          token.type === "comment" &&
+          /^#\s*isort:\s*skip_file\b/.test(token.value)
+      )
+    ) {
+      return text;
+    }
+
+    const lines = text.split("\n");
+    const units = PythonImportSorter.readUnits(tokens);
+    const blocks = PythonImportSorter.findBlocks(units);
+
+    // **Later blocks first so earlier line numbers stay valid**
+    for (const [first, last] of blocks.reverse()) {
+      const start = units[first].start;
+      const indentation = lines[start].slice(0, units[first].column - 1);
+      const sorter = new PythonImportSorter(settings, indentation);
+      const sorted = sorter
+        .sortBlock(units.slice(first, last + 1))
+        .map((line) => (line ? indentation + line : line));
+
+      let end = units[last].end;
+      if (!indentation) {
+        const blankLines = sorter.getLinesAfter(units.slice(last + 1), lines);
+        if (blankLines >= 0) {
+          while (!lines[end].trim()) {
+            end++;
+          }
+          sorted.push(...Array<string>(blankLines).fill(""));
+        }
+      }
+      lines.splice(start, end - start, ...sorted);
+    }
+    return lines.join("\n");
+  }
+
+  /**
+   * **Build the sorter settings from a profile and `[tool.isort]`**
+   * The line length defaults to the formatter's so imports wrap where the
+   * rest of the code does
+   */
+  static createSettings(options: {
+    profile?: string;
+    lineLength: number;
+    indent: string;
+    config?: TomlTable;
+    sourceModules?: string[];
+    languageId?: string;
+  }): PythonImportSettings {
+    const config = options.config ?? {};
+    const profile = String(config.profile ?? options.profile ?? "black");
+    if (!(profile in PROFILES)) {
+      throw new FormatError(
+        `Unknown isort profile '${profile}', expected one of ${Object.keys(PROFILES).join(", ")}`,
+        options.languageId ?? "python"
+      );
+    }
+
+    const settings: PythonImportSettings = {
+      ...DEFAULT_SETTINGS,
+      lineLength: options.lineLength,
+      indent: options.indent,
+      ...PROFILES[profile as PythonImportProfile],
+      sourceModules: options.sourceModules ?? [],
+    };
+    for (const [key, value] of Object.entries(config)) {
+      const setting = CONFIG_KEYS[key];
+      if (setting) {
+        Object.assign(settings, {
+          [setting]: PythonImportSorter.readConfigValue(setting, value),
+        });
+      }
+    }
+    return settings;
+  }
+
+  private static readConfigValue(
+    setting: keyof PythonImportSettings,
+    value: TomlValue
+  ): PythonImportSettings[keyof PythonImportSettings] {
+    const current = DEFAULT_SETTINGS[setting as keyof typeof DEFAULT_SETTINGS];
+    if (setting === "multiLineOutput" && typeof value === "string") {
+      const mode = WRAP_MODES.indexOf(
+        value.replace(/^WrapModes\./, "").toUpperCase()
+      );
+      return mode < 0 ? Number(value) || 0 : mode;
+    }
+    if (Array.isArray(current)) {
+      const list = Array.isArray(value) ? value : String(value).split(",");
+      return list.map((item) => String(item).trim()).filter(Boolean);
+    }
+    if (typeof current === "boolean") {
+      return value === true || value === "true";
+    }
+    return Number(value);
+  }
+
+  /**
+   * **Group tokens into statements, comment lines and blank lines**
+   * Statements marked `isort: skip` and everything between `off` and `on`
+   * pragmas of isort or Black become barriers that are never moved
+   */
+  private static readUnits(tokens: PythonToken[]): SourceUnit[] {
+    const units: SourceUnit[] = [];
+    let current: SourceUnit | undefined;
+    let off = false;
+
+    for (const token of tokens) {
+      if (["indent", "dedent", "endmarker"].includes(token.type)) {
+        continue;
+      }
+      current ??= {
+        kind: "blank",
+        start: token.line - 1,
+        end: token.line,
+        column: token.column,
+        tokens: [],
+        comments: [],
+        barrier: off,
+      };
+      if (token.type === "comment") {
+        current.comments.push(token);
+      } else if (token.type !== "nl" && token.type !== "newline") {
+        current.tokens.push(token);
+      }
+      if (
+        token.type === "newline" ||
+        (token.type === "nl" && current.tokens.length === 0)
+      ) {
+        current.end = token.line;
+        current.kind = current.tokens.length
+          ? "statement"
+          : current.comments.length
+            ? "comment"
+            : "blank";
+        for (const comment of current.comments) {
+          if (/^#\s*(isort|fmt):\s*off\b/.test(comment.value)) {
+            off = true;
+          } else if (/^#\s*(isort|fmt):\s*on\b/.test(comment.value)) {
+            off = false;
+            current.barrier = true;
+          } else if (/^#\s*(isort|fmt):\s*skip\b/.test(comment.value)) {
+            current.barrier = true;
+          }
+        }
+        current.barrier ||= off;
+        units.push(current);
+        current = undefined;
+      }
+    }
+    return units;
+  }
+
+  private static isImport(unit: SourceUnit): boolean {
+    return (
+      unit.kind === "statement" &&
+      !unit.barrier &&
+      ["import", "from"].includes(unit.tokens[0].value) &&
+      unit.tokens[0].type === "name" &&
+      !unit.tokens.some((token) => token.value === ";")
+    );
+  }
+
+  /**
+   * **Find runs of imports at one indentation**
+   * Blank lines and comments directly above an import belong to the run;
+   * returns the indexes of each run's first and last import
+   */
+  private static findBlocks(units: SourceUnit[]): [number, number][] {
+    const blocks: [number, number][] = [];
+    let index = 0;
+
+    while (index < units.length) {
+      if (!PythonImportSorter.isImport(units[index])) {
+        index++;
+        continue;
+      }
+      const first = index;
+      let last = index;
+      let next = index + 1;
+      while (next < units.length) {
+        const unit = units[next];
+        if (
+          PythonImportSorter.isImport(unit) &&
+          unit.column === units[first].column
+        ) {
+          last = next;
+        } else if (
+          unit.kind === "statement" ||
+          unit.barrier ||
+          (unit.kind === "comment" && unit.column !== units[first].column)
+        ) {
+          break;
+        } else if (
+          unit.kind === "comment" &&
+          units[next + 1]?.kind === "blank"
+        ) {
+          break;
+        }
+        next++;
+      }
+      blocks.push([first, last]);
+      index = last + 1;
+    }
+    return blocks;
+  }
+
+  /**
+   * **Decide how many blank lines follow a top level block**
+   * Returns -1 when only blank lines follow. Comments directly above a
+   * statement are looked through, as isort does
+   */
+  private getLinesAfter(rest: SourceUnit[], lines: string[]): number {
+    const index = rest.findIndex(
+      (unit, position) =>
+        unit.kind === "statement" ||
+        (unit.kind === "comment" &&
+          (rest[position + 1]?.kind ?? "blank") === "blank")
+    );
+    if (index < 0) {
+      return -1;
+    }
+    if (this.settings.linesAfterImports >= 0) {
+      return this.settings.linesAfterImports;
+    }
+    return DECLARATION_PATTERN.test(lines[rest[index].start].trim()) ? 2 : 1;
+  }
+
+  /**
+   * **Sort one block and return its lines without indentation**
+   */
+  private sortBlock(units: SourceUnit[]): string[] {
+    const sections = new Map<ImportSection, SectionImports>(
+      SECTIONS.map((section) => [
+        section,
+        { straight: new Map(), from: new Map() },
+      ])
+    );
+    let above: string[] = [];
+    for (const unit of units) {
+      if (unit.kind === "comment") {
+        above.push(unit.comments[0].value);
+      } else if (unit.kind === "statement") {
+        this.addImport(sections, this.parseImport(unit, above));
+        above = [];
+      }
+    }
+
+    const output: string[] = [];
+    for (const section of SECTIONS) {
+      const lines = this.renderSection(section, sections.get(section)!);
+      if (lines.length && output.length) {
+        output.push(
+          ...Array<string>(this.settings.linesBetweenSections).fill("")
+        );
+      }
+      output.push(...lines);
+    }
+    return output;
+  }
+
+  /**
+   * **Read the module, names and comments of an import statement**
+   * A comment after a name belongs to that name, as does an own line
+   * comment before it; other comments belong to the statement
+   */
+  private parseImport(unit: SourceUnit, above: string[]): ImportStatement {
+    const tokens = unit.tokens;
+    const statement: ImportStatement = {
+      kind: tokens[0].value === "from" ? "from" : "import",
+      module: "",
+      names: [],
+      comments: [],
+      above,
+      trailingComma: false,
+    };
+
+    let index = 1;
+    if (statement.kind === "from") {
+      while (tokens[index].value !== "import") {
+        statement.module += tokens[index++].value;
+      }
+      index++;
+    }
+    const starts: number[] = [];
+    let current: ImportedName | undefined;
+    for (; index < tokens.length; index++) {
+      const value = tokens[index].value;
+      if (value === ",") {
+        current = undefined;
+        statement.trailingComma = tokens[index + 1]?.value === ")";
+      } else if (value === "as" && current) {
+        current.alias = tokens[++index].value;
+      } else if (value !== "(" && value !== ")") {
+        if (!current) {
+          current = { name: "", comments: [] };
+          statement.names.push(current);
+          starts.push(index);
+        }
+        current.name += value;
+      }
+    }
+
+    for (const comment of unit.comments) {
+      let previous = tokens.length - 1;
+      while (previous > 0 && tokens[previous].start > comment.start) {
+        previous--;
+      }
+      const ownLine = tokens[previous].line !== comment.line;
+      const owner = ownLine
+        ? starts.findIndex((start) => start > previous)
+        : previous === tokens.length - 1
+          ? statement.kind === "from" && statement.names.length === 1
+            ? 0
+            : -1
+          : ["(", ")"].includes(tokens[previous].value)
+            ? -1
+            : starts.filter((start) => start <= previous).length - 1;
+      if (owner >= 0) {
+        statement.names[owner].comments.push(comment.value);
+      } else {
+        statement.comments.push(comment.value);
+      }
+    }
+    return statement;
+  }
+
+  /**
+   * **Merge a statement into the imports of its section**
+   */
+  private addImport(
+    sections: Map<ImportSection, SectionImports>,
+    statement: ImportStatement
+  ): void {
+    const addUse = (use: ImportUse, imported: ImportedName): void => {
+      if (imported.alias) {
+        use.aliases.add(imported.alias);
+      } else {
+        use.plain = true;
+      }
+      use.comments.push(...imported.comments);
+    };
+
+    if (statement.kind === "import") {
+      statement.names.forEach((imported, position) => {
+        const modules = sections.get(this.place(imported.name))!.straight;
+        const use = modules.get(imported.name) ?? {
+          plain: false,
+          aliases: new Set<string>(),
+          comments: [],
+          above: [],
+        };
+        modules.set(imported.name, use);
+        if (position === 0) {
+          use.comments.push(...statement.comments);
+          use.above.push(...statement.above);
+        }
+        addUse(use, imported);
+      });
+      return;
+    }
+
+    const modules = sections.get(this.place(statement.module))!.from;
+    const entry = modules.get(statement.module) ?? {
+      star: false,
+      starComments: [],
+      names: new Map<string, ImportUse>(),
+      comments: [],
+      above: [],
+      trailingComma: false,
+    };
+    modules.set(statement.module, entry);
+    entry.above.push(...statement.above);
+    entry.trailingComma ||= statement.trailingComma;
+
+    for (const imported of statement.names) {
+      if (imported.name === "*") {
+        entry.star = true;
+        entry.starComments.push(...statement.comments, ...imported.comments);
+        continue;
+      }
+      const use = entry.names.get(imported.name) ?? {
+        plain: false,
+        aliases: new Set<string>(),
+        comments: [],
+      };
+      entry.names.set(imported.name, use);
+      addUse(use, imported);
+    }
+    if (
+      !entry.star ||
+      statement.names.some((imported) => imported.name !== "*")
+    ) {
+      entry.comments.push(...statement.comments);
+    }
+  }
+
+  /**
+   * **Find the section of a module**
+   * Known patterns win over the standard library, which wins over the
+   * project's own source folders; anything else is third party
+   */
+  private place(module: string): ImportSection {
+    if (module === "__future__") {
+      return "FUTURE";
+    }
+    if (module.startsWith(".")) {
+      return "LOCALFOLDER";
+    }
+    const parts = module.split(".");
+    for (let length = parts.length; length > 0; length--) {
+      const candidate = parts.slice(0, length).join(".");
+      for (const [section, patterns] of this.patterns) {
+        if (patterns.some((pattern) => pattern.test(candidate))) {
+          return section;
+        }
+      }
+      if (PYTHON_STDLIB_MODULES.has(candidate)) {
+        return "STDLIB";
+      }
+    }
+    return this.settings.sourceModules.includes(parts[0])
+      ? "FIRSTPARTY"
+      : "THIRDPARTY";
+  }
+
+  /**
+   * **Render the imports of one section**
+   * Straight imports come before `from` imports unless the section is
+   * sorted as a whole
+   */
+  private renderSection(
+    section: ImportSection,
+    imports: SectionImports
+  ): string[] {
+    const straight = this.sortBy([...imports.straight.keys()], (module) =>
+      this.moduleKey(module, false)
+    ).flatMap((module) =>
+      this.renderStraight(module, imports.straight.get(module)!)
+    );
+    const from = this.sortBy([...imports.from.keys()], (module) =>
+      this.moduleKey(module, false)
+    ).flatMap((module) => this.renderFrom(module, imports.from.get(module)!));
+
+    let rendered =
+      section === "FUTURE" ? [...from, ...straight] : [...straight, ...from];
+    if (this.settings.forceSortWithinSections) {
+      rendered = this.sortBy(rendered, (statement) =>
+        this.sectionKey(statement.sortLine)
+      );
+    }
+
+    const output: string[] = [];
+    for (const statement of rendered) {
+      for (const line of [...statement.above, ...statement.text.split("\n")]) {
+        const previous = output[output.length - 1];
+        if (
+          this.settings.ensureNewlineBeforeComments &&
+          line.startsWith("#") &&
+          previous &&
+          !previous.startsWith("#")
+        ) {
+          output.push("");
+        }
+        output.push(line);
+      }
+    }
+    return output;
+  }
+
+  private renderStraight(
+    module: string,
+    use: StraightModule
+  ): RenderedImport[] {
+    const lines = [
+      ...(use.plain ? [`import ${module}`] : []),
+      ...this.sortBy([...use.aliases], (alias) => alias).map(
+        (alias) => `import ${module} as ${alias}`
+      ),
+    ].map((line, index) => this.statement(line, index ? [] : use.comments));
+    lines[0].above = use.above;
+    return lines;
+  }
+
+  /**
+   * **Render the names imported from one module**
+   * Follows isort: aliased names and names with comments get lines of
+   * their own, the rest is grouped and wrapped
+   */
+  private renderFrom(module: string, entry: FromModule): RenderedImport[] {
+    const { settings } = this;
+    const start = `from ${module} import `;
+    const output: RenderedImport[] = [];
+    const names = this.sortBy([...entry.names.keys()], (name) =>
+      this.moduleKey(name, true)
+    );
+    const aliased = (name: string): string[] =>
+      this.sortBy([...entry.names.get(name)!.aliases], (alias) => alias).map(
+        (alias) => `${name} as ${alias}`
+      );
+    const renderAliased = (name: string, comments: string[]): void => {
+      const use = entry.names.get(name)!;
+      const lines = [...(use.plain ? [name] : []), ...aliased(name)];
+      lines.forEach((line, index) =>
+        output.push(this.statement(start + line, index ? [] : comments))
+      );
+    };
+    let comments = entry.comments;
+
+    if (entry.star) {
+      output.push(this.statement(`${start}*`, entry.starComments));
+    }
+    if (
+      settings.forceSingleLine &&
+      !settings.singleLineExclusions.includes(module)
+    ) {
+      for (const name of names) {
+        renderAliased(name, [...comments, ...entry.names.get(name)!.comments]);
+        comments = [];
+      }
+    } else {
+      // **Combined aliases are grouped as names of their own**
+      const rest = settings.combineAsImports
+        ? names.flatMap((name) => [
+            ...(entry.names.get(name)!.plain ? [name] : []),
+            ...aliased(name),
+          ])
+        : [...names];
+      const hasAlias = (name: string): boolean =>
+        !settings.combineAsImports && entry.names.get(name)!.aliases.size > 0;
+      const taken = new Set<string>();
+      const takeComments = (item: string): string[] => {
+        const name = item.split(" ")[0];
+        return taken.has(name) || !taken.add(name)
+          ? []
+          : entry.names.get(name)!.comments;
+      };
+
+      while (rest.length) {
+        let aliasedFirst = false;
+        while (rest.length && hasAlias(rest[0])) {
+          aliasedFirst = true;
+          const name = rest.shift()!;
+          renderAliased(name, takeComments(name));
+        }
+        for (const item of [...rest]) {
+          const name = item.split(" ")[0];
+          if (
+            hasAlias(item) ||
+            taken.has(name) ||
+            !entry.names.get(name)!.comments.length
+          ) {
+            continue;
+          }
+          rest.splice(rest.indexOf(item), 1);
+          const statementComments = rest.length ? [] : comments;
+          comments = rest.length ? comments : [];
+          output.push(
+            this.statement(start + item, [
+              ...statementComments,
+              ...takeComments(item),
+            ])
+          );
+        }
+        const group: string[] = [];
+        while (rest.length && !hasAlias(rest[0])) {
+          group.push(rest.shift()!);
+        }
+        if (group.length) {
+          output.push(
+            this.renderGroup(
+              start,
+              group,
+              comments,
+              entry.trailingComma,
+              aliasedFirst
+            )
+          );
+          comments = [];
+        }
+      }
+    }
+    const first = output[entry.star ? 1 : 0] ?? output[0];
+    if (comments.length && first) {
+      const [line, ...lines] = first.text.split("\n");
+      first.text = [
+        PythonImportSorter.withComments(comments, line),
+        ...lines,
+      ].join("\n");
+    }
+    if (output.length) {
+      output[0].above = entry.above;
+    }
+    return output;
+  }
+
+  /**
+   * **Render names that share one statement, wrapping it when needed**
+   * With `splitOnTrailingComma` a magic trailing comma explodes the
+   * statement one name per line, as Black does
+   */
+  private renderGroup(
+    start: string,
+    names: string[],
+    comments: string[],
+    trailingComma: boolean,
+    aliasedFirst: boolean
+  ): RenderedImport {
+    const { settings } = this;
+    const sortLine = start + names.join(", ");
+    const line = PythonImportSorter.withComments(comments, sortLine);
+    const tooLong = line.length > this.lineLength;
+    const multiline =
+      (settings.forceGridWrap > 0 && names.length >= settings.forceGridWrap) ||
+      (tooLong && names.length > 1) ||
+      (tooLong && ![0, 1].includes(settings.multiLineOutput));
+
+    let text = line;
+    if (
+      settings.splitOnTrailingComma &&
+      (trailingComma || (settings.includeTrailingComma && multiline)) &&
+      !aliasedFirst
+    ) {
+      text = this.wrap(start, names, comments, 3, true);
+    } else if (multiline) {
+      text = this.wrap(
+        start,
+        names,
+        comments,
+        settings.multiLineOutput,
+        settings.includeTrailingComma
+      );
+      if (
+        settings.multiLineOutput === 0 &&
+        text.split("\n").some((wrapped) => wrapped.length > this.lineLength)
+      ) {
+        text = this.wrap(
+          start,
+          names,
+          comments,
+          4,
+          settings.includeTrailingComma
+        );
+      }
+    }
+    return { text, above: [], sortLine };
+  }
+
+  /**
+   * **Wrap a statement in one of isort's multi line modes**
+   * Supports grid (0), vertical (1), vertical hanging indent (3) and the
+   * vertical grids (4, 5); other modes use vertical hanging indent
+   */
+  private wrap(
+    start: string,
+    names: string[],
+    comments: string[],
+    mode: number,
+    trailingComma: boolean
+  ): string {
+    const { indent } = this.settings;
+    const comma = trailingComma ? "," : "";
+    const [first, ...rest] = names;
+
+    if (mode === 0) {
+      const whitespace = " ".repeat(start.length + 1);
+      let statement = `${start}(${first}`;
+      let pending = comments;
+      for (const name of rest) {
+        const next = PythonImportSorter.withComments(
+          pending,
+          `${statement}, ${name}`
+        );
+        if (next.split("\n").pop()!.length + 1 > this.lineLength) {
+          statement = `${PythonImportSorter.withComments(pending, `${statement},`)}\n${whitespace}${name}`;
+          pending = [];
+        } else {
+          statement += `, ${name}`;
+        }
+      }
+      const [line, ...lines] = `${statement}${comma})`.split("\n");
+      return [PythonImportSorter.withComments(pending, line), ...lines].join(
+        "\n"
+      );
+    }
+    if (mode === 1) {
+      const whitespace = " ".repeat(start.length + 1);
+      const head = PythonImportSorter.withComments(comments, `${first},`);
+      return `${start}(${head}\n${whitespace}${rest.join(`,\n${whitespace}`)}${comma})`;
+    }
+    if (mode === 4 || mode === 5) {
+      let statement = `${start}${PythonImportSorter.withComments(comments, "(")}\n${indent}${first}`;
+      rest.forEach((name, index) => {
+        const next = `${statement}, ${name}`;
+        const last = index === rest.length - 1;
+        const length =
+          next.split("\n").pop()!.length +
+          (!last || trailingComma ? 1 : 0) +
+          (last && mode === 4 ? 1 : 0);
+        statement =
+          length > this.lineLength ? `${statement},\n${indent}${name}` : next;
+      });
+      return `${statement}${comma}${mode === 4 ? ")" : "\n)"}`;
+    }
+    const head = PythonImportSorter.withComments(comments, "");
+    return `${start}(${head}\n${indent}${names.join(`,\n${indent}`)}${comma}\n)`;
+  }
+
+  private statement(line: string, comments: string[]): RenderedImport {
+    return {
+      text: PythonImportSorter.withComments(comments, line),
+      above: [],
+      sortLine: line,
+    };
+  }
+
+  /**
+   * **Append comments to a line, joined the way isort joins them**
+   */
+  private static withComments(comments: string[], line: string): string {
+    const unique = [...new Set(comments)];
+    if (unique.length <= 1) {
+      return unique.length ? `${line}  ${unique[0]}` : line;
+    }
+    return `${line}  # ${unique.map((comment) => comment.replace(/^#\s*/, "")).join("; ")}`;
+  }
+
+  /**
+   * **Key of a module or imported name**
+   * With `orderByType` constants sort before classes before the rest
+   */
+  private moduleKey(name: string, imported: boolean): string {
+    const key = name.replace(/^(\.+)/, "$1_");
+    const isUpper = (value: string): boolean =>
+      value === value.toUpperCase() && value !== value.toLowerCase();
+    const prefix =
+      imported && this.settings.orderByType
+        ? isUpper(key) && key.length > 1
+          ? "A"
+          : isUpper(key.charAt(0))
+            ? "B"
+            : "C"
+        : "";
+    return prefix + (this.settings.caseSensitive ? key : key.toLowerCase());
+  }
+
+  /**
+   * **Key of a rendered statement when a section is sorted as a whole**
+   */
+  private sectionKey(line: string): string {
+    let key = line;
+    if (this.settings.groupByPackage && key.startsWith("from ")) {
+      key = key.split(" import ")[0];
+    }
+    key = this.settings.lexicographical
+      ? key.replace(/ import /g, ".").replace(/^(from|import) /, "")
+      : key.replace(/^from /, "").replace(/^import /, "");
+    return this.settings.orderByType ? key : key.toLowerCase();
+  }
+
+  /**
+   * **Sort naturally, so that `m2` comes before `m10`**
+   */
+  private sortBy<T>(values: T[], key: (value: T) => string): T[] {
+    const compare = (left: string, right: string): number => {
+      const a = left.split(/(\d+)/);
+      const b = right.split(/(\d+)/);
+      for (let index = 0; index < Math.min(a.length, b.length); index++) {
+        const difference =
+          index % 2
+            ? Number(a[index]) - Number(b[index])
+            : a[index] < b[index]
+              ? -1
+              : a[index] > b[index]
+                ? 1
+                : 0;
+        if (difference) {
+          return difference;
+        }
+      }
+      return a.length - b.length;
+    };
+    return values
+      .map((value) => ({ value, key: key(value) }))
+      .sort((left, right) => compare(left.key, right.key))
+      .map(({ value }) => value);
+  }
+}
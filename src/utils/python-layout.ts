@@ -0,0 +1,611 @@
+import { PythonToken } from "../types/python-tokens";
+import { PythonDocstringFormatter } from "./python-docstring";
+import { PythonDocstringStyle } from "./python-docstring-sections";
+import { PythonLineBuilder } from "./python-line-builder";
+import { PythonLineSplitter, PythonSplitContext } from "./python-line-splitter";
+import { PythonQuoteStyle, PythonStringNormalizer } from "./python-strings";
+import { PythonTokenizer } from "./python-tokenizer";
+
+/**
+ * **Options for laying out a Python document**
+ * `targetVersions` such as `py38` name the Python versions the code must run
+ * on; without them the versions are inferred from the syntax in use
+ */
+export interface PythonLayoutOptions {
+  maxLineLength: number;
+  indent: string;
+  tabSize: number;
+  languageId?: string;
+  skipMagicTrailingComma?: boolean;
+  targetVersions?: string[];
+  quoteStyle?: PythonQuoteStyle;
+  wrapDocstrings?: boolean;
+  docstringStyle?: PythonDocstringStyle | "preserve";
+}
+
+/**
+ * **Formatted statement or comment with what the blank line rules need**
+ * `before` is the number of blank lines printed above it and `after` the
+ * minimum number printed below it
+ */
+interface LayoutBlock {
+  kind: "comment" | "decorator" | "def" | "class" | "import" | "other";
+  depth: number;
+  first: string;
+  last: string;
+  opensBlock: boolean;
+  docstring: boolean;
+  stub: boolean;
+  before: number;
+  after: number;
+  lines: string[];
+  previous?: LayoutBlock;
+}
+
+const COMPOUND_KEYWORDS = new Set([
+  "if",
+  "elif",
+  "else",
+  "while",
+  "for",
+  "try",
+  "except",
+  "finally",
+  "with",
+  "def",
+  "class",
+  "async",
+]);
+
+const FMT_OFF = /^#\s*fmt:\s*off\s*$/;
+const FMT_ON = /^#\s*fmt:\s*on\s*$/;
+const FMT_SKIP = /^#\s*fmt:\s*skip\s*$/;
+
+/**
+ * **Lays out a Python document statement by statement**
+ *
+ * Splits compound statements and `;`-separated statements onto their own
+ * lines, places standalone comments, hands every logical line to the line
+ * splitter and applies Black's rules for blank lines between them.
+ * Regions between `# fmt: off` and `# fmt: on` and lines ending in
+ * `# fmt: skip` are kept as written.
+ */
+export class PythonLayout {
+  private readonly tokens: PythonToken[];
+  private readonly context: PythonSplitContext;
+  private readonly blocks: LayoutBlock[] = [];
+  private readonly previousDefs: LayoutBlock[] = [];
+  private leadingComment?: LayoutBlock;
+  private lastLine = 0;
+
+  private constructor(
+    private readonly text: string,
+    private readonly options: PythonLayoutOptions
+  ) {
+    this.tokens = PythonTokenizer.tokenize(text, options.languageId);
+    this.context = {
+      maxLineLength: options.maxLineLength,
+      indent: options.indent,
+      tabSize: options.tabSize,
+      varargTrailingComma: options.targetVersions?.length
+        ? options.targetVersions.every(
+            (version) => Number(/^py3(\d+)$/.exec(version)?.[1] ?? 0) >= 6
+          )
+        : this.tokens.some(
+            (token) =>
+              (token.type === "string" && /^[a-eg-z]*f/i.test(token.value)) ||
+              (token.type === "number" && token.value.includes("_")) ||
+              (token.type === "op" && token.value === ":=")
+          ),
+      magicTrailingComma: !options.skipMagicTrailingComma,
+    };
+  }
+
+  /**
+   * **Format a Python document**
+   * Throws a ParseError when the document cannot be tokenized
+   */
+  static format(text: string, options: PythonLayoutOptions): string {
+    return new PythonLayout(text.replace(/\r\n?/g, "\n"), options).run();
+  }
+
+  private run(): string {
+    const tokens = this.tokens;
+    const columns = [0];
+    let statement: PythonToken[] = [];
+    let comments: PythonToken[] = [];
+    let commentColumns: number[] = [];
+    let startsBlock = false;
+
+    const placeComments = (depth: number, indented: boolean): void => {
+      const deepest = commentColumns.length - 1;
+      for (const comment of comments) {
+        let level = indented ? depth : deepest;
+        while (level > depth && commentColumns[level] > comment.column - 1) {
+          level--;
+        }
+        this.addComment(comment, level);
+      }
+      comments = [];
+    };
+
+    for (let index = 0; index < tokens.length; index++) {
+      const token = tokens[index];
+      switch (token.type) {
+        case "indent":
+          columns.push(tokens[index + 1].column - 1);
+          break;
+        case "dedent":
+          columns.pop();
+          break;
+        case "nl":
+          if (statement.length > 0) {
+            statement.push(token);
+          }
+          break;
+        case "newline":
+          this.addStatement(statement, columns.length - 1, startsBlock);
+          statement = [];
+          break;
+        case "endmarker":
+          placeComments(0, false);
+          break;
+        case "comment":
+          if (statement.length > 0) {
+            statement.push(token);
+            break;
+          }
+          if (comments.length === 0) {
+            commentColumns = [...columns];
+          }
+          if (FMT_OFF.test(token.value.trim())) {
+            placeComments(0, false);
+            index = this.addVerbatimRegion(index, columns);
+            break;
+          }
+          comments.push(token);
+          break;
+        default:
+          if (statement.length === 0 && comments.length > 0) {
+            const depth = columns.length - 1;
+            placeComments(depth, depth >= commentColumns.length);
+          }
+          if (statement.length === 0) {
+            startsBlock = tokens[index - 1]?.type === "indent";
+          }
+          statement.push(token);
+      }
+    }
+
+    return this.render();
+  }
+
+  private addComment(token: PythonToken, depth: number): void {
+    const value = PythonLineBuilder.normalizeComment(token.value);
+    this.addBlock(
+      this.createBlock(
+        "comment",
+        depth,
+        [this.context.indent.repeat(depth) + value],
+        [value]
+      ),
+      this.takeBlankLines(token.line, token.line)
+    );
+  }
+
+  /**
+   * **Emit the region up to the matching `# fmt: on` as written**
+   * Returns the index of the last token of the region
+   */
+  private addVerbatimRegion(start: number, columns: number[]): number {
+    const tokens = this.tokens;
+    const depth = columns.length - 1;
+    let brackets = 0;
+    let end = tokens.length - 2;
+    for (let index = start + 1; index < tokens.length - 1; index++) {
+      const token = tokens[index];
+      if (token.type === "indent") {
+        columns.push(tokens[index + 1].column - 1);
+      } else if (token.type === "dedent") {
+        columns.pop();
+      } else if (token.type === "op" && "([{".includes(token.value)) {
+        brackets++;
+      } else if (token.type === "op" && ")]}".includes(token.value)) {
+        brackets--;
+      } else if (
+        token.type === "comment" &&
+        brackets === 0 &&
+        FMT_ON.test(token.value.trim()) &&
+        ["nl", "newline", "indent", "dedent"].includes(tokens[index - 1].type)
+      ) {
+        end = index;
+        break;
+      }
+    }
+
+    const first = tokens[start];
+    const last = tokens[end];
+    const lines = this.getSourceLines(first, last);
+    this.addBlock(
+      this.createBlock("other", depth, lines, [first.value, last.value]),
+      this.takeBlankLines(first.line, first.line + lines.length - 1)
+    );
+    return end;
+  }
+
+  /**
+   * **Format one logical line of tokens**
+   * Compound statements with an inline body and `;`-separated statements
+   * are broken up first. `startsBlock` tells whether the line is the first
+   * of an indented block
+   */
+  private addStatement(
+    tokens: PythonToken[],
+    depth: number,
+    startsBlock: boolean
+  ): void {
+    const first = tokens[0];
+    const last = tokens[tokens.length - 1];
+    if (!first) {
+      return;
+    }
+    const before = this.takeBlankLines(
+      first.line,
+      last.line + (last.value.match(/\n/g)?.length ?? 0)
+    );
+
+    if (last.type === "comment" && FMT_SKIP.test(last.value.trim())) {
+      const lines = this.getSourceLines(first, last);
+      const values = tokens.filter((token) => token.type !== "comment");
+      this.addBlock(
+        this.createBlock(
+          "other",
+          depth,
+          lines,
+          values.map((token) => token.value)
+        ),
+        before
+      );
+      return;
+    }
+
+    const isFirstStatement = this.blocks.every(
+      (block) => block.kind === "comment"
+    );
+    this.splitStatement(tokens, depth).forEach((part, index, parts) => {
+      const code = part.tokens.filter(
+        (token) => token.type !== "comment" && token.type !== "nl"
+      );
+      // **Black takes the first string of the module or of any block**
+      const isDocstring =
+        code.length === 1 &&
+        code[0].type === "string" &&
+        !/^[a-z]*[bft]/i.test(code[0].value) &&
+        (index === 0
+          ? startsBlock || isFirstStatement
+          : parts[0].depth < part.depth && index === 1);
+      const line = PythonLineBuilder.build(
+        part.tokens.map((token) =>
+          token.type === "string"
+            ? {
+                ...token,
+                value: this.formatString(token.value, part.depth, isDocstring),
+              }
+            : token
+        ),
+        part.depth
+      );
+      this.addBlock(
+        this.createBlock(
+          this.getKind(code),
+          part.depth,
+          PythonLineSplitter.split(line, this.context),
+          code.map((token) => token.value),
+          code.length === 1 && code[0].type === "string"
+        ),
+        index === 0 ? before : 0
+      );
+    });
+  }
+
+  private formatString(
+    value: string,
+    depth: number,
+    isDocstring: boolean
+  ): string {
+    const quoteStyle = this.options.quoteStyle ?? "preserve";
+    if (!isDocstring) {
+      return PythonStringNormalizer.normalize(value, quoteStyle);
+    }
+    return PythonDocstringFormatter.format(value, {
+      indent: this.context.indent.repeat(depth),
+      tabSize: this.context.tabSize,
+      maxLineLength: this.context.maxLineLength,
+      quoteStyle,
+      wrap: this.options.wrapDocstrings ?? false,
+      style: this.options.docstringStyle ?? "preserve",
+    });
+  }
+
+  private splitStatement(
+    tokens: PythonToken[],
+    depth: number
+  ): { tokens: PythonToken[]; depth: number }[] {
+    const parts: { tokens: PythonToken[]; depth: number }[] = [];
+    const isCode = (token: PythonToken): boolean =>
+      token.type !== "comment" && token.type !== "nl";
+    let body = tokens;
+    let level = depth;
+
+    const colon = this.findHeaderColon(tokens);
+    if (colon >= 0) {
+      const rest = tokens.slice(colon + 1).filter(isCode);
+      const isStub =
+        ["def", "class", "async"].includes(tokens[0].value) &&
+        rest.length === 1 &&
+        rest[0].value === "...";
+      if (rest.length > 0 && !isStub) {
+        parts.push({ tokens: tokens.slice(0, colon + 1), depth });
+        body = tokens.slice(colon + 1);
+        level = depth + 1;
+      }
+    }
+
+    let brackets = 0;
+    let current: PythonToken[] = [];
+    for (const token of body) {
+      if (token.type === "op" && "([{".includes(token.value)) {
+        brackets++;
+      } else if (token.type === "op" && ")]}".includes(token.value)) {
+        brackets--;
+      }
+      if (token.type === "op" && token.value === ";" && brackets === 0) {
+        parts.push({ tokens: current, depth: level });
+        current = [];
+      } else {
+        current.push(token);
+      }
+    }
+    // **Comments after a trailing `;` stay with the last statement**
+    if (current.some(isCode) || parts.length === 0) {
+      parts.push({ tokens: current, depth: level });
+    } else {
+      parts[parts.length - 1].tokens.push(...current);
+    }
+    return parts.filter((part) => part.tokens.some(isCode));
+  }
+
+  /**
+   * **Index of the colon ending a compound statement header, or -1**
+   */
+  private findHeaderColon(tokens: PythonToken[]): number {
+    const [first, second] = tokens;
+    const isSoftKeyword =
+      (first.value === "match" || first.value === "case") &&
+      second !== undefined &&
+      (second.type !== "op" || "([{-*~".includes(second.value));
+    if (
+      first.type !== "name" ||
+      (!COMPOUND_KEYWORDS.has(first.value) && !isSoftKeyword)
+    ) {
+      return -1;
+    }
+
+    let brackets = 0;
+    let lambdas = 0;
+    for (let index = 0; index < tokens.length; index++) {
+      const token = tokens[index];
+      if (token.type === "name" && token.value === "lambda" && !brackets) {
+        lambdas++;
+      } else if (token.type !== "op") {
+        continue;
+      } else if ("([{".includes(token.value)) {
+        brackets++;
+      } else if (")]}".includes(token.value)) {
+        brackets--;
+      } else if (token.value === "=" && !brackets && isSoftKeyword) {
+        return -1;
+      } else if (token.value === ":" && !brackets) {
+        if (lambdas === 0) {
+          return index;
+        }
+        lambdas--;
+      }
+    }
+    return -1;
+  }
+
+  private getKind(code: PythonToken[]): LayoutBlock["kind"] {
+    const [first, second] = code.map((token) => token.value);
+    if (first === "@") {
+      return "decorator";
+    }
+    if (first === "def" || (first === "async" && second === "def")) {
+      return "def";
+    }
+    if (first === "class") {
+      return "class";
+    }
+    return first === "import" || first === "from" ? "import" : "other";
+  }
+
+  private createBlock(
+    kind: LayoutBlock["kind"],
+    depth: number,
+    lines: string[],
+    values: string[],
+    isString = false
+  ): LayoutBlock {
+    const first = values[0] ?? "";
+    const last = values[values.length - 1] ?? "";
+    return {
+      kind,
+      depth,
+      first,
+      last,
+      opensBlock: last === ":",
+      docstring: isString && /^[a-z]*('''|""")/i.test(first),
+      stub:
+        (kind === "def" || kind === "class") &&
+        last === "..." &&
+        values[values.length - 2] === ":",
+      before: 0,
+      after: 0,
+      lines,
+    };
+  }
+
+  /**
+   * **Blank lines between the previous block and one on `line`**
+   * `endLine` is the last line of the new block
+   */
+  private takeBlankLines(line: number, endLine: number): number {
+    const blank = Math.max(0, line - this.lastLine - 1);
+    this.lastLine = endLine;
+    return blank;
+  }
+
+  private getSourceLines(first: PythonToken, last: PythonToken): string[] {
+    const start = this.text.lastIndexOf("\n", first.start - 1) + 1;
+    const end = this.text.indexOf("\n", last.end);
+    return this.text.slice(start, end < 0 ? undefined : end).split("\n");
+  }
+
+  private addBlock(block: LayoutBlock, blankLines: number): void {
+    const previous = this.blocks[this.blocks.length - 1];
+    if (previous) {
+      block.previous = previous;
+      this.setEmptyLines(
+        block,
+        Math.min(blankLines, block.depth === 0 ? 2 : 1),
+        previous
+      );
+    }
+
+    if (block.kind === "comment") {
+      if (
+        !previous ||
+        (previous.kind !== "decorator" &&
+          (!this.leadingComment || block.before > 0))
+      ) {
+        this.leadingComment = block;
+      }
+    } else if (block.kind !== "decorator") {
+      this.leadingComment = undefined;
+    }
+    if (block.kind === "def" || block.kind === "class") {
+      this.previousDefs.push(block);
+    }
+    this.blocks.push(block);
+  }
+
+  /**
+   * **Apply Black's blank line rules to a block**
+   * `before` is what the user wrote, already capped at two blank lines at
+   * the top level and one inside blocks
+   */
+  private setEmptyLines(
+    block: LayoutBlock,
+    before: number,
+    previous: LayoutBlock
+  ): void {
+    const userHadNewlines = before > 0;
+    const isDefinition = block.kind === "def" || block.kind === "class";
+    if (previous === this.blocks[0] && previous.docstring && !isDefinition) {
+      before = 1;
+    }
+
+    // **Statements after the body of a definition**
+    let lastDef = this.previousDefs[this.previousDefs.length - 1];
+    while (lastDef && lastDef.depth >= block.depth) {
+      if (block.depth > 0) {
+        before = 1;
+      } else if (
+        lastDef.depth > 0 &&
+        block.last === ":" &&
+        !["with", "try", "for", "while", "if", "match"].includes(block.first)
+      ) {
+        before = 1;
+      } else {
+        before = 2;
+      }
+      this.previousDefs.pop();
+      lastDef = this.previousDefs[this.previousDefs.length - 1];
+    }
+
+    if (isDefinition || block.kind === "decorator") {
+      block.before = this.getDefinitionEmptyLines(
+        block,
+        before,
+        previous,
+        userHadNewlines
+      );
+      return;
+    }
+
+    if (
+      previous.kind === "import" &&
+      block.kind !== "import" &&
+      block.depth === previous.depth
+    ) {
+      before = 1;
+    } else if (
+      previous.opensBlock &&
+      previous.depth < block.depth &&
+      block.docstring
+    ) {
+      before = 0;
+      block.after = previous.kind === "class" ? 1 : 0;
+    }
+    block.before = before;
+  }
+
+  private getDefinitionEmptyLines(
+    block: LayoutBlock,
+    before: number,
+    previous: LayoutBlock,
+    userHadNewlines: boolean
+  ): number {
+    const newlines = block.depth > 0 ? 1 : 2;
+    if (previous.kind === "decorator") {
+      return 0;
+    }
+    if (
+      previous.depth < block.depth &&
+      (previous.kind === "def" || previous.kind === "class")
+    ) {
+      return userHadNewlines ? 1 : 0;
+    }
+    if (
+      previous.kind === "comment" &&
+      previous.depth === block.depth &&
+      before === 0
+    ) {
+      // **Comments directly above a definition take its blank lines**
+      const comment = this.leadingComment;
+      if (
+        comment?.previous &&
+        comment.previous.kind !== "class" &&
+        !comment.previous.opensBlock &&
+        comment.before <= 1
+      ) {
+        comment.before = Math.max(comment.before, newlines);
+      }
+      return 0;
+    }
+    if (previous.stub && previous.depth === block.depth && !userHadNewlines) {
+      return 0;
+    }
+    return newlines;
+  }
+
+  private render(): string {
+    const output: string[] = [];
+    this.blocks.forEach((block, index) => {
+      const blank =
+        index === 0 ? 0 : Math.max(block.before, block.previous?.after ?? 0);
+      output.push(...new Array<string>(blank).fill(""), ...block.lines);
+    });
+    return output.length > 0 ? output.join("\n") + "\n" : "";
+  }
+}
@@ -0,0 +1,1104 @@
+import { PythonLeaf, PythonLine, PythonToken } from "../types/python-tokens";
+
+/**
+ * **Priorities of the delimiters a bracket body can be split at**
+ * Higher priorities split first
+ */
+export const DELIMITER_PRIORITY = {
+  comprehension: 20,
+  comma: 18,
+  ternary: 16,
+  logic: 14,
+  string: 12,
+  comparator: 10,
+  dot: 1,
+} as const;
+
+const MATH_PRIORITY: Record<string, number> = {
+  "|": 9,
+  "^": 8,
+  "&": 7,
+  "<<": 6,
+  ">>": 6,
+  "+": 5,
+  "-": 5,
+  "*": 4,
+  "/": 4,
+  "//": 4,
+  "%": 4,
+  "@": 4,
+  "**": 1,
+};
+
+const COMPARATORS = new Set(["<", ">", "==", "!=", "<=", ">=", "<>"]);
+
+const UNARY_OPERATORS = new Set(["-", "+", "~", "*", "**"]);
+
+/**
+ * **Reserved words; `True`, `False` and `None` are values, not keywords**
+ */
+const KEYWORDS = new Set([
+  "and",
+  "as",
+  "assert",
+  "async",
+  "await",
+  "break",
+  "class",
+  "continue",
+  "def",
+  "del",
+  "elif",
+  "else",
+  "except",
+  "finally",
+  "for",
+  "from",
+  "global",
+  "if",
+  "import",
+  "in",
+  "is",
+  "lambda",
+  "nonlocal",
+  "not",
+  "or",
+  "pass",
+  "raise",
+  "return",
+  "try",
+  "while",
+  "with",
+  "yield",
+]);
+
+/**
+ * **Builds the leaves of one logical line**
+ *
+ * Normalizes whitespace the way Black does, wraps right-hand sides and
+ * conditions in invisible parentheses the splitter can turn into real ones,
+ * and records the delimiter priorities used to split bracket bodies.
+ */
+export class PythonLineBuilder {
+  private leaves: PythonLeaf[] = [];
+  private readonly unary = new Set<PythonLeaf>();
+  private readonly lambdaColons = new Set<PythonLeaf>();
+  private readonly keywordEquals = new Set<PythonLeaf>();
+  private softKeyword = false;
+
+  private constructor() {}
+
+  /**
+   * **Build a logical line from the tokens of one statement**
+   * Leaves after a backslash continuation remember where they were written
+   */
+  static build(tokens: PythonToken[], depth: number): PythonLine {
+    const builder = new PythonLineBuilder();
+    builder.createLeaves(tokens);
+    builder.insertInvisibleParens();
+    builder.parenthesizeComprehensionTargets();
+    builder.wrapConditionalExpressions();
+    builder.annotate();
+    builder.assignPrefixes();
+    return { depth, leaves: builder.leaves, insideBrackets: false };
+  }
+
+  /**
+   * **Turn tokens into leaves, attaching comments**
+   * A comment on the line of the previous token trails that token; other
+   * comments inside brackets become standalone leaves
+   */
+  private createLeaves(tokens: PythonToken[]): void {
+    const column = tokens[0]?.column ?? 1;
+    tokens.forEach((token, index) => {
+      const last = this.leaves[this.leaves.length - 1];
+      if (token.type === "comment") {
+        const comment = PythonLineBuilder.normalizeComment(token.value);
+        if (last && index > 0 && tokens[index - 1].type !== "nl") {
+          last.comments.push(comment);
+        } else {
+          this.leaves.push(this.createLeaf("standalone", comment));
+        }
+        return;
+      }
+      if (!["name", "number", "string", "op"].includes(token.type)) {
+        return;
+      }
+
+      const leaf = this.createLeaf(
+        token.type,
+        token.type === "number"
+          ? PythonLineBuilder.normalizeNumber(token.value)
+          : token.value
+      );
+      if ("()[]{}".includes(token.value) && token.type === "op") {
+        leaf.bracket = token.value;
+      }
+      // **Only a backslash puts code on a new line without an nl token**
+      const previous = tokens[index - 1];
+      if (
+        previous &&
+        !["nl", "newline", "comment"].includes(previous.type) &&
+        token.line > previous.line + (previous.value.match(/\n/g)?.length ?? 0)
+      ) {
+        leaf.continuation = " ".repeat(Math.max(0, token.column - column));
+      }
+      this.leaves.push(leaf);
+    });
+  }
+
+  /**
+   * **Wrap statement children that may be split in invisible parentheses**
+   * Redundant parentheses around such children are removed first
+   */
+  private insertInvisibleParens(): void {
+    const depths = this.link();
+    const values = this.leaves.map((leaf) => leaf.value);
+    const find = (value: string, from = 0): number =>
+      values.findIndex(
+        (item, index) => index >= from && item === value && depths[index] === 0
+      );
+    const end = this.leaves.length;
+    const keyword = values[0] === "async" ? values[1] : values[0];
+    const ranges: [number, number, ("tuple" | "target")?][] = [];
+
+    switch (keyword) {
+      case "return":
+        ranges.push([1, end]);
+        break;
+      case "del":
+        ranges.push([1, end, "tuple"]);
+        break;
+      case "if":
+      case "elif":
+      case "while":
+        ranges.push([1, end - 1]);
+        break;
+      case "for": {
+        const index = find("in");
+        if (index > 0) {
+          ranges.push([values[0] === "async" ? 2 : 1, index, "target"]);
+          ranges.push([index + 1, end - 1]);
+        }
+        break;
+      }
+      case "assert": {
+        const comma = find(",");
+        ranges.push(comma > 0 ? [1, comma] : [1, end]);
+        if (comma > 0) {
+          ranges.push([comma + 1, end]);
+        }
+        break;
+      }
+      case "from":
+        this.wrapImportNames(find("import"));
+        return;
+      case "import":
+      case "def":
+      case "class":
+      case "with":
+        break;
+      default: {
+        const assignments = values
+          .map((value, index) => index)
+          .filter(
+            (index) =>
+              depths[index] === 0 &&
+              this.leaves[index].type === "op" &&
+              /^(?:[-+*/%&|^@]|\/\/|<<|>>|\*\*)?=$/.test(values[index]) &&
+              !this.isLambdaParameter(index, depths)
+          );
+        assignments.forEach((index, position) => {
+          ranges.push([
+            position === 0 ? 0 : assignments[position - 1] + 1,
+            index,
+            "target",
+          ]);
+          ranges.push([index + 1, assignments[position + 1] ?? end]);
+        });
+      }
+    }
+
+    for (const [start, stop, mode] of ranges.reverse()) {
+      if (stop <= start) {
+        continue;
+      }
+      if (mode === "target") {
+        this.normalizeTargetParens(start, stop);
+      } else {
+        this.wrapInInvisibleParens(start, stop, mode === "tuple");
+      }
+    }
+  }
+
+  /**
+   * **Hide redundant parentheses around assignment and loop targets**
+   * A bare one-tuple target gets visible ones instead and other bare tuples
+   * invisible ones, so a magic trailing comma can explode them
+   */
+  private normalizeTargetParens(start: number, stop: number): void {
+    const opening = this.leaves[start];
+    const closing = this.leaves[stop - 1];
+    if (
+      opening.bracket === "(" &&
+      closing.opening === opening &&
+      this.isRedundantAtom(start, stop, true)
+    ) {
+      opening.value = "";
+      closing.value = "";
+    } else if (this.isOneTuple(start, stop)) {
+      this.insertParens(start, stop, "(", ")");
+    } else if (this.countCommas(start, stop) > 0) {
+      this.insertParens(start, stop, "", "");
+    }
+  }
+
+  /**
+   * **Put parentheses around one-tuple targets of comprehension `for`s**
+   * `[x for x, in pairs]` becomes `[x for (x,) in pairs]`, as targets of
+   * `for` statements do
+   */
+  private parenthesizeComprehensionTargets(): void {
+    const depths = this.link();
+    for (let index = this.leaves.length - 1; index >= 0; index--) {
+      const leaf = this.leaves[index];
+      if (leaf.type !== "name" || leaf.value !== "for" || depths[index] === 0) {
+        continue;
+      }
+      const stop = this.leaves.findIndex(
+        (candidate, position) =>
+          position > index &&
+          candidate.type === "name" &&
+          candidate.value === "in" &&
+          depths[position] === depths[index]
+      );
+      if (stop > index + 1 && this.isOneTuple(index + 1, stop)) {
+        this.insertParens(index + 1, stop, "(", ")");
+      }
+    }
+  }
+
+  /**
+   * **Wrap `leaves[start..stop)` in invisible parentheses**
+   * Comments trailing the last wrapped leaf move to the closing parenthesis
+   */
+  private wrapInInvisibleParens(
+    start: number,
+    stop: number,
+    allowTuple = false
+  ): void {
+    const leaves = this.leaves;
+    if (stop - start === 1 && leaves[start].value.includes("\n")) {
+      return;
+    }
+
+    const opened: string[] = [];
+    const comments: string[] = [];
+    let redundant = false;
+    while (
+      leaves[start].bracket === "(" &&
+      leaves[stop - 1].opening === leaves[start] &&
+      this.isRedundantAtom(start, stop, allowTuple)
+    ) {
+      opened.push(...leaves[start].comments);
+      comments.push(...leaves[stop - 1].comments);
+      leaves.splice(stop - 1, 1);
+      leaves.splice(start, 1);
+      stop -= 2;
+      redundant = true;
+    }
+
+    // **Comments inside removed parentheses stay with the leaf before them,
+    // and those after an opening one keep their place in front**
+    if (stop - start === 1) {
+      leaves[start].comments.unshift(...opened);
+      leaves[start].comments.push(...comments.splice(0));
+    } else if (!redundant) {
+      comments.unshift(...leaves[stop - 1].comments.splice(0));
+    } else {
+      comments.unshift(...opened);
+    }
+    // **One-tuples are always parenthesized**
+    const visible = this.isOneTuple(start, stop);
+    const closing = this.insertParens(
+      start,
+      stop,
+      visible ? "(" : "",
+      visible ? ")" : ""
+    );
+    closing.comments = comments;
+  }
+
+  private insertParens(
+    start: number,
+    stop: number,
+    left: string,
+    right: string
+  ): PythonLeaf {
+    const opening = this.createLeaf("op", left);
+    const closing = this.createLeaf("op", right);
+    opening.bracket = "(";
+    closing.bracket = ")";
+    opening.kind = "atom";
+    closing.opening = opening;
+    this.leaves.splice(stop, 0, closing);
+    this.leaves.splice(start, 0, opening);
+    return closing;
+  }
+
+  /**
+   * **Whether `leaves[start..stop)` is a tuple of one unparenthesized item**
+   */
+  private isOneTuple(start: number, stop: number): boolean {
+    return (
+      this.countCommas(start, stop) === 1 && this.leaves[stop - 1].value === ","
+    );
+  }
+
+  private countCommas(start: number, stop: number): number {
+    let depth = 0;
+    let commas = 0;
+    for (const leaf of this.leaves.slice(start, stop)) {
+      if (this.isOpening(leaf)) {
+        depth++;
+      } else if (this.isClosing(leaf)) {
+        depth--;
+      } else if (depth === 0 && leaf.value === ",") {
+        commas++;
+      }
+    }
+    return commas;
+  }
+
+  /**
+   * **Whether parentheses around a statement child can be dropped**
+   * Generators, yield, starred and walrus expressions keep theirs, and so
+   * do tuples unless `allowTuple` is set; one-tuples always do
+   */
+  private isRedundantAtom(
+    start: number,
+    stop: number,
+    allowTuple = false
+  ): boolean {
+    const content = this.leaves.slice(start + 1, stop - 1);
+    if (
+      content.length === 0 ||
+      content[0].value === "yield" ||
+      (content[0].value === "*" && !allowTuple) ||
+      content.some((leaf) => leaf.type === "standalone")
+    ) {
+      return false;
+    }
+    let depth = 0;
+    let commas = 0;
+    for (const leaf of content) {
+      if (this.isOpening(leaf)) {
+        depth++;
+      } else if (this.isClosing(leaf)) {
+        depth--;
+      } else if (depth === 0 && leaf.value === ",") {
+        commas++;
+      } else if (depth === 0 && [":=", "for"].includes(leaf.value)) {
+        return false;
+      }
+    }
+    const isOneTuple =
+      commas === 1 && content[content.length - 1].value === ",";
+    return commas === 0 || (allowTuple && !isOneTuple);
+  }
+
+  /**
+   * **Hide or add the parentheses around the names of a `from` import**
+   */
+  private wrapImportNames(index: number): void {
+    const first = this.leaves[index + 1];
+    const last = this.leaves[this.leaves.length - 1];
+    if (index < 0 || !first || first.value === "*") {
+      return;
+    }
+    if (first.bracket === "(" && last.opening === first) {
+      first.value = "";
+      last.value = "";
+      first.kind = "import";
+      return;
+    }
+    this.wrapInInvisibleParens(index + 1, this.leaves.length);
+    if (this.leaves[index + 1].bracket === "(") {
+      this.leaves[index + 1].kind = "import";
+    }
+  }
+
+  /**
+   * **Record depths, bracket kinds, unary operators and split priorities**
+   * Like brackets, lambda parameters and `for` targets are one level deeper
+   * so they are never split at
+   */
+  private annotate(): void {
+    const leaves = this.leaves;
+    const first = leaves[0]?.value;
+    const stack: PythonLeaf[] = [];
+    const loops: number[] = [];
+    const lambdas: number[] = [];
+    const comprehensions = new Set<number>();
+    const isImport = first === "import" || first === "from";
+    let isDef =
+      first === "def" || (first === "async" && leaves[1]?.value === "def");
+    let depth = 0;
+    let previous: PythonLeaf | undefined;
+
+    this.softKeyword =
+      (first === "match" || first === "case") &&
+      leaves.length > 2 &&
+      leaves[leaves.length - 1].value === ":" &&
+      ![":", "=", ".", ","].includes(leaves[1].value);
+
+    leaves.forEach((leaf, index) => {
+      if (leaf.type === "standalone") {
+        leaf.depth = depth;
+        return;
+      }
+      const next = leaves[index + 1];
+      let loopIn = false;
+      if (
+        leaf.type === "name" &&
+        leaf.value === "in" &&
+        loops[loops.length - 1] === depth - 1
+      ) {
+        loops.pop();
+        depth--;
+        loopIn = true;
+      }
+      if (
+        leaf.type === "op" &&
+        leaf.value === ":" &&
+        lambdas[lambdas.length - 1] === depth - 1
+      ) {
+        lambdas.pop();
+        depth--;
+        this.lambdaColons.add(leaf);
+      }
+      if (this.isClosing(leaf)) {
+        depth--;
+        leaf.opening = stack.pop();
+        [...comprehensions]
+          .filter((level) => level > depth)
+          .forEach((level) => comprehensions.delete(level));
+      }
+      leaf.depth = depth;
+
+      const parent = stack[stack.length - 1];
+      const inArguments = parent?.kind === "call" || parent?.kind === "def";
+      if (
+        leaf.type === "op" &&
+        UNARY_OPERATORS.has(leaf.value) &&
+        this.isUnaryContext(previous)
+      ) {
+        this.unary.add(leaf);
+        leaf.vararg = leaf.value.startsWith("*") && inArguments;
+      }
+      if (
+        leaf.value === "/" &&
+        parent?.kind === "def" &&
+        (previous === parent || previous?.value === ",")
+      ) {
+        leaf.vararg = true;
+      }
+      if (
+        leaf.type === "op" &&
+        leaf.value === "=" &&
+        (lambdas[lambdas.length - 1] === depth - 1 ||
+          (inArguments && !this.isAnnotated(index, parent)))
+      ) {
+        this.keywordEquals.add(leaf);
+      }
+
+      if (leaf.type === "op" && leaf.value === ",") {
+        leaf.priority = DELIMITER_PRIORITY.comma;
+      }
+      if (previous) {
+        const priority = this.getSplitBeforePriority(leaf, previous, next, {
+          loopIn,
+          isImport,
+        });
+        if (
+          priority === DELIMITER_PRIORITY.comprehension &&
+          leaf.value !== "if"
+        ) {
+          comprehensions.add(depth);
+        }
+        previous.priority = Math.max(
+          previous.priority,
+          leaf.value === "if" && comprehensions.has(depth)
+            ? DELIMITER_PRIORITY.comprehension
+            : priority
+        );
+      }
+
+      if (this.isOpening(leaf)) {
+        if (!leaf.kind) {
+          const callee = previous !== undefined && this.isValue(previous);
+          if (leaf.bracket === "(" && isDef && callee && depth === 0) {
+            leaf.kind = "def";
+            isDef = false;
+          } else if (leaf.bracket === "{") {
+            leaf.kind = "atom";
+          } else if (leaf.bracket === "[") {
+            leaf.kind = callee ? "subscript" : "atom";
+          } else {
+            leaf.kind = callee ? "call" : "atom";
+          }
+        }
+        stack.push(leaf);
+        depth++;
+      }
+      if (leaf.type === "name" && leaf.value === "lambda") {
+        lambdas.push(depth);
+        depth++;
+      }
+      if (leaf.type === "name" && leaf.value === "for") {
+        loops.push(depth);
+        depth++;
+      }
+      previous = leaf;
+    });
+  }
+
+  /**
+   * **Priority of splitting right before `leaf`**
+   */
+  private getSplitBeforePriority(
+    leaf: PythonLeaf,
+    previous: PythonLeaf,
+    next: PythonLeaf | undefined,
+    context: { loopIn: boolean; isImport: boolean }
+  ): number {
+    if (leaf.vararg || this.unary.has(leaf)) {
+      return 0;
+    }
+    if (leaf.type === "string" && previous.type === "string") {
+      return DELIMITER_PRIORITY.string;
+    }
+    if (leaf.type === "op") {
+      if (leaf.value in MATH_PRIORITY) {
+        return MATH_PRIORITY[leaf.value];
+      }
+      if (COMPARATORS.has(leaf.value)) {
+        return DELIMITER_PRIORITY.comparator;
+      }
+      return leaf.value === "." && !context.isImport && this.isClosing(previous)
+        ? DELIMITER_PRIORITY.dot
+        : 0;
+    }
+    if (leaf.type !== "name") {
+      return 0;
+    }
+
+    switch (leaf.value) {
+      case "and":
+      case "or":
+        return DELIMITER_PRIORITY.logic;
+      case "in":
+        return context.loopIn || previous.value === "not"
+          ? 0
+          : DELIMITER_PRIORITY.comparator;
+      case "not":
+        return next?.value === "in" && previous.value !== "is"
+          ? DELIMITER_PRIORITY.comparator
+          : 0;
+      case "is":
+        return DELIMITER_PRIORITY.comparator;
+      case "for":
+        return previous.value === "async"
+          ? 0
+          : DELIMITER_PRIORITY.comprehension;
+      case "async":
+        return next?.value === "for" ? DELIMITER_PRIORITY.comprehension : 0;
+      case "if":
+      case "else":
+        return DELIMITER_PRIORITY.ternary;
+      default:
+        return 0;
+    }
+  }
+
+  /**
+   * **Compute the whitespace before every leaf**
+   */
+  private assignPrefixes(): void {
+    const leaves = this.leaves;
+    const { slices, complex } = this.findSliceColons();
+    const fromImport = leaves[0]?.value === "from";
+
+    leaves.forEach((leaf, index) => {
+      leaf.prefix =
+        index === 0
+          ? ""
+          : this.getPrefix(leaf, leaves[index - 1], {
+              fromImport,
+              slice: (colon) => slices.has(colon),
+              complex: (colon) => complex.has(colon),
+            });
+    });
+    leaves.forEach((leaf, index) => {
+      if (
+        leaf.type === "op" &&
+        leaf.value === "**" &&
+        !this.unary.has(leaf) &&
+        this.isSimplePowerOperand(index - 1, -1) &&
+        this.isSimplePowerOperand(index + 1, 1)
+      ) {
+        leaf.prefix = "";
+        leaves[index + 1].prefix = "";
+      }
+    });
+  }
+
+  private getPrefix(
+    leaf: PythonLeaf,
+    previous: PythonLeaf,
+    context: {
+      fromImport: boolean;
+      slice: (colon: PythonLeaf) => boolean;
+      complex: (colon: PythonLeaf) => boolean;
+    }
+  ): string {
+    if (leaf.type === "standalone") {
+      return "  ";
+    }
+    if (previous.type === "standalone") {
+      return "";
+    }
+
+    const value = leaf.value;
+    const before = previous.value;
+    const isDot = (text: string): boolean => text === "." || text === "...";
+    if (this.isClosing(leaf) || value === "," || value === ";") {
+      return "";
+    }
+    if (this.isOpening(previous)) {
+      return "";
+    }
+    if (before === ",") {
+      return " ";
+    }
+    if (context.fromImport && (isDot(value) || isDot(before))) {
+      return value === "import" || before === "from" ? " " : "";
+    }
+    if (value === ":") {
+      return context.slice(leaf) && context.complex(leaf) && before !== ":"
+        ? " "
+        : "";
+    }
+    if (before === ":") {
+      return !context.slice(previous) || context.complex(previous) ? " " : "";
+    }
+    if (this.keywordEquals.has(leaf) || this.keywordEquals.has(previous)) {
+      return "";
+    }
+    if (before === "@" && previous === this.leaves[0]) {
+      return "";
+    }
+    if (this.unary.has(previous)) {
+      const index = this.leaves.indexOf(previous);
+      return before === "*" && this.leaves[index - 1]?.value === "except"
+        ? " "
+        : "";
+    }
+    if (value === "*" && before === "except") {
+      return "";
+    }
+    if (value === ".") {
+      return previous.type === "number" && /^\d[\d_]*$/.test(before) ? " " : "";
+    }
+    if (before === ".") {
+      return "";
+    }
+    if ((value === "(" || value === "[") && this.isValue(previous)) {
+      return "";
+    }
+    return " ";
+  }
+
+  /**
+   * **Find the colons of slices and those in complex subscripts**
+   * A subscript element is complex when it holds more than names, literals
+   * and unary operators; its colons are then spaced like operators
+   */
+  private findSliceColons(): {
+    slices: Set<PythonLeaf>;
+    complex: Set<PythonLeaf>;
+  } {
+    const slices = new Set<PythonLeaf>();
+    const complex = new Set<PythonLeaf>();
+    const leaves = this.leaves;
+
+    leaves.forEach((opening, start) => {
+      if (opening.kind !== "subscript") {
+        return;
+      }
+      const inner = opening.depth + 1;
+      let colons: PythonLeaf[] = [];
+      let isComplex = false;
+      for (let index = start + 1; index < leaves.length; index++) {
+        const leaf = leaves[index];
+        if (
+          leaf.opening === opening ||
+          (leaf.depth === inner && leaf.value === ",")
+        ) {
+          colons.forEach((colon) => isComplex && complex.add(colon));
+          colons = [];
+          isComplex = false;
+          if (leaf.opening === opening) {
+            break;
+          }
+        } else if (
+          leaf.depth === inner &&
+          leaf.value === ":" &&
+          !this.lambdaColons.has(leaf)
+        ) {
+          slices.add(leaf);
+          colons.push(leaf);
+        } else if (this.isComplex(leaf)) {
+          isComplex = true;
+        }
+      }
+    });
+    return { slices, complex };
+  }
+
+  private isComplex(leaf: PythonLeaf): boolean {
+    if (leaf.type === "name") {
+      return ["and", "or", "not", "if", "lambda", "in", "is", "await"].includes(
+        leaf.value
+      );
+    }
+    if (this.unary.has(leaf)) {
+      return leaf.value === "*";
+    }
+    return (
+      leaf.type === "op" &&
+      (leaf.value in MATH_PRIORITY ||
+        COMPARATORS.has(leaf.value) ||
+        [".", ":="].includes(leaf.value) ||
+        leaf.kind === "call" ||
+        leaf.kind === "subscript")
+    );
+  }
+
+  /**
+   * **Whether the operand next to `**` is a name, number or attribute chain**
+   * `step` is -1 for the left operand and 1 for the right one
+   */
+  private isSimplePowerOperand(index: number, step: 1 | -1): boolean {
+    const leaves = this.leaves;
+    const isAtom = (leaf?: PythonLeaf): boolean =>
+      leaf?.type === "number" ||
+      (leaf?.type === "name" && !KEYWORDS.has(leaf.value));
+
+    if (step === 1 && this.unary.has(leaves[index])) {
+      index++;
+    }
+    if (!isAtom(leaves[index])) {
+      return false;
+    }
+    while (
+      leaves[index + step]?.value === "." &&
+      isAtom(leaves[index + 2 * step])
+    ) {
+      index += 2 * step;
+    }
+    const outside = leaves[index + step];
+    return step === 1
+      ? !["(", "[", "**"].includes(outside?.value ?? "")
+      : outside?.value !== ".";
+  }
+
+  private isUnaryContext(previous: PythonLeaf | undefined): boolean {
+    if (!previous || this.isOpening(previous)) {
+      return true;
+    }
+    if (previous.type === "op") {
+      return !this.isClosing(previous) && previous.value !== "...";
+    }
+    return (
+      previous.type === "name" &&
+      (KEYWORDS.has(previous.value) ||
+        (previous === this.leaves[0] && this.softKeyword))
+    );
+  }
+
+  /**
+   * **Whether a parameter `=` belongs to an annotated parameter**
+   */
+  private isAnnotated(index: number, parent: PythonLeaf): boolean {
+    const depth = parent.depth + 1;
+    for (let position = index - 1; position >= 0; position--) {
+      const leaf = this.leaves[position];
+      if (leaf === parent || (leaf.depth === depth && leaf.value === ",")) {
+        return false;
+      }
+      if (
+        leaf.depth === depth &&
+        leaf.value === ":" &&
+        !this.lambdaColons.has(leaf)
+      ) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  /**
+   * **Whether an `=` at the top level is a default of lambda parameters**
+   */
+  private isLambdaParameter(index: number, depths: number[]): boolean {
+    for (let position = index - 1; position >= 0; position--) {
+      const leaf = this.leaves[position];
+      if (depths[position] !== 0) {
+        continue;
+      }
+      if (leaf.value === ":" || leaf.value === "=") {
+        return false;
+      }
+      if (leaf.type === "name" && leaf.value === "lambda") {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  /**
+   * **Whether a leaf ends a value that can be called or subscripted**
+   */
+  private isValue(leaf: PythonLeaf): boolean {
+    if (leaf.type === "name") {
+      return (
+        !KEYWORDS.has(leaf.value) &&
+        !(leaf === this.leaves[0] && this.softKeyword)
+      );
+    }
+    return (
+      leaf.type === "string" || (this.isClosing(leaf) && leaf.value !== "")
+    );
+  }
+
+  /**
+   * **Link closing brackets to their openings and return bracket depths**
+   */
+  private link(): number[] {
+    const stack: PythonLeaf[] = [];
+    return this.leaves.map((leaf) => {
+      if (this.isClosing(leaf)) {
+        leaf.opening = stack.pop();
+        return stack.length;
+      }
+      const depth = stack.length;
+      if (this.isOpening(leaf)) {
+        stack.push(leaf);
+      }
+      return depth;
+    });
+  }
+
+  private isOpening(leaf: PythonLeaf): boolean {
+    return leaf.bracket === "(" || leaf.bracket === "[" || leaf.bracket === "{";
+  }
+
+  private isClosing(leaf: PythonLeaf): boolean {
+    return leaf.bracket === ")" || leaf.bracket === "]" || leaf.bracket === "}";
+  }
+
+  private createLeaf(type: PythonLeaf["type"], value: string): PythonLeaf {
+    return { type, value, prefix: "", depth: 0, priority: 0, comments: [] };
+  }
+
+  /**
+   * **Normalize a comment: one space after `#` unless it is special**
+   */
+  static normalizeComment(comment: string): string {
+    let content = comment.trimEnd().slice(1);
+    if (content.startsWith(" ") && !content.trimStart().startsWith("type:")) {
+      content = " " + content.slice(1);
+    }
+    if (content && !" !:#'".includes(content[0])) {
+      content = " " + content;
+    }
+    return "#" + content;
+  }
+
+  /**
+   * **Normalize the case and form of a numeric literal**
+   * Prefixes, exponents and suffixes are lower case, hex digits upper case
+   * and floats get a digit on both sides of the point
+   */
+  static normalizeNumber(value: string): string {
+    const text = value.toLowerCase();
+    const formatFloat = (number: string): string => {
+      if (!number.includes(".")) {
+        return number;
+      }
+      const [before, after] = number.split(".");
+      return `${before || "0"}.${after || "0"}`;
+    };
+
+    if (text.startsWith("0b") || text.startsWith("0o")) {
+      return text;
+    }
+    if (text.startsWith("0x")) {
+      return "0x" + text.slice(2).toUpperCase();
+    }
+    if (text.includes("e")) {
+      const [before, exponent] = text.split("e");
+      const sign = exponent.startsWith("-") ? "-" : "";
+      return `${formatFloat(before)}e${sign}${exponent.replace(/^[+-]/, "")}`;
+    }
+    if (text.endsWith("j")) {
+      return formatFloat(text.slice(0, -1)) + "j";
+    }
+    return formatFloat(text);
+  }
+
+  /**
+   * **Wrap conditional expressions in invisible parentheses**
+   * Not when they already fill a pair of parentheses on their own
+   */
+  private wrapConditionalExpressions(): void {
+    const ranges: [PythonLeaf, PythonLeaf][] = [];
+    this.leaves.forEach((leaf, index) => {
+      if (leaf.type !== "name" || leaf.value !== "if" || index === 0) {
+        return;
+      }
+      const otherwise = this.findTernaryElse(index);
+      if (otherwise < 0) {
+        return;
+      }
+      let start = this.findTernaryStart(index);
+      while (this.leaves[start].type === "standalone") {
+        start++;
+      }
+      const stop = this.findTernaryStop(otherwise);
+      const before = this.leaves[start - 1];
+      const after = this.leaves[stop];
+      if (
+        before?.bracket !== "(" ||
+        !after ||
+        !this.isClosing(after) ||
+        this.findClosing(start - 1) !== stop
+      ) {
+        ranges.push([this.leaves[start], this.leaves[stop - 1]]);
+      }
+    });
+    ranges.reverse().forEach(([first, last]) => {
+      const start = this.leaves.indexOf(first);
+      const stop = this.leaves.indexOf(last) + 1;
+      this.insertParens(start, stop, "", "");
+    });
+  }
+
+  private findTernaryElse(index: number): number {
+    let nesting = 0;
+    for (let next = index + 1; next < this.leaves.length; next++) {
+      const leaf = this.leaves[next];
+      if (this.isOpening(leaf)) {
+        nesting++;
+      } else if (this.isClosing(leaf)) {
+        if (nesting-- === 0) {
+          return -1;
+        }
+      } else if (nesting === 0) {
+        if (leaf.value === "else" && leaf.type === "name") {
+          return next;
+        }
+        if ([",", ":", "for", "async", "if", "lambda"].includes(leaf.value)) {
+          return -1;
+        }
+      }
+    }
+    return -1;
+  }
+
+  private findTernaryStart(index: number): number {
+    let nesting = 0;
+    for (let previous = index - 1; previous >= 0; previous--) {
+      const leaf = this.leaves[previous];
+      if (this.isClosing(leaf)) {
+        nesting++;
+      } else if (this.isOpening(leaf)) {
+        if (nesting-- === 0) {
+          return previous + 1;
+        }
+      } else if (nesting === 0 && this.isTernaryBoundary(previous)) {
+        return previous + 1;
+      }
+    }
+    return 0;
+  }
+
+  private findTernaryStop(index: number): number {
+    let nesting = 0;
+    let lambdas = 0;
+    for (let next = index + 1; next < this.leaves.length; next++) {
+      const leaf = this.leaves[next];
+      if (this.isOpening(leaf)) {
+        nesting++;
+      } else if (this.isClosing(leaf)) {
+        if (nesting-- === 0) {
+          return next;
+        }
+      } else if (nesting === 0) {
+        if (leaf.value === "lambda" && leaf.type === "name") {
+          lambdas++;
+        } else if (leaf.value === ":" && lambdas > 0) {
+          lambdas--;
+        } else if (
+          [",", ":", ";", "for", "async", "as", "from"].includes(leaf.value)
+        ) {
+          return next;
+        }
+      }
+    }
+    return this.leaves.length;
+  }
+
+  private isTernaryBoundary(index: number): boolean {
+    const leaf = this.leaves[index];
+    if (leaf.type === "name") {
+      return [
+        "if",
+        "elif",
+        "else",
+        "while",
+        "for",
+        "in",
+        "return",
+        "yield",
+        "assert",
+        "del",
+        "raise",
+        "from",
+        "lambda",
+        "with",
+      ].includes(leaf.value);
+    }
+    if (leaf.value === "*" || leaf.value === "**") {
+      const previous = this.leaves[index - 1];
+      return !previous || this.isOpening(previous) || previous.value === ",";
+    }
+    return (
+      leaf.type === "op" &&
+      /^(?:,|:|:=|->|;|(?:[-+*/%&|^@]|\/\/|<<|>>|\*\*)?=)$/.test(leaf.value)
+    );
+  }
+
+  private findClosing(index: number): number {
+    let nesting = 0;
+    for (let next = index; next < this.leaves.length; next++) {
+      if (this.isOpening(this.leaves[next])) {
+        nesting++;
+      } else if (this.isClosing(this.leaves[next]) && --nesting === 0) {
+        return next;
+      }
+    }
+    return -1;
+  }
+}
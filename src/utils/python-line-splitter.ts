@@ -0,0 +1,930 @@
+import { PythonLeaf, PythonLine } from "../types/python-tokens";
+import { DELIMITER_PRIORITY } from "./python-line-builder";
+
+/**
+ * **Settings shared by all splits of one document**
+ * `varargTrailingComma` allows a trailing comma after `*args` and `**kwargs`,
+ * which only newer Python versions accept. Without `magicTrailingComma`
+ * pre-existing trailing commas are dropped instead of exploding brackets
+ */
+export interface PythonSplitContext {
+  maxLineLength: number;
+  indent: string;
+  tabSize: number;
+  varargTrailingComma: boolean;
+  magicTrailingComma: boolean;
+}
+
+/**
+ * **Result of splitting a line at one bracket pair**
+ */
+interface BracketSplit {
+  head: PythonLine;
+  body: PythonLine;
+  tail: PythonLine;
+  opening: PythonLeaf;
+  closing: PythonLeaf;
+}
+
+const WIDE_CHARACTER =
+  /[\u1100-\u115f\u2e80-\u303e\u3041-\u33ff\u3400-\u4dbf\u4e00-\u9fff\ua000-\ua4cf\uac00-\ud7a3\uf900-\ufaff\ufe30-\ufe4f\uff00-\uff60\uffe0-\uffe6\u{1f300}-\u{1f64f}\u{1f900}-\u{1f9ff}\u{20000}-\u{3fffd}]/u;
+const COMBINING_CHARACTER = /\p{Mn}/u;
+
+type Transform = (line: PythonLine, forceParens: boolean) => PythonLine[];
+
+/**
+ * **Raised when a transform cannot improve a line**
+ */
+class CannotSplit extends Error {}
+
+/**
+ * **Splits logical lines that do not fit the line length**
+ *
+ * Follows Black's algorithm: definitions split at their first bracket,
+ * other statements at their last one, and bracket bodies at their
+ * lowest-priority delimiters. Invisible parentheses around right-hand
+ * sides become visible only when omitting them does not help.
+ */
+export class PythonLineSplitter {
+  private readonly madeVisible = new Set<PythonLeaf>();
+
+  private constructor(private readonly context: PythonSplitContext) {}
+
+  /**
+   * **Split a logical line into rendered physical lines**
+   */
+  static split(line: PythonLine, context: PythonSplitContext): string[] {
+    const splitter = new PythonLineSplitter(context);
+    // **Like Black, keep lines continued with a backslash as written**
+    if (line.leaves.some((leaf) => leaf.continuation !== undefined)) {
+      return [splitter.render(line)];
+    }
+    const target = context.magicTrailingComma
+      ? line
+      : splitter.removeMagicTrailingCommas(line);
+    return splitter.transformLine(target).map((part) => splitter.render(part));
+  }
+
+  private transformLine(line: PythonLine): PythonLine[] {
+    const text = this.render(line);
+    if (
+      !line.forceSplit &&
+      !this.hasMagicTrailingComma(line) &&
+      this.isShort(line, text)
+    ) {
+      return [line];
+    }
+
+    const transforms: Transform[] = this.isDef(line)
+      ? [(target) => this.leftHandSplit(target)]
+      : line.insideBrackets
+        ? [
+            (target) => this.delimiterSplit(target),
+            (target) => this.standaloneCommentSplit(target),
+            (target, force) => this.rightHandSplit(target, force),
+          ]
+        : [(target, force) => this.rightHandSplit(target, force)];
+
+    for (const [index, transform] of transforms.entries()) {
+      try {
+        return this.runTransform(
+          line,
+          transform,
+          text,
+          index === transforms.length - 1 && !this.isDef(line)
+        );
+      } catch (error) {
+        if (!(error instanceof CannotSplit)) {
+          throw error;
+        }
+      }
+    }
+    return [line];
+  }
+
+  /**
+   * **Apply a transform and recursively split its results**
+   * A right-hand split that leaves the first line too long is retried with
+   * the optional parentheses kept, and that result wins if everything fits
+   */
+  private runTransform(
+    line: PythonLine,
+    transform: Transform,
+    text: string,
+    isRightHandSplit: boolean,
+    forceParens = false
+  ): PythonLine[] {
+    const invisible = line.leaves.filter(
+      (leaf) => leaf.bracket !== undefined && leaf.value === ""
+    );
+    this.madeVisible.clear();
+    const parts = transform(line, forceParens);
+    const shownParens = invisible.some((leaf) => this.madeVisible.has(leaf));
+
+    const result: PythonLine[] = [];
+    for (const part of parts) {
+      if (this.render(part) === text) {
+        throw new CannotSplit();
+      }
+      result.push(...this.transformLine(part));
+    }
+
+    if (
+      !isRightHandSplit ||
+      forceParens ||
+      invisible.length === 0 ||
+      shownParens ||
+      line.leaves.some((leaf) => leaf.value.includes("\n")) ||
+      this.isShort(result[0])
+    ) {
+      return result;
+    }
+    try {
+      const secondOpinion = this.runTransform(
+        line,
+        transform,
+        text,
+        isRightHandSplit,
+        true
+      );
+      return secondOpinion.every((part) => this.isShort(part))
+        ? secondOpinion
+        : result;
+    } catch (error) {
+      if (error instanceof CannotSplit) {
+        return result;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * **Split at the last bracket pair, omitting trailers that fit**
+   */
+  private rightHandSplit(line: PythonLine, forceParens: boolean): PythonLine[] {
+    for (const omit of this.generateTrailersToOmit(line)) {
+      const lines = this.maybeSplitOmittingParens(
+        this.firstRightHandSplit(line, omit),
+        line,
+        omit,
+        forceParens
+      );
+      if (this.isShort(lines[0])) {
+        return lines;
+      }
+    }
+    return this.maybeSplitOmittingParens(
+      this.firstRightHandSplit(line, new Set()),
+      line,
+      new Set(),
+      forceParens
+    );
+  }
+
+  /**
+   * **Sets of trailing bracket pairs to keep on the last line**
+   * Pairs with a trailing comma are never omitted since they must explode
+   */
+  private *generateTrailersToOmit(
+    line: PythonLine
+  ): Generator<Set<PythonLeaf>> {
+    const omit = new Set<PythonLeaf>();
+    if (!this.hasMagicTrailingComma(line)) {
+      yield new Set(omit);
+    }
+
+    let length = this.indentWidth(line.depth);
+    let opening: PythonLeaf | undefined;
+    let closing: PythonLeaf | undefined;
+    const inner: PythonLeaf[] = [];
+    for (let index = line.leaves.length - 1; index >= 0; index--) {
+      const leaf = line.leaves[index];
+      length += this.leafWidth(leaf);
+      if (length > this.context.maxLineLength) {
+        break;
+      }
+      if (opening) {
+        if (leaf === opening) {
+          opening = undefined;
+        } else if (this.isClosing(leaf)) {
+          inner.push(leaf);
+        }
+      } else if (this.isClosing(leaf)) {
+        const previous = line.leaves[index - 1];
+        if (previous && this.isOpening(previous)) {
+          inner.push(leaf);
+          continue;
+        }
+        if (closing) {
+          omit.add(closing);
+          inner.splice(0).forEach((bracket) => omit.add(bracket));
+          yield new Set(omit);
+        }
+        if (previous?.value === ",") {
+          break;
+        }
+        if (leaf.value) {
+          opening = leaf.opening;
+          closing = leaf;
+        }
+      }
+    }
+  }
+
+  /**
+   * **Split around the last bracket pair that is not omitted**
+   */
+  private firstRightHandSplit(
+    line: PythonLine,
+    omit: Set<PythonLeaf>
+  ): BracketSplit {
+    const tail: PythonLeaf[] = [];
+    const body: PythonLeaf[] = [];
+    const head: PythonLeaf[] = [];
+    let current = tail;
+    let opening: PythonLeaf | undefined;
+    let closing: PythonLeaf | undefined;
+
+    for (let index = line.leaves.length - 1; index >= 0; index--) {
+      const leaf = line.leaves[index];
+      if (current === body && leaf === opening) {
+        current = body.length > 0 ? head : tail;
+      }
+      current.push(leaf);
+      if (current === tail && this.isClosing(leaf) && !omit.has(leaf)) {
+        opening = leaf.opening;
+        closing = leaf;
+        current = body;
+      }
+    }
+    if (!opening || !closing || head.length === 0) {
+      throw new CannotSplit();
+    }
+
+    return this.buildSplit(
+      line,
+      head.reverse(),
+      body.reverse(),
+      tail.reverse(),
+      opening,
+      closing
+    );
+  }
+
+  /**
+   * **Prefer splitting inside optional parentheses over showing them**
+   */
+  private maybeSplitOmittingParens(
+    split: BracketSplit,
+    line: PythonLine,
+    omit: Set<PythonLeaf>,
+    forceParens: boolean
+  ): PythonLine[] {
+    if (
+      !forceParens &&
+      split.opening.value === "" &&
+      split.closing.value === "" &&
+      !this.isImport(line) &&
+      this.canOmitInvisibleParens(split)
+    ) {
+      const wider = new Set(omit).add(split.closing);
+      try {
+        const omitted = this.firstRightHandSplit(line, wider);
+        if (this.preferSplitOmittingParens(omitted, split)) {
+          return this.maybeSplitOmittingParens(
+            omitted,
+            line,
+            wider,
+            forceParens
+          );
+        }
+      } catch (error) {
+        if (
+          !(error instanceof CannotSplit) ||
+          !(this.canBeSplit(split.body) || this.isShort(split.body))
+        ) {
+          throw error;
+        }
+      }
+    }
+
+    return this.showParens(split).filter((part) => part.leaves.length > 0);
+  }
+
+  /**
+   * **Decide whether the split omitting optional parentheses reads better**
+   * Only assignments whose target contains brackets need a closer look
+   */
+  private preferSplitOmittingParens(
+    omitted: BracketSplit,
+    split: BracketSplit
+  ): boolean {
+    const head = split.head.leaves;
+    if (head.length < 2 || head[head.length - 2].value !== "=") {
+      return true;
+    }
+    if (!head.slice(0, -1).some((leaf) => leaf.bracket !== undefined)) {
+      return true;
+    }
+    if (!this.isShort(split.head, undefined, 1)) {
+      return true;
+    }
+    // **A magic trailing comma explodes the target anyway**
+    if (this.hasMagicTrailingComma(split.head)) {
+      return true;
+    }
+
+    for (const leaf of [...omitted.head.leaves].reverse()) {
+      if (leaf.value === "=") {
+        break;
+      }
+      if (this.isClosing(leaf)) {
+        return true;
+      }
+    }
+    return (
+      omitted.head.leaves.some((leaf) => leaf.value === "=") &&
+      this.isShort(omitted.head)
+    );
+  }
+
+  /**
+   * **Decide whether optional parentheses can stay invisible**
+   */
+  private canOmitInvisibleParens(split: BracketSplit): boolean {
+    const line = split.body;
+    // **Standalone comments outside nested brackets need the parentheses**
+    let closing: PythonLeaf | undefined;
+    for (const leaf of [...line.leaves].reverse()) {
+      if (closing && leaf === closing.opening) {
+        closing = undefined;
+      }
+      if (leaf.type === "standalone" && !closing) {
+        return false;
+      }
+      if (
+        !closing &&
+        leaf.value &&
+        this.isClosing(leaf) &&
+        line.leaves.includes(leaf.opening!)
+      ) {
+        closing = leaf;
+      }
+    }
+
+    const delimiters = this.getDelimiters(line);
+    if (delimiters.length === 0) {
+      return true;
+    }
+    const max = Math.max(...delimiters.map((leaf) => leaf.priority));
+    if (delimiters.filter((leaf) => leaf.priority === max).length > 1) {
+      return false;
+    }
+    if (max === DELIMITER_PRIORITY.dot) {
+      return true;
+    }
+
+    const [first, second] = line.leaves;
+    if (
+      this.isOpening(first) &&
+      second &&
+      !this.isClosing(second) &&
+      this.canOmitOpeningParen(line, first)
+    ) {
+      return true;
+    }
+    const penultimate = line.leaves[line.leaves.length - 2];
+    const last = line.leaves[line.leaves.length - 1];
+    if (
+      last.bracket === ")" ||
+      last.bracket === "}" ||
+      (last.bracket === "]" && last.opening?.kind !== "subscript")
+    ) {
+      if (this.isOpening(penultimate)) {
+        return false;
+      }
+      if (first.type === "string" && first.value.includes("\n")) {
+        return true;
+      }
+      return this.canOmitClosingParen(line, last);
+    }
+    return false;
+  }
+
+  /**
+   * **Whether everything after the first bracket pair fits**
+   */
+  private canOmitOpeningParen(line: PythonLine, first: PythonLeaf): boolean {
+    let remainder = false;
+    let length = this.indentWidth(line.depth);
+    for (const leaf of line.leaves) {
+      if (leaf.opening === first) {
+        remainder = true;
+      }
+      if (remainder) {
+        length += this.leafWidth(leaf);
+        if (length > this.context.maxLineLength) {
+          return false;
+        }
+        if (this.isOpening(leaf)) {
+          remainder = false;
+        }
+      }
+    }
+    return true;
+  }
+
+  /**
+   * **Whether everything up to the last bracket pair fits**
+   */
+  private canOmitClosingParen(line: PythonLine, last: PythonLeaf): boolean {
+    let length = this.indentWidth(line.depth);
+    let seenOtherBrackets = false;
+    for (const leaf of line.leaves) {
+      length += this.leafWidth(leaf);
+      if (leaf === last.opening) {
+        return seenOtherBrackets || length <= this.context.maxLineLength;
+      }
+      if (this.isOpening(leaf)) {
+        seenOtherBrackets = true;
+      }
+    }
+    return false;
+  }
+
+  /**
+   * **Split a definition at its first bracket pair**
+   */
+  private leftHandSplit(line: PythonLine): PythonLine[] {
+    const head: PythonLeaf[] = [];
+    const body: PythonLeaf[] = [];
+    const tail: PythonLeaf[] = [];
+    let current = head;
+    let opening: PythonLeaf | undefined;
+    let closing: PythonLeaf | undefined;
+
+    for (const leaf of line.leaves) {
+      if (
+        current === body &&
+        leaf.opening === opening &&
+        this.isClosing(leaf)
+      ) {
+        closing = leaf;
+        current = body.length > 0 ? tail : head;
+      }
+      current.push(leaf);
+      if (current === head && this.isOpening(leaf)) {
+        opening = leaf;
+        current = body;
+      }
+    }
+    if (!opening || !closing || tail.length === 0) {
+      throw new CannotSplit();
+    }
+
+    const split = this.buildSplit(line, head, body, tail, opening, closing);
+    return this.showParens(split).filter((part) => part.leaves.length > 0);
+  }
+
+  /**
+   * **Split a bracket body after each of its lowest-priority delimiters**
+   */
+  private delimiterSplit(line: PythonLine): PythonLine[] {
+    const last = line.leaves[line.leaves.length - 1];
+    const delimiters = this.getDelimiters(line).filter((leaf) => leaf !== last);
+    if (delimiters.length === 0) {
+      throw new CannotSplit();
+    }
+    const max = Math.max(...delimiters.map((leaf) => leaf.priority));
+    const splitAfter = new Set(
+      delimiters.filter((leaf) => leaf.priority === max)
+    );
+    if (max === DELIMITER_PRIORITY.dot && splitAfter.size === 1) {
+      throw new CannotSplit();
+    }
+
+    // **Comments after an operator move up to the line the operand ends**
+    const migrate =
+      max !== DELIMITER_PRIORITY.comma && max !== DELIMITER_PRIORITY.string;
+    const lowest = Math.min(...line.leaves.map((leaf) => leaf.depth));
+    const leaves = [...line.leaves];
+    let trailingCommaSafe = true;
+    const segments: PythonLeaf[][] = [[]];
+    leaves.forEach((leaf, index) => {
+      const next = leaves[index + 1];
+      if (migrate && splitAfter.has(leaf) && next?.comments.length > 0) {
+        leaf = { ...leaf, comments: [...leaf.comments, ...next.comments] };
+        leaves[index + 1] = { ...next, comments: [] };
+      }
+      this.appendSafe(segments, leaf);
+      if (leaf.depth === lowest && leaf.vararg) {
+        trailingCommaSafe &&= this.context.varargTrailingComma;
+      }
+      if (splitAfter.has(line.leaves[index])) {
+        segments.push([]);
+      }
+    });
+
+    const current = segments[segments.length - 1];
+    if (
+      current.length > 0 &&
+      trailingCommaSafe &&
+      max === DELIMITER_PRIORITY.comma &&
+      last.value !== "," &&
+      last.type !== "standalone"
+    ) {
+      current.push(this.createComma(lowest));
+    }
+    return segments
+      .filter((leaves) => leaves.length > 0)
+      .map((leaves) => ({ ...line, leaves, forceSplit: false }));
+  }
+
+  /**
+   * **Put comments that stand on their own line inside brackets apart**
+   */
+  private standaloneCommentSplit(line: PythonLine): PythonLine[] {
+    if (!line.leaves.some((leaf) => leaf.type === "standalone")) {
+      throw new CannotSplit();
+    }
+    const segments: PythonLeaf[][] = [[]];
+    line.leaves.forEach((leaf) => this.appendSafe(segments, leaf));
+    return segments
+      .filter((leaves) => leaves.length > 0)
+      .map((leaves) => ({ ...line, leaves, forceSplit: false }));
+  }
+
+  /**
+   * **Append a leaf, starting a new segment around standalone comments**
+   */
+  private appendSafe(segments: PythonLeaf[][], leaf: PythonLeaf): void {
+    const current = segments[segments.length - 1];
+    const open = current.reduce(
+      (depth, item) =>
+        depth + (this.isOpening(item) ? 1 : this.isClosing(item) ? -1 : 0),
+      0
+    );
+    if (
+      open <= 0 &&
+      current.length > 0 &&
+      (leaf.type === "standalone" ||
+        (current.length === 1 && current[0].type === "standalone"))
+    ) {
+      segments.push([leaf]);
+    } else {
+      current.push(leaf);
+    }
+  }
+
+  /**
+   * **Build the lines of a bracket split**
+   * Bodies of imports and of definitions without commas get a trailing
+   * comma; collection bodies with commas are exploded one item per line
+   */
+  private buildSplit(
+    line: PythonLine,
+    head: PythonLeaf[],
+    body: PythonLeaf[],
+    tail: PythonLeaf[],
+    opening: PythonLeaf,
+    closing: PythonLeaf
+  ): BracketSplit {
+    const leaves = [...body];
+    const addComma =
+      this.isImport(line) ||
+      (this.isDef(line) &&
+        opening.kind === "def" &&
+        !leaves.some((leaf) => leaf.value === ","));
+    const lastCode = leaves
+      .map((leaf) => leaf.type !== "standalone")
+      .lastIndexOf(true);
+    if (addComma && lastCode >= 0 && leaves[lastCode].value !== ",") {
+      leaves.splice(lastCode + 1, 0, this.createComma(opening.depth + 1));
+    }
+
+    const bodyLine: PythonLine = {
+      depth: line.depth + 1,
+      leaves,
+      insideBrackets: true,
+    };
+    const last = leaves[leaves.length - 1];
+    const delimiters = this.getDelimiters(bodyLine).filter(
+      (leaf) => leaf !== last
+    );
+    bodyLine.forceSplit =
+      delimiters.length > 0 &&
+      Math.max(...delimiters.map((leaf) => leaf.priority)) ===
+        DELIMITER_PRIORITY.comma &&
+      ((last.value === "," && this.context.magicTrailingComma) ||
+        opening.kind === "atom" ||
+        opening.kind === "import");
+
+    return {
+      head: { depth: line.depth, leaves: head, insideBrackets: false },
+      body: bodyLine,
+      tail: { depth: line.depth, leaves: tail, insideBrackets: false },
+      opening,
+      closing,
+    };
+  }
+
+  /**
+   * **Turn the invisible parentheses of a split into real ones**
+   */
+  private showParens(split: BracketSplit): PythonLine[] {
+    if (split.opening.value !== "") {
+      return [split.head, split.body, split.tail];
+    }
+    this.madeVisible.add(split.opening).add(split.closing);
+    const opening = { ...split.opening, value: split.opening.bracket! };
+    const closing = {
+      ...split.closing,
+      value: split.closing.bracket!,
+      opening,
+    };
+    return [
+      { ...split.head, leaves: [...split.head.leaves.slice(0, -1), opening] },
+      split.body,
+      { ...split.tail, leaves: [closing, ...split.tail.leaves.slice(1)] },
+    ];
+  }
+
+  private createComma(depth: number): PythonLeaf {
+    return {
+      type: "op",
+      value: ",",
+      prefix: "",
+      depth,
+      priority: DELIMITER_PRIORITY.comma,
+      comments: [],
+    };
+  }
+
+  /**
+   * **Delimiters at the lowest bracket depth of a bracket body**
+   */
+  private getDelimiters(line: PythonLine): PythonLeaf[] {
+    if (!line.insideBrackets || line.leaves.length === 0) {
+      return [];
+    }
+    const lowest = Math.min(...line.leaves.map((leaf) => leaf.depth));
+    return line.leaves.filter(
+      (leaf) => leaf.depth === lowest && leaf.priority > 0
+    );
+  }
+
+  /**
+   * **Whether a bracket pair of the line ends with a trailing comma**
+   * Single-element tuples and subscripts keep their comma without exploding
+   */
+  private hasMagicTrailingComma(line: PythonLine): boolean {
+    return (
+      this.context.magicTrailingComma &&
+      line.leaves.some((_, index) => this.isMagicTrailingComma(line, index))
+    );
+  }
+
+  /**
+   * **Whether the leaf at `index` closes a bracket after a magic comma**
+   */
+  private isMagicTrailingComma(line: PythonLine, index: number): boolean {
+    const closing = line.leaves[index];
+    const opening = closing.opening;
+    if (
+      !opening ||
+      index === 0 ||
+      line.leaves[index - 1].value !== "," ||
+      !line.leaves.includes(opening)
+    ) {
+      return false;
+    }
+    if (
+      closing.bracket === "}" ||
+      (closing.bracket === ")" && this.isImport(line))
+    ) {
+      return true;
+    }
+    const singleElement =
+      line.leaves
+        .slice(line.leaves.indexOf(opening) + 1, index)
+        .filter(
+          (leaf) => leaf.value === "," && leaf.depth === opening.depth + 1
+        ).length < 2;
+    const oneSequence =
+      opening.kind === (closing.bracket === "]" ? "subscript" : "atom");
+    return !(singleElement && oneSequence);
+  }
+
+  /**
+   * **Drop the trailing commas that would explode their brackets**
+   * Comments of a dropped comma move to the leaf before it
+   */
+  private removeMagicTrailingCommas(line: PythonLine): PythonLine {
+    const leaves: PythonLeaf[] = [];
+    line.leaves.forEach((leaf, index) => {
+      if (
+        index + 1 < line.leaves.length &&
+        this.isMagicTrailingComma(line, index + 1)
+      ) {
+        leaves[leaves.length - 1].comments.push(...leaf.comments);
+      } else {
+        leaves.push(leaf);
+      }
+    });
+    return { ...line, leaves };
+  }
+
+  /**
+   * **Whether a split could possibly make the line shorter**
+   */
+  private canBeSplit(line: PythonLine): boolean {
+    const leaves = line.leaves;
+    if (leaves.length < 2) {
+      return false;
+    }
+    if (leaves[0].type !== "string" || leaves[1].value !== ".") {
+      return true;
+    }
+
+    let calls = 0;
+    let dots = 0;
+    let next = leaves[leaves.length - 1];
+    for (let index = leaves.length - 2; index >= 0; index--) {
+      const leaf = leaves[index];
+      if (this.isOpening(leaf)) {
+        if (!this.isClosing(next)) {
+          return false;
+        }
+        calls++;
+      } else if (leaf.value === ".") {
+        dots++;
+      } else if (leaf.type === "name") {
+        if (next.value !== "." && !this.isOpening(next)) {
+          return false;
+        }
+      } else if (!this.isClosing(leaf)) {
+        return false;
+      }
+      if (dots > 1 && calls > 1) {
+        return false;
+      }
+      next = leaf;
+    }
+    return true;
+  }
+
+  private isDef(line: PythonLine): boolean {
+    const [first, second] = line.leaves;
+    return (
+      !line.insideBrackets &&
+      first?.type === "name" &&
+      (first.value === "def" ||
+        (first.value === "async" && second?.value === "def"))
+    );
+  }
+
+  private isImport(line: PythonLine): boolean {
+    const first = line.leaves[0];
+    return (
+      !line.insideBrackets &&
+      first?.type === "name" &&
+      (first.value === "import" || first.value === "from")
+    );
+  }
+
+  private isOpening(leaf: PythonLeaf | undefined): boolean {
+    return leaf?.bracket !== undefined && "([{".includes(leaf.bracket);
+  }
+
+  private isClosing(leaf: PythonLeaf | undefined): boolean {
+    return leaf?.bracket !== undefined && ")]}".includes(leaf.bracket);
+  }
+
+  private isShort(line: PythonLine, text?: string, slack = 0): boolean {
+    const rendered = text ?? this.render(line);
+    const limit = this.context.maxLineLength - slack;
+    if (line.leaves.some((leaf) => leaf.type === "standalone")) {
+      return false;
+    }
+    if (!rendered.includes("\n")) {
+      return this.measure(rendered) <= limit;
+    }
+    const rows = rendered.split("\n");
+    return (
+      this.measure(rows[0]) <= limit &&
+      this.measure(rows[rows.length - 1]) <= limit &&
+      this.canJoinMultilineString(line)
+    );
+  }
+
+  /**
+   * **Whether a multiline string may share its line with the code around it**
+   * Not when it is a ternary operand, when there are several of them or when
+   * its bracket also holds other comma separated items
+   */
+  private canJoinMultilineString(line: PythonLine): boolean {
+    const base = Math.min(...line.leaves.map((leaf) => leaf.depth));
+    const commas: number[] = [];
+    let string: PythonLeaf | undefined;
+    let tracked = Infinity;
+
+    for (const [index, leaf] of line.leaves.entries()) {
+      const depth = leaf.depth - base;
+      if (tracked === Infinity) {
+        let hadComma: number | undefined;
+        if (depth + 1 > commas.length) {
+          commas.push(0);
+        } else if (depth + 1 < commas.length) {
+          hadComma = commas.pop();
+        }
+        if (
+          hadComma !== undefined &&
+          string &&
+          string.depth - base === depth + 1
+        ) {
+          tracked = depth;
+          if (hadComma > 0) {
+            return false;
+          }
+        }
+      }
+      if (depth <= tracked && leaf.value === ",") {
+        const trailing = index === line.leaves.length - 1 && string;
+        if ((line.insideBrackets || depth > 0) && !trailing) {
+          commas[depth] = (commas[depth] ?? 0) + 1;
+        }
+      }
+      if (tracked !== Infinity) {
+        tracked = Math.min(tracked, depth);
+      }
+      if (leaf.type === "string" && leaf.value.includes("\n")) {
+        if (string || this.isTernaryOperand(line, index)) {
+          return false;
+        }
+        string = leaf;
+      }
+    }
+    return !string || commas.every((count) => count === 0);
+  }
+
+  private isTernaryOperand(line: PythonLine, index: number): boolean {
+    const depth = line.leaves[index].depth;
+    const inRange = (leaf: PythonLeaf) =>
+      leaf.depth > depth || (leaf.depth === depth && !this.isClosing(leaf));
+    let start = index;
+    while (start > 0 && inRange(line.leaves[start - 1])) {
+      start--;
+    }
+    let stop = index;
+    while (stop < line.leaves.length - 1 && inRange(line.leaves[stop + 1])) {
+      stop++;
+    }
+    return line.leaves
+      .slice(start, stop + 1)
+      .some((leaf) => leaf.depth === depth && leaf.value === "else");
+  }
+
+  private render(line: PythonLine): string {
+    const indent = this.context.indent.repeat(line.depth);
+    const code = line.leaves.reduce(
+      (text, leaf, index) =>
+        leaf.continuation === undefined
+          ? text + (index === 0 ? "" : leaf.prefix) + leaf.value
+          : `${text.trimEnd()} \\\n${indent}${leaf.continuation}${leaf.value}`,
+      ""
+    );
+    const comments = line.leaves
+      .flatMap((leaf) => leaf.comments)
+      .map((comment) => `  ${comment}`)
+      .join("");
+    return indent + code + comments;
+  }
+
+  private leafWidth(leaf: PythonLeaf): number {
+    return [leaf.prefix, leaf.value, ...leaf.comments].reduce(
+      (width, text) => width + this.measure(text),
+      0
+    );
+  }
+
+  private indentWidth(depth: number): number {
+    return this.measure(this.context.indent.repeat(depth));
+  }
+
+  /**
+   * **Display width, counting wide East Asian characters twice**
+   */
+  private measure(text: string): number {
+    let width = 0;
+    for (const char of text) {
+      if (char === "\t") {
+        width += this.context.tabSize;
+      } else if (WIDE_CHARACTER.test(char)) {
+        width += 2;
+      } else if (!COMBINING_CHARACTER.test(char)) {
+        width++;
+      }
+    }
+    return width;
+  }
+}
@@ -0,0 +1,158 @@
+import * as fs from "fs";
+import * as path from "path";
+import { TomlParser, TomlTable, TomlValue } from "./toml-parser";
+
+/**
+ * **What is known about the project a Python file belongs to**
+ * `root` is the folder holding pyproject.toml and `modules` the top level
+ * modules of the project's own sources
+ */
+export interface PythonProject {
+  root?: string;
+  pyproject?: TomlTable;
+  isort?: TomlTable;
+  modules: string[];
+}
+
+const MODULE_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+/**
+ * **Finds pyproject.toml and the first party modules of a Python file**
+ *
+ * Looks for pyproject.toml from the file's folder up to the workspace
+ * folder. Packages and modules in the source folders, which isort's
+ * `src_paths` can change, count as first party, as does the project name.
+ */
+export class PythonProjectResolver {
+  private constructor() {}
+
+  /**
+   * **Resolve the project of a file**
+   * Unsaved files and files outside a project yield an empty project
+   */
+  static async resolve(
+    fileName: string,
+    workspaceFolder?: string
+  ): Promise<PythonProject> {
+    if (!path.isAbsolute(fileName)) {
+      return { modules: [] };
+    }
+    const directory = path.dirname(fileName);
+    const root = await PythonProjectResolver.findRoot(
+      directory,
+      workspaceFolder
+    );
+    const pyproject = root
+      ? await PythonProjectResolver.readPyproject(root)
+      : undefined;
+    const tool = PythonProjectResolver.table(pyproject?.tool);
+    const isort = PythonProjectResolver.table(tool?.isort);
+
+    const base = root ?? workspaceFolder ?? directory;
+    const sourcePaths = Array.isArray(isort?.src_paths)
+      ? isort!.src_paths.map((source) => path.resolve(base, String(source)))
+      : [base, path.join(base, "src")];
+
+    const modules = new Set<string>();
+    for (const name of [
+      PythonProjectResolver.table(pyproject?.project)?.name,
+      PythonProjectResolver.table(tool?.poetry)?.name,
+    ]) {
+      if (typeof name === "string") {
+        modules.add(name.replace(/[-.]/g, "_"));
+      }
+    }
+    for (const sourcePath of sourcePaths) {
+      for (const module of await PythonProjectResolver.listModules(
+        sourcePath
+      )) {
+        modules.add(module);
+      }
+    }
+    return { root, pyproject, isort, modules: [...modules] };
+  }
+
+  private static async findRoot(
+    directory: string,
+    workspaceFolder: string | undefined
+  ): Promise<string | undefined> {
+    let current = directory;
+    for (;;) {
+      if (
+        await PythonProjectResolver.exists(path.join(current, "pyproject.toml"))
+      ) {
+        return current;
+      }
+      const parent = path.dirname(current);
+      if (
+        parent === current ||
+        (workspaceFolder &&
+          path.resolve(current) === path.resolve(workspaceFolder))
+      ) {
+        return undefined;
+      }
+      current = parent;
+    }
+  }
+
+  /**
+   * **Read pyproject.toml, ignoring files that cannot be parsed**
+   */
+  private static async readPyproject(
+    root: string
+  ): Promise<TomlTable | undefined> {
+    try {
+      return TomlParser.parse(
+        await fs.promises.readFile(path.join(root, "pyproject.toml"), "utf8")
+      );
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * **List the packages and modules directly inside a folder**
+   */
+  private static async listModules(directory: string): Promise<string[]> {
+    let entries: fs.Dirent[];
+    try {
+      entries = await fs.promises.readdir(directory, { withFileTypes: true });
+    } catch {
+      return [];
+    }
+
+    const modules: string[] = [];
+    for (const entry of entries) {
+      const name = entry.name.replace(/\.pyi?$/, "");
+      if (!MODULE_NAME_PATTERN.test(name)) {
+        continue;
+      }
+      if (entry.isFile() && name !== entry.name) {
+        modules.push(name);
+      } else if (entry.isDirectory()) {
+        const files = await fs.promises
+          .readdir(path.join(directory, entry.name))
+          .catch(() => [] as string[]);
+        if (files.some((file) => /\.pyi?$/.test(file))) {
+          modules.push(name);
+        }
+      }
+    }
+    return modules;
+  }
+
+  private static async exists(filePath: string): Promise<boolean> {
+    return fs.promises.access(filePath).then(
+      () => true,
+      () => false
+    );
+  }
+
+  private static table(value: TomlValue | undefined): TomlTable | undefined {
+    return value !== undefined &&
+      typeof value === "object" &&
+      !Array.isArray(value)
+      ? value
+      : undefined;
+  }
+}
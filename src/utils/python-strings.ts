@@ -0,0 +1,185 @@
+/**
+ * **Quotes Python string literals are normalized to**
+ * `preserve` leaves every literal as written
+ */
+export type PythonQuoteStyle = "double" | "single" | "preserve";
+
+const PREFIX_PATTERN = /^[a-zA-Z]*/;
+
+const ESCAPE_PATTERN =
+  /(\\+)(?:u([a-fA-F0-9]{4})|U([a-fA-F0-9]{8})|x([a-fA-F0-9]{2})|N\{([a-zA-Z0-9 -]{2,})\})/g;
+
+/**
+ * **Replacement fields of an f-string, without doubled braces**
+ */
+const REPLACEMENT_FIELD_PATTERN = /(?:(?<!\{)|^)\{([^{].*?)\}(?:(?!\})|$)/g;
+
+/**
+ * **Normalizes the prefix, quotes and escapes of Python string literals**
+ *
+ * Follows Black: prefixes are lower case except for `R` and lose `u`, hex
+ * escapes are lower case and quotes only change when that does not add
+ * backslashes. Triple-quoted strings always use double quotes, as PEP 257
+ * asks for docstrings.
+ */
+export class PythonStringNormalizer {
+  private constructor() {}
+
+  /**
+   * **Normalize a string literal to the given quote style**
+   */
+  static normalize(value: string, quoteStyle: PythonQuoteStyle): string {
+    if (quoteStyle === "preserve") {
+      return value;
+    }
+    const normalized = PythonStringNormalizer.normalizeEscapes(
+      PythonStringNormalizer.normalizePrefix(value)
+    );
+    return PythonStringNormalizer.normalizeQuotes(normalized, quoteStyle);
+  }
+
+  /**
+   * **Split a literal into prefix, quote and body**
+   */
+  static parse(value: string): { prefix: string; quote: string; body: string } {
+    const prefix = PREFIX_PATTERN.exec(value)![0];
+    const rest = value.slice(prefix.length);
+    const quote = /^('''|"""|'|")/.exec(rest)?.[1] ?? rest[0];
+    return {
+      prefix,
+      quote,
+      body: rest.slice(quote.length, rest.length - quote.length),
+    };
+  }
+
+  /**
+   * **What the literal stands for, however it is quoted**
+   * Used to check that normalization kept the value of every string
+   */
+  static getCanonicalValue(value: string): string {
+    const { prefix, body } = PythonStringNormalizer.parse(
+      PythonStringNormalizer.normalizeEscapes(
+        PythonStringNormalizer.normalizePrefix(value)
+      )
+    );
+    const unescaped = prefix.includes("r")
+      ? body
+      : body.replace(/\\(\\)|\\(["'])/g, "$1$2");
+    return `${[...prefix.toLowerCase()].sort().join("")}:${unescaped}`;
+  }
+
+  /**
+   * **Lower case the prefix, dropping `u`; `R` keeps its case**
+   */
+  static normalizePrefix(value: string): string {
+    const prefix = PREFIX_PATTERN.exec(value)![0];
+    let normalized = prefix.replace(/[FB]/g, (char) => char.toLowerCase());
+    normalized = normalized.replace(/[uU]/g, "");
+    if (normalized.length === 2 && normalized[0].toLowerCase() !== "r") {
+      normalized = normalized[1] + normalized[0];
+    }
+    return normalized + value.slice(prefix.length);
+  }
+
+  /**
+   * **Lower case hex escapes and upper case `\N{...}` names**
+   * Bytes only have `\x` escapes
+   */
+  private static normalizeEscapes(value: string): string {
+    const prefix = PREFIX_PATTERN.exec(value)![0].toLowerCase();
+    if (prefix.includes("r")) {
+      return value;
+    }
+    const bytes = prefix.includes("b");
+    return value.replace(
+      ESCAPE_PATTERN,
+      (
+        match,
+        backslashes: string,
+        u?: string,
+        U?: string,
+        x?: string,
+        N?: string
+      ) => {
+        if (backslashes.length % 2 === 0 || (bytes && x === undefined)) {
+          return match;
+        }
+        if (N !== undefined) {
+          return `${backslashes}N{${N.toUpperCase()}}`;
+        }
+        const [kind, digits] =
+          u !== undefined ? ["u", u] : U !== undefined ? ["U", U] : ["x", x!];
+        return backslashes + kind + digits.toLowerCase();
+      }
+    );
+  }
+
+  /**
+   * **Switch to the preferred quotes unless that needs more escapes**
+   * A port of Black's `normalize_string_quotes`
+   */
+  private static normalizeQuotes(
+    value: string,
+    quoteStyle: "double" | "single"
+  ): string {
+    const { prefix, quote } = PythonStringNormalizer.parse(value);
+    const preferred = quoteStyle === "double" ? '"' : "'";
+    if (quote === '"""') {
+      return value;
+    }
+    const newQuote = quote === "'''" ? '"""' : quote === '"' ? "'" : '"';
+    const unescapedNew = new RegExp(`(([^\\\\]|^)(\\\\\\\\)*)${newQuote}`, "g");
+    const escapedNew = new RegExp(
+      `([^\\\\]|^)\\\\((?:\\\\\\\\)*)${newQuote}`,
+      "g"
+    );
+    const escapedOld = new RegExp(
+      `([^\\\\]|^)\\\\((?:\\\\\\\\)*)${quote}`,
+      "g"
+    );
+    const subTwice = (pattern: RegExp, replacement: string, text: string) =>
+      text.replace(pattern, replacement).replace(pattern, replacement);
+
+    let body = value.slice(
+      prefix.length + quote.length,
+      value.length - quote.length
+    );
+    let original = value;
+    let newBody: string;
+    if (prefix.toLowerCase().includes("r")) {
+      if (new RegExp(unescapedNew.source).test(body)) {
+        return value;
+      }
+      newBody = body;
+    } else {
+      newBody = subTwice(escapedNew, `$1$2${newQuote}`, body);
+      if (newBody !== body) {
+        body = newBody;
+        original = prefix + quote + body + quote;
+      }
+      newBody = subTwice(escapedOld, `$1$2${quote}`, newBody);
+      newBody = subTwice(unescapedNew, `$1\\${newQuote}`, newBody);
+    }
+
+    if (/[ft]/i.test(prefix)) {
+      for (const field of newBody.matchAll(REPLACEMENT_FIELD_PATTERN)) {
+        if (field[1].includes("\\")) {
+          return original;
+        }
+      }
+    }
+
+    if (newQuote === '"""' && /(^|[^\\])(\\\\)*"$/.test(newBody)) {
+      newBody = newBody.slice(0, -1) + '\\"';
+    }
+    const oldEscapes = body.split("\\").length;
+    const newEscapes = newBody.split("\\").length;
+    if (newEscapes > oldEscapes) {
+      return original;
+    }
+    if (newEscapes === oldEscapes && quote === preferred) {
+      return original;
+    }
+    return prefix + newQuote + newBody + newQuote;
+  }
+}
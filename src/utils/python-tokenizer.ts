@@ -0,0 +1,339 @@
+import { ParseError } from "../errors/format-error";
+import { PythonToken, PythonTokenType } from "../types/python-tokens";
+
+const NAME_PATTERN = /[\p{L}\p{Nl}_][\p{L}\p{Nl}\p{Mn}\p{Mc}\p{Nd}\p{Pc}]*/uy;
+const NUMBER_PATTERN =
+  /(?:0[xX](?:_?[0-9a-fA-F])+|0[bB](?:_?[01])+|0[oO](?:_?[0-7])+|(?:(?:\d(?:_?\d)*)?\.\d(?:_?\d)*|\d(?:_?\d)*\.?)(?:[eE][+-]?\d(?:_?\d)*)?[jJ]?)/y;
+const STRING_START_PATTERN = /([rR][bBfF]?|[bBfF][rR]?|[uU])?('''|"""|'|")/y;
+
+/**
+ * **Operators and delimiters, longest first so they match greedily**
+ */
+const OPERATORS = [
+  "**=",
+  "//=",
+  ">>=",
+  "<<=",
+  "...",
+  "->",
+  ":=",
+  "**",
+  "//",
+  "<<",
+  ">>",
+  "<=",
+  ">=",
+  "==",
+  "!=",
+  "+=",
+  "-=",
+  "*=",
+  "/=",
+  "%=",
+  "&=",
+  "|=",
+  "^=",
+  "@=",
+  "+",
+  "-",
+  "*",
+  "/",
+  "%",
+  "@",
+  "&",
+  "|",
+  "^",
+  "~",
+  "<",
+  ">",
+  "(",
+  ")",
+  "[",
+  "]",
+  "{",
+  "}",
+  ",",
+  ":",
+  ";",
+  ".",
+  "=",
+];
+
+const CLOSING_BRACKETS: Record<string, string> = {
+  ")": "(",
+  "]": "[",
+  "}": "{",
+};
+
+/**
+ * **Tokenizer following the rules of CPython's `tokenize` module**
+ *
+ * Produces INDENT, DEDENT and NEWLINE tokens for the block structure and
+ * NL tokens for line breaks that do not end a statement. Problems the
+ * interpreter would reject while reading the source throw a ParseError.
+ */
+export class PythonTokenizer {
+  private readonly tokens: PythonToken[] = [];
+  private readonly lineStarts: number[] = [0];
+  private readonly brackets: number[] = [];
+  private offset = 0;
+
+  constructor(
+    private readonly text: string,
+    private readonly languageId: string = "python"
+  ) {
+    for (let index = 0; index < text.length; index++) {
+      if (text[index] === "\n") {
+        this.lineStarts.push(index + 1);
+      }
+    }
+  }
+
+  /**
+   * **Tokenize Python source**
+   */
+  static tokenize(text: string, languageId?: string): PythonToken[] {
+    return new PythonTokenizer(text, languageId).tokenize();
+  }
+
+  /**
+   * **Tokenize the whole document**
+   */
+  tokenize(): PythonToken[] {
+    const indents = [0];
+    let atLineStart = true;
+
+    while (this.offset < this.text.length) {
+      if (atLineStart && this.brackets.length === 0) {
+        const lineStart = this.offset;
+        let column = 0;
+        while (/[ \t\f]/.test(this.text[this.offset] ?? "")) {
+          const char = this.text[this.offset++];
+          column =
+            char === "\t"
+              ? column - (column % 8) + 8
+              : char === " "
+                ? column + 1
+                : 0;
+        }
+        // **Blank and comment-only lines do not affect indentation**
+        if (
+          this.offset >= this.text.length ||
+          /[#\r\n]/.test(this.text[this.offset])
+        ) {
+          this.scanLineEnd("nl");
+          continue;
+        }
+
+        if (column > indents[indents.length - 1]) {
+          indents.push(column);
+          this.push("indent", lineStart, this.offset);
+        }
+        while (column < indents[indents.length - 1]) {
+          indents.pop();
+          this.push("dedent", this.offset, this.offset);
+        }
+        if (column !== indents[indents.length - 1]) {
+          throw this.error(
+            "unindent does not match any outer indentation level",
+            this.offset
+          );
+        }
+        atLineStart = false;
+      }
+
+      const char = this.text[this.offset];
+      if (char === " " || char === "\t" || char === "\f") {
+        this.offset++;
+      } else if (char === "\r" || char === "\n" || char === "#") {
+        const type = this.brackets.length > 0 ? "nl" : "newline";
+        this.scanLineEnd(type);
+        atLineStart = type === "newline";
+      } else if (char === "\\") {
+        const next = this.text.slice(this.offset + 1, this.offset + 3);
+        if (!/^(?:\r?\n)/.test(next)) {
+          throw this.error(
+            "unexpected character after line continuation character",
+            this.offset
+          );
+        }
+        this.offset += next.startsWith("\r") ? 3 : 2;
+      } else {
+        this.scanToken();
+      }
+    }
+
+    if (this.brackets.length > 0) {
+      const start = this.brackets[this.brackets.length - 1];
+      throw this.error(`'${this.text[start]}' was never closed`, start);
+    }
+    const last = this.tokens.filter(
+      (token) => token.type !== "nl" && token.type !== "comment"
+    );
+    if (last.length > 0 && last[last.length - 1].type !== "newline") {
+      this.push("newline", this.offset, this.offset);
+    }
+    for (let level = 1; level < indents.length; level++) {
+      this.push("dedent", this.offset, this.offset);
+    }
+    this.push("endmarker", this.offset, this.offset);
+    return this.tokens;
+  }
+
+  /**
+   * **Scan an optional comment and the line break after it**
+   */
+  private scanLineEnd(type: "newline" | "nl"): void {
+    if (this.text[this.offset] === "#") {
+      const close = this.text.slice(this.offset).search(/\r?\n|\r/);
+      const end = close < 0 ? this.text.length : this.offset + close;
+      this.push("comment", this.offset, end);
+    }
+    if (this.offset >= this.text.length) {
+      return;
+    }
+    const end = this.text.startsWith("\r\n", this.offset)
+      ? this.offset + 2
+      : this.offset + 1;
+    this.push(type, this.offset, end);
+  }
+
+  /**
+   * **Scan a name, number, string or operator**
+   */
+  private scanToken(): void {
+    const start = this.offset;
+
+    STRING_START_PATTERN.lastIndex = start;
+    const stringStart = STRING_START_PATTERN.exec(this.text);
+    if (stringStart) {
+      const prefix = (stringStart[1] ?? "").toLowerCase();
+      const end = this.scanString(
+        start,
+        start + stringStart[0].length,
+        stringStart[2],
+        prefix.includes("f")
+      );
+      this.push("string", start, end);
+      return;
+    }
+
+    NUMBER_PATTERN.lastIndex = start;
+    const number = /[\d.]/.test(this.text[start])
+      ? NUMBER_PATTERN.exec(this.text)
+      : null;
+    if (number && number[0] !== ".") {
+      this.push("number", start, start + number[0].length);
+      return;
+    }
+
+    NAME_PATTERN.lastIndex = start;
+    const name = NAME_PATTERN.exec(this.text);
+    if (name) {
+      this.push("name", start, start + name[0].length);
+      return;
+    }
+
+    const operator = OPERATORS.find((op) => this.text.startsWith(op, start));
+    if (!operator) {
+      throw this.error(`invalid character '${this.text[start]}'`, start);
+    }
+    if ("([{".includes(operator)) {
+      this.brackets.push(start);
+    } else if (operator in CLOSING_BRACKETS) {
+      const open = this.brackets.pop();
+      if (open === undefined) {
+        throw this.error(`unmatched '${operator}'`, start);
+      }
+      if (this.text[open] !== CLOSING_BRACKETS[operator]) {
+        throw this.error(
+          `closing parenthesis '${operator}' does not match opening parenthesis '${this.text[open]}'`,
+          start
+        );
+      }
+    }
+    this.push("op", start, start + operator.length);
+  }
+
+  /**
+   * **Find the end of a string literal whose body starts at `bodyStart`**
+   * Replacement fields of f-strings may contain strings of their own
+   */
+  private scanString(
+    start: number,
+    bodyStart: number,
+    quote: string,
+    formatted: boolean
+  ): number {
+    let braces = 0;
+    let index = bodyStart;
+
+    while (index < this.text.length) {
+      const char = this.text[index];
+      if (char === "\\") {
+        index += 2;
+      } else if (formatted && char === "{") {
+        // **"{{" outside a replacement field is an escaped brace**
+        if (braces === 0 && this.text[index + 1] === "{") {
+          index += 2;
+        } else {
+          braces++;
+          index++;
+        }
+      } else if (formatted && char === "}" && braces > 0) {
+        braces--;
+        index++;
+      } else if (braces > 0 && (char === '"' || char === "'")) {
+        const nested = this.text.startsWith(char.repeat(3), index)
+          ? char.repeat(3)
+          : char;
+        index = this.scanString(index, index + nested.length, nested, false);
+      } else if (braces === 0 && this.text.startsWith(quote, index)) {
+        return index + quote.length;
+      } else if (char === "\n" && quote.length === 1 && braces === 0) {
+        break;
+      } else {
+        index++;
+      }
+    }
+
+    throw this.error(
+      quote.length === 3
+        ? "unterminated triple-quoted string literal"
+        : "unterminated string literal",
+      start
+    );
+  }
+
+  private push(type: PythonTokenType, start: number, end: number): void {
+    const { line, column } = this.getPosition(start);
+    this.tokens.push({
+      type,
+      value: this.text.slice(start, end),
+      start,
+      end,
+      line,
+      column,
+    });
+    this.offset = end;
+  }
+
+  private getPosition(offset: number): { line: number; column: number } {
+    let low = 0;
+    let high = this.lineStarts.length - 1;
+    while (low < high) {
+      const middle = (low + high + 1) >> 1;
+      if (this.lineStarts[middle] <= offset) {
+        low = middle;
+      } else {
+        high = middle - 1;
+      }
+    }
+    return { line: low + 1, column: offset - this.lineStarts[low] + 1 };
+  }
+
+  private error(message: string, offset: number): ParseError {
+    const { line, column } = this.getPosition(offset);
+    return new ParseError(message, this.languageId, line, column);
+  }
+}
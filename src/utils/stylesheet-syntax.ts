@@ -0,0 +1,248 @@
+/**
+ * **Kind of preprocessor construct replaced by a placeholder**
+ * Comments and statements become CSS comments, words stay words
+ */
+type PlaceholderKind = "comment" | "statement" | "word";
+
+/**
+ * **Original text behind a placeholder and where the placeholder sits**
+ * `consumed` is the length of source text the placeholder replaced
+ */
+interface Placeholder {
+  original: string;
+  start: number;
+  length: number;
+  consumed: number;
+}
+
+/**
+ * **Placeholders for comments, statements and words**
+ * Word placeholders start with a letter: postcss takes a leading `_` or
+ * `*` on a property for an IE hack and moves it out of the name
+ */
+const PLACEHOLDER_PATTERN =
+  /\/\*__fm_(?:comment|statement)_(\d+)__\*\/|fmword(\d+)x/g;
+const STATEMENT_PLACEHOLDER = /^__fm_statement_\d+__$/;
+const WORD_PLACEHOLDER = /fmword\d+x/;
+
+/**
+ * **Preprocessor syntax hidden from the CSS parser**
+ *
+ * postcss only reads plain CSS, so SCSS and Less line comments, `#{}` and
+ * `@{}` interpolation and Less mixin calls are swapped for placeholders it
+ * can parse, then put back once the stylesheet is printed. An instance
+ * serves one document.
+ */
+export class StylesheetSyntax {
+  private readonly placeholders: Placeholder[] = [];
+
+  constructor(private readonly languageId: string) {}
+
+  /**
+   * **Whether a comment's text is a placeholder for a whole statement**
+   */
+  static isStatement(commentText: string): boolean {
+    return STATEMENT_PLACEHOLDER.test(commentText);
+  }
+
+  /**
+   * **Whether a name or value contains interpolation**
+   */
+  static isInterpolated(text: string): boolean {
+    return WORD_PLACEHOLDER.test(text);
+  }
+
+  /**
+   * **Replace preprocessor syntax with CSS postcss parses safely**
+   */
+  protect(text: string): string {
+    const isScss = this.languageId === "scss";
+    const isLess = this.languageId === "less";
+    if (!isScss && !isLess) {
+      return text;
+    }
+
+    let output = "";
+    let index = 0;
+    let statementStart = true;
+
+    while (index < text.length) {
+      const char = text[index];
+      if (char === '"' || char === "'") {
+        const end = StylesheetSyntax.findStringEnd(text, index);
+        output += text.slice(index, end);
+        index = end;
+        statementStart = false;
+      } else if (text.startsWith("/*", index)) {
+        const close = text.indexOf("*/", index + 2);
+        const end = close < 0 ? text.length : close + 2;
+        output += text.slice(index, end);
+        index = end;
+      } else if (/^url\(/i.test(text.slice(index, index + 4))) {
+        // **Unquoted URLs may contain "//"**
+        const close = text.indexOf(")", index);
+        const end = close < 0 ? text.length : close + 1;
+        output += text.slice(index, end);
+        index = end;
+        statementStart = false;
+      } else if (text.startsWith("//", index)) {
+        const close = text.indexOf("\n", index);
+        const end = close < 0 ? text.length : close;
+        output += this.addPlaceholder(
+          "comment",
+          text.slice(index, end),
+          output.length
+        );
+        index = end;
+      } else if (
+        text[index + 1] === "{" &&
+        ((isScss && char === "#") || (isLess && char === "@"))
+      ) {
+        const end = StylesheetSyntax.findClosing(text, index + 1) + 1;
+        const stop = end > 0 ? end : text.length;
+        output += this.addPlaceholder(
+          "word",
+          text.slice(index, stop),
+          output.length
+        );
+        index = stop;
+        statementStart = false;
+      } else if (isLess && statementStart && (char === "." || char === "#")) {
+        const end = StylesheetSyntax.findMixinCallEnd(text, index);
+        if (end < 0) {
+          output += char;
+          index++;
+          statementStart = false;
+        } else {
+          // **A call closed by "}" gets the semicolon it left out**
+          const call = text.slice(index, end).trimEnd();
+          output += this.addPlaceholder(
+            "statement",
+            call.endsWith(";") ? call : `${call};`,
+            output.length,
+            call.length
+          );
+          index += call.length;
+        }
+      } else {
+        if (!/\s/.test(char)) {
+          statementStart = char === "{" || char === "}" || char === ";";
+        }
+        output += char;
+        index++;
+      }
+    }
+
+    return output;
+  }
+
+  /**
+   * **Put the original preprocessor syntax back into printed CSS**
+   */
+  restore(text: string): string {
+    return text.replace(
+      PLACEHOLDER_PATTERN,
+      (match, statement: string | undefined, word: string | undefined) =>
+        this.placeholders[Number(statement ?? word)].original
+    );
+  }
+
+  /**
+   * **Map an offset in protected text back to the original document**
+   * Offsets inside a placeholder map to the start of what it replaced
+   */
+  getOriginalOffset(offset: number): number {
+    let shift = 0;
+    for (const placeholder of this.placeholders) {
+      if (offset < placeholder.start + placeholder.length) {
+        return Math.min(offset, placeholder.start) + shift;
+      }
+      shift += placeholder.consumed - placeholder.length;
+    }
+    return offset + shift;
+  }
+
+  private addPlaceholder(
+    kind: PlaceholderKind,
+    original: string,
+    start: number,
+    consumed: number = original.length
+  ): string {
+    const id = this.placeholders.length;
+    const placeholder =
+      kind === "word" ? `fmword${id}x` : `/*__fm_${kind}_${id}__*/`;
+    this.placeholders.push({
+      original,
+      start,
+      length: placeholder.length,
+      consumed,
+    });
+    return placeholder;
+  }
+
+  /**
+   * **Find the end of a Less mixin call such as `.mixin(@a);`**
+   * Returns -1 when the statement is a rule rather than a call
+   */
+  private static findMixinCallEnd(text: string, start: number): number {
+    let called = false;
+    for (let index = start; index < text.length; index++) {
+      const char = text[index];
+      if (char === '"' || char === "'") {
+        index = StylesheetSyntax.findStringEnd(text, index) - 1;
+      } else if (char === "(") {
+        const close = StylesheetSyntax.findClosing(text, index);
+        if (close < 0) {
+          return -1;
+        }
+        called = true;
+        index = close;
+      } else if (char === ";") {
+        return index + 1;
+      } else if (char === "}") {
+        // **The last statement in a block may leave out its semicolon**
+        return called ? index : -1;
+      } else if (char === "{") {
+        return -1;
+      }
+    }
+    return -1;
+  }
+
+  /**
+   * **Find the offset after the string literal starting at `start`**
+   */
+  private static findStringEnd(text: string, start: number): number {
+    const quote = text[start];
+    for (let index = start + 1; index < text.length; index++) {
+      if (text[index] === "\\") {
+        index++;
+      } else if (text[index] === quote || text[index] === "\n") {
+        return index + 1;
+      }
+    }
+    return text.length;
+  }
+
+  /**
+   * **Find the bracket closing the one at `start`, skipping string literals**
+   * Returns -1 when it is never closed
+   */
+  private static findClosing(text: string, start: number): number {
+    const open = text[start];
+    const close = open === "(" ? ")" : "}";
+    let depth = 0;
+
+    for (let index = start; index < text.length; index++) {
+      const char = text[index];
+      if (char === '"' || char === "'") {
+        index = StylesheetSyntax.findStringEnd(text, index) - 1;
+      } else if (char === open) {
+        depth++;
+      } else if (char === close && --depth === 0) {
+        return index;
+      }
+    }
+    return -1;
+  }
+}
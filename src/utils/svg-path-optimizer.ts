@@ -0,0 +1,274 @@
+/**
+ * **Path segment with every coordinate resolved to absolute**
+ */
+interface PathSegment {
+  command: string;
+  values: number[];
+}
+
+/**
+ * **Options for rewriting path data**
+ */
+export interface SvgPathOptions {
+  precision: number;
+  relative: boolean;
+}
+
+const PARAMETER_COUNTS: Record<string, number> = {
+  M: 2,
+  L: 2,
+  H: 1,
+  V: 1,
+  C: 6,
+  S: 4,
+  Q: 4,
+  T: 2,
+  A: 7,
+  Z: 0,
+};
+
+const NUMBER_PATTERN = /[+-]?(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?/y;
+const SEPARATOR_PATTERN = /[\s,]*/y;
+
+/**
+ * **Optimizer for SVG path data**
+ *
+ * Rounds coordinates and writes each segment in whichever of its absolute
+ * or relative forms is shorter. Relative offsets are measured from the point
+ * the renderer reaches with the already rounded output, so rounding errors
+ * never accumulate along the path.
+ */
+export class SvgPathOptimizer {
+  constructor(private readonly options: SvgPathOptions) {}
+
+  /**
+   * **Optimize path data, returning it unchanged when it cannot be parsed**
+   */
+  static optimize(data: string, options: SvgPathOptions): string {
+    const optimizer = new SvgPathOptimizer(options);
+    const segments = optimizer.parse(data);
+    return segments ? optimizer.print(segments) : data;
+  }
+
+  /**
+   * **Parse path data into absolute segments**
+   */
+  private parse(data: string): PathSegment[] | undefined {
+    const segments: PathSegment[] = [];
+    let offset = this.skipSeparators(data, 0);
+    let command = "";
+    let x = 0;
+    let y = 0;
+    let startX = 0;
+    let startY = 0;
+
+    while (offset < data.length) {
+      if (/[a-zA-Z]/.test(data[offset])) {
+        command = data[offset++];
+        if (PARAMETER_COUNTS[command.toUpperCase()] === undefined) {
+          return undefined;
+        }
+      } else if (!command || command.toUpperCase() === "Z") {
+        return undefined;
+      }
+
+      const upper = command.toUpperCase();
+      const relative = command !== upper;
+      const values: number[] = [];
+      for (let index = 0; index < PARAMETER_COUNTS[upper]; index++) {
+        offset = this.skipSeparators(data, offset);
+        const isFlag = upper === "A" && (index === 3 || index === 4);
+        const value = isFlag
+          ? this.readFlag(data, offset)
+          : this.readNumber(data, offset);
+        if (!value) {
+          return undefined;
+        }
+        values.push(Number(value));
+        offset += value.length;
+      }
+      offset = this.skipSeparators(data, offset);
+
+      if (relative) {
+        this.toAbsolute(upper, values, x, y);
+      }
+      segments.push({ command: upper, values });
+
+      if (upper === "Z") {
+        x = startX;
+        y = startY;
+      } else {
+        [x, y] = this.getEndPoint(upper, values, x, y);
+      }
+      if (upper === "M") {
+        startX = x;
+        startY = y;
+        // **Coordinates following a moveto are implicit linetos**
+        command = relative ? "l" : "L";
+      }
+    }
+
+    return segments;
+  }
+
+  /**
+   * **Print segments in their shortest form**
+   */
+  private print(segments: PathSegment[]): string {
+    let output = "";
+    let previousCommand = "";
+    let lastNumber = "";
+    let x = 0;
+    let y = 0;
+    let startX = 0;
+    let startY = 0;
+
+    for (const segment of segments) {
+      const absolute = this.roundValues(segment, 0, 0);
+      const relative = this.roundValues(segment, x, y);
+      const useRelative =
+        this.options.relative &&
+        output !== "" &&
+        relative.join(" ").length < absolute.join(" ").length;
+      const command = useRelative
+        ? segment.command.toLowerCase()
+        : segment.command;
+      const values = useRelative ? relative : absolute;
+
+      const implicit =
+        (command === previousCommand && !/[MZ]/i.test(command)) ||
+        (previousCommand === "M" && command === "L") ||
+        (previousCommand === "m" && command === "l");
+      if (!implicit) {
+        output += command;
+        lastNumber = "";
+      }
+      for (const value of values) {
+        output += this.separate(lastNumber, value) + value;
+        lastNumber = value;
+      }
+      previousCommand = command;
+
+      if (segment.command === "Z") {
+        x = startX;
+        y = startY;
+      } else {
+        const numbers = values.map(Number);
+        if (useRelative) {
+          this.toAbsolute(segment.command, numbers, x, y);
+        }
+        [x, y] = this.getEndPoint(segment.command, numbers, x, y);
+      }
+      if (segment.command === "M") {
+        startX = x;
+        startY = y;
+      }
+    }
+
+    return output;
+  }
+
+  /**
+   * **Round the values of a segment relative to the given point**
+   */
+  private roundValues(segment: PathSegment, x: number, y: number): string[] {
+    return segment.values.map((value, index) => {
+      if (segment.command === "A" && (index === 3 || index === 4)) {
+        return value ? "1" : "0";
+      }
+      switch (this.getAxis(segment.command, index)) {
+        case "x":
+          return this.formatNumber(value - x);
+        case "y":
+          return this.formatNumber(value - y);
+        default:
+          return this.formatNumber(value);
+      }
+    });
+  }
+
+  /**
+   * **Resolve relative values in place against the given point**
+   */
+  private toAbsolute(
+    command: string,
+    values: number[],
+    x: number,
+    y: number
+  ): void {
+    values.forEach((value, index) => {
+      const axis = this.getAxis(command, index);
+      values[index] =
+        axis === "x" ? value + x : axis === "y" ? value + y : value;
+    });
+  }
+
+  /**
+   * **Which axis a value belongs to, if it is a coordinate at all**
+   */
+  private getAxis(command: string, index: number): "x" | "y" | undefined {
+    switch (command) {
+      case "H":
+        return "x";
+      case "V":
+        return "y";
+      case "A":
+        return index === 5 ? "x" : index === 6 ? "y" : undefined;
+      default:
+        return index % 2 === 0 ? "x" : "y";
+    }
+  }
+
+  private getEndPoint(
+    command: string,
+    values: number[],
+    x: number,
+    y: number
+  ): [number, number] {
+    switch (command) {
+      case "H":
+        return [values[0], y];
+      case "V":
+        return [x, values[0]];
+      default:
+        return [values[values.length - 2], values[values.length - 1]];
+    }
+  }
+
+  /**
+   * **Format a number at the configured precision in its shortest form**
+   */
+  private formatNumber(value: number): string {
+    const text = String(Number(value.toFixed(this.options.precision)));
+    return text === "-0" ? "0" : text.replace(/^(-?)0\./, "$1.");
+  }
+
+  /**
+   * **Separator needed between two numbers so they parse apart**
+   */
+  private separate(previous: string, next: string): string {
+    if (!previous || next.startsWith("-")) {
+      return "";
+    }
+    if (next.startsWith(".") && /\.\d*$/.test(previous)) {
+      return "";
+    }
+    return " ";
+  }
+
+  private readNumber(data: string, offset: number): string | undefined {
+    NUMBER_PATTERN.lastIndex = offset;
+    return NUMBER_PATTERN.exec(data)?.[0];
+  }
+
+  private readFlag(data: string, offset: number): string | undefined {
+    return data[offset] === "0" || data[offset] === "1"
+      ? data[offset]
+      : undefined;
+  }
+
+  private skipSeparators(data: string, offset: number): number {
+    SEPARATOR_PATTERN.lastIndex = offset;
+    return offset + SEPARATOR_PATTERN.exec(data)![0].length;
+  }
+}
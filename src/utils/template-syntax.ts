@@ -0,0 +1,415 @@
+/**
+ * **Framework whose template syntax a document uses**
+ */
+export type TemplateFlavor = "vue" | "svelte" | "angular";
+
+/**
+ * **Control-flow block replaced by a placeholder element**
+ * `continued` blocks end where their `{:else}` or `} @else {` branch begins
+ */
+interface TemplateBlock {
+  open: string;
+  close: string;
+  continued: boolean;
+}
+
+const BLOCK_PLACEHOLDER = "fmblock";
+const EXPRESSION_PLACEHOLDER = /__fm_expr_(\d+)__/g;
+const INTERPOLATION_PLACEHOLDER = /fmtext(\d+)x+/g;
+
+const DIRECTIVE_PATTERNS: Record<TemplateFlavor, RegExp> = {
+  vue: /^(?:v-|:|@|#)/,
+  svelte: /^(?:on|bind|class|style|use|transition|in|out|animate|let):/,
+  angular: /^(?:\*|\[|\(|bind-|on-|bindon-)/,
+};
+
+const ANGULAR_BLOCK_PATTERN = /@(if|for|switch|case|default|defer)\b/y;
+const ANGULAR_BRANCH_PATTERN =
+  /\s*@(else\s+if|else|empty|placeholder|loading|error)\b/y;
+
+/**
+ * **Framework template syntax hidden from the HTML layout engine**
+ *
+ * Control-flow blocks such as Svelte's `{#each}` and Angular's `@if { }`
+ * become placeholder elements so their content is indented like nested
+ * markup, and Svelte brace expressions become placeholders so a `>` inside
+ * them is not read as the end of a tag. `{{ }}` interpolations become words
+ * of the same width so they wrap like text. Without a flavor only
+ * interpolations are replaced. An instance serves one document.
+ */
+export class TemplateSyntax {
+  private readonly blocks: TemplateBlock[] = [];
+  private readonly expressions: string[] = [];
+  private readonly interpolations: string[] = [];
+  private readonly openBlocks: number[] = [];
+
+  constructor(private readonly flavor?: TemplateFlavor) {}
+
+  /**
+   * **Blank out Svelte brace expressions without moving any offsets**
+   * Attribute values keep their delimiters as quotes so tags stay intact
+   */
+  static mask(html: string): string {
+    let output = "";
+    let index = 0;
+    while (index < html.length) {
+      const end =
+        html[index] === "{" ? TemplateSyntax.findClosing(html, index) : -1;
+      if (end < 0) {
+        output += html[index++];
+        continue;
+      }
+      const inner = html.slice(index + 1, end).replace(/[^\n]/g, " ");
+      output += html[index - 1] === "=" ? `"${inner}"` : ` ${inner} `;
+      index = end + 1;
+    }
+    return output;
+  }
+
+  /**
+   * **Replace template syntax with markup js-beautify lays out safely**
+   */
+  protect(html: string): string {
+    let output = "";
+    let index = 0;
+
+    while (index < html.length) {
+      const char = html[index];
+      if (html.startsWith("<!--", index)) {
+        const close = html.indexOf("-->", index + 4);
+        const end = close < 0 ? html.length : close + 3;
+        output += html.slice(index, end);
+        index = end;
+      } else if (char === "<" && /[a-zA-Z/]/.test(html[index + 1] ?? "")) {
+        const end = this.findTagEnd(html, index);
+        const tag = html.slice(index, end);
+        output += this.flavor ? this.protectTag(tag) : tag;
+        index = end;
+      } else if (this.flavor === "svelte" && char === "{") {
+        const end = TemplateSyntax.findClosing(html, index);
+        if (end < 0) {
+          output += html.slice(index);
+          break;
+        }
+        output += this.protectSvelteTag(html.slice(index, end + 1));
+        index = end + 1;
+      } else if (this.flavor !== "svelte" && html.startsWith("{{", index)) {
+        const close = html.indexOf("}}", index + 2);
+        const end = close < 0 ? html.length : close + 2;
+        output += this.addInterpolation(html.slice(index, end));
+        index = end;
+      } else if (this.flavor === "angular" && char === "@") {
+        const header = this.readAngularHeader(
+          html,
+          index,
+          ANGULAR_BLOCK_PATTERN
+        );
+        if (header) {
+          output += this.openBlock(html.slice(index, header), "}");
+          index = header;
+        } else {
+          output += html[index++];
+        }
+      } else if (
+        this.flavor === "angular" &&
+        char === "}" &&
+        this.openBlocks.length > 0
+      ) {
+        const header = this.readAngularHeader(
+          html,
+          index + 1,
+          ANGULAR_BRANCH_PATTERN
+        );
+        output += header
+          ? this.continueBlock(html.slice(index, header).replace(/^}\s*/, "} "))
+          : this.closeBlock("}");
+        index = header ?? index + 1;
+      } else {
+        output += html[index++];
+      }
+    }
+
+    return output;
+  }
+
+  /**
+   * **Put the original template syntax back into laid out markup**
+   */
+  restore(html: string): string {
+    const blockPattern = new RegExp(
+      `</${BLOCK_PLACEHOLDER}(\\d+)>\\s*(?=<${BLOCK_PLACEHOLDER}\\d+>)`,
+      "g"
+    );
+    return html
+      .replace(blockPattern, (match, id: string) =>
+        this.blocks[Number(id)].continued ? "" : match
+      )
+      .replace(
+        new RegExp(`<(/?)${BLOCK_PLACEHOLDER}(\\d+)>`, "g"),
+        (match, closing: string, id: string) => {
+          const block = this.blocks[Number(id)];
+          return closing ? block.close : block.open;
+        }
+      )
+      .replace(INTERPOLATION_PLACEHOLDER, (match, id: string) =>
+        this.restoreInterpolation(match, Number(id))
+      )
+      .replace(/="(__fm_expr_\d+__)"/g, "=$1")
+      .replace(
+        EXPRESSION_PLACEHOLDER,
+        (match, id: string) => this.expressions[Number(id)]
+      );
+  }
+
+  /**
+   * **Rewrite the attributes of a tag**
+   * Brace values become placeholders and directive expressions lose
+   * insignificant whitespace
+   */
+  private protectTag(tag: string): string {
+    const nameMatch = /^<\/?[^\s/>]+/.exec(tag);
+    if (!nameMatch || tag.startsWith("</")) {
+      return tag;
+    }
+
+    const parts = [nameMatch[0]];
+    let index = nameMatch[0].length;
+    for (;;) {
+      while (/\s/.test(tag[index] ?? "")) {
+        index++;
+      }
+      if (
+        index >= tag.length ||
+        tag[index] === ">" ||
+        tag.startsWith("/>", index)
+      ) {
+        break;
+      }
+
+      const start = index;
+      if (tag[index] === "{") {
+        index = TemplateSyntax.findClosing(tag, index) + 1 || tag.length;
+        parts.push(this.addExpression(tag.slice(start, index)));
+        continue;
+      }
+      while (
+        index < tag.length &&
+        !/[\s=>]/.test(tag[index]) &&
+        !tag.startsWith("/>", index)
+      ) {
+        index++;
+      }
+      // **A stray "=" is kept as a name of its own**
+      index = Math.max(index, start + 1);
+      const name = tag.slice(start, index);
+      if (tag[index] !== "=") {
+        parts.push(name);
+        continue;
+      }
+
+      const valueStart = index + 1;
+      const quote = tag[valueStart];
+      let valueEnd: number;
+      if (quote === '"' || quote === "'") {
+        valueEnd = tag.indexOf(quote, valueStart + 1) + 1 || tag.length;
+      } else if (quote === "{" && this.flavor === "svelte") {
+        valueEnd =
+          TemplateSyntax.findClosing(tag, valueStart) + 1 || tag.length;
+      } else {
+        valueEnd = valueStart;
+        while (valueEnd < tag.length && !/[\s>]/.test(tag[valueEnd])) {
+          valueEnd++;
+        }
+      }
+      const value = tag.slice(valueStart, valueEnd);
+      index = valueEnd;
+
+      if (quote === "{" && this.flavor === "svelte") {
+        parts.push(`${name}="${this.addExpression(value)}"`);
+      } else if (
+        (quote === '"' || quote === "'") &&
+        this.flavor &&
+        DIRECTIVE_PATTERNS[this.flavor].test(name)
+      ) {
+        parts.push(
+          `${name}=${quote}${TemplateSyntax.normalizeExpression(value.slice(1, -1))}${quote}`
+        );
+      } else {
+        parts.push(`${name}=${value}`);
+      }
+    }
+
+    return parts.join(" ") + tag.slice(index);
+  }
+
+  /**
+   * **Replace a Svelte brace tag with a block placeholder or expression**
+   */
+  private protectSvelteTag(raw: string): string {
+    const body = raw.slice(1, -1).trimStart();
+    if (body.startsWith("#")) {
+      return this.openBlock(raw, "");
+    }
+    if (body.startsWith(":") && this.openBlocks.length > 0) {
+      return this.continueBlock(raw);
+    }
+    if (body.startsWith("/") && this.openBlocks.length > 0) {
+      return this.closeBlock(raw);
+    }
+    return this.addExpression(raw);
+  }
+
+  /**
+   * **Read an Angular block header up to and including its "{"**
+   * Returns the offset after the brace, or undefined when there is none
+   */
+  private readAngularHeader(
+    html: string,
+    start: number,
+    pattern: RegExp
+  ): number | undefined {
+    pattern.lastIndex = start;
+    if (!pattern.exec(html)) {
+      return undefined;
+    }
+
+    let index = pattern.lastIndex;
+    while (/\s/.test(html[index] ?? "")) {
+      index++;
+    }
+    if (html[index] === "(") {
+      const close = TemplateSyntax.findClosing(html, index);
+      if (close < 0) {
+        return undefined;
+      }
+      index = close + 1;
+      while (/\s/.test(html[index] ?? "")) {
+        index++;
+      }
+    }
+    return html[index] === "{" ? index + 1 : undefined;
+  }
+
+  private openBlock(open: string, close: string): string {
+    const id = this.blocks.push({ open, close, continued: false }) - 1;
+    this.openBlocks.push(id);
+    return `<${BLOCK_PLACEHOLDER}${id}>`;
+  }
+
+  /**
+   * **Close the current block and open its next branch**
+   */
+  private continueBlock(open: string): string {
+    const id = this.openBlocks.pop()!;
+    this.blocks[id].continued = true;
+    const next = this.openBlock(open, this.blocks[id].close);
+    return `</${BLOCK_PLACEHOLDER}${id}>${next}`;
+  }
+
+  private closeBlock(close: string): string {
+    const id = this.openBlocks.pop()!;
+    this.blocks[id].close = close;
+    return `</${BLOCK_PLACEHOLDER}${id}>`;
+  }
+
+  private addExpression(raw: string): string {
+    return `__fm_expr_${this.expressions.push(raw) - 1}__`;
+  }
+
+  private addInterpolation(raw: string): string {
+    return this.createInterpolation(this.interpolations.push(raw) - 1);
+  }
+
+  /**
+   * **Placeholder padded to the width of the interpolation it stands for**
+   */
+  private createInterpolation(id: number): string {
+    return `fmtext${id}x`.padEnd(this.interpolations[id].length, "x");
+  }
+
+  /**
+   * **Put an interpolation back, keeping text that ran into its padding**
+   * Words that only look like a placeholder are left as they are
+   */
+  private restoreInterpolation(match: string, id: number): string {
+    const raw = this.interpolations[id];
+    const placeholder = raw === undefined ? "" : this.createInterpolation(id);
+    return placeholder && match.startsWith(placeholder)
+      ? raw + match.slice(placeholder.length)
+      : match;
+  }
+
+  /**
+   * **Find the ">" ending a tag, skipping quoted and braced values**
+   */
+  private findTagEnd(html: string, start: number): number {
+    let quote = "";
+    for (let index = start + 1; index < html.length; index++) {
+      const char = html[index];
+      if (quote) {
+        quote = char === quote ? "" : quote;
+      } else if (char === '"' || char === "'") {
+        quote = char;
+      } else if (char === "{" && this.flavor === "svelte") {
+        index = TemplateSyntax.findClosing(html, index);
+        if (index < 0) {
+          return html.length;
+        }
+      } else if (char === ">") {
+        return index + 1;
+      }
+    }
+    return html.length;
+  }
+
+  /**
+   * **Find the bracket closing the one at `start`, skipping string literals**
+   * Returns -1 when it is never closed
+   */
+  private static findClosing(text: string, start: number): number {
+    const open = text[start];
+    const close = open === "(" ? ")" : "}";
+    let depth = 0;
+    let quote = "";
+
+    for (let index = start; index < text.length; index++) {
+      const char = text[index];
+      if (quote) {
+        if (char === "\\") {
+          index++;
+        } else if (char === quote) {
+          quote = "";
+        }
+      } else if (char === '"' || char === "'" || char === "`") {
+        quote = char;
+      } else if (char === open) {
+        depth++;
+      } else if (char === close && --depth === 0) {
+        return index;
+      }
+    }
+    return -1;
+  }
+
+  /**
+   * **Collapse whitespace in an expression outside its string literals**
+   */
+  private static normalizeExpression(value: string): string {
+    let output = "";
+    let quote = "";
+
+    for (let index = 0; index < value.length; index++) {
+      const char = value[index];
+      if (quote) {
+        quote = char === quote && value[index - 1] !== "\\" ? "" : quote;
+        output += char;
+      } else if (/\s/.test(char)) {
+        output += /\s$/.test(output) ? "" : " ";
+      } else {
+        quote = char === "'" || char === '"' || char === "`" ? char : "";
+        output += char;
+      }
+    }
+    return output.trim();
+  }
+}
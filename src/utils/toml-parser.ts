@@ -0,0 +1,314 @@
+import { ParseError } from "../errors/format-error";
+
+/**
+ * **Value of a TOML document**
+ * Dates and times are kept as the strings they were written as
+ */
+export type TomlValue =
+  string | number | boolean | TomlValue[] | { [key: string]: TomlValue };
+
+export type TomlTable = { [key: string]: TomlValue };
+
+const BARE_KEY_PATTERN = /[A-Za-z0-9_-]+/y;
+const SCALAR_PATTERN = /[^\s,\]}#]+/y;
+
+const ESCAPES: Record<string, string> = {
+  b: "\b",
+  t: "\t",
+  n: "\n",
+  f: "\f",
+  r: "\r",
+  '"': '"',
+  "\\": "\\",
+};
+
+/**
+ * **Reader for TOML configuration files such as pyproject.toml**
+ *
+ * Covers tables, arrays of tables, dotted keys, all string forms, numbers,
+ * booleans, arrays and inline tables. Dates are returned as strings.
+ */
+export class TomlParser {
+  private offset = 0;
+  private readonly root: TomlTable = {};
+
+  private constructor(
+    private readonly text: string,
+    private readonly languageId: string
+  ) {}
+
+  /**
+   * **Parse a TOML document into plain objects**
+   */
+  static parse(text: string, languageId: string = "toml"): TomlTable {
+    return new TomlParser(text.replace(/\r\n/g, "\n"), languageId).parse();
+  }
+
+  private parse(): TomlTable {
+    let table = this.root;
+
+    while (this.skipTrivia(true)) {
+      if (this.text.startsWith("[[", this.offset)) {
+        this.offset += 2;
+        const keys = this.parseKey();
+        this.expect("]]");
+        const parent = this.descend(this.root, keys.slice(0, -1));
+        const last = keys[keys.length - 1];
+        const list = parent[last] ?? (parent[last] = []);
+        if (!Array.isArray(list)) {
+          throw this.error(`'${keys.join(".")}' is not an array of tables`);
+        }
+        table = {};
+        list.push(table);
+      } else if (this.text[this.offset] === "[") {
+        this.offset++;
+        table = this.descend(this.root, this.parseKey());
+        this.expect("]");
+      } else {
+        this.parseKeyValue(table);
+      }
+      this.expectLineEnd();
+    }
+    return this.root;
+  }
+
+  private parseKeyValue(table: TomlTable): void {
+    const keys = this.parseKey();
+    this.skipTrivia(false);
+    this.expect("=");
+    this.skipTrivia(false);
+    const parent = this.descend(table, keys.slice(0, -1));
+    const last = keys[keys.length - 1];
+    if (last in parent) {
+      throw this.error(`Duplicate key '${keys.join(".")}'`);
+    }
+    parent[last] = this.parseValue();
+  }
+
+  /**
+   * **Parse a possibly dotted and quoted key**
+   */
+  private parseKey(): string[] {
+    const keys: string[] = [];
+    do {
+      this.skipTrivia(false);
+      const char = this.text[this.offset];
+      if (char === '"' || char === "'") {
+        keys.push(this.parseString());
+      } else {
+        BARE_KEY_PATTERN.lastIndex = this.offset;
+        const match = BARE_KEY_PATTERN.exec(this.text);
+        if (!match) {
+          throw this.error("Expected a key");
+        }
+        keys.push(match[0]);
+        this.offset += match[0].length;
+      }
+      this.skipTrivia(false);
+    } while (this.text[this.offset] === "." && ++this.offset);
+    return keys;
+  }
+
+  private parseValue(): TomlValue {
+    const char = this.text[this.offset];
+    if (char === '"' || char === "'") {
+      return this.parseString();
+    }
+    if (char === "[") {
+      return this.parseArray();
+    }
+    if (char === "{") {
+      return this.parseInlineTable();
+    }
+
+    SCALAR_PATTERN.lastIndex = this.offset;
+    let token = SCALAR_PATTERN.exec(this.text)?.[0];
+    if (!token) {
+      throw this.error("Expected a value");
+    }
+    // **Dates may hold a space between the date and the time**
+    const time = /^\d{4}-\d{2}-\d{2} (\d{2}:\d{2}[^\s,\]}#]*)/.exec(
+      this.text.slice(this.offset)
+    );
+    if (time) {
+      token = time[0];
+    }
+    this.offset += token.length;
+
+    if (token === "true" || token === "false") {
+      return token === "true";
+    }
+    if (/^\d{4}-\d{2}-\d{2}|^\d{2}:\d{2}/.test(token)) {
+      return token;
+    }
+    const number = this.parseNumber(token.replace(/_/g, ""));
+    if (number === undefined) {
+      throw this.error(`Invalid value '${token}'`, this.offset - token.length);
+    }
+    return number;
+  }
+
+  private parseNumber(token: string): number | undefined {
+    const special = /^([+-])?(inf|nan)$/.exec(token);
+    if (special) {
+      const value = special[2] === "inf" ? Infinity : NaN;
+      return special[1] === "-" ? -value : value;
+    }
+    const radix = /^0([xob])([0-9a-fA-F]+)$/.exec(token);
+    if (radix) {
+      return parseInt(radix[2], { x: 16, o: 8, b: 2 }[radix[1]]);
+    }
+    return /^[+-]?\d+(\.\d+)?([eE][+-]?\d+)?$/.test(token)
+      ? Number(token)
+      : undefined;
+  }
+
+  private parseString(): string {
+    const quote = this.text[this.offset];
+    const multiline = this.text.startsWith(quote.repeat(3), this.offset);
+    const delimiter = multiline ? quote.repeat(3) : quote;
+    const start = this.offset;
+    this.offset += delimiter.length;
+    // **A newline right after the opening delimiter is trimmed**
+    if (multiline && this.text[this.offset] === "\n") {
+      this.offset++;
+    }
+
+    let value = "";
+    while (this.offset < this.text.length) {
+      if (this.text.startsWith(delimiter, this.offset)) {
+        // **Up to two quotes may sit right before the closing delimiter**
+        while (multiline && this.text[this.offset + 3] === quote) {
+          value += quote;
+          this.offset++;
+        }
+        this.offset += delimiter.length;
+        return value;
+      }
+      const char = this.text[this.offset];
+      if (char === "\n" && !multiline) {
+        break;
+      }
+      if (char === "\\" && quote === '"') {
+        value += this.parseEscape(multiline);
+      } else {
+        value += char;
+        this.offset++;
+      }
+    }
+    throw this.error("Unterminated string", start);
+  }
+
+  private parseEscape(multiline: boolean): string {
+    const next = this.text[this.offset + 1];
+    if (multiline && /[ \t\n]/.test(next)) {
+      // **A line ending backslash trims the whitespace that follows**
+      const rest = /^\\[ \t]*\n[\s]*/.exec(this.text.slice(this.offset));
+      if (rest) {
+        this.offset += rest[0].length;
+        return "";
+      }
+    }
+    if (next in ESCAPES) {
+      this.offset += 2;
+      return ESCAPES[next];
+    }
+    const unicode = /^\\(?:u([0-9a-fA-F]{4})|U([0-9a-fA-F]{8}))/.exec(
+      this.text.slice(this.offset, this.offset + 10)
+    );
+    if (!unicode) {
+      throw this.error(`Invalid escape sequence '\\${next ?? ""}'`);
+    }
+    this.offset += unicode[0].length;
+    return String.fromCodePoint(parseInt(unicode[1] ?? unicode[2], 16));
+  }
+
+  private parseArray(): TomlValue[] {
+    const values: TomlValue[] = [];
+    this.offset++;
+    while (this.skipTrivia(true) && this.text[this.offset] !== "]") {
+      values.push(this.parseValue());
+      this.skipTrivia(true);
+      if (this.text[this.offset] === ",") {
+        this.offset++;
+      } else if (this.text[this.offset] !== "]") {
+        throw this.error("Expected ',' or ']' in array");
+      }
+    }
+    this.expect("]");
+    return values;
+  }
+
+  private parseInlineTable(): TomlTable {
+    const table: TomlTable = {};
+    this.offset++;
+    this.skipTrivia(false);
+    while (this.text[this.offset] !== "}") {
+      this.parseKeyValue(table);
+      this.skipTrivia(false);
+      if (this.text[this.offset] === ",") {
+        this.offset++;
+        this.skipTrivia(false);
+      } else if (this.text[this.offset] !== "}") {
+        throw this.error("Expected ',' or '}' in inline table");
+      }
+    }
+    this.offset++;
+    return table;
+  }
+
+  /**
+   * **Find or create the table at a key path**
+   * The last table of an array of tables stands for the array
+   */
+  private descend(table: TomlTable, keys: string[]): TomlTable {
+    return keys.reduce<TomlTable>((current, key) => {
+      let next = current[key];
+      if (next === undefined) {
+        next = current[key] = {};
+      }
+      if (Array.isArray(next)) {
+        next = next[next.length - 1];
+      }
+      if (typeof next !== "object" || next === null || Array.isArray(next)) {
+        throw this.error(`'${key}' is not a table`);
+      }
+      return next;
+    }, table);
+  }
+
+  /**
+   * **Skip whitespace and comments, optionally across lines**
+   * Returns false at the end of the document
+   */
+  private skipTrivia(newlines: boolean): boolean {
+    const pattern = newlines ? /(?:\s|#[^\n]*)*/y : /(?:[ \t]|#[^\n]*)*/y;
+    pattern.lastIndex = this.offset;
+    this.offset += pattern.exec(this.text)![0].length;
+    return this.offset < this.text.length;
+  }
+
+  private expectLineEnd(): void {
+    this.skipTrivia(false);
+    if (this.offset < this.text.length && this.text[this.offset] !== "\n") {
+      throw this.error("Expected the end of the line");
+    }
+  }
+
+  private expect(token: string): void {
+    if (!this.text.startsWith(token, this.offset)) {
+      throw this.error(`Expected '${token}'`);
+    }
+    this.offset += token.length;
+  }
+
+  private error(message: string, offset: number = this.offset): ParseError {
+    const before = this.text.slice(0, offset).split("\n");
+    return new ParseError(
+      message,
+      this.languageId,
+      before.length,
+      before[before.length - 1].length + 1
+    );
+  }
+}
@@ -0,0 +1,148 @@
+import { ParseError } from "../errors/format-error";
+import { XmlToken } from "../types/xml-tokens";
+import { XmlDocumentNode, XmlElementNode, XmlNode } from "../types/xml-tree";
+import { XmlScanner } from "./xml-scanner";
+
+const PREDEFINED_ENTITIES: Record<string, string> = {
+  lt: "<",
+  gt: ">",
+  amp: "&",
+  apos: "'",
+  quot: '"',
+};
+
+/**
+ * **Element tree parser for XML documents**
+ *
+ * Builds a lightweight tree from scanner tokens for checks that need the
+ * document structure. Comments and processing instructions are dropped.
+ */
+export class XmlParser {
+  constructor(
+    private readonly text: string,
+    private readonly languageId = "xml"
+  ) {}
+
+  /**
+   * **Parse text into an element tree**
+   */
+  static parse(text: string, languageId = "xml"): XmlDocumentNode {
+    return new XmlParser(text, languageId).parse();
+  }
+
+  /**
+   * **Decode character and predefined entity references**
+   * Unknown entities are kept as written
+   */
+  static decode(text: string): string {
+    return text.replace(
+      /&(#x[0-9a-fA-F]+|#\d+|\w+);/g,
+      (reference, name: string) => {
+        if (name.startsWith("#x")) {
+          return String.fromCodePoint(parseInt(name.slice(2), 16));
+        }
+        if (name.startsWith("#")) {
+          return String.fromCodePoint(parseInt(name.slice(1), 10));
+        }
+        return PREDEFINED_ENTITIES[name] ?? reference;
+      }
+    );
+  }
+
+  /**
+   * **Parse the whole document**
+   */
+  parse(): XmlDocumentNode {
+    const document: XmlDocumentNode = {};
+    const stack: XmlElementNode[] = [];
+
+    for (const token of XmlScanner.scan(this.text, this.languageId)) {
+      const parent = stack[stack.length - 1];
+      switch (token.type) {
+        case "doctype":
+          document.doctype = token;
+          break;
+        case "startTag": {
+          const element: XmlElementNode = {
+            type: "element",
+            name: token.name!,
+            attributes: token.attributes!,
+            children: [],
+            start: token.start,
+          };
+          if (parent) {
+            parent.children.push(element);
+          } else if (document.root) {
+            throw this.createError("Document has more than one root", token);
+          } else {
+            document.root = element;
+          }
+          if (!token.selfClosing) {
+            stack.push(element);
+          }
+          break;
+        }
+        case "endTag":
+          if (!parent || parent.name !== token.name) {
+            throw this.createError(
+              parent
+                ? `Expected </${parent.name}> but found </${token.name}>`
+                : `Unexpected </${token.name}>`,
+              token
+            );
+          }
+          stack.pop();
+          break;
+        case "text":
+        case "cdata":
+          this.appendText(parent, token);
+          break;
+      }
+    }
+
+    const unclosed = stack[stack.length - 1];
+    if (unclosed) {
+      throw new ParseError(
+        `Element <${unclosed.name}> is not closed`,
+        this.languageId,
+        ...this.getPosition(unclosed.start)
+      );
+    }
+    return document;
+  }
+
+  /**
+   * **Add character data to the open element**
+   */
+  private appendText(
+    parent: XmlElementNode | undefined,
+    token: XmlToken
+  ): void {
+    const text =
+      token.type === "cdata"
+        ? token.raw.slice("<![CDATA[".length, -"]]>".length)
+        : XmlParser.decode(token.raw);
+    if (!parent) {
+      if (token.raw.trim()) {
+        throw this.createError("Text is not allowed outside the root", token);
+      }
+      return;
+    }
+
+    const node: XmlNode = { type: "text", text, start: token.start };
+    parent.children.push(node);
+  }
+
+  private createError(message: string, token: XmlToken): ParseError {
+    return new ParseError(
+      message,
+      this.languageId,
+      ...this.getPosition(token.start)
+    );
+  }
+
+  private getPosition(offset: number): [number, number] {
+    const before = this.text.slice(0, offset).split("\n");
+    return [before.length, before[before.length - 1].length + 1];
+  }
+}
@@ -0,0 +1,247 @@
+import { ParseError } from "../errors/format-error";
+import { XmlAttribute, XmlToken } from "../types/xml-tokens";
+
+const NAME_PATTERN = /[^\s/<>="']+/y;
+const WHITESPACE_PATTERN = /\s*/y;
+
+/**
+ * **Lexical scanner for XML documents**
+ *
+ * Splits a document into tags, text, comments, CDATA sections, processing
+ * instructions and doctype declarations without building a tree, keeping the
+ * source text of every token so layout passes can rewrite it selectively.
+ */
+export class XmlScanner {
+  private offset = 0;
+
+  constructor(
+    private readonly text: string,
+    private readonly languageId = "xml"
+  ) {}
+
+  /**
+   * **Scan text into a list of tokens**
+   */
+  static scan(text: string, languageId = "xml"): XmlToken[] {
+    return new XmlScanner(text, languageId).scan();
+  }
+
+  /**
+   * **Scan the whole document**
+   */
+  scan(): XmlToken[] {
+    const tokens: XmlToken[] = [];
+    this.offset = 0;
+
+    while (this.offset < this.text.length) {
+      tokens.push(this.scanToken());
+    }
+
+    return tokens;
+  }
+
+  /**
+   * **Scan the token starting at the current offset**
+   */
+  private scanToken(): XmlToken {
+    const start = this.offset;
+
+    if (this.text[start] !== "<") {
+      const next = this.text.indexOf("<", start);
+      return this.createToken(
+        "text",
+        start,
+        next < 0 ? this.text.length : next
+      );
+    }
+    if (this.text.startsWith("<!--", start)) {
+      return this.scanDelimited("comment", start, "-->");
+    }
+    if (this.text.startsWith("<![CDATA[", start)) {
+      return this.scanDelimited("cdata", start, "]]>");
+    }
+    if (this.text.startsWith("<?", start)) {
+      return this.scanDelimited("processingInstruction", start, "?>");
+    }
+    if (this.text.startsWith("<!", start)) {
+      return this.scanDoctype(start);
+    }
+    if (this.text.startsWith("</", start)) {
+      return this.scanEndTag(start);
+    }
+    return this.scanStartTag(start);
+  }
+
+  /**
+   * **Scan a construct that ends with a fixed delimiter**
+   */
+  private scanDelimited(
+    type: XmlToken["type"],
+    start: number,
+    delimiter: string
+  ): XmlToken {
+    const close = this.text.indexOf(delimiter, start + 2);
+    if (close < 0) {
+      throw this.createError(`Unterminated ${this.describe(type)}`, start);
+    }
+    return this.createToken(type, start, close + delimiter.length);
+  }
+
+  /**
+   * **Scan a doctype declaration including its internal subset**
+   */
+  private scanDoctype(start: number): XmlToken {
+    let quote = "";
+    let depth = 0;
+
+    for (let index = start + 2; index < this.text.length; index++) {
+      const char = this.text[index];
+      if (quote) {
+        quote = char === quote ? "" : quote;
+      } else if (char === '"' || char === "'") {
+        quote = char;
+      } else if (char === "[") {
+        depth++;
+      } else if (char === "]") {
+        depth--;
+      } else if (char === ">" && depth <= 0) {
+        return this.createToken("doctype", start, index + 1);
+      }
+    }
+
+    throw this.createError("Unterminated doctype declaration", start);
+  }
+
+  /**
+   * **Scan a closing tag**
+   */
+  private scanEndTag(start: number): XmlToken {
+    this.offset = start + 2;
+    const name = this.readName(start);
+    this.skipWhitespace();
+    if (this.text[this.offset] !== ">") {
+      throw this.createError(`Expected ">" to close </${name}>`, this.offset);
+    }
+
+    const token = this.createToken("endTag", start, this.offset + 1);
+    token.name = name;
+    return token;
+  }
+
+  /**
+   * **Scan an opening or self-closing tag with its attributes**
+   */
+  private scanStartTag(start: number): XmlToken {
+    this.offset = start + 1;
+    const name = this.readName(start);
+    const attributes: XmlAttribute[] = [];
+
+    for (;;) {
+      this.skipWhitespace();
+      if (this.text.startsWith("/>", this.offset)) {
+        const token = this.createToken("startTag", start, this.offset + 2);
+        return { ...token, name, attributes, selfClosing: true };
+      }
+      if (this.text[this.offset] === ">") {
+        const token = this.createToken("startTag", start, this.offset + 1);
+        return { ...token, name, attributes, selfClosing: false };
+      }
+      if (this.offset >= this.text.length) {
+        throw this.createError(`Unterminated tag <${name}>`, start);
+      }
+      attributes.push(this.scanAttribute(start));
+    }
+  }
+
+  /**
+   * **Scan a single quoted attribute**
+   */
+  private scanAttribute(tagStart: number): XmlAttribute {
+    const attributeStart = this.offset;
+    const name = this.readName(tagStart);
+    this.skipWhitespace();
+    if (this.text[this.offset] !== "=") {
+      throw this.createError(
+        `Expected "=" after attribute "${name}"`,
+        this.offset
+      );
+    }
+    this.offset++;
+    this.skipWhitespace();
+
+    const quote = this.text[this.offset];
+    if (quote !== '"' && quote !== "'") {
+      throw this.createError(
+        `Expected quoted value for attribute "${name}"`,
+        this.offset
+      );
+    }
+    const close = this.text.indexOf(quote, this.offset + 1);
+    if (close < 0) {
+      throw this.createError(
+        `Unterminated value for attribute "${name}"`,
+        this.offset
+      );
+    }
+
+    const value = this.text.slice(this.offset + 1, close);
+    this.offset = close + 1;
+    return {
+      name,
+      value,
+      quote,
+      raw: this.text.slice(attributeStart, this.offset),
+    };
+  }
+
+  /**
+   * **Read an element or attribute name**
+   */
+  private readName(tagStart: number): string {
+    NAME_PATTERN.lastIndex = this.offset;
+    const match = NAME_PATTERN.exec(this.text);
+    if (!match) {
+      throw this.createError("Expected a name", tagStart);
+    }
+    this.offset += match[0].length;
+    return match[0];
+  }
+
+  private skipWhitespace(): void {
+    WHITESPACE_PATTERN.lastIndex = this.offset;
+    this.offset += WHITESPACE_PATTERN.exec(this.text)![0].length;
+  }
+
+  private createToken(
+    type: XmlToken["type"],
+    start: number,
+    end: number
+  ): XmlToken {
+    this.offset = end;
+    return { type, raw: this.text.slice(start, end), start, end };
+  }
+
+  private describe(type: XmlToken["type"]): string {
+    switch (type) {
+      case "cdata":
+        return "CDATA section";
+      case "processingInstruction":
+        return "processing instruction";
+      default:
+        return type;
+    }
+  }
+
+  /**
+   * **Create a parse error for the given offset**
+   */
+  private createError(message: string, offset: number): ParseError {
+    const before = this.text.slice(0, offset).split("\n");
+    return new ParseError(
+      message,
+      this.languageId,
+      before.length,
+      before[before.length - 1].length + 1
+    );
+  }
+}
@@ -0,0 +1,1454 @@
+import * as fs from "fs";
+import * as path from "path";
+import { fileURLToPath } from "url";
+import { XmlDocumentNode, XmlElementNode } from "../types/xml-tree";
+import { XmlParser } from "./xml-parser";
+
+/**
+ * **Problem found while validating against a schema**
+ * `offset` is the 0-based position of the node the problem refers to
+ */
+export interface XmlSchemaIssue {
+  code: string;
+  message: string;
+  offset: number;
+  severity: "error" | "warning";
+}
+
+/**
+ * **Options for schema validation**
+ * Catalog keys are namespaces, public or system identifiers and schema URLs;
+ * values are local paths, relative ones resolved against the document
+ */
+export interface XmlSchemaOptions {
+  documentPath?: string;
+  catalog: Record<string, string>;
+}
+
+/**
+ * **Element declaration of a DTD**
+ */
+interface DtdElement {
+  kind: "empty" | "any" | "mixed" | "children";
+  names: string[];
+  model?: RegExp;
+}
+
+/**
+ * **Attribute declaration of a DTD**
+ */
+interface DtdAttribute {
+  name: string;
+  type: string;
+  values?: string[];
+  presence: "#REQUIRED" | "#IMPLIED" | "#FIXED" | "default";
+  fixed?: string;
+}
+
+/**
+ * **Content particle of an XML Schema complex type**
+ */
+type SchemaParticle =
+  | {
+      kind: "element";
+      name: string;
+      declaration: XmlElementNode;
+      min: number;
+      max: number;
+    }
+  | {
+      kind: "sequence" | "choice" | "all";
+      items: SchemaParticle[];
+      min: number;
+      max: number;
+    }
+  | { kind: "any"; min: number; max: number };
+
+/**
+ * **Global components collected from a schema and its includes**
+ */
+interface SchemaComponents {
+  elements: Map<string, XmlElementNode>;
+  complexTypes: Map<string, XmlElementNode>;
+  simpleTypes: Map<string, XmlElementNode>;
+  groups: Map<string, XmlElementNode>;
+  attributeGroups: Map<string, XmlElementNode>;
+  attributes: Map<string, XmlElementNode>;
+}
+
+const XSI_NAMESPACE = "http://www.w3.org/2001/XMLSchema-instance";
+const REMOTE_PATTERN = /^[a-z][a-z0-9+.-]*:\/\//i;
+
+const INTEGER_RANGES: Record<string, [number, number]> = {
+  byte: [-128, 127],
+  short: [-32768, 32767],
+  int: [-2147483648, 2147483647],
+  long: [Number.MIN_SAFE_INTEGER, Number.MAX_SAFE_INTEGER],
+  unsignedByte: [0, 255],
+  unsignedShort: [0, 65535],
+  unsignedInt: [0, 4294967295],
+  unsignedLong: [0, Number.MAX_SAFE_INTEGER],
+  nonNegativeInteger: [0, Infinity],
+  positiveInteger: [1, Infinity],
+  nonPositiveInteger: [-Infinity, 0],
+  negativeInteger: [-Infinity, -1],
+  integer: [-Infinity, Infinity],
+};
+
+const DATE = String.raw`-?\d{4,}-\d{2}-\d{2}`;
+const TIME = String.raw`\d{2}:\d{2}:\d{2}(?:\.\d+)?`;
+const TIMEZONE = String.raw`(?:Z|[+-]\d{2}:\d{2})?`;
+const BUILT_IN_PATTERNS: Record<string, RegExp> = {
+  boolean: /^(?:true|false|1|0)$/,
+  decimal: /^[+-]?(?:\d+(?:\.\d*)?|\.\d+)$/,
+  float: /^(?:[+-]?(?:\d+(?:\.\d*)?|\.\d+)(?:[eE][+-]?\d+)?|[+-]?INF|NaN)$/,
+  double: /^(?:[+-]?(?:\d+(?:\.\d*)?|\.\d+)(?:[eE][+-]?\d+)?|[+-]?INF|NaN)$/,
+  date: new RegExp(`^${DATE}${TIMEZONE}$`),
+  time: new RegExp(`^${TIME}${TIMEZONE}$`),
+  dateTime: new RegExp(`^${DATE}T${TIME}${TIMEZONE}$`),
+  NCName: /^[^\s:\d.-][^\s:]*$/,
+};
+
+/**
+ * **Offline validator for DTDs and XML Schemas**
+ *
+ * Validates a parsed document against the DTD named by its doctype and the
+ * schema named by `xsi:schemaLocation` or `xsi:noNamespaceSchemaLocation`.
+ * Only local files are read; remote locations must be mapped to local copies
+ * through the catalog and are otherwise reported and skipped.
+ *
+ * The XML Schema support covers the commonly used subset: global and local
+ * elements, named and anonymous types, sequence, choice, all, groups,
+ * attributes with their use and type, and simple type restrictions.
+ */
+export class XmlSchemaValidator {
+  private readonly issues: XmlSchemaIssue[] = [];
+  private readonly ids = new Set<string>();
+  private readonly idReferences: { id: string; offset: number }[] = [];
+  private readonly schema: SchemaComponents = {
+    elements: new Map(),
+    complexTypes: new Map(),
+    simpleTypes: new Map(),
+    groups: new Map(),
+    attributeGroups: new Map(),
+    attributes: new Map(),
+  };
+  private reach = 0;
+  private expected = new Set<string>();
+
+  constructor(
+    private readonly document: XmlDocumentNode,
+    private readonly options: XmlSchemaOptions
+  ) {}
+
+  /**
+   * **Validate a parsed document against the schemas it declares**
+   */
+  static async validate(
+    document: XmlDocumentNode,
+    options: XmlSchemaOptions
+  ): Promise<XmlSchemaIssue[]> {
+    return new XmlSchemaValidator(document, options).validate();
+  }
+
+  /**
+   * **Run DTD and XML Schema validation**
+   */
+  async validate(): Promise<XmlSchemaIssue[]> {
+    const root = this.document.root;
+    if (!root) {
+      return this.issues;
+    }
+
+    if (this.document.doctype) {
+      await this.validateDtd(root, this.document.doctype.raw);
+    }
+    await this.validateSchema(root);
+
+    return this.issues;
+  }
+
+  /**
+   * **Validate against the internal subset and a local external DTD**
+   */
+  private async validateDtd(
+    root: XmlElementNode,
+    doctype: string
+  ): Promise<void> {
+    const match = doctype.match(
+      /^<!DOCTYPE\s+([^\s[>]+)(?:\s+(?:SYSTEM\s+("[^"]*"|'[^']*')|PUBLIC\s+("[^"]*"|'[^']*')\s+("[^"]*"|'[^']*')))?\s*(?:\[([\s\S]*)\])?\s*>$/
+    );
+    if (!match) {
+      return;
+    }
+
+    const [, rootName, system, publicId, publicSystem, subset] = match;
+    const systemId = (system || publicSystem)?.slice(1, -1);
+    let dtd = subset || "";
+    if (systemId) {
+      const external = await this.loadResource(
+        systemId,
+        [publicId?.slice(1, -1), systemId],
+        0,
+        this.options.documentPath
+      );
+      dtd += "\n" + (external?.text || "");
+    }
+
+    const { elements, attributes } = this.parseDtd(dtd);
+    if (elements.size === 0 && attributes.size === 0) {
+      return;
+    }
+
+    if (root.name !== rootName) {
+      this.report(
+        "XML_DTD_ERROR",
+        `Root element <${root.name}> does not match the doctype name "${rootName}"`,
+        root.start
+      );
+    }
+    this.validateDtdElement(root, elements, attributes);
+    this.checkIdReferences("XML_DTD_ERROR");
+  }
+
+  /**
+   * **Collect element and attribute declarations from DTD text**
+   */
+  private parseDtd(text: string): {
+    elements: Map<string, DtdElement>;
+    attributes: Map<string, DtdAttribute[]>;
+  } {
+    const elements = new Map<string, DtdElement>();
+    const attributes = new Map<string, DtdAttribute[]>();
+    const declarations = this.expandParameterEntities(
+      text.replace(/<!--[\s\S]*?-->/g, "")
+    ).match(/<!(?:[^>"']|"[^"]*"|'[^']*')*>/g);
+
+    for (const declaration of declarations || []) {
+      const element = declaration.match(/^<!ELEMENT\s+(\S+)\s+([\s\S]*)>$/);
+      if (element && !elements.has(element[1])) {
+        elements.set(element[1], this.parseContentSpec(element[2]));
+      }
+
+      const list = declaration.match(/^<!ATTLIST\s+(\S+)\s+([\s\S]*)>$/);
+      if (list) {
+        const declared = attributes.get(list[1]) || [];
+        for (const attribute of this.parseAttributeList(list[2])) {
+          if (!declared.some((item) => item.name === attribute.name)) {
+            declared.push(attribute);
+          }
+        }
+        attributes.set(list[1], declared);
+      }
+    }
+
+    return { elements, attributes };
+  }
+
+  /**
+   * **Replace references to internal parameter entities**
+   */
+  private expandParameterEntities(text: string): string {
+    const entities = new Map<string, string>();
+    for (const match of text.matchAll(
+      /<!ENTITY\s+%\s+(\S+)\s+("[^"]*"|'[^']*')\s*>/g
+    )) {
+      if (!entities.has(match[1])) {
+        entities.set(match[1], match[2].slice(1, -1));
+      }
+    }
+
+    let expanded = text;
+    for (let pass = 0; pass < 8 && /%[\w.-]+;/.test(expanded); pass++) {
+      expanded = expanded.replace(
+        /%([\w.-]+);/g,
+        (reference, name: string) => entities.get(name) ?? reference
+      );
+    }
+    return expanded;
+  }
+
+  /**
+   * **Compile an element content specification**
+   * Children models become a regular expression over child names
+   */
+  private parseContentSpec(spec: string): DtdElement {
+    const compact = spec.replace(/\s+/g, "");
+    if (compact === "EMPTY") {
+      return { kind: "empty", names: [] };
+    }
+    if (compact === "ANY") {
+      return { kind: "any", names: [] };
+    }
+
+    const names = (compact.match(/[^()|,?*+]+/g) || []).filter(
+      (name) => name !== "#PCDATA"
+    );
+    if (compact.startsWith("(#PCDATA")) {
+      return { kind: "mixed", names };
+    }
+
+    const source = compact.replace(/[^()|,?*+]+|[(),]/g, (part) =>
+      part === "("
+        ? "(?:"
+        : part === ")"
+          ? ")"
+          : part === ","
+            ? ""
+            : `(?:${this.escapeRegExp(part)} )`
+    );
+    try {
+      return { kind: "children", names, model: new RegExp(`^${source}$`) };
+    } catch {
+      return { kind: "any", names };
+    }
+  }
+
+  /**
+   * **Parse the attribute definitions of an ATTLIST declaration**
+   */
+  private parseAttributeList(body: string): DtdAttribute[] {
+    const parts = body.match(/\([^)]*\)|"[^"]*"|'[^']*'|[^\s()"']+/g) || [];
+    const definitions: DtdAttribute[] = [];
+
+    for (let index = 0; index < parts.length;) {
+      const name = parts[index++];
+      let type = parts[index++];
+      if (!name || !type) {
+        break;
+      }
+      if (type === "NOTATION" && parts[index]?.startsWith("(")) {
+        type = parts[index++];
+      }
+
+      const values = type.startsWith("(")
+        ? type
+            .slice(1, -1)
+            .split("|")
+            .map((value) => value.trim())
+        : undefined;
+      const presence = parts[index++];
+      if (presence === "#REQUIRED" || presence === "#IMPLIED") {
+        definitions.push({ name, type, values, presence });
+      } else if (presence === "#FIXED") {
+        const fixed = parts[index++]?.slice(1, -1);
+        definitions.push({ name, type, values, presence, fixed });
+      } else {
+        definitions.push({ name, type, values, presence: "default" });
+      }
+    }
+
+    return definitions;
+  }
+
+  /**
+   * **Validate an element and its descendants against DTD declarations**
+   */
+  private validateDtdElement(
+    element: XmlElementNode,
+    elements: Map<string, DtdElement>,
+    attributes: Map<string, DtdAttribute[]>
+  ): void {
+    const declaration = elements.get(element.name);
+    if (!declaration && elements.size > 0) {
+      this.report(
+        "XML_DTD_ERROR",
+        `Element <${element.name}> is not declared in the DTD`,
+        element.start
+      );
+    }
+
+    this.validateDtdAttributes(element, attributes.get(element.name) || []);
+
+    const children = element.children.filter(
+      (child): child is XmlElementNode => child.type === "element"
+    );
+    const hasText = element.children.some(
+      (child) => child.type === "text" && child.text.trim() !== ""
+    );
+
+    switch (declaration?.kind) {
+      case "empty":
+        if (element.children.length > 0) {
+          this.report(
+            "XML_DTD_ERROR",
+            `Element <${element.name}> is declared EMPTY but has content`,
+            element.start
+          );
+        }
+        break;
+      case "mixed":
+        for (const child of children) {
+          if (!declaration.names.includes(child.name)) {
+            this.report(
+              "XML_DTD_ERROR",
+              `Element <${child.name}> is not allowed in <${element.name}>`,
+              child.start
+            );
+          }
+        }
+        break;
+      case "children":
+        if (hasText) {
+          this.report(
+            "XML_DTD_ERROR",
+            `Element <${element.name}> cannot contain text`,
+            element.start
+          );
+        }
+        if (
+          !declaration.model!.test(
+            children.map((child) => `${child.name} `).join("")
+          )
+        ) {
+          this.report(
+            "XML_DTD_ERROR",
+            `Content of <${element.name}> does not match its declaration`,
+            element.start
+          );
+        }
+        break;
+    }
+
+    for (const child of children) {
+      this.validateDtdElement(child, elements, attributes);
+    }
+  }
+
+  /**
+   * **Check attributes against their ATTLIST declarations**
+   */
+  private validateDtdAttributes(
+    element: XmlElementNode,
+    declared: DtdAttribute[]
+  ): void {
+    for (const attribute of element.attributes) {
+      if (this.isReservedAttribute(attribute.name)) {
+        continue;
+      }
+
+      const declaration = declared.find((item) => item.name === attribute.name);
+      const value = XmlParser.decode(attribute.value);
+      if (!declaration) {
+        this.report(
+          "XML_DTD_ERROR",
+          `Attribute "${attribute.name}" is not declared for <${element.name}>`,
+          element.start
+        );
+      } else if (declaration.values && !declaration.values.includes(value)) {
+        this.report(
+          "XML_DTD_ERROR",
+          `Attribute "${attribute.name}" must be one of ${declaration.values.join(", ")}`,
+          element.start
+        );
+      } else if (
+        declaration.presence === "#FIXED" &&
+        value !== declaration.fixed
+      ) {
+        this.report(
+          "XML_DTD_ERROR",
+          `Attribute "${attribute.name}" must have the fixed value "${declaration.fixed}"`,
+          element.start
+        );
+      } else {
+        this.trackIdentifier(declaration.type, value, element.start);
+      }
+    }
+
+    for (const declaration of declared) {
+      if (
+        declaration.presence === "#REQUIRED" &&
+        !element.attributes.some((item) => item.name === declaration.name)
+      ) {
+        this.report(
+          "XML_DTD_ERROR",
+          `Element <${element.name}> is missing required attribute "${declaration.name}"`,
+          element.start
+        );
+      }
+    }
+  }
+
+  /**
+   * **Validate against the schema named by the xsi location attributes**
+   */
+  private async validateSchema(root: XmlElementNode): Promise<void> {
+    const xsiPrefix = root.attributes
+      .find(
+        (attribute) =>
+          attribute.name.startsWith("xmlns:") &&
+          attribute.value === XSI_NAMESPACE
+      )
+      ?.name.slice(6);
+    if (!xsiPrefix) {
+      return;
+    }
+
+    const namespace = this.getNamespace(root);
+    const noNamespace = this.getAttribute(
+      root,
+      `${xsiPrefix}:noNamespaceSchemaLocation`
+    );
+    const pairs = (this.getAttribute(root, `${xsiPrefix}:schemaLocation`) || "")
+      .trim()
+      .split(/\s+/);
+    let location = noNamespace?.trim();
+    for (let index = 0; index + 1 < pairs.length; index += 2) {
+      if (pairs[index] === namespace) {
+        location = pairs[index + 1];
+      }
+    }
+    if (!location) {
+      return;
+    }
+
+    const loaded = await this.loadSchema(
+      location,
+      [namespace, location],
+      root.start,
+      this.options.documentPath,
+      new Set()
+    );
+    if (!loaded) {
+      return;
+    }
+
+    const declaration = this.schema.elements.get(this.localName(root.name));
+    if (!declaration) {
+      this.report(
+        "XML_SCHEMA_ERROR",
+        `Root element <${root.name}> is not declared in the schema`,
+        root.start
+      );
+      return;
+    }
+    this.validateSchemaElement(root, declaration);
+    this.checkIdReferences("XML_SCHEMA_ERROR");
+  }
+
+  /**
+   * **Load a schema and the schemas it includes or imports**
+   */
+  private async loadSchema(
+    location: string,
+    identifiers: (string | undefined)[],
+    offset: number,
+    basePath: string | undefined,
+    visited: Set<string>
+  ): Promise<boolean> {
+    const resource = await this.loadResource(
+      location,
+      identifiers,
+      offset,
+      basePath
+    );
+    if (!resource || visited.has(resource.path)) {
+      return !!resource;
+    }
+    visited.add(resource.path);
+
+    let schemaRoot: XmlElementNode | undefined;
+    try {
+      schemaRoot = XmlParser.parse(resource.text).root;
+    } catch (error) {
+      this.report(
+        "XML_SCHEMA_UNAVAILABLE",
+        `Schema ${location} could not be parsed: ${error instanceof Error ? error.message : error}`,
+        offset,
+        "warning"
+      );
+      return false;
+    }
+    if (!schemaRoot || this.localName(schemaRoot.name) !== "schema") {
+      return false;
+    }
+
+    for (const child of this.elementChildren(schemaRoot)) {
+      const name = this.getAttribute(child, "name");
+      switch (this.localName(child.name)) {
+        case "include":
+        case "import": {
+          const nested = this.getAttribute(child, "schemaLocation");
+          if (nested || this.getAttribute(child, "namespace")) {
+            await this.loadSchema(
+              nested || "",
+              [this.getAttribute(child, "namespace"), nested],
+              offset,
+              resource.path,
+              visited
+            );
+          }
+          break;
+        }
+        case "element":
+          this.register(this.schema.elements, name, child);
+          break;
+        case "complexType":
+          this.register(this.schema.complexTypes, name, child);
+          break;
+        case "simpleType":
+          this.register(this.schema.simpleTypes, name, child);
+          break;
+        case "group":
+          this.register(this.schema.groups, name, child);
+          break;
+        case "attributeGroup":
+          this.register(this.schema.attributeGroups, name, child);
+          break;
+        case "attribute":
+          this.register(this.schema.attributes, name, child);
+          break;
+      }
+    }
+
+    return true;
+  }
+
+  /**
+   * **Validate an instance element against its declaration**
+   */
+  private validateSchemaElement(
+    element: XmlElementNode,
+    declaration: XmlElementNode
+  ): void {
+    const typeName = this.getAttribute(declaration, "type");
+    const complexType = typeName
+      ? this.schema.complexTypes.get(this.localName(typeName))
+      : this.findChild(declaration, "complexType");
+    const fixed = this.getAttribute(declaration, "fixed");
+
+    if (!complexType) {
+      const simpleType = typeName || this.findChild(declaration, "simpleType");
+      // **Elements without a type, or of xs:anyType, accept any content**
+      if (simpleType && this.localName(typeName || "") !== "anyType") {
+        this.validateAttributes(element, []);
+        this.validateSimpleContent(element, simpleType, fixed);
+      }
+      return;
+    }
+
+    const { particle, attributes, anyAttribute, mixed, textType } =
+      this.describeComplexType(complexType);
+    this.validateAttributes(element, attributes, anyAttribute);
+
+    if (textType) {
+      this.validateSimpleContent(element, textType, fixed);
+      return;
+    }
+    if (
+      !mixed &&
+      element.children.some(
+        (child) => child.type === "text" && child.text.trim() !== ""
+      )
+    ) {
+      this.report(
+        "XML_SCHEMA_ERROR",
+        `Element <${element.name}> cannot contain text`,
+        element.start
+      );
+    }
+
+    const children = this.elementChildren(element);
+    const assigned: (XmlElementNode | undefined)[] = [];
+    this.reach = 0;
+    this.expected = new Set();
+    const matched = particle
+      ? this.matchParticle(particle, children, 0, assigned, (end) => {
+          // **Children left over after a complete match are unexpected too**
+          if (end > this.reach) {
+            this.reach = end;
+            this.expected = new Set();
+          }
+          return end === children.length;
+        })
+      : children.length === 0;
+
+    if (!matched && particle) {
+      // **Keep checking children whose declaration is known by name**
+      this.reportContentMismatch(element, children);
+      const declarations = this.collectDeclarations(particle, new Map());
+      children.forEach((child, index) => {
+        assigned[index] = declarations.get(this.localName(child.name));
+      });
+    } else if (!matched) {
+      this.reportContentMismatch(element, children);
+    }
+    children.forEach((child, index) => {
+      if (assigned[index]) {
+        this.validateSchemaElement(child, assigned[index]!);
+      }
+    });
+  }
+
+  /**
+   * **Map element names to their declarations within a particle**
+   */
+  private collectDeclarations(
+    particle: SchemaParticle,
+    declarations: Map<string, XmlElementNode>
+  ): Map<string, XmlElementNode> {
+    if (particle.kind === "element") {
+      if (!declarations.has(particle.name)) {
+        declarations.set(particle.name, particle.declaration);
+      }
+    } else if (particle.kind !== "any") {
+      for (const item of particle.items) {
+        this.collectDeclarations(item, declarations);
+      }
+    }
+    return declarations;
+  }
+
+  /**
+   * **Collect the particle, attributes and content kind of a complex type**
+   */
+  private describeComplexType(complexType: XmlElementNode): {
+    particle?: SchemaParticle;
+    attributes: XmlElementNode[];
+    anyAttribute: boolean;
+    mixed: boolean;
+    textType?: string | XmlElementNode;
+  } {
+    const attributes = this.collectAttributes(complexType);
+    const anyAttribute = !!this.findChild(complexType, "anyAttribute");
+    const mixed = this.getAttribute(complexType, "mixed") === "true";
+
+    const simpleContent = this.findChild(complexType, "simpleContent");
+    if (simpleContent) {
+      const derivation =
+        this.findChild(simpleContent, "extension") ||
+        this.findChild(simpleContent, "restriction");
+      const base = derivation && this.getAttribute(derivation, "base");
+      const baseType =
+        base && this.schema.complexTypes.get(this.localName(base));
+      const inherited = baseType
+        ? this.describeComplexType(baseType)
+        : undefined;
+      return {
+        attributes: [
+          ...(inherited?.attributes || []),
+          ...(derivation ? this.collectAttributes(derivation) : []),
+        ],
+        anyAttribute:
+          anyAttribute ||
+          !!inherited?.anyAttribute ||
+          !!(derivation && this.findChild(derivation, "anyAttribute")),
+        mixed: true,
+        textType: inherited?.textType || base || "string",
+      };
+    }
+
+    const complexContent = this.findChild(complexType, "complexContent");
+    const derivation =
+      complexContent &&
+      (this.findChild(complexContent, "extension") ||
+        this.findChild(complexContent, "restriction"));
+    if (derivation) {
+      const base = this.getAttribute(derivation, "base");
+      const baseType =
+        base && this.schema.complexTypes.get(this.localName(base));
+      const inherited =
+        baseType && this.localName(derivation.name) === "extension"
+          ? this.describeComplexType(baseType)
+          : undefined;
+      const own = this.createParticle(derivation);
+      const particle =
+        inherited?.particle && own
+          ? {
+              kind: "sequence" as const,
+              items: [inherited.particle, own],
+              min: 1,
+              max: 1,
+            }
+          : inherited?.particle || own;
+      return {
+        particle,
+        attributes: [
+          ...(inherited?.attributes || []),
+          ...this.collectAttributes(derivation),
+        ],
+        anyAttribute:
+          anyAttribute ||
+          !!inherited?.anyAttribute ||
+          !!this.findChild(derivation, "anyAttribute"),
+        mixed:
+          mixed ||
+          this.getAttribute(complexContent!, "mixed") === "true" ||
+          !!inherited?.mixed,
+      };
+    }
+
+    return {
+      particle: this.createParticle(complexType),
+      attributes,
+      anyAttribute,
+      mixed,
+    };
+  }
+
+  /**
+   * **Build the content particle defined directly inside a schema node**
+   */
+  private createParticle(node: XmlElementNode): SchemaParticle | undefined {
+    for (const child of this.elementChildren(node)) {
+      const particle = this.toParticle(child);
+      if (particle) {
+        return particle;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * **Convert a schema node into a particle, if it is one**
+   */
+  private toParticle(node: XmlElementNode): SchemaParticle | undefined {
+    const min = Number(this.getAttribute(node, "minOccurs") ?? 1);
+    const maxValue = this.getAttribute(node, "maxOccurs") ?? "1";
+    const max = maxValue === "unbounded" ? Infinity : Number(maxValue);
+
+    switch (this.localName(node.name)) {
+      case "element": {
+        const reference = this.getAttribute(node, "ref");
+        const declaration = reference
+          ? this.schema.elements.get(this.localName(reference))
+          : node;
+        const name = this.localName(
+          reference || this.getAttribute(node, "name") || ""
+        );
+        return declaration
+          ? { kind: "element", name, declaration, min, max }
+          : { kind: "any", min, max };
+      }
+      case "sequence":
+      case "choice":
+      case "all":
+        return {
+          kind: this.localName(node.name) as "sequence" | "choice" | "all",
+          items: this.elementChildren(node)
+            .map((child) => this.toParticle(child))
+            .filter((item): item is SchemaParticle => !!item),
+          min,
+          max,
+        };
+      case "group": {
+        const reference = this.getAttribute(node, "ref");
+        const group =
+          reference && this.schema.groups.get(this.localName(reference));
+        const inner = group && this.createParticle(group);
+        return inner
+          ? { kind: "sequence", items: [inner], min, max }
+          : undefined;
+      }
+      case "any":
+        return { kind: "any", min, max };
+      default:
+        return undefined;
+    }
+  }
+
+  /**
+   * **Match children against a particle with backtracking**
+   * Calls `next` with each index the particle can end at until it accepts
+   */
+  private matchParticle(
+    particle: SchemaParticle,
+    children: XmlElementNode[],
+    index: number,
+    assigned: (XmlElementNode | undefined)[],
+    next: (end: number) => boolean
+  ): boolean {
+    const repeat = (count: number, position: number): boolean => {
+      if (count < particle.max) {
+        const more = this.matchOnce(
+          particle,
+          children,
+          position,
+          assigned,
+          (end) =>
+            (end > position || count < particle.min) && repeat(count + 1, end)
+        );
+        if (more) {
+          return true;
+        }
+      }
+      return count >= particle.min && next(position);
+    };
+    return repeat(0, index);
+  }
+
+  /**
+   * **Match a single occurrence of a particle**
+   */
+  private matchOnce(
+    particle: SchemaParticle,
+    children: XmlElementNode[],
+    index: number,
+    assigned: (XmlElementNode | undefined)[],
+    next: (end: number) => boolean
+  ): boolean {
+    switch (particle.kind) {
+      case "element":
+      case "any": {
+        const child = children[index];
+        if (particle.kind === "element") {
+          if (index > this.reach) {
+            this.reach = index;
+            this.expected = new Set();
+          }
+          if (index === this.reach) {
+            this.expected.add(particle.name);
+          }
+        }
+        if (
+          !child ||
+          (particle.kind === "element" &&
+            this.localName(child.name) !== particle.name)
+        ) {
+          return false;
+        }
+        assigned[index] =
+          particle.kind === "element" ? particle.declaration : undefined;
+        if (next(index + 1)) {
+          return true;
+        }
+        assigned[index] = undefined;
+        return false;
+      }
+      case "sequence": {
+        const step = (item: number, position: number): boolean =>
+          item === particle.items.length
+            ? next(position)
+            : this.matchParticle(
+                particle.items[item],
+                children,
+                position,
+                assigned,
+                (end) => step(item + 1, end)
+              );
+        return step(0, index);
+      }
+      case "choice":
+        return particle.items.some((item) =>
+          this.matchParticle(item, children, index, assigned, next)
+        );
+      case "all": {
+        const used = new Set<number>();
+        const step = (position: number): boolean => {
+          const complete = particle.items.every(
+            (item, itemIndex) => used.has(itemIndex) || item.min === 0
+          );
+          if (complete && next(position)) {
+            return true;
+          }
+          return particle.items.some((item, itemIndex) => {
+            if (used.has(itemIndex)) {
+              return false;
+            }
+            used.add(itemIndex);
+            const matched = this.matchOnce(
+              item,
+              children,
+              position,
+              assigned,
+              (end) => end > position && step(end)
+            );
+            used.delete(itemIndex);
+            return matched;
+          });
+        };
+        return step(index);
+      }
+    }
+  }
+
+  /**
+   * **Report where the children stopped matching the content model**
+   */
+  private reportContentMismatch(
+    element: XmlElementNode,
+    children: XmlElementNode[]
+  ): void {
+    const expected = [...this.expected].map((name) => `<${name}>`).join(" or ");
+    const child = children[this.reach];
+    if (child) {
+      this.report(
+        "XML_SCHEMA_ERROR",
+        expected
+          ? `Unexpected element <${child.name}>; expected ${expected}`
+          : `Unexpected element <${child.name}> in <${element.name}>`,
+        child.start
+      );
+    } else {
+      this.report(
+        "XML_SCHEMA_ERROR",
+        `Element <${element.name}> is incomplete; expected ${expected || "more content"}`,
+        element.start
+      );
+    }
+  }
+
+  /**
+   * **Collect attribute declarations including attribute groups**
+   */
+  private collectAttributes(node: XmlElementNode): XmlElementNode[] {
+    const attributes: XmlElementNode[] = [];
+    for (const child of this.elementChildren(node)) {
+      const kind = this.localName(child.name);
+      const reference = this.getAttribute(child, "ref");
+      if (kind === "attribute") {
+        const global =
+          reference && this.schema.attributes.get(this.localName(reference));
+        attributes.push(
+          global
+            ? {
+                ...global,
+                attributes: [...global.attributes, ...child.attributes],
+              }
+            : child
+        );
+      } else if (kind === "attributeGroup" && reference) {
+        const group = this.schema.attributeGroups.get(
+          this.localName(reference)
+        );
+        if (group) {
+          attributes.push(...this.collectAttributes(group));
+        }
+      }
+    }
+    return attributes;
+  }
+
+  /**
+   * **Check instance attributes against attribute declarations**
+   */
+  private validateAttributes(
+    element: XmlElementNode,
+    declarations: XmlElementNode[],
+    anyAttribute = false
+  ): void {
+    for (const attribute of element.attributes) {
+      if (this.isReservedAttribute(attribute.name)) {
+        continue;
+      }
+
+      const declaration = declarations.find(
+        (item) =>
+          this.localName(
+            this.getAttribute(item, "name") ||
+              this.getAttribute(item, "ref") ||
+              ""
+          ) === this.localName(attribute.name)
+      );
+      if (!declaration) {
+        if (!anyAttribute) {
+          this.report(
+            "XML_SCHEMA_ERROR",
+            `Attribute "${attribute.name}" is not allowed on <${element.name}>`,
+            element.start
+          );
+        }
+        continue;
+      }
+      if (this.getAttribute(declaration, "use") === "prohibited") {
+        this.report(
+          "XML_SCHEMA_ERROR",
+          `Attribute "${attribute.name}" is prohibited on <${element.name}>`,
+          element.start
+        );
+        continue;
+      }
+
+      const value = XmlParser.decode(attribute.value);
+      const type =
+        this.getAttribute(declaration, "type") ||
+        this.findChild(declaration, "simpleType") ||
+        "string";
+      const problem =
+        this.checkFixed(value, this.getAttribute(declaration, "fixed")) ||
+        this.checkSimpleValue(value, type);
+      if (problem) {
+        this.report(
+          "XML_SCHEMA_ERROR",
+          `Attribute "${attribute.name}" on <${element.name}>: ${problem}`,
+          element.start
+        );
+      } else if (typeof type === "string") {
+        this.trackIdentifier(this.localName(type), value, element.start);
+      }
+    }
+
+    for (const declaration of declarations) {
+      const name =
+        this.getAttribute(declaration, "name") ||
+        this.getAttribute(declaration, "ref");
+      if (
+        name &&
+        this.getAttribute(declaration, "use") === "required" &&
+        !element.attributes.some(
+          (attribute) => this.localName(attribute.name) === this.localName(name)
+        )
+      ) {
+        this.report(
+          "XML_SCHEMA_ERROR",
+          `Element <${element.name}> is missing required attribute "${this.localName(name)}"`,
+          element.start
+        );
+      }
+    }
+  }
+
+  /**
+   * **Validate the text of an element with simple content**
+   */
+  private validateSimpleContent(
+    element: XmlElementNode,
+    type: string | XmlElementNode,
+    fixed: string | undefined
+  ): void {
+    if (this.elementChildren(element).length > 0) {
+      this.report(
+        "XML_SCHEMA_ERROR",
+        `Element <${element.name}> cannot contain child elements`,
+        element.start
+      );
+      return;
+    }
+
+    const text = element.children
+      .map((child) => (child.type === "text" ? child.text : ""))
+      .join("");
+    const problem =
+      this.checkFixed(text, fixed) || this.checkSimpleValue(text, type);
+    if (problem) {
+      this.report(
+        "XML_SCHEMA_ERROR",
+        `Element <${element.name}>: ${problem}`,
+        element.start
+      );
+    }
+  }
+
+  private checkFixed(
+    value: string,
+    fixed: string | undefined
+  ): string | undefined {
+    return fixed !== undefined && value.trim() !== fixed
+      ? `value must be "${fixed}"`
+      : undefined;
+  }
+
+  /**
+   * **Check a value against a built-in or user-defined simple type**
+   * Returns a description of the problem, or nothing when it is valid
+   */
+  private checkSimpleValue(
+    value: string,
+    type: string | XmlElementNode
+  ): string | undefined {
+    if (typeof type === "string") {
+      const name = this.localName(type);
+      const simpleType = this.schema.simpleTypes.get(name);
+      return simpleType
+        ? this.checkSimpleValue(value, simpleType)
+        : this.checkBuiltInValue(value, name);
+    }
+
+    const restriction = this.findChild(type, "restriction");
+    const list = this.findChild(type, "list");
+    const union = this.findChild(type, "union");
+
+    if (list) {
+      const itemType =
+        this.getAttribute(list, "itemType") ||
+        this.findChild(list, "simpleType") ||
+        "string";
+      for (const item of value.trim().split(/\s+/).filter(Boolean)) {
+        const problem = this.checkSimpleValue(item, itemType);
+        if (problem) {
+          return problem;
+        }
+      }
+      return undefined;
+    }
+    if (union) {
+      const members: (string | XmlElementNode)[] = [
+        ...(this.getAttribute(union, "memberTypes") || "")
+          .split(/\s+/)
+          .filter(Boolean),
+        ...this.elementChildren(union),
+      ];
+      return members.length === 0 ||
+        members.some((member) => !this.checkSimpleValue(value, member))
+        ? undefined
+        : `"${value.trim()}" does not match any member type`;
+    }
+    if (!restriction) {
+      return undefined;
+    }
+
+    const base =
+      this.getAttribute(restriction, "base") ||
+      this.findChild(restriction, "simpleType") ||
+      "string";
+    const baseProblem = this.checkSimpleValue(value, base);
+    if (baseProblem) {
+      return baseProblem;
+    }
+    return this.checkFacets(value, restriction);
+  }
+
+  /**
+   * **Check the facets of a simple type restriction**
+   */
+  private checkFacets(
+    rawValue: string,
+    restriction: XmlElementNode
+  ): string | undefined {
+    const facets = this.elementChildren(restriction);
+    const value = rawValue.trim();
+    const facet = (name: string): string | undefined => {
+      const node = facets.find((item) => this.localName(item.name) === name);
+      return node && this.getAttribute(node, "value");
+    };
+
+    const enumeration = facets
+      .filter((item) => this.localName(item.name) === "enumeration")
+      .map((item) => this.getAttribute(item, "value") || "");
+    if (enumeration.length > 0 && !enumeration.includes(value)) {
+      return `"${value}" is not one of ${enumeration.join(", ")}`;
+    }
+
+    const patterns = facets
+      .filter((item) => this.localName(item.name) === "pattern")
+      .map((item) => this.getAttribute(item, "value") || "");
+    for (const pattern of patterns) {
+      try {
+        if (!new RegExp(`^(?:${pattern})$`, "u").test(value)) {
+          return `"${value}" does not match the pattern ${pattern}`;
+        }
+      } catch {
+        // **Patterns using XML Schema-only syntax are not checked**
+      }
+    }
+
+    const length = [...value].length;
+    const checks: [string, (limit: number) => boolean, string][] = [
+      ["length", (limit) => length === limit, "must have length"],
+      ["minLength", (limit) => length >= limit, "must have at least length"],
+      ["maxLength", (limit) => length <= limit, "must have at most length"],
+      ["minInclusive", (limit) => Number(value) >= limit, "must be at least"],
+      ["maxInclusive", (limit) => Number(value) <= limit, "must be at most"],
+      [
+        "minExclusive",
+        (limit) => Number(value) > limit,
+        "must be greater than",
+      ],
+      ["maxExclusive", (limit) => Number(value) < limit, "must be less than"],
+    ];
+    for (const [name, accepts, description] of checks) {
+      const limit = facet(name);
+      if (limit !== undefined && !accepts(Number(limit))) {
+        return `"${value}" ${description} ${limit}`;
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * **Check a value against a built-in XML Schema type**
+   */
+  private checkBuiltInValue(
+    rawValue: string,
+    type: string
+  ): string | undefined {
+    const value = rawValue.trim();
+    const range = INTEGER_RANGES[type];
+    if (range) {
+      return /^[+-]?\d+$/.test(value) &&
+        Number(value) >= range[0] &&
+        Number(value) <= range[1]
+        ? undefined
+        : `"${value}" is not a valid ${type}`;
+    }
+
+    const pattern = BUILT_IN_PATTERNS[type];
+    return pattern && !pattern.test(value)
+      ? `"${value}" is not a valid ${type}`
+      : undefined;
+  }
+
+  /**
+   * **Read a local DTD or schema, resolving it through the catalog**
+   * Remote locations are never fetched
+   */
+  private async loadResource(
+    location: string,
+    identifiers: (string | undefined)[],
+    offset: number,
+    basePath: string | undefined
+  ): Promise<{ path: string; text: string } | undefined> {
+    const catalog = this.options.catalog;
+    const mapped = identifiers.find((id) => id && catalog[id] !== undefined);
+    const documentDirectory = this.options.documentPath
+      ? path.dirname(this.options.documentPath)
+      : undefined;
+
+    let filePath: string | undefined;
+    if (mapped) {
+      filePath = this.resolvePath(catalog[mapped], documentDirectory);
+    } else if (location.startsWith("file:")) {
+      filePath = fileURLToPath(location);
+    } else if (!REMOTE_PATTERN.test(location) && location) {
+      filePath = this.resolvePath(
+        location,
+        basePath ? path.dirname(basePath) : undefined
+      );
+    }
+
+    if (!filePath) {
+      this.report(
+        "XML_SCHEMA_UNAVAILABLE",
+        location && REMOTE_PATTERN.test(location)
+          ? `Remote schema ${location} is not mapped in the schema catalog and was not validated`
+          : `Schema ${location || identifiers.find(Boolean)} cannot be resolved without a saved document or catalog entry`,
+        offset,
+        "warning"
+      );
+      return undefined;
+    }
+
+    try {
+      return {
+        path: filePath,
+        text: await fs.promises.readFile(filePath, "utf8"),
+      };
+    } catch {
+      this.report(
+        "XML_SCHEMA_UNAVAILABLE",
+        `Schema file ${filePath} could not be read`,
+        offset,
+        "warning"
+      );
+      return undefined;
+    }
+  }
+
+  private resolvePath(
+    location: string,
+    directory: string | undefined
+  ): string | undefined {
+    if (path.isAbsolute(location)) {
+      return location;
+    }
+    return directory ? path.resolve(directory, location) : undefined;
+  }
+
+  /**
+   * **Record ID and IDREF values so references can be checked at the end**
+   */
+  private trackIdentifier(type: string, value: string, offset: number): void {
+    if (type === "ID") {
+      if (this.ids.has(value)) {
+        this.report("XML_DUPLICATE_ID", `Duplicate ID "${value}"`, offset);
+      }
+      this.ids.add(value);
+    } else if (type === "IDREF" || type === "IDREFS") {
+      for (const id of value.trim().split(/\s+/).filter(Boolean)) {
+        this.idReferences.push({ id, offset });
+      }
+    }
+  }
+
+  private checkIdReferences(code: string): void {
+    for (const reference of this.idReferences.splice(0)) {
+      if (!this.ids.has(reference.id)) {
+        this.report(
+          code,
+          `IDREF "${reference.id}" does not match any ID`,
+          reference.offset
+        );
+      }
+    }
+  }
+
+  /**
+   * **Whether an attribute belongs to XML itself rather than the vocabulary**
+   */
+  private isReservedAttribute(name: string): boolean {
+    if (
+      name === "xmlns" ||
+      name.startsWith("xmlns:") ||
+      name.startsWith("xml:")
+    ) {
+      return true;
+    }
+    const prefix = name.split(":")[0];
+    return (
+      name.includes(":") &&
+      this.document.root!.attributes.some(
+        (attribute) =>
+          attribute.name === `xmlns:${prefix}` &&
+          attribute.value === XSI_NAMESPACE
+      )
+    );
+  }
+
+  private getNamespace(element: XmlElementNode): string | undefined {
+    const separator = element.name.indexOf(":");
+    const declaration =
+      separator < 0 ? "xmlns" : `xmlns:${element.name.slice(0, separator)}`;
+    return this.getAttribute(element, declaration);
+  }
+
+  private getAttribute(
+    element: XmlElementNode,
+    name: string
+  ): string | undefined {
+    const attribute = element.attributes.find((item) => item.name === name);
+    return attribute && XmlParser.decode(attribute.value);
+  }
+
+  private findChild(
+    element: XmlElementNode,
+    localName: string
+  ): XmlElementNode | undefined {
+    return this.elementChildren(element).find(
+      (child) => this.localName(child.name) === localName
+    );
+  }
+
+  private elementChildren(element: XmlElementNode): XmlElementNode[] {
+    return element.children.filter(
+      (child): child is XmlElementNode => child.type === "element"
+    );
+  }
+
+  private localName(name: string): string {
+    return name.slice(name.indexOf(":") + 1);
+  }
+
+  private register(
+    components: Map<string, XmlElementNode>,
+    name: string | undefined,
+    node: XmlElementNode
+  ): void {
+    if (name && !components.has(name)) {
+      components.set(name, node);
+    }
+  }
+
+  private escapeRegExp(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  }
+
+  private report(
+    code: string,
+    message: string,
+    offset: number,
+    severity: XmlSchemaIssue["severity"] = "error"
+  ): void {
+    this.issues.push({ code, message, offset, severity });
+  }
+}
@@ -0,0 +1,309 @@
+import { YamlDocument, YamlMapping, YamlNode, YamlPair } from "../types";
+import { YamlParser } from "./yaml-parser";
+
+/**
+ * **Key ordering for a mapping and the mappings nested below it**
+ * `additionalProperties` applies to the values of keys missing from
+ * `properties`. Sequences pass their schema on to their items.
+ */
+export interface YamlKeyOrderSchema {
+  order?: string[];
+  properties?: Record<string, YamlKeyOrderSchema>;
+  additionalProperties?: YamlKeyOrderSchema;
+}
+
+/**
+ * **Key ordering schema for one YAML dialect**
+ * A document uses the profile when the file name matches one of `files`
+ * or its root mapping has all of `keys`
+ */
+export interface YamlKeyOrderProfile extends YamlKeyOrderSchema {
+  files?: string[];
+  keys?: string[];
+}
+
+const METADATA_ORDER: YamlKeyOrderSchema = {
+  order: ["name", "generateName", "namespace", "labels", "annotations"],
+};
+
+const WORKFLOW_STEP_ORDER: YamlKeyOrderSchema = {
+  order: [
+    "name",
+    "id",
+    "if",
+    "uses",
+    "run",
+    "shell",
+    "working-directory",
+    "with",
+    "env",
+    "continue-on-error",
+    "timeout-minutes",
+  ],
+};
+
+/**
+ * **Built-in profiles for well-known YAML dialects**
+ */
+export const BUILT_IN_KEY_ORDER_PROFILES: Record<string, YamlKeyOrderProfile> =
+  {
+    kubernetes: {
+      keys: ["apiVersion", "kind"],
+      order: [
+        "apiVersion",
+        "kind",
+        "metadata",
+        "spec",
+        "data",
+        "stringData",
+        "status",
+      ],
+      properties: { metadata: METADATA_ORDER },
+    },
+    "github-actions": {
+      files: [".github/workflows/*.yml", ".github/workflows/*.yaml"],
+      keys: ["on", "jobs"],
+      order: [
+        "name",
+        "run-name",
+        "on",
+        "permissions",
+        "env",
+        "defaults",
+        "concurrency",
+        "jobs",
+      ],
+      properties: {
+        jobs: {
+          additionalProperties: {
+            order: [
+              "name",
+              "needs",
+              "if",
+              "runs-on",
+              "environment",
+              "permissions",
+              "concurrency",
+              "strategy",
+              "container",
+              "services",
+              "outputs",
+              "env",
+              "defaults",
+              "timeout-minutes",
+              "continue-on-error",
+              "uses",
+              "with",
+              "secrets",
+              "steps",
+            ],
+            properties: { steps: WORKFLOW_STEP_ORDER },
+          },
+        },
+      },
+    },
+    compose: {
+      files: [
+        "docker-compose*.yml",
+        "docker-compose*.yaml",
+        "compose*.yml",
+        "compose*.yaml",
+      ],
+      order: [
+        "version",
+        "name",
+        "services",
+        "networks",
+        "volumes",
+        "configs",
+        "secrets",
+      ],
+      properties: {
+        services: {
+          additionalProperties: {
+            order: [
+              "image",
+              "build",
+              "ports",
+              "container_name",
+              "command",
+              "entrypoint",
+              "environment",
+              "env_file",
+              "volumes",
+              "depends_on",
+              "networks",
+              "restart",
+            ],
+          },
+        },
+      },
+    },
+  };
+
+/**
+ * **Orders mapping keys of YAML documents by dialect profiles**
+ *
+ * Pairs move together with their comments. Keys a schema does not list
+ * keep their relative order after the listed ones.
+ */
+export class YamlKeyOrder {
+  private constructor() {}
+
+  /**
+   * **Find the profile for a document**
+   * `profile` is a profile name, or `auto` to detect it. User profiles take
+   * precedence over the built-in ones.
+   */
+  static findProfile(
+    document: YamlDocument,
+    fileName: string,
+    profile: string,
+    userProfiles: Record<string, YamlKeyOrderProfile> = {}
+  ): YamlKeyOrderProfile | undefined {
+    const profiles = { ...BUILT_IN_KEY_ORDER_PROFILES, ...userProfiles };
+    if (profile !== "auto") {
+      return profiles[profile];
+    }
+
+    const root = document.contents.value;
+    const rootKeys =
+      root?.type === "mapping"
+        ? root.pairs.map((pair) => YamlParser.getKeyName(pair))
+        : [];
+    const candidates = [
+      ...Object.values(userProfiles),
+      ...Object.values(BUILT_IN_KEY_ORDER_PROFILES),
+    ];
+    return candidates.find(
+      (candidate) =>
+        candidate.files?.some((pattern) =>
+          YamlKeyOrder.matchesPattern(fileName, pattern)
+        ) ||
+        (candidate.keys !== undefined &&
+          candidate.keys.length > 0 &&
+          candidate.keys.every((key) => rootKeys.includes(key)))
+    );
+  }
+
+  /**
+   * **Reorder the pairs of a node and the nodes below it**
+   */
+  static apply(node: YamlNode | undefined, schema: YamlKeyOrderSchema): void {
+    if (node?.type === "sequence") {
+      for (const item of node.items) {
+        YamlKeyOrder.apply(item.value, schema);
+      }
+      return;
+    }
+    if (node?.type !== "mapping") {
+      return;
+    }
+
+    YamlKeyOrder.sortPairs(node, schema.order || []);
+    for (const pair of node.pairs) {
+      const name = YamlParser.getKeyName(pair);
+      const child =
+        (name !== undefined ? schema.properties?.[name] : undefined) ??
+        schema.additionalProperties;
+      if (child) {
+        YamlKeyOrder.apply(pair.value, child);
+      }
+    }
+  }
+
+  /**
+   * **Sort pairs by the schema order**
+   * A pair never moves above the pair defining an anchor it refers to
+   */
+  private static sortPairs(mapping: YamlMapping, order: string[]): void {
+    const anchors = mapping.pairs.map((pair) =>
+      YamlKeyOrder.collectNames(pair, "anchor")
+    );
+    const candidates = mapping.pairs.map((pair, index) => {
+      const name = YamlParser.getKeyName(pair);
+      const rank = name === undefined ? -1 : order.indexOf(name);
+      const aliases = YamlKeyOrder.collectNames(pair, "alias");
+      const dependencies = anchors
+        .slice(0, index)
+        .flatMap((defined, before) =>
+          [...aliases].some((alias) => defined.has(alias)) ? [before] : []
+        );
+      return {
+        pair,
+        index,
+        rank: rank === -1 ? order.length : rank,
+        dependencies,
+      };
+    });
+    candidates.sort((a, b) => a.rank - b.rank || a.index - b.index);
+
+    // **Take the first pair in order whose anchors are already placed**
+    const placed = new Set<number>();
+    const entries: typeof candidates = [];
+    while (candidates.length) {
+      const next = candidates.findIndex((candidate) =>
+        candidate.dependencies.every((index) => placed.has(index))
+      );
+      const [entry] = candidates.splice(next, 1);
+      placed.add(entry.index);
+      entries.push(entry);
+    }
+
+    // **Reordered pairs drop the blank lines that grouped them**
+    if (entries.some((entry, index) => entry.index !== index)) {
+      for (const entry of entries) {
+        entry.pair.blankLineBefore = false;
+      }
+    }
+    mapping.pairs = entries.map((entry) => entry.pair);
+  }
+
+  /**
+   * **Anchor or alias names used anywhere in a pair**
+   */
+  private static collectNames(
+    pair: YamlPair,
+    kind: "anchor" | "alias"
+  ): Set<string> {
+    const names = new Set<string>();
+    const visit = (node: YamlNode | undefined): void => {
+      if (!node) {
+        return;
+      }
+      if (node.type === "alias") {
+        if (kind === "alias") {
+          names.add(node.name);
+        }
+        return;
+      }
+      if (kind === "anchor" && node.anchor) {
+        names.add(node.anchor.slice(1));
+      }
+      if (node.type === "sequence") {
+        node.items.forEach((item) => visit(item.value));
+      } else if (node.type === "mapping") {
+        node.pairs.forEach((child) => {
+          visit(child.key);
+          visit(child.value);
+        });
+      }
+    };
+    visit(pair.key);
+    visit(pair.value);
+    return names;
+  }
+
+  /**
+   * **Check a file path against a glob**
+   * Patterns without a `/` match the file name, others the end of the path
+   */
+  private static matchesPattern(filePath: string, pattern: string): boolean {
+    const path = filePath.replace(/\\/g, "/");
+    const source = pattern
+      .replace(/[.+^${}()|[\]\\]/g, "\\$&")
+      .replace(/\*/g, "[^/]*")
+      .replace(/\?/g, "[^/]");
+    return new RegExp(`(^|/)${source}$`).test(path);
+  }
+}
@@ -0,0 +1,1002 @@
+import { ParseError } from "../errors/format-error";
+import {
+  YamlComment,
+  YamlDocument,
+  YamlItem,
+  YamlMapping,
+  YamlNode,
+  YamlPair,
+  YamlPosition,
+  YamlProperties,
+  YamlScalar,
+  YamlSequence,
+  YamlStream,
+} from "../types/yaml-cst";
+
+/**
+ * **Comments and blank lines before the next line with content**
+ */
+interface LineGap {
+  comments: YamlComment[];
+  blankLine: boolean;
+}
+
+const FLOW_INDICATORS = ",[]{}";
+
+/**
+ * **Concrete syntax tree parser for YAML streams**
+ *
+ * Follows the block structure through indentation and keeps scalars in
+ * their source form, together with comments, anchors, aliases, tags and
+ * document markers, so a stream can be printed back without loss.
+ */
+export class YamlParser {
+  private readonly text: string;
+  private readonly lineStarts: number[] = [0];
+  private offset = 0;
+
+  constructor(
+    text: string,
+    private readonly languageId: string = "yaml"
+  ) {
+    this.text = text.replace(/\r\n?/g, "\n");
+    if (this.text.charCodeAt(0) === 0xfeff) {
+      this.text = " " + this.text.slice(1);
+    }
+    for (let i = 0; i < this.text.length; i++) {
+      if (this.text[i] === "\n") {
+        this.lineStarts.push(i + 1);
+      }
+    }
+  }
+
+  /**
+   * **Parse text into a YAML stream**
+   */
+  static parse(text: string, languageId: string = "yaml"): YamlStream {
+    return new YamlParser(text, languageId).parse();
+  }
+
+  /**
+   * **Get the value of a single line scalar key**
+   * Keys written as collections, aliases or block scalars have none
+   */
+  static getKeyName(pair: YamlPair): string | undefined {
+    const key = pair.key;
+    if (key?.type !== "scalar" || key.lines.length !== 1) {
+      return undefined;
+    }
+
+    const text = key.lines[0];
+    if (key.style === "single") {
+      return text.slice(1, -1).replace(/''/g, "'");
+    }
+    if (key.style === "double") {
+      try {
+        return JSON.parse(text);
+      } catch {
+        return text.slice(1, -1);
+      }
+    }
+    return key.style === "plain" ? text : undefined;
+  }
+
+  /**
+   * **Parse every document of the stream**
+   */
+  parse(): YamlStream {
+    const documents: YamlDocument[] = [];
+
+    while (true) {
+      const gap = this.skipLines();
+      if (this.offset >= this.text.length) {
+        return { documents, danglingComments: gap.comments };
+      }
+      documents.push(this.parseDocument(gap.comments));
+    }
+  }
+
+  /**
+   * **Parse directives, markers and the root node of one document**
+   */
+  private parseDocument(leadingComments: YamlComment[]): YamlDocument {
+    const directives: string[] = [];
+    while (this.text[this.offset] === "%") {
+      const end = this.lineEnd(this.offset);
+      directives.push(this.text.slice(this.offset, end).trimEnd());
+      this.offset = Math.min(end + 1, this.text.length);
+      leadingComments.push(...this.skipLines().comments);
+    }
+
+    const explicitStart = this.isDocumentMarker(this.offset, "---");
+    if (directives.length > 0 && !explicitStart) {
+      throw this.error("Expected '---' after directives", this.offset);
+    }
+
+    let contents: YamlItem;
+    if (explicitStart) {
+      this.offset += 3;
+      contents = this.parseValue(-1, false);
+    } else if (this.isDocumentMarker(this.offset, "...")) {
+      contents = this.createItem();
+    } else {
+      contents = this.parseBlockNode(-1, { comments: [], blankLine: false });
+    }
+
+    const gap = this.skipLines();
+    const explicitEnd = this.isDocumentMarker(this.offset, "...");
+    if (explicitEnd) {
+      this.offset += 3;
+      this.readLineEnd();
+    } else if (
+      this.offset < this.text.length &&
+      !this.isDocumentMarker(this.offset, "---")
+    ) {
+      throw this.error(
+        "Unexpected content after the document",
+        this.skipSpaces(this.offset)
+      );
+    }
+
+    return {
+      directives,
+      explicitStart,
+      explicitEnd,
+      leadingComments,
+      contents,
+      danglingComments: gap.comments,
+    };
+  }
+
+  /**
+   * **Skip blank lines and collect own-line comments**
+   * Starts at the beginning of a line and stops at the beginning of the next
+   * line with content
+   */
+  private skipLines(): LineGap {
+    const comments: YamlComment[] = [];
+    let blankLines = 0;
+
+    while (this.offset < this.text.length) {
+      const end = this.lineEnd(this.offset);
+      const content = this.skipSpaces(this.offset);
+      if (content >= end) {
+        blankLines++;
+      } else if (this.text[content] === "#") {
+        comments.push({
+          text: this.text.slice(content, end).trimEnd(),
+          start: this.getPosition(content),
+          blankLineBefore: blankLines > 0,
+        });
+        blankLines = 0;
+      } else {
+        break;
+      }
+      this.offset = Math.min(end + 1, this.text.length);
+    }
+
+    return { comments, blankLine: blankLines > 0 };
+  }
+
+  /**
+   * **Read the rest of a line: spaces and an optional comment**
+   * Leaves the offset at the start of the next line
+   */
+  private readLineEnd(): YamlComment | undefined {
+    const start = this.skipSpaces(this.offset);
+    const end = this.lineEnd(start);
+    let comment: YamlComment | undefined;
+
+    if (this.text[start] === "#") {
+      if (
+        start > this.lineStart(start) &&
+        !/[ \t]/.test(this.text[start - 1])
+      ) {
+        throw this.error("Comments must be separated by a space", start);
+      }
+      comment = {
+        text: this.text.slice(start, end).trimEnd(),
+        start: this.getPosition(start),
+        blankLineBefore: false,
+      };
+    } else if (start < end) {
+      const message =
+        this.text[start] === ":"
+          ? "Mapping values are not allowed here"
+          : `Unexpected "${this.text.slice(start, end).trim()}"`;
+      throw this.error(message, start);
+    }
+
+    this.offset = Math.min(end + 1, this.text.length);
+    return comment;
+  }
+
+  /**
+   * **Parse the value after an indicator such as `key:`, `-` or `---`**
+   * The value may follow on the same line or start on a more indented line
+   * below. `inlineCollection` allows a compact block collection on the same
+   * line, as in `- key: value`, and `flushSequence` a sequence at the
+   * parent's own indentation, as in `key:` followed by `- item`.
+   */
+  private parseValue(
+    parentIndent: number,
+    inlineCollection: boolean,
+    flushSequence: boolean = false
+  ): YamlItem {
+    const item = this.createItem();
+    this.offset = this.skipSpaces(this.offset);
+    const propertiesStart = this.offset;
+    const properties = this.parseProperties();
+    const char = this.text[this.offset];
+
+    if (this.atLineEnd(this.offset)) {
+      item.comment = this.readLineEnd();
+      const start = this.offset;
+      const gap = this.skipLines();
+      const indent = this.skipSpaces(this.offset) - this.offset;
+      const nested =
+        this.offset < this.text.length &&
+        !this.isDocumentMarker(this.offset, "---") &&
+        !this.isDocumentMarker(this.offset, "...") &&
+        (indent > parentIndent ||
+          (flushSequence &&
+            indent === parentIndent &&
+            this.isIndicator(this.offset + indent, "-")));
+
+      if (nested) {
+        const value = this.parseBlockNode(parentIndent, gap);
+        if (value.value?.type === "sequence" && !value.value.flow) {
+          value.value.indented = indent > parentIndent;
+        }
+        if (item.comment && value.valueComments.length > 0) {
+          value.valueComments.unshift(item.comment);
+          item.comment = undefined;
+        } else if (item.comment && value.comment) {
+          value.valueComments.unshift(item.comment);
+          item.comment = value.comment;
+        } else {
+          item.comment = item.comment ?? value.comment;
+        }
+        item.value = value.value;
+        item.valueComments = value.valueComments;
+      } else {
+        this.offset = start;
+        if (properties) {
+          item.value = this.createScalar("plain", [], propertiesStart);
+        }
+      }
+    } else if (char === "|" || char === ">") {
+      item.value = this.parseBlockScalar(parentIndent, item);
+    } else if (
+      inlineCollection &&
+      !properties &&
+      (this.isIndicator(this.offset, "-") || this.isIndicator(this.offset, "?"))
+    ) {
+      const column = this.offset - this.lineStart(this.offset);
+      item.value =
+        char === "-"
+          ? this.parseBlockSequence(column)
+          : this.parseBlockMapping(column);
+      return item;
+    } else if (inlineCollection && this.isImplicitKey(propertiesStart)) {
+      this.offset = propertiesStart;
+      const column = this.offset - this.lineStart(this.offset);
+      item.value = this.parseBlockMapping(column);
+      return item;
+    } else {
+      item.value = this.parseFlowNode(parentIndent, false, true);
+      item.comment = this.readLineEnd();
+    }
+
+    if (properties && item.value && item.value.type !== "alias") {
+      if (
+        (item.value.anchor && properties.anchor) ||
+        (item.value.tag && properties.tag)
+      ) {
+        throw this.error(
+          "A node can only have one anchor and one tag",
+          propertiesStart
+        );
+      }
+      Object.assign(item.value, properties);
+    } else if (properties) {
+      throw this.error("Aliases cannot have properties", propertiesStart);
+    }
+    return item;
+  }
+
+  /**
+   * **Parse a node that starts on a line of its own**
+   * The comments above it go to its first entry, or stay with the value
+   * when it is a scalar
+   */
+  private parseBlockNode(parentIndent: number, gap: LineGap): YamlItem {
+    this.offset = this.skipSpaces(this.offset);
+    const item = this.parseValue(parentIndent, true);
+    const value = item.value;
+
+    if (value && (value.type === "mapping" || value.type === "sequence")) {
+      const entries: YamlItem[] =
+        value.type === "mapping" ? value.pairs : value.items;
+      if (!value.flow && entries.length > 0) {
+        entries[0].leadingComments.unshift(...gap.comments);
+        return item;
+      }
+    }
+    item.valueComments.unshift(...gap.comments);
+    return item;
+  }
+
+  /**
+   * **Parse a block mapping whose keys start at `indent`**
+   */
+  private parseBlockMapping(indent: number): YamlMapping {
+    const mapping: YamlMapping = {
+      type: "mapping",
+      flow: false,
+      pairs: [],
+      danglingComments: [],
+      start: this.getPosition(this.offset),
+    };
+    let gap: LineGap | undefined = { comments: [], blankLine: false };
+
+    while (gap) {
+      const pair = this.parsePair(indent);
+      pair.leadingComments.unshift(...gap.comments);
+      pair.blankLineBefore = gap.blankLine;
+      mapping.pairs.push(pair);
+      gap = this.nextEntry(indent, false, mapping.danglingComments);
+    }
+
+    return mapping;
+  }
+
+  /**
+   * **Parse one `key: value` or `? key` pair of a block mapping**
+   */
+  private parsePair(indent: number): YamlPair {
+    const pair: YamlPair = { ...this.createItem(), explicitKey: false };
+
+    if (this.isIndicator(this.offset, "?")) {
+      this.offset++;
+      const key = this.parseValue(indent, true);
+      pair.explicitKey = true;
+      pair.key = key.value;
+      pair.leadingComments.push(...key.valueComments);
+      pair.comment = key.comment;
+
+      const start = this.offset;
+      const gap = this.skipLines();
+      if (
+        this.skipSpaces(this.offset) === this.offset + indent &&
+        this.isIndicator(this.offset + indent, ":")
+      ) {
+        this.offset += indent + 1;
+        const value = this.parseValue(indent, true);
+        value.valueComments.unshift(...gap.comments);
+        if (pair.comment) {
+          value.valueComments.unshift(pair.comment);
+        }
+        Object.assign(pair, {
+          value: value.value,
+          comment: value.comment,
+          valueComments: value.valueComments,
+        });
+      } else {
+        this.offset = start;
+      }
+      return pair;
+    }
+
+    pair.key = this.parseFlowNode(indent, false, false);
+    this.offset = this.skipSpaces(this.offset);
+    if (this.text[this.offset] !== ":") {
+      throw this.error("Expected ':' after the mapping key", this.offset);
+    }
+    this.offset++;
+    const value = this.parseValue(indent, false, true);
+    pair.value = value.value;
+    pair.comment = value.comment;
+    pair.valueComments = value.valueComments;
+    return pair;
+  }
+
+  /**
+   * **Parse a block sequence whose `-` indicators are at `indent`**
+   */
+  private parseBlockSequence(indent: number): YamlSequence {
+    const sequence: YamlSequence = {
+      type: "sequence",
+      flow: false,
+      items: [],
+      danglingComments: [],
+      indented: true,
+      start: this.getPosition(this.offset),
+    };
+    let gap: LineGap | undefined = { comments: [], blankLine: false };
+
+    while (gap) {
+      this.offset++;
+      const item = this.parseValue(indent, true);
+      item.leadingComments.unshift(...gap.comments);
+      item.blankLineBefore = gap.blankLine;
+      sequence.items.push(item);
+      gap = this.nextEntry(indent, true, sequence.danglingComments);
+    }
+
+    return sequence;
+  }
+
+  /**
+   * **Move to the next entry of a block collection at `indent`**
+   * Returns the comments and blank lines before it, or undefined at the end
+   * of the collection after taking the comments indented like its entries
+   */
+  private nextEntry(
+    indent: number,
+    sequence: boolean,
+    danglingComments: YamlComment[]
+  ): LineGap | undefined {
+    const start = this.offset;
+    const gap = this.skipLines();
+    const entry = this.offset + indent;
+
+    if (
+      this.offset < this.text.length &&
+      this.skipSpaces(this.offset) === entry &&
+      !this.isDocumentMarker(this.offset, "---") &&
+      !this.isDocumentMarker(this.offset, "...") &&
+      this.isIndicator(entry, "-") === sequence
+    ) {
+      this.offset = entry;
+      return gap;
+    }
+
+    this.offset = start;
+    for (const comment of gap.comments) {
+      if (comment.start.column - 1 < indent) {
+        break;
+      }
+      danglingComments.push(comment);
+      this.offset = this.lineStarts[comment.start.line] ?? this.text.length;
+    }
+    return undefined;
+  }
+
+  /**
+   * **Parse an alias, flow collection or flow scalar**
+   * `multiline` lets plain and quoted scalars continue on the lines below
+   */
+  private parseFlowNode(
+    parentIndent: number,
+    inFlow: boolean,
+    multiline: boolean
+  ): YamlNode {
+    const start = this.offset;
+    const properties = this.parseProperties();
+    const char = this.text[this.offset];
+    let node: YamlNode;
+
+    if (char === "*") {
+      let end = this.offset + 1;
+      while (end < this.text.length && !this.isNameEnd(end)) {
+        end++;
+      }
+      if (end === this.offset + 1) {
+        throw this.error("Expected an alias name", this.offset);
+      }
+      node = {
+        type: "alias",
+        name: this.text.slice(this.offset + 1, end),
+        start: this.getPosition(this.offset),
+      };
+      this.offset = end;
+    } else if (char === "[" || char === "{") {
+      node = this.parseFlowCollection(parentIndent);
+    } else if (char === '"' || char === "'") {
+      node = this.parseQuotedScalar();
+    } else if (
+      properties &&
+      (this.atLineEnd(this.offset) ||
+        char === ":" ||
+        (inFlow && FLOW_INDICATORS.includes(char)))
+    ) {
+      node = this.createScalar("plain", [], start);
+    } else {
+      node = this.parsePlainScalar(parentIndent, inFlow, multiline);
+    }
+
+    if (properties && node.type === "alias") {
+      throw this.error("Aliases cannot have properties", start);
+    }
+    return properties ? Object.assign(node, properties) : node;
+  }
+
+  /**
+   * **Parse `&anchor` and `!tag` properties in either order**
+   */
+  private parseProperties(): YamlProperties | undefined {
+    let properties: YamlProperties | undefined;
+
+    while (this.text[this.offset] === "&" || this.text[this.offset] === "!") {
+      const kind = this.text[this.offset] === "&" ? "anchor" : "tag";
+      let end = this.offset + 1;
+      if (kind === "tag" && this.text[end] === "<") {
+        end = this.text.indexOf(">", end) + 1;
+        if (end === 0) {
+          throw this.error("Unterminated verbatim tag", this.offset);
+        }
+      } else {
+        while (end < this.text.length && !this.isNameEnd(end)) {
+          end++;
+        }
+      }
+
+      properties = properties ?? {};
+      if (properties[kind] || (kind === "anchor" && end === this.offset + 1)) {
+        throw this.error(`Invalid ${kind}`, this.offset);
+      }
+      properties[kind] = this.text.slice(this.offset, end);
+      this.offset = this.skipSpaces(end);
+    }
+    return properties;
+  }
+
+  /**
+   * **Parse a single or double quoted scalar**
+   * Line breaks fold the whitespace around them, so continuation lines are
+   * kept without it
+   */
+  private parseQuotedScalar(): YamlScalar {
+    const start = this.offset;
+    const quote = this.text[start];
+    let end = start + 1;
+
+    while (true) {
+      const char = this.text[end];
+      if (char === undefined) {
+        throw this.error("Unterminated quoted scalar", start);
+      }
+      if (char === "\\" && quote === '"') {
+        end += 2;
+        continue;
+      }
+      if (char === quote && quote === "'" && this.text[end + 1] === "'") {
+        end += 2;
+        continue;
+      }
+      if (char === quote) {
+        break;
+      }
+      end++;
+    }
+
+    this.offset = end + 1;
+    const lines = this.text.slice(start, end + 1).split("\n");
+    return this.createScalar(
+      quote === '"' ? "double" : "single",
+      lines.map((line, index) => {
+        const trimmed = index > 0 ? line.trimStart() : line;
+        if (index === lines.length - 1) {
+          return trimmed;
+        }
+        // **An escaped space before a line break is part of the value**
+        const trailing = /(\\*)[ \t]+$/.exec(trimmed);
+        if (!trailing) {
+          return trimmed;
+        }
+        const escaped = quote === '"' && trailing[1].length % 2 === 1;
+        return trimmed.slice(
+          0,
+          trailing.index + trailing[1].length + (escaped ? 1 : 0)
+        );
+      }),
+      start
+    );
+  }
+
+  /**
+   * **Parse a plain scalar**
+   * Continuation lines must be indented past the parent node in block
+   * context; a comment or a line that is not indented enough ends it
+   */
+  private parsePlainScalar(
+    parentIndent: number,
+    inFlow: boolean,
+    multiline: boolean
+  ): YamlScalar {
+    const start = this.offset;
+    const char = this.text[start];
+    if (
+      "#&*!|>%@`'\"".includes(char) ||
+      FLOW_INDICATORS.includes(char) ||
+      ("-?:".includes(char) && this.isSpaceOrEnd(start + 1))
+    ) {
+      throw this.error(`Unexpected "${char}"`, start);
+    }
+
+    this.offset = this.scanPlainLine(start, inFlow);
+    const lines = [this.text.slice(start, this.offset)];
+
+    while (multiline) {
+      const lineBreak = this.skipSpaces(this.offset);
+      if (this.text[lineBreak] !== "\n") {
+        break;
+      }
+
+      let next = lineBreak + 1;
+      let blankLines = 0;
+      while (
+        next < this.text.length &&
+        this.skipSpaces(next) === this.lineEnd(next)
+      ) {
+        blankLines++;
+        next = this.lineEnd(next) + 1;
+      }
+
+      const content = this.skipSpaces(next);
+      const end = this.scanPlainLine(content, inFlow);
+      if (
+        next >= this.text.length ||
+        (!inFlow && content - next <= parentIndent) ||
+        this.text[content] === "#" ||
+        this.isDocumentMarker(next, "---") ||
+        this.isDocumentMarker(next, "...") ||
+        end === content
+      ) {
+        break;
+      }
+
+      lines.push(...new Array(blankLines).fill(""));
+      lines.push(this.text.slice(content, end));
+      this.offset = end;
+    }
+
+    return this.createScalar("plain", lines, start);
+  }
+
+  /**
+   * **Find where a plain scalar ends on the line starting at `start`**
+   * Trailing spaces are left out
+   */
+  private scanPlainLine(start: number, inFlow: boolean): number {
+    let end = start;
+
+    for (let i = start; i < this.text.length; i++) {
+      const char = this.text[i];
+      if (
+        char === "\n" ||
+        (inFlow && FLOW_INDICATORS.includes(char)) ||
+        (char === "#" && i > start && /[ \t]/.test(this.text[i - 1])) ||
+        (char === ":" &&
+          (this.isSpaceOrEnd(i + 1) ||
+            (inFlow && FLOW_INDICATORS.includes(this.text[i + 1]))))
+      ) {
+        break;
+      }
+      if (char !== " " && char !== "\t") {
+        end = i + 1;
+      }
+    }
+    return end;
+  }
+
+  /**
+   * **Parse a literal or folded block scalar**
+   * Lines are stored relative to the content indentation. Trailing blank
+   * lines stay with the scalar only when its header keeps them with `+`.
+   */
+  private parseBlockScalar(parentIndent: number, item: YamlItem): YamlScalar {
+    const start = this.offset;
+    let end = start + 1;
+    while (/[-+1-9]/.test(this.text[end] ?? "") && end - start < 3) {
+      end++;
+    }
+    if (!this.isSpaceOrEnd(end)) {
+      throw this.error("Invalid block scalar header", start);
+    }
+    const header = this.text.slice(start, end);
+    this.offset = end;
+    item.comment = this.readLineEnd();
+
+    const explicitIndent = /[1-9]/.exec(header);
+    let indent = explicitIndent
+      ? Math.max(parentIndent, 0) + Number(explicitIndent[0])
+      : undefined;
+    const lines: string[] = [];
+    let contentLines = 0;
+    let contentEnd = this.offset;
+
+    while (this.offset < this.text.length) {
+      const lineEnd = this.lineEnd(this.offset);
+      const line = this.text.slice(this.offset, lineEnd);
+      const spaces = /^ */.exec(line)![0].length;
+
+      if (line.trim() !== "") {
+        indent = indent ?? spaces;
+        if (
+          spaces < indent ||
+          spaces <= parentIndent ||
+          (spaces === 0 &&
+            (this.isDocumentMarker(this.offset, "---") ||
+              this.isDocumentMarker(this.offset, "...")))
+        ) {
+          break;
+        }
+        lines.push(line.slice(indent));
+        contentLines = lines.length;
+        contentEnd = Math.min(lineEnd + 1, this.text.length);
+      } else {
+        lines.push(indent !== undefined ? line.slice(indent) : "");
+      }
+      this.offset = Math.min(lineEnd + 1, this.text.length);
+    }
+
+    if (!header.includes("+")) {
+      lines.length = contentLines;
+      this.offset = contentEnd;
+    }
+    const style = header[0] === "|" ? "literal" : "folded";
+    return { ...this.createScalar(style, lines, start), header };
+  }
+
+  /**
+   * **Parse a flow mapping or sequence, which may span several lines**
+   * `key: value` entries of a flow sequence become single pair mappings
+   */
+  private parseFlowCollection(
+    parentIndent: number
+  ): YamlMapping | YamlSequence {
+    const start = this.getPosition(this.offset);
+    const close = this.text[this.offset] === "[" ? "]" : "}";
+    const entries: YamlPair[] = [];
+    this.offset++;
+    let gap = this.skipFlowSpace();
+
+    while (this.text[this.offset] !== close) {
+      if (this.offset >= this.text.length) {
+        throw this.error("Unterminated flow collection", start.offset);
+      }
+
+      const entry: YamlPair = {
+        ...this.createItem(),
+        leadingComments: gap.comments,
+        explicitKey: false,
+      };
+      const entryStart = this.getPosition(this.offset);
+      if (this.isIndicator(this.offset, "?")) {
+        this.offset++;
+        entry.explicitKey = true;
+        entry.leadingComments.push(...this.skipFlowSpace().comments);
+      }
+      let pending: YamlComment[] = [];
+      if (!this.isFlowValueIndicator(this.offset)) {
+        entry.key = this.parseFlowNode(parentIndent, true, true);
+        pending = this.skipFlowSpace().comments;
+      }
+      if (this.isFlowValueIndicator(this.offset)) {
+        this.offset++;
+        entry.valueComments.push(...pending, ...this.skipFlowSpace().comments);
+        pending = [];
+        if (![",", close].includes(this.text[this.offset])) {
+          entry.value = this.parseFlowNode(parentIndent, true, true);
+        }
+        if (close === "]" || entry.value === undefined) {
+          entry.value =
+            entry.value ?? this.createScalar("plain", [], this.offset);
+        }
+      }
+      entries.push(entry);
+
+      gap = this.skipFlowSpace();
+      gap.comments.unshift(...pending);
+      if (this.text[this.offset] === ",") {
+        this.offset++;
+        gap.comments.push(...this.skipFlowSpace().comments);
+      } else if (this.text[this.offset] !== close) {
+        throw this.error(`Expected ',' or '${close}'`, this.offset);
+      }
+      // **A comment on the line of the entry belongs to it**
+      if (gap.comments[0]?.start.line === entryStart.line) {
+        entry.comment = gap.comments.shift();
+      }
+    }
+    this.offset++;
+
+    if (close === "}") {
+      return {
+        type: "mapping",
+        flow: true,
+        pairs: entries,
+        danglingComments: gap.comments,
+        start,
+      };
+    }
+    return {
+      type: "sequence",
+      flow: true,
+      items: entries.map(
+        ({ key, value, explicitKey, valueComments, ...entry }): YamlItem => ({
+          ...entry,
+          valueComments: [],
+          value:
+            value === undefined
+              ? key
+              : {
+                  type: "mapping",
+                  flow: true,
+                  pairs: [
+                    {
+                      ...this.createItem(),
+                      key,
+                      value,
+                      explicitKey,
+                      valueComments,
+                    },
+                  ],
+                  danglingComments: [],
+                  start: key?.start ?? value.start,
+                },
+        })
+      ),
+      danglingComments: gap.comments,
+      indented: true,
+      start,
+    };
+  }
+
+  /**
+   * **Skip whitespace, line breaks and comments inside a flow collection**
+   */
+  private skipFlowSpace(): LineGap {
+    const comments: YamlComment[] = [];
+    while (this.offset < this.text.length) {
+      const char = this.text[this.offset];
+      if (char === " " || char === "\t" || char === "\n") {
+        this.offset++;
+      } else if (char === "#") {
+        const end = this.lineEnd(this.offset);
+        comments.push({
+          text: this.text.slice(this.offset, end).trimEnd(),
+          start: this.getPosition(this.offset),
+          blankLineBefore: false,
+        });
+        this.offset = end;
+      } else {
+        break;
+      }
+    }
+    return { comments, blankLine: false };
+  }
+
+  /**
+   * **Check whether a flow node followed by `:` starts at `start`**
+   */
+  private isImplicitKey(start: number): boolean {
+    const offset = this.offset;
+    try {
+      this.offset = start;
+      this.parseFlowNode(0, false, false);
+      const colon = this.skipSpaces(this.offset);
+      return this.text[colon] === ":" && this.isSpaceOrEnd(colon + 1);
+    } catch {
+      return false;
+    } finally {
+      this.offset = offset;
+    }
+  }
+
+  /**
+   * **Check for a `:` that separates a key from its value in flow context**
+   * JSON-like keys such as `"a":1` need no space after it
+   */
+  private isFlowValueIndicator(offset: number): boolean {
+    return (
+      this.text[offset] === ":" &&
+      (this.isSpaceOrEnd(offset + 1) ||
+        FLOW_INDICATORS.includes(this.text[offset + 1]) ||
+        `"']}`.includes(this.text[offset - 1]))
+    );
+  }
+
+  private isIndicator(offset: number, indicator: string): boolean {
+    return this.text[offset] === indicator && this.isSpaceOrEnd(offset + 1);
+  }
+
+  private isSpaceOrEnd(offset: number): boolean {
+    const char = this.text[offset];
+    return char === undefined || char === " " || char === "\t" || char === "\n";
+  }
+
+  /**
+   * **Anchor, alias and tag names end at whitespace and flow indicators**
+   */
+  private isNameEnd(offset: number): boolean {
+    return (
+      this.isSpaceOrEnd(offset) || FLOW_INDICATORS.includes(this.text[offset])
+    );
+  }
+
+  /**
+   * **Check for the end of the line's content, which a comment may follow**
+   */
+  private atLineEnd(offset: number): boolean {
+    const char = this.text[offset];
+    return (
+      char === undefined ||
+      char === "\n" ||
+      (char === "#" &&
+        (offset === this.lineStart(offset) ||
+          /[ \t]/.test(this.text[offset - 1])))
+    );
+  }
+
+  private isDocumentMarker(offset: number, marker: "---" | "..."): boolean {
+    return (
+      offset === this.lineStart(offset) &&
+      this.text.startsWith(marker, offset) &&
+      this.isSpaceOrEnd(offset + 3)
+    );
+  }
+
+  private skipSpaces(offset: number): number {
+    while (this.text[offset] === " " || this.text[offset] === "\t") {
+      offset++;
+    }
+    return offset;
+  }
+
+  private lineEnd(offset: number): number {
+    const end = this.text.indexOf("\n", offset);
+    return end === -1 ? this.text.length : end;
+  }
+
+  private lineStart(offset: number): number {
+    return this.lineStarts[this.getLineIndex(offset)];
+  }
+
+  private getLineIndex(offset: number): number {
+    let low = 0;
+    let high = this.lineStarts.length - 1;
+    while (low < high) {
+      const middle = Math.ceil((low + high) / 2);
+      if (this.lineStarts[middle] <= offset) {
+        low = middle;
+      } else {
+        high = middle - 1;
+      }
+    }
+    return low;
+  }
+
+  private getPosition(offset: number): YamlPosition {
+    const index = this.getLineIndex(offset);
+    return {
+      offset,
+      line: index + 1,
+      column: offset - this.lineStarts[index] + 1,
+    };
+  }
+
+  private createItem(): YamlItem {
+    return { leadingComments: [], valueComments: [], blankLineBefore: false };
+  }
+
+  private createScalar(
+    style: YamlScalar["style"],
+    lines: string[],
+    offset: number
+  ): YamlScalar {
+    return { type: "scalar", style, lines, start: this.getPosition(offset) };
+  }
+
+  private error(message: string, offset: number): ParseError {
+    const position = this.getPosition(offset);
+    return new ParseError(
+      message,
+      this.languageId,
+      position.line,
+      position.column
+    );
+  }
+}
@@ -0,0 +1,203 @@
+import { ParseError } from "../errors/format-error";
+import { YamlIssue, YamlNode, YamlScalar, YamlStream } from "../types";
+import { YamlParser } from "./yaml-parser";
+
+/**
+ * **YAML 1.1 booleans that YAML 1.2 reads as strings**
+ */
+const YAML_1_1_BOOLEANS =
+  /^(?:y|Y|yes|Yes|YES|n|N|no|No|NO|on|On|ON|off|Off|OFF)$/;
+
+/**
+ * **Integers with a leading zero, octal in YAML 1.1 and decimal in 1.2**
+ */
+const YAML_1_1_OCTALS = /^[-+]?0[0-7]+$/;
+
+/**
+ * **Checks a YAML stream beyond what the grammar requires**
+ *
+ * Reports syntax errors, then duplicate keys, aliases to anchors not
+ * defined before them, tabs used for indentation and plain scalars that
+ * YAML 1.1 and 1.2 parsers read differently.
+ */
+export class YamlValidator {
+  private readonly issues: YamlIssue[] = [];
+  private readonly blockScalarLines = new Set<number>();
+  private anchors = new Set<string>();
+
+  private constructor(private readonly tabSize: number) {}
+
+  /**
+   * **Validate YAML text**
+   * `tabSize` sets the width of the tabs that quick fixes replace
+   */
+  static validate(text: string, tabSize: number = 2): YamlIssue[] {
+    const validator = new YamlValidator(tabSize);
+    let stream: YamlStream;
+    try {
+      stream = YamlParser.parse(text);
+    } catch (error) {
+      if (!(error instanceof ParseError)) {
+        throw error;
+      }
+      validator.report("YAML_SYNTAX_ERROR", error.message, error, 0, "error");
+      return validator.issues;
+    }
+
+    for (const document of stream.documents) {
+      validator.anchors = new Set();
+      validator.visit(document.contents.value);
+      validator.checkPlainScalar(document.contents.value);
+    }
+    validator.checkIndentation(text);
+
+    return validator.issues.sort(
+      (a, b) => a.line - b.line || a.column - b.column
+    );
+  }
+
+  /**
+   * **Check a node and the nodes below it in document order**
+   */
+  private visit(node: YamlNode | undefined): void {
+    if (node?.type === "alias") {
+      if (!this.anchors.has(node.name)) {
+        this.report(
+          "YAML_UNDEFINED_ALIAS",
+          `Alias "*${node.name}" refers to an anchor that is not defined before it`,
+          node.start,
+          node.name.length + 1
+        );
+      }
+      return;
+    }
+    if (!node) {
+      return;
+    }
+
+    if (node.anchor) {
+      this.anchors.add(node.anchor.slice(1));
+    }
+    if (node.type === "scalar") {
+      if (node.style === "literal" || node.style === "folded") {
+        node.lines.forEach((_, index) =>
+          this.blockScalarLines.add(node.start.line + index + 1)
+        );
+      }
+      return;
+    }
+
+    if (node.type === "sequence") {
+      for (const item of node.items) {
+        this.visit(item.value);
+        this.checkPlainScalar(item.value);
+      }
+      return;
+    }
+
+    const keys = new Set<string>();
+    for (const pair of node.pairs) {
+      const name = YamlParser.getKeyName(pair);
+      // **Merge keys may repeat, each one merges another mapping**
+      if (name !== undefined && name !== "<<") {
+        if (keys.has(name)) {
+          this.report(
+            "YAML_DUPLICATE_KEY",
+            `Duplicate key "${name}" overrides the value set before it`,
+            pair.key!.start,
+            (pair.key as YamlScalar).lines[0].length
+          );
+        }
+        keys.add(name);
+      }
+      this.visit(pair.key);
+      this.visit(pair.value);
+      this.checkPlainScalar(pair.value);
+    }
+  }
+
+  /**
+   * **Report values that YAML 1.1 reads as booleans or octal numbers**
+   */
+  private checkPlainScalar(node: YamlNode | undefined): void {
+    if (
+      node?.type !== "scalar" ||
+      node.style !== "plain" ||
+      node.tag ||
+      node.lines.length !== 1
+    ) {
+      return;
+    }
+
+    const value = node.lines[0];
+    const meaning = YAML_1_1_BOOLEANS.test(value)
+      ? "a boolean"
+      : YAML_1_1_OCTALS.test(value)
+        ? "an octal number"
+        : undefined;
+    if (meaning) {
+      this.report(
+        "YAML_AMBIGUOUS_SCALAR",
+        `"${value}" is ${meaning} in YAML 1.1 but not in YAML 1.2, quote it to keep it a string`,
+        node.start,
+        value.length,
+        "warning",
+        { title: `Quote "${value}"`, text: `"${value}"` }
+      );
+    }
+  }
+
+  /**
+   * **Report tabs in the indentation of lines outside block scalars**
+   */
+  private checkIndentation(text: string): void {
+    text.split(/\r?\n/).forEach((line, index) => {
+      const indent = /^[ \t]*/.exec(line)![0];
+      const content = line.slice(indent.length);
+      if (
+        !indent.includes("\t") ||
+        !content ||
+        content.startsWith("#") ||
+        this.blockScalarLines.has(index + 1)
+      ) {
+        return;
+      }
+
+      let columns = 0;
+      for (const char of indent) {
+        columns =
+          char === "\t"
+            ? columns + this.tabSize - (columns % this.tabSize)
+            : columns + 1;
+      }
+      this.report(
+        "YAML_TAB_INDENTATION",
+        "YAML does not allow tabs for indentation",
+        { line: index + 1, column: 1 },
+        indent.length,
+        "warning",
+        { title: "Replace tabs with spaces", text: " ".repeat(columns) }
+      );
+    });
+  }
+
+  private report(
+    code: string,
+    message: string,
+    start: { line: number; column: number },
+    length: number,
+    severity: YamlIssue["severity"] = "warning",
+    fix?: YamlIssue["fix"]
+  ): void {
+    this.issues.push({
+      code,
+      message,
+      line: start.line,
+      column: start.column,
+      endLine: start.line,
+      endColumn: start.column + length,
+      severity,
+      fix,
+    });
+  }
+}